@@ -13,6 +13,40 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === 'production');
 
+// Bundles a worker entry point on its own and inlines the result as a string:
+// import code from 'inline-worker:./IndexWorker' gives the worker's source, started from a Blob URL
+const inlineWorkerPlugin = {
+	name: 'inline-worker',
+	setup(build) {
+		build.onResolve({ filter: /^inline-worker:/ }, (args) => ({
+			path: path.resolve(args.resolveDir, args.path.slice('inline-worker:'.length) + '.ts'),
+			namespace: 'inline-worker',
+		}));
+		build.onLoad({ filter: /.*/, namespace: 'inline-worker' }, async (args) => {
+			const result = await esbuild.build({
+				entryPoints: [args.path],
+				bundle: true,
+				write: false,
+				metafile: true,
+				format: 'iife',
+				platform: 'browser',
+				target: 'es2018',
+				minify: prod,
+				sourcemap: prod ? false : 'inline',
+				tsconfig: 'tsconfig.json',
+				loader: {
+					".wasm": "binary",
+				},
+			});
+			return {
+				contents: result.outputFiles[0].text,
+				loader: 'text',
+				watchFiles: Object.keys(result.metafile.inputs).map((input) => path.resolve(input)),
+			};
+		});
+	},
+};
+
 const buildOptions = {
 	banner: {
 		js: banner,
@@ -44,7 +78,7 @@ const buildOptions = {
 	loader: {
 		".wasm": "binary",
 	},
-	plugins: [],
+	plugins: [inlineWorkerPlugin],
 };
 
 if (!prod) {
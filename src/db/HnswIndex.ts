@@ -0,0 +1,292 @@
+import { SlotMatch } from './VectorCache';
+
+export interface HnswVectorSource {
+	similarity(slot: number, query: Float32Array): number;
+	getVector(slot: number): Float32Array;
+}
+
+export interface HnswOptions {
+	m?: number; // links per node on upper layers (twice as many on layer 0)
+	efConstruction?: number; // candidate list size while inserting
+	efSearch?: number; // candidate list size while querying
+	random?: () => number;
+}
+
+interface Candidate {
+	slot: number;
+	distance: number;
+}
+
+/**
+ * Binary heap of candidates ordered by distance (closest first, or farthest first for a max-heap)
+ */
+class CandidateHeap {
+	private items: Candidate[] = [];
+	private farthestFirst: boolean;
+
+	constructor(farthestFirst: boolean, initial: Candidate[] = []) {
+		this.farthestFirst = farthestFirst;
+		for (const item of initial) {
+			this.push(item);
+		}
+	}
+
+	get size(): number {
+		return this.items.length;
+	}
+
+	peek(): Candidate {
+		return this.items[0];
+	}
+
+	push(item: Candidate): void {
+		const items = this.items;
+		items.push(item);
+		let index = items.length - 1;
+		while (index > 0) {
+			const parent = (index - 1) >> 1;
+			if (!this.before(items[index], items[parent])) {
+				break;
+			}
+			[items[index], items[parent]] = [items[parent], items[index]];
+			index = parent;
+		}
+	}
+
+	pop(): Candidate | undefined {
+		const items = this.items;
+		const top = items[0];
+		const last = items.pop();
+		if (items.length > 0 && last) {
+			items[0] = last;
+			let index = 0;
+			for (;;) {
+				const left = index * 2 + 1;
+				const right = left + 1;
+				let best = index;
+				if (left < items.length && this.before(items[left], items[best])) {
+					best = left;
+				}
+				if (right < items.length && this.before(items[right], items[best])) {
+					best = right;
+				}
+				if (best === index) {
+					break;
+				}
+				[items[index], items[best]] = [items[best], items[index]];
+				index = best;
+			}
+		}
+		return top;
+	}
+
+	toSortedArray(): Candidate[] {
+		return [...this.items].sort((a, b) => a.distance - b.distance);
+	}
+
+	private before(a: Candidate, b: Candidate): boolean {
+		return this.farthestFirst ? a.distance > b.distance : a.distance < b.distance;
+	}
+}
+
+/**
+ * Hierarchical navigable small world graph (Malkov & Yashunin) over normalized vectors identified by cache slot.
+ * Removed slots are only marked as deleted; they keep routing queries until the owner rebuilds the index.
+ */
+export class HnswIndex {
+	private source: HnswVectorSource;
+	private m: number;
+	private maxLinksLayer0: number;
+	private efConstruction: number;
+	private efSearch: number;
+	private levelMultiplier: number;
+	private random: () => number;
+	private links: Map<number, number[][]> = new Map(); // slot -> neighbour slots per layer
+	private deleted: Set<number> = new Set();
+	private entryPoint: number = -1;
+	private maxLevel: number = -1;
+
+	constructor(source: HnswVectorSource, options: HnswOptions = {}) {
+		this.source = source;
+		this.m = options.m ?? 16;
+		this.maxLinksLayer0 = this.m * 2;
+		this.efConstruction = options.efConstruction ?? 100;
+		this.efSearch = options.efSearch ?? 64;
+		this.levelMultiplier = 1 / Math.log(this.m);
+		this.random = options.random ?? Math.random;
+	}
+
+	/** Number of searchable (not deleted) nodes */
+	get size(): number {
+		return this.links.size - this.deleted.size;
+	}
+
+	insert(slot: number): void {
+		if (this.links.has(slot)) {
+			return;
+		}
+
+		const vector = this.source.getVector(slot);
+		const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+		const nodeLinks: number[][] = [];
+		for (let layer = 0; layer <= level; layer++) {
+			nodeLinks.push([]);
+		}
+		this.links.set(slot, nodeLinks);
+
+		if (this.entryPoint === -1) {
+			this.entryPoint = slot;
+			this.maxLevel = level;
+			return;
+		}
+
+		let closest: Candidate = { slot: this.entryPoint, distance: this.distance(this.entryPoint, vector) };
+		for (let layer = this.maxLevel; layer > level; layer--) {
+			closest = this.greedyClosest(vector, closest, layer);
+		}
+
+		let entryPoints: Candidate[] = [closest];
+		for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+			const candidates = this.searchLayer(vector, entryPoints, this.efConstruction, layer);
+			const maxLinks = layer === 0 ? this.maxLinksLayer0 : this.m;
+			const neighbours = this.selectNeighbours(candidates, this.m);
+			nodeLinks[layer] = neighbours.map(candidate => candidate.slot);
+
+			for (const neighbour of neighbours) {
+				const neighbourLinks = this.links.get(neighbour.slot)![layer];
+				neighbourLinks.push(slot);
+				if (neighbourLinks.length > maxLinks) {
+					this.shrinkLinks(neighbour.slot, layer, maxLinks);
+				}
+			}
+
+			entryPoints = candidates;
+		}
+
+		if (level > this.maxLevel) {
+			this.maxLevel = level;
+			this.entryPoint = slot;
+		}
+	}
+
+	markDeleted(slot: number): void {
+		if (this.links.has(slot)) {
+			this.deleted.add(slot);
+		}
+	}
+
+	/**
+	 * Approximate k nearest neighbours of a normalized query, most similar first
+	 */
+	search(query: Float32Array, k: number): SlotMatch[] {
+		if (this.entryPoint === -1 || k <= 0) {
+			return [];
+		}
+
+		let closest: Candidate = { slot: this.entryPoint, distance: this.distance(this.entryPoint, query) };
+		for (let layer = this.maxLevel; layer > 0; layer--) {
+			closest = this.greedyClosest(query, closest, layer);
+		}
+
+		// Deleted nodes still occupy result slots, so widen the search by the share of deleted nodes
+		const deletedShare = Math.min(0.9, this.deleted.size / this.links.size);
+		const ef = Math.ceil(Math.max(this.efSearch, k) / (1 - deletedShare));
+		return this.searchLayer(query, [closest], ef, 0)
+			.filter(candidate => !this.deleted.has(candidate.slot))
+			.slice(0, k)
+			.map(candidate => ({ slot: candidate.slot, similarity: 1 - candidate.distance }));
+	}
+
+	private distance(slot: number, query: Float32Array): number {
+		return 1 - this.source.similarity(slot, query);
+	}
+
+	private greedyClosest(query: Float32Array, start: Candidate, layer: number): Candidate {
+		let closest = start;
+		let improved = true;
+		while (improved) {
+			improved = false;
+			for (const neighbour of this.links.get(closest.slot)![layer]) {
+				const distance = this.distance(neighbour, query);
+				if (distance < closest.distance) {
+					closest = { slot: neighbour, distance };
+					improved = true;
+				}
+			}
+		}
+		return closest;
+	}
+
+	/**
+	 * Best-first search of one layer, returning up to ef candidates sorted closest first
+	 */
+	private searchLayer(query: Float32Array, entryPoints: Candidate[], ef: number, layer: number): Candidate[] {
+		const visited = new Set<number>(entryPoints.map(candidate => candidate.slot));
+		const candidates = new CandidateHeap(false, entryPoints);
+		const results = new CandidateHeap(true, entryPoints);
+
+		while (candidates.size > 0) {
+			const current = candidates.pop()!;
+			if (results.size >= ef && current.distance > results.peek().distance) {
+				break;
+			}
+
+			for (const neighbour of this.links.get(current.slot)![layer]) {
+				if (visited.has(neighbour)) {
+					continue;
+				}
+				visited.add(neighbour);
+
+				const distance = this.distance(neighbour, query);
+				if (results.size < ef || distance < results.peek().distance) {
+					candidates.push({ slot: neighbour, distance });
+					results.push({ slot: neighbour, distance });
+					if (results.size > ef) {
+						results.pop();
+					}
+				}
+			}
+		}
+
+		return results.toSortedArray();
+	}
+
+	/**
+	 * Neighbour selection heuristic: prefer candidates that are not already covered by a closer selected neighbour,
+	 * then fill any remaining links with the closest skipped candidates
+	 */
+	private selectNeighbours(sortedCandidates: Candidate[], maxLinks: number): Candidate[] {
+		const selected: Candidate[] = [];
+		const skipped: Candidate[] = [];
+
+		for (const candidate of sortedCandidates) {
+			if (selected.length >= maxLinks) {
+				break;
+			}
+			const candidateVector = this.source.getVector(candidate.slot);
+			const covered = selected.some(existing => this.distance(existing.slot, candidateVector) < candidate.distance);
+			if (covered) {
+				skipped.push(candidate);
+			} else {
+				selected.push(candidate);
+			}
+		}
+
+		for (const candidate of skipped) {
+			if (selected.length >= maxLinks) {
+				break;
+			}
+			selected.push(candidate);
+		}
+
+		return selected;
+	}
+
+	private shrinkLinks(slot: number, layer: number, maxLinks: number): void {
+		const vector = this.source.getVector(slot);
+		const candidates = this.links.get(slot)![layer]
+			.map(neighbour => ({ slot: neighbour, distance: this.distance(neighbour, vector) }))
+			.sort((a, b) => a.distance - b.distance);
+		this.links.get(slot)![layer] = this.selectNeighbours(candidates, maxLinks).map(candidate => candidate.slot);
+	}
+}
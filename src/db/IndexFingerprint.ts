@@ -0,0 +1,26 @@
+/**
+ * How the vectors in the index were produced. Vectors from a different model or chunker are not comparable.
+ */
+export interface IndexFingerprint {
+	embeddingModel: string;
+	dimension: number;
+	chunkerVersion: number;
+	createdAt: number; // epoch milliseconds
+}
+
+/**
+ * Why the stored index cannot be used with the current embedding setup, or null when it can.
+ * The dimension is only compared when the current one is known (after an embedding has been generated).
+ */
+export function describeFingerprintMismatch(stored: IndexFingerprint, current: { embeddingModel: string; chunkerVersion: number; dimension?: number }): string | null {
+	if (stored.embeddingModel !== current.embeddingModel) {
+		return `The index was built with the embedding model "${stored.embeddingModel || 'server default'}", but "${current.embeddingModel || 'server default'}" is selected`;
+	}
+	if (current.dimension && stored.dimension && current.dimension !== stored.dimension) {
+		return `The index holds ${stored.dimension}-dimensional vectors, but the embedding model now returns ${current.dimension} dimensions`;
+	}
+	if (stored.chunkerVersion !== current.chunkerVersion) {
+		return 'The index was built with an older way of splitting notes into chunks';
+	}
+	return null;
+}
@@ -0,0 +1,159 @@
+import { IndexStorage, getBaseName, getParentPath, joinPath } from './IndexStorage';
+
+/**
+ * What happened when the index file could not be used as it was
+ * - restored: the last good backup was loaded in its place
+ * - rebuilt: no backup was usable; the index starts empty and is rebuilt
+ * - unavailable: the index could not be opened at all
+ */
+export interface IndexRecoveryReport {
+	outcome: 'restored' | 'rebuilt' | 'unavailable';
+	reason: string;
+	backupTime?: number; // when the restored backup was taken
+	quarantinePath?: string; // where the damaged file was moved
+	at: number;
+}
+
+export interface IndexBackup {
+	path: string;
+	createdAt: number;
+}
+
+export const MAX_INDEX_BACKUPS = 3;
+// A new backup is taken on load once the newest one is older than this
+export const INDEX_BACKUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const MAX_QUARANTINED_FILES = 1;
+
+/**
+ * SQLite's own structural check; returns a description of the damage or null when the file is sound
+ */
+export function checkSqliteIntegrity(db: any): string | null {
+	const problems: string[] = [];
+	const stmt = db.prepare('PRAGMA integrity_check');
+	try {
+		while (stmt.step()) {
+			const result = String(stmt.get()[0]);
+			if (result !== 'ok') {
+				problems.push(result);
+			}
+		}
+	} finally {
+		stmt.free();
+	}
+	return problems.length > 0 ? problems.slice(0, 3).join('; ') : null;
+}
+
+/**
+ * Sanity checks of the stored chunks: one vector dimension, and every vector BLOB holding exactly that many floats
+ */
+export function checkDocumentRows(db: any): string | null {
+	const countStmt = db.prepare(`
+		SELECT COUNT(DISTINCT dimension) AS dimensions,
+			SUM(CASE WHEN dimension <= 0 OR vector IS NULL OR length(vector) != dimension * 4 THEN 1 ELSE 0 END) AS bad_vectors
+		FROM documents
+	`);
+	try {
+		countStmt.step();
+		const row = countStmt.getAsObject();
+		if (Number(row.bad_vectors) > 0) {
+			return `${row.bad_vectors} chunks have damaged vectors`;
+		}
+		if (Number(row.dimensions) > 1) {
+			return `chunks have ${row.dimensions} different vector dimensions`;
+		}
+		return null;
+	} finally {
+		countStmt.free();
+	}
+}
+
+/**
+ * Text for the chat view's RAG status area
+ */
+export function describeIndexRecovery(report: IndexRecoveryReport): string {
+	switch (report.outcome) {
+		case 'restored':
+			return `The index file was damaged (${report.reason}). Restored the backup from ${new Date(report.backupTime || 0).toLocaleString()}; notes changed since then are being re-indexed.`;
+		case 'rebuilt':
+			return `The index file was damaged (${report.reason}) and no usable backup was found. ` +
+				`${report.quarantinePath ? `It was moved to ${getBaseName(report.quarantinePath)} and the` : 'The'} index is being rebuilt.`;
+		default:
+			return `The index could not be loaded (${report.reason}). All Notes search is unavailable until it loads; restart Obsidian to try again.`;
+	}
+}
+
+/**
+ * Rotating copies of the index file ("embeddings.db.bak1" is the newest) and quarantine of damaged files
+ */
+export class IndexBackups {
+	private dbPath: string;
+	private storage: IndexStorage;
+	private maxBackups: number;
+
+	constructor(dbPath: string, storage: IndexStorage, maxBackups: number = MAX_INDEX_BACKUPS) {
+		this.dbPath = dbPath;
+		this.storage = storage;
+		this.maxBackups = maxBackups;
+	}
+
+	/**
+	 * Existing backups, newest first
+	 */
+	async list(): Promise<IndexBackup[]> {
+		const backups: IndexBackup[] = [];
+		for (let i = 1; i <= this.maxBackups; i++) {
+			const backupPath = this.getBackupPath(i);
+			const stat = await this.storage.stat(backupPath);
+			if (stat) {
+				backups.push({ path: backupPath, createdAt: stat.mtime });
+			}
+		}
+		return backups;
+	}
+
+	/**
+	 * Copy the index file into the newest backup slot, shifting older backups down and dropping the oldest.
+	 * Only call this for a file that passed its checks. Returns false when the newest backup is still recent.
+	 */
+	async rotate(now: number = Date.now(), minIntervalMs: number = INDEX_BACKUP_INTERVAL_MS): Promise<boolean> {
+		const newest = this.getBackupPath(1);
+		const newestStat = await this.storage.stat(newest);
+		if (!(await this.storage.exists(this.dbPath)) || (newestStat && now - newestStat.mtime < minIntervalMs)) {
+			return false;
+		}
+
+		for (let i = this.maxBackups; i > 1; i--) {
+			const previous = this.getBackupPath(i - 1);
+			if (await this.storage.exists(previous)) {
+				await this.storage.rename(previous, this.getBackupPath(i));
+			}
+		}
+		await this.storage.copy(this.dbPath, newest);
+		await this.storage.setModifiedTime(newest, now);
+		return true;
+	}
+
+	/**
+	 * Move the damaged index file aside (keeping only the latest damaged copy) and return its new path
+	 */
+	async quarantine(now: number = Date.now()): Promise<string | undefined> {
+		if (!(await this.storage.exists(this.dbPath))) {
+			return undefined;
+		}
+
+		const dir = getParentPath(this.dbPath);
+		const prefix = `${getBaseName(this.dbPath)}.corrupt-`;
+		const previous = (await this.storage.list(dir)).filter(name => name.startsWith(prefix)).sort();
+		while (previous.length >= MAX_QUARANTINED_FILES) {
+			await this.storage.remove(joinPath(dir, previous.shift()!));
+		}
+
+		const quarantinePath = joinPath(dir, `${prefix}${now}`);
+		await this.storage.rename(this.dbPath, quarantinePath);
+		return quarantinePath;
+	}
+
+	private getBackupPath(slot: number): string {
+		return `${this.dbPath}.bak${slot}`;
+	}
+}
@@ -0,0 +1,45 @@
+export interface IndexFileStat {
+	size: number;
+	mtime: number;
+}
+
+/**
+ * File operations the index needs. The database may run in a worker without file system access,
+ * so everything it reads or writes goes through this interface and is served by the main thread.
+ */
+export interface IndexStorage {
+	exists(filePath: string): Promise<boolean>;
+	stat(filePath: string): Promise<IndexFileStat | null>;
+	read(filePath: string): Promise<Uint8Array>;
+	/**
+	 * Replace a file so that readers (and a crash) only ever see the old or the new content
+	 */
+	writeAtomic(filePath: string, data: Uint8Array): Promise<void>;
+	copy(fromPath: string, toPath: string): Promise<void>;
+	rename(fromPath: string, toPath: string): Promise<void>;
+	remove(filePath: string): Promise<void>;
+	setModifiedTime(filePath: string, time: number): Promise<void>;
+	ensureDirectory(dirPath: string): Promise<boolean>;
+	list(dirPath: string): Promise<string[]>;
+}
+
+export const INDEX_STORAGE_OPERATIONS: (keyof IndexStorage)[] = [
+	'exists', 'stat', 'read', 'writeAtomic', 'copy', 'rename', 'remove', 'setModifiedTime', 'ensureDirectory', 'list'
+];
+
+/**
+ * Path helpers that work without Node's path module, which is not available inside a worker
+ */
+export function getParentPath(filePath: string): string {
+	const index = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'));
+	return index <= 0 ? filePath.substring(0, index + 1) : filePath.substring(0, index);
+}
+
+export function getBaseName(filePath: string): string {
+	return filePath.substring(Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\')) + 1);
+}
+
+export function joinPath(dirPath: string, name: string): string {
+	const separator = dirPath.indexOf('\\') !== -1 && dirPath.indexOf('/') === -1 ? '\\' : '/';
+	return /[\\/]$/.test(dirPath) ? dirPath + name : dirPath + separator + name;
+}
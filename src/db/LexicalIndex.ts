@@ -0,0 +1,142 @@
+export interface LexicalSearchResult {
+	id: string;
+	score: number;
+}
+
+interface LexicalEntry {
+	filePath: string;
+	length: number;
+	termFrequencies: Map<string, number>;
+}
+
+// Standard Okapi BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Letters and digits (Latin, Greek, Cyrillic, CJK, Hangul), joined by internal dashes, dots or underscores
+const TERM_PATTERN = /[a-z0-9\u00c0-\u024f\u0370-\u04ff\u3040-\u9fff\uac00-\ud7af]+(?:[-_.][a-z0-9\u00c0-\u024f\u0370-\u04ff\u3040-\u9fff\uac00-\ud7af]+)*/g;
+
+/**
+ * In-memory BM25 index over the paragraph text stored in the documents table.
+ * Catches exact names, acronyms and project codes that embeddings tend to miss.
+ */
+export class LexicalIndex {
+	private entries: Map<string, LexicalEntry> = new Map();
+	private idsByFile: Map<string, Set<string>> = new Map();
+	private documentFrequencies: Map<string, number> = new Map();
+	private totalLength: number = 0;
+
+	/**
+	 * Split text into lowercase terms. Keeps internal dashes, dots and underscores so codes like "PRJ-42" stay whole.
+	 */
+	static tokenize(text: string): string[] {
+		const matches = text.toLowerCase().match(TERM_PATTERN);
+		return matches ? matches : [];
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	clear(): void {
+		this.entries.clear();
+		this.idsByFile.clear();
+		this.documentFrequencies.clear();
+		this.totalLength = 0;
+	}
+
+	/**
+	 * Add or replace a single paragraph
+	 */
+	add(id: string, filePath: string, text: string): void {
+		this.remove(id);
+
+		const terms = LexicalIndex.tokenize(text);
+		const termFrequencies = new Map<string, number>();
+		for (const term of terms) {
+			termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+		}
+		for (const term of termFrequencies.keys()) {
+			this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+		}
+
+		this.entries.set(id, { filePath, length: terms.length, termFrequencies });
+		this.totalLength += terms.length;
+
+		if (!this.idsByFile.has(filePath)) {
+			this.idsByFile.set(filePath, new Set());
+		}
+		this.idsByFile.get(filePath)!.add(id);
+	}
+
+	remove(id: string): void {
+		const entry = this.entries.get(id);
+		if (!entry) {
+			return;
+		}
+
+		for (const term of entry.termFrequencies.keys()) {
+			const frequency = (this.documentFrequencies.get(term) || 1) - 1;
+			if (frequency > 0) {
+				this.documentFrequencies.set(term, frequency);
+			} else {
+				this.documentFrequencies.delete(term);
+			}
+		}
+
+		this.totalLength -= entry.length;
+		this.entries.delete(id);
+
+		const fileIds = this.idsByFile.get(entry.filePath);
+		if (fileIds) {
+			fileIds.delete(id);
+			if (fileIds.size === 0) {
+				this.idsByFile.delete(entry.filePath);
+			}
+		}
+	}
+
+	removeFile(filePath: string): void {
+		const fileIds = this.idsByFile.get(filePath);
+		if (!fileIds) {
+			return;
+		}
+		for (const id of Array.from(fileIds)) {
+			this.remove(id);
+		}
+	}
+
+	/**
+	 * Rank paragraphs by BM25 score for the query, best first
+	 */
+	search(query: string, limit: number): LexicalSearchResult[] {
+		const queryTerms = Array.from(new Set(LexicalIndex.tokenize(query)));
+		if (queryTerms.length === 0 || this.entries.size === 0) {
+			return [];
+		}
+
+		const documentCount = this.entries.size;
+		const averageLength = this.totalLength / documentCount || 1;
+		const results: LexicalSearchResult[] = [];
+
+		for (const [id, entry] of this.entries) {
+			let score = 0;
+			for (const term of queryTerms) {
+				const termFrequency = entry.termFrequencies.get(term);
+				if (!termFrequency) {
+					continue;
+				}
+				const documentFrequency = this.documentFrequencies.get(term) || 0;
+				const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+				const lengthNorm = 1 - BM25_B + BM25_B * (entry.length / averageLength);
+				score += idf * (termFrequency * (BM25_K1 + 1)) / (termFrequency + BM25_K1 * lengthNorm);
+			}
+			if (score > 0) {
+				results.push({ id, score });
+			}
+		}
+
+		return results
+			.sort((a, b) => b.score - a.score)
+			.slice(0, limit);
+	}
+}
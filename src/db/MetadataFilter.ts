@@ -0,0 +1,278 @@
+/**
+ * Restricts retrieval to chunks whose file matches every given condition
+ */
+export interface MetadataFilter {
+	tags?: string[]; // any of these tags (nested tags match their parent, e.g. "work" matches "work/meetings")
+	folders?: string[]; // any of these folders, including subfolders
+	filePaths?: string[]; // any of these files
+	modifiedAfter?: number; // epoch milliseconds
+	modifiedBefore?: number; // epoch milliseconds
+	frontmatter?: Record<string, string>; // every key must have this value
+	matchNone?: boolean; // the conditions cannot all hold (e.g. a note link that did not resolve), so nothing matches
+}
+
+/**
+ * Filterable properties stored alongside every chunk of a file
+ */
+export interface FileFilterMetadata {
+	folder: string;
+	tags: string[];
+	frontmatter: Record<string, string[]>;
+}
+
+export function isMetadataFilterEmpty(filter?: MetadataFilter | null): boolean {
+	if (!filter) {
+		return true;
+	}
+	return !filter.matchNone
+		&& !(filter.tags && filter.tags.length > 0)
+		&& !(filter.folders && filter.folders.length > 0)
+		&& !(filter.filePaths && filter.filePaths.length > 0)
+		&& filter.modifiedAfter === undefined
+		&& filter.modifiedBefore === undefined
+		&& !(filter.frontmatter && Object.keys(filter.frontmatter).length > 0);
+}
+
+/**
+ * Merge filters from several sources so a file must match all of them: list conditions set by more than one
+ * source are intersected, date bounds take the narrowest value
+ */
+export function combineMetadataFilters(filters: (MetadataFilter | null | undefined)[]): MetadataFilter {
+	const combined: MetadataFilter = {};
+	for (const filter of filters) {
+		if (!filter) {
+			continue;
+		}
+		if (filter.matchNone) {
+			combined.matchNone = true;
+		}
+		if (filter.tags && filter.tags.length > 0) {
+			combined.tags = combined.tags ? intersectNested(combined.tags, filter.tags, normalizeTag) : filter.tags.slice();
+		}
+		if (filter.folders && filter.folders.length > 0) {
+			combined.folders = combined.folders
+				? intersectNested(combined.folders, filter.folders, folder => normalizeFolder(folder).toLowerCase())
+				: filter.folders.slice();
+		}
+		if (filter.filePaths && filter.filePaths.length > 0) {
+			combined.filePaths = combined.filePaths
+				? combined.filePaths.filter(filePath => filter.filePaths!.indexOf(filePath) !== -1)
+				: filter.filePaths.slice();
+		}
+		if (filter.modifiedAfter !== undefined) {
+			combined.modifiedAfter = Math.max(combined.modifiedAfter ?? filter.modifiedAfter, filter.modifiedAfter);
+		}
+		if (filter.modifiedBefore !== undefined) {
+			combined.modifiedBefore = Math.min(combined.modifiedBefore ?? filter.modifiedBefore, filter.modifiedBefore);
+		}
+		for (const key of Object.keys(filter.frontmatter || {})) {
+			const value = filter.frontmatter![key];
+			const conflicting = Object.keys(combined.frontmatter || {}).some(existingKey =>
+				normalizeFrontmatterPart(existingKey) === normalizeFrontmatterPart(key)
+				&& normalizeFrontmatterPart(combined.frontmatter![existingKey]) !== normalizeFrontmatterPart(value));
+			if (conflicting) {
+				combined.matchNone = true;
+			}
+			combined.frontmatter = { ...combined.frontmatter, [key]: value };
+		}
+	}
+
+	if ((combined.tags && combined.tags.length === 0)
+		|| (combined.folders && combined.folders.length === 0)
+		|| (combined.filePaths && combined.filePaths.length === 0)) {
+		combined.matchNone = true;
+	}
+	return combined;
+}
+
+/**
+ * Intersect two "any of" lists of nested values (tags or folders), where a value also matches everything below it.
+ * A value is kept when the other list has it or one of its parents, e.g. "work" and "work/meetings" give "work/meetings".
+ */
+function intersectNested(first: string[], second: string[], toKey: (value: string) => string): string[] {
+	const covers = (parent: string, child: string) => child === parent || child.startsWith(`${parent}/`);
+	const firstKeys = first.map(toKey);
+	const secondKeys = second.map(toKey);
+	const result: string[] = [];
+	const seen = new Set<string>();
+	const keep = (value: string, key: string) => {
+		if (key.length > 0 && !seen.has(key)) {
+			seen.add(key);
+			result.push(value);
+		}
+	};
+
+	first.forEach((value, index) => {
+		if (secondKeys.some(key => covers(key, firstKeys[index]))) {
+			keep(value, firstKeys[index]);
+		}
+	});
+	second.forEach((value, index) => {
+		if (firstKeys.some(key => covers(key, secondKeys[index]))) {
+			keep(value, secondKeys[index]);
+		}
+	});
+	return result;
+}
+
+export function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+export function normalizeFolder(folder: string): string {
+	return folder.trim().replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+}
+
+/** Vault folder of a file path ('' for the vault root) */
+export function getFolderOfPath(filePath: string): string {
+	const index = filePath.lastIndexOf('/');
+	return index === -1 ? '' : filePath.substring(0, index);
+}
+
+function normalizeFrontmatterPart(value: string): string {
+	return String(value).replace(/[|\r\n]/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Tags are stored as "|tag|nested/tag|" so a LIKE pattern can match whole tags
+ */
+export function encodeTags(tags: string[]): string {
+	const normalized = Array.from(new Set(tags.map(normalizeTag).filter(tag => tag.length > 0)));
+	return normalized.length > 0 ? `|${normalized.join('|')}|` : '';
+}
+
+export function decodeTags(encoded: string | null | undefined): string[] {
+	return (encoded || '').split('|').filter(tag => tag.length > 0);
+}
+
+/**
+ * Frontmatter is stored as "|key=value|key=other|" (one entry per list item) so a LIKE pattern can match a pair
+ */
+export function encodeFrontmatter(frontmatter: Record<string, string[]>): string {
+	const pairs: string[] = [];
+	for (const key of Object.keys(frontmatter)) {
+		for (const value of frontmatter[key]) {
+			pairs.push(`${normalizeFrontmatterPart(key)}=${normalizeFrontmatterPart(value)}`);
+		}
+	}
+	return pairs.length > 0 ? `|${pairs.join('|')}|` : '';
+}
+
+export function decodeFrontmatter(encoded: string | null | undefined): Record<string, string[]> {
+	const frontmatter: Record<string, string[]> = {};
+	for (const pair of (encoded || '').split('|')) {
+		const separator = pair.indexOf('=');
+		if (separator <= 0) {
+			continue;
+		}
+		const key = pair.substring(0, separator);
+		(frontmatter[key] = frontmatter[key] || []).push(pair.substring(separator + 1));
+	}
+	return frontmatter;
+}
+
+function escapeLike(value: string): string {
+	return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Build a SQL WHERE clause over the documents table for the filter
+ */
+export function buildMetadataFilterClause(filter: MetadataFilter): { sql: string; params: (string | number)[] } {
+	if (filter.matchNone) {
+		return { sql: '0 = 1', params: [] };
+	}
+
+	const conditions: string[] = [];
+	const params: (string | number)[] = [];
+
+	const tags = (filter.tags || []).map(normalizeTag).filter(tag => tag.length > 0);
+	if (tags.length > 0) {
+		conditions.push(`(${tags.map(() => "tags LIKE ? ESCAPE '\\' OR tags LIKE ? ESCAPE '\\'").join(' OR ')})`);
+		for (const tag of tags) {
+			params.push(`%|${escapeLike(tag)}|%`, `%|${escapeLike(tag)}/%`);
+		}
+	}
+
+	const folders = (filter.folders || []).map(normalizeFolder).filter(folder => folder.length > 0);
+	if (folders.length > 0) {
+		conditions.push(`(${folders.map(() => "folder = ? COLLATE NOCASE OR folder LIKE ? ESCAPE '\\'").join(' OR ')})`);
+		for (const folder of folders) {
+			params.push(folder, `${escapeLike(folder)}/%`);
+		}
+	}
+
+	const filePaths = filter.filePaths || [];
+	if (filePaths.length > 0) {
+		conditions.push(`file_path IN (${filePaths.map(() => '?').join(', ')})`);
+		params.push(...filePaths);
+	}
+
+	if (filter.modifiedAfter !== undefined) {
+		conditions.push('last_modified >= ?');
+		params.push(filter.modifiedAfter);
+	}
+
+	if (filter.modifiedBefore !== undefined) {
+		conditions.push('last_modified <= ?');
+		params.push(filter.modifiedBefore);
+	}
+
+	const frontmatter = filter.frontmatter || {};
+	for (const key of Object.keys(frontmatter)) {
+		conditions.push("frontmatter LIKE ? ESCAPE '\\'");
+		params.push(`%|${escapeLike(`${normalizeFrontmatterPart(key)}=${normalizeFrontmatterPart(frontmatter[key])}`)}|%`);
+	}
+
+	return {
+		sql: conditions.length > 0 ? conditions.join(' AND ') : '1 = 1',
+		params
+	};
+}
+
+/**
+ * Same rules as buildMetadataFilterClause, for files checked outside the database (keyword fallback search)
+ */
+export function fileMatchesMetadataFilter(filter: MetadataFilter, filePath: string, metadata: FileFilterMetadata, modifiedAt: number): boolean {
+	if (filter.matchNone) {
+		return false;
+	}
+
+	if (filter.filePaths && filter.filePaths.length > 0 && filter.filePaths.indexOf(filePath) === -1) {
+		return false;
+	}
+
+	const tags = (filter.tags || []).map(normalizeTag).filter(tag => tag.length > 0);
+	if (tags.length > 0) {
+		const fileTags = metadata.tags.map(normalizeTag);
+		if (!tags.some(tag => fileTags.some(fileTag => fileTag === tag || fileTag.startsWith(`${tag}/`)))) {
+			return false;
+		}
+	}
+
+	const folders = (filter.folders || []).map(normalizeFolder).filter(folder => folder.length > 0);
+	if (folders.length > 0) {
+		const fileFolder = metadata.folder.toLowerCase();
+		if (!folders.some(folder => fileFolder === folder.toLowerCase() || fileFolder.startsWith(`${folder.toLowerCase()}/`))) {
+			return false;
+		}
+	}
+
+	if (filter.modifiedAfter !== undefined && modifiedAt < filter.modifiedAfter) {
+		return false;
+	}
+
+	if (filter.modifiedBefore !== undefined && modifiedAt > filter.modifiedBefore) {
+		return false;
+	}
+
+	const frontmatter = filter.frontmatter || {};
+	for (const key of Object.keys(frontmatter)) {
+		const values = (metadata.frontmatter[key] || metadata.frontmatter[normalizeFrontmatterPart(key)] || []).map(normalizeFrontmatterPart);
+		if (values.indexOf(normalizeFrontmatterPart(frontmatter[key])) === -1) {
+			return false;
+		}
+	}
+
+	return true;
+}
@@ -1,5 +1,15 @@
 import { Migration } from './migrations/Migration';
 import { Migration001 } from './migrations/001_initial_schema';
+import { Migration002 } from './migrations/002_binary_vectors';
+import { Migration003 } from './migrations/003_filter_metadata';
+import { Migration004 } from './migrations/004_heading_paths';
+import { Migration005 } from './migrations/005_chunk_hashes';
+import { Migration006 } from './migrations/006_index_metadata';
+import { Migration007 } from './migrations/007_embedding_cache';
+import { Migration008 } from './migrations/008_image_text_cache';
+import { Migration009 } from './migrations/009_pdf_source_type';
+import { Migration010 } from './migrations/010_embed_origins';
+import { Migration011 } from './migrations/011_index_failures';
 import { LoggingUtility } from '../utils/LoggingUtility';
 
 export class MigrationRunner {
@@ -8,7 +18,17 @@ export class MigrationRunner {
     constructor() {
         // Register migrations here
         this.migrations = [
-            new Migration001()
+            new Migration001(),
+            new Migration002(),
+            new Migration003(),
+            new Migration004(),
+            new Migration005(),
+            new Migration006(),
+            new Migration007(),
+            new Migration008(),
+            new Migration009(),
+            new Migration010(),
+            new Migration011()
         ];
 
         // Sort migrations by version
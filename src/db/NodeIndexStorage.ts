@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import { IndexFileStat, IndexStorage } from './IndexStorage';
+
+/**
+ * IndexStorage on the local file system
+ */
+export class NodeIndexStorage implements IndexStorage {
+	async exists(filePath: string): Promise<boolean> {
+		return fs.existsSync(filePath);
+	}
+
+	async stat(filePath: string): Promise<IndexFileStat | null> {
+		try {
+			const stats = await fs.promises.stat(filePath);
+			return { size: stats.size, mtime: stats.mtimeMs };
+		} catch {
+			return null;
+		}
+	}
+
+	async read(filePath: string): Promise<Uint8Array> {
+		return fs.promises.readFile(filePath);
+	}
+
+	/**
+	 * Write a temporary file next to the target, then rename it over the original
+	 */
+	async writeAtomic(filePath: string, data: Uint8Array): Promise<void> {
+		const tempPath = `${filePath}.tmp`;
+		try {
+			await fs.promises.writeFile(tempPath, data);
+			await fs.promises.rename(tempPath, filePath);
+		} catch (error) {
+			if (fs.existsSync(tempPath)) {
+				await fs.promises.unlink(tempPath);
+			}
+			throw error;
+		}
+	}
+
+	async copy(fromPath: string, toPath: string): Promise<void> {
+		await fs.promises.copyFile(fromPath, toPath);
+	}
+
+	async rename(fromPath: string, toPath: string): Promise<void> {
+		await fs.promises.rename(fromPath, toPath);
+	}
+
+	async remove(filePath: string): Promise<void> {
+		await fs.promises.unlink(filePath);
+	}
+
+	async setModifiedTime(filePath: string, time: number): Promise<void> {
+		const date = new Date(time);
+		await fs.promises.utimes(filePath, date, date);
+	}
+
+	/**
+	 * Create the directory (and its parents) if needed; returns true when it was created
+	 */
+	async ensureDirectory(dirPath: string): Promise<boolean> {
+		if (fs.existsSync(dirPath)) {
+			return false;
+		}
+		await fs.promises.mkdir(dirPath, { recursive: true });
+		return true;
+	}
+
+	async list(dirPath: string): Promise<string[]> {
+		return fs.promises.readdir(dirPath);
+	}
+}
@@ -0,0 +1,32 @@
+export interface WeightedRanking {
+	ids: string[]; // best first
+	weight: number;
+}
+
+export interface FusedResult {
+	id: string;
+	score: number;
+}
+
+// Damping constant from the original reciprocal rank fusion paper
+export const RRF_K = 60;
+
+/**
+ * Combine several rankings with weighted reciprocal rank fusion: score(d) = sum of weight / (k + rank(d))
+ */
+export function reciprocalRankFusion(rankings: WeightedRanking[], k: number = RRF_K): FusedResult[] {
+	const scores = new Map<string, number>();
+
+	for (const ranking of rankings) {
+		if (ranking.weight <= 0) {
+			continue;
+		}
+		ranking.ids.forEach((id, index) => {
+			scores.set(id, (scores.get(id) || 0) + ranking.weight / (k + index + 1));
+		});
+	}
+
+	return Array.from(scores.entries())
+		.map(([id, score]) => ({ id, score }))
+		.sort((a, b) => b.score - a.score);
+}
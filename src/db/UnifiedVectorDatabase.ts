@@ -1,14 +1,31 @@
 import { LoggingUtility } from '../utils/LoggingUtility';
-import { App } from 'obsidian';
 import initSqlJs from '@webreflection/sql.js';
 // @ts-ignore
 import sqlWasm from 'sql.js/dist/sql-wasm.wasm';
-import * as path from 'path';
-import * as fs from 'fs';
 import { MigrationRunner } from './MigrationRunner';
+import { LexicalIndex } from './LexicalIndex';
+import { reciprocalRankFusion } from './RankFusion';
+import { VectorCodec } from './VectorCodec';
+import { VectorCache, SlotMatch } from './VectorCache';
+import { HnswIndex } from './HnswIndex';
+import { IndexFingerprint } from './IndexFingerprint';
+import { WriteBehindPersistence } from './WriteBehindPersistence';
+import { IndexStorage, getParentPath } from './IndexStorage';
+import { IndexBackups, IndexRecoveryReport, checkSqliteIntegrity, checkDocumentRows } from './IndexRecovery';
+import {
+	MetadataFilter,
+	FileFilterMetadata,
+	isMetadataFilterEmpty,
+	buildMetadataFilterClause,
+	encodeTags,
+	decodeTags,
+	encodeFrontmatter,
+	decodeFrontmatter,
+	getFolderOfPath
+} from './MetadataFilter';
 
 export interface VectorDocument {
-	id: string; // unique id for the paragraph (e.g., "file.md#p1" or "image.png#c1")
+	id: string; // unique id for the paragraph (e.g., "file.md#p1", "image.png#c1" or "file.pdf#p3c0")
 	vector: number[]; // embedding vector
 	metadata: {
 		filePath: string;
@@ -16,11 +33,18 @@ export interface VectorDocument {
 		title: string;
 		paragraphIndex: number;
 		paragraphText: string; // store the actual paragraph text for retrieval
+		headingPath?: string[]; // headings of the section the chunk came from, outermost first
+		contentHash?: string; // hash of the embedded text; rows with an unchanged hash keep their vector
 		fileChecksum: string; // checksum of entire file
 		lastModified?: number; // optional, mainly for images
 		fileSize?: number; // optional, mainly for images
-		sourceType: 'markdown' | 'image'; // type of source file
-		extractedText?: boolean; // whether text was extracted from image
+		sourceType: 'markdown' | 'image' | 'pdf'; // type of source file
+		extractedText?: boolean; // whether text was extracted from image (or from a scanned PDF page)
+		pageNumber?: number; // 1-based PDF page the chunk came from
+		originPath?: string; // note an embedded chunk was inlined from
+		folder?: string; // vault folder, derived from filePath when omitted
+		tags?: string[]; // note tags without "#", used by metadata filters
+		frontmatter?: Record<string, string[]>; // selected frontmatter keys, used by metadata filters
 	};
 }
 
@@ -29,28 +53,79 @@ export interface VectorSearchResult {
 	similarity: number;
 }
 
+/**
+ * What the index holds for one file
+ */
+export interface IndexedFileSummary {
+	filePath: string;
+	sourceType: VectorDocument['metadata']['sourceType'];
+	chunkCount: number;
+	fileChecksum: string;
+	lastIndexed: number; // when its chunks were last written, in ms
+}
+
+/**
+ * A file whose last indexing attempt failed
+ */
+export interface IndexFailure {
+	filePath: string;
+	category: string;
+	error: string;
+	attempts: number;
+	lastAttempt: number;
+	nextRetry: number;
+}
+
+export interface HybridSearchWeights {
+	vector: number;
+	keyword: number;
+}
+
+// How many candidates each ranking contributes per requested result before fusion
+const HYBRID_CANDIDATE_MULTIPLIER = 4;
+// Below this many vectors an exact scan of the typed array is fast enough
+const ANN_MIN_DOCUMENTS = 2000;
+// Rebuild the cache and ANN graph once this share of slots belongs to removed documents
+const ANN_MAX_TOMBSTONE_RATIO = 0.25;
+// Vectors inserted into the graph between yields to the UI thread while building in the background
+const ANN_BUILD_BATCH_SIZE = 200;
+
 export class UnifiedVectorDatabase {
 	private db: any | null = null;
 	private dbPath: string;
-	private app: App;
+	private storage: IndexStorage;
+	private fileSize: number = 0;
 	private dimension: number = 0;
+	private lexicalIndex: LexicalIndex = new LexicalIndex();
+	private lexicalIndexReady: boolean = false;
+	private vectorCache: VectorCache | null = null;
+	private annIndex: HnswIndex | null = null;
+	private pendingAnnIndex: HnswIndex | null = null;
+	private persistence = new WriteBehindPersistence(() => this.writeToDisk());
+	private recoveryReport: IndexRecoveryReport | null = null;
 
-	private readonly CURRENT_SCHEMA_VERSION = 1;
+	private readonly CURRENT_SCHEMA_VERSION = 11;
 
-	constructor(app: App, dbPath: string) {
-		this.app = app;
+	constructor(dbPath: string, storage: IndexStorage) {
 		this.dbPath = dbPath;
+		this.storage = storage;
 	}
 
 	/**
-	 * Initialize the database connection and create tables if needed
+	 * Initialize the database connection and create tables if needed.
+	 * A file that fails its integrity checks is replaced by the newest good backup, or moved aside
+	 * and started over when no backup is usable; getRecoveryReport() tells which happened.
 	 */
 	async load(): Promise<void> {
+		// Already open; reloading from disk would drop changes that are not written yet
+		if (this.db) {
+			return;
+		}
+
 		try {
 			// Ensure the directory exists
-			const dbDir = path.dirname(this.dbPath);
-			if (!fs.existsSync(dbDir)) {
-				fs.mkdirSync(dbDir, { recursive: true });
+			const dbDir = getParentPath(this.dbPath);
+			if (await this.storage.ensureDirectory(dbDir)) {
 				LoggingUtility.log(`Created database directory: ${dbDir}`);
 			}
 
@@ -60,24 +135,88 @@ export class UnifiedVectorDatabase {
 				wasmBinary: sqlWasm
 			});
 
+			// A temporary file left by an interrupted write; the database file itself is intact
+			const tempPath = `${this.dbPath}.tmp`;
+			if (await this.storage.exists(tempPath)) {
+				await this.storage.remove(tempPath);
+				LoggingUtility.warn(`Removed unfinished database write: ${tempPath}`);
+			}
+
 			// Load database if it exists, otherwise create new
-			let dbFile;
-			if (fs.existsSync(this.dbPath)) {
-				dbFile = fs.readFileSync(this.dbPath);
+			const backups = new IndexBackups(this.dbPath, this.storage);
+			if (!(await this.storage.exists(this.dbPath))) {
+				this.db = await this.openDatabase(SQL);
+			} else {
+				try {
+					this.db = await this.openDatabase(SQL, await this.storage.read(this.dbPath));
+					if (await backups.rotate()) {
+						LoggingUtility.log('Backed up the index file');
+					}
+				} catch (error) {
+					LoggingUtility.error('Index file is damaged, recovering:', error);
+					this.db = await this.recoverDatabase(SQL, backups, error.message || String(error));
+				}
+			}
+
+			const dimensionStmt = this.db.prepare('SELECT dimension FROM documents LIMIT 1');
+			if (dimensionStmt.step()) {
+				this.dimension = Number(dimensionStmt.getAsObject().dimension);
+			}
+			dimensionStmt.free();
+
+			const fileStat = await this.storage.stat(this.dbPath);
+			this.fileSize = fileStat ? fileStat.size : 0;
+
+			// Persist the schema if any migrations ran
+			// We can't easily know if migrations ran without checking version again or having runner return boolean
+			// But scheduling a save is cheap enough here
+			await this.save();
+			if (this.recoveryReport) {
+				// Put the recovered database in place right away
+				await this.flush();
+			}
+		} catch (error) {
+			LoggingUtility.error('Failed to load unified vector database:', error);
+			throw error;
+		}
+	}
+
+	isLoaded(): boolean {
+		return this.db !== null;
+	}
+
+	/**
+	 * What load() had to do about a damaged index file, or null when it loaded normally
+	 */
+	getRecoveryReport(): IndexRecoveryReport | null {
+		return this.recoveryReport;
+	}
+
+	/**
+	 * Open a database file (or a new database without data), check its integrity and bring its schema up to date.
+	 * Throws if the file is damaged or cannot be migrated.
+	 */
+	private async openDatabase(SQL: any, data?: Uint8Array): Promise<any> {
+		const db = new SQL.Database(data);
+		try {
+			if (data) {
+				const damage = checkSqliteIntegrity(db);
+				if (damage) {
+					throw new Error(`integrity check failed: ${damage}`);
+				}
 			}
-			this.db = new SQL.Database(dbFile);
 
 			// Enable WAL mode for better concurrency - sql.js might not support this as it's in-memory/file-backed, but we can try
 			// Note: sql.js is usually synchronous and in-memory, requiring explicit save.
 			// The original code assumed standard SQLite. usage of WAL with sql.js (file-backed emulation) might be no-op.
 			try {
-				this.db.run("PRAGMA journal_mode = WAL");
+				db.run("PRAGMA journal_mode = WAL");
 			} catch (e) {
 				LoggingUtility.error("Could not set WAL mode (might be unsupported in this WASM build):", e);
 			}
 
 			// Initialize schema version table
-			this.db.run(`
+			db.run(`
 				CREATE TABLE IF NOT EXISTS schema_versions (
 					version INTEGER PRIMARY KEY,
 					migrated_at INTEGER NOT NULL
@@ -87,7 +226,7 @@ export class UnifiedVectorDatabase {
 			// Check current version
 			let currentVersion = 0;
 			try {
-				const stmt = this.db.prepare('SELECT MAX(version) as v FROM schema_versions');
+				const stmt = db.prepare('SELECT MAX(version) as v FROM schema_versions');
 				if (stmt.step()) {
 					const row = stmt.getAsObject();
 					if (row.v !== null) {
@@ -103,12 +242,12 @@ export class UnifiedVectorDatabase {
 
 			// Check for legacy database (has documents table but no schema version)
 			if (currentVersion === 0) {
-				const tableCheck = this.db.prepare("SELECT count(*) as count FROM sqlite_master WHERE type='table' AND name='documents'");
+				const tableCheck = db.prepare("SELECT count(*) as count FROM sqlite_master WHERE type='table' AND name='documents'");
 				if (tableCheck.step()) {
 					if (tableCheck.getAsObject().count > 0) {
 						currentVersion = 1;
 						// Mark as version 1
-						this.db.run('INSERT INTO schema_versions (version, migrated_at) VALUES (?, ?)', [1, Date.now()]);
+						db.run('INSERT INTO schema_versions (version, migrated_at) VALUES (?, ?)', [1, Date.now()]);
 						LoggingUtility.log('Detected legacy database, validated as schema version 1');
 					}
 				}
@@ -118,35 +257,74 @@ export class UnifiedVectorDatabase {
 			// Run migrations
 			try {
 				const runner = new MigrationRunner();
-				await runner.run(this.db, currentVersion);
-
-				// Save immediately if any migrations ran
-				// We can't easily know if migrations ran without checking version again or having runner return boolean
-				// But saving is cheap enough here
-				await this.save();
+				await runner.run(db, currentVersion);
 			} catch (error) {
 				LoggingUtility.error('Migration failed:', error);
 				throw error;
 			}
+
+			const rowDamage = checkDocumentRows(db);
+			if (rowDamage) {
+				throw new Error(rowDamage);
+			}
+			return db;
 		} catch (error) {
-			LoggingUtility.error('Failed to load unified vector database:', error);
+			db.close();
 			throw error;
 		}
 	}
 
+	/**
+	 * Move the damaged file aside, then load the newest backup that passes its checks, or start empty
+	 */
+	private async recoverDatabase(SQL: any, backups: IndexBackups, reason: string): Promise<any> {
+		const quarantinePath = await backups.quarantine();
+		if (quarantinePath) {
+			LoggingUtility.warn(`Moved damaged index file to ${quarantinePath}`);
+		}
+
+		for (const backup of await backups.list()) {
+			try {
+				const db = await this.openDatabase(SQL, await this.storage.read(backup.path));
+				this.recoveryReport = { outcome: 'restored', reason, backupTime: backup.createdAt, quarantinePath, at: Date.now() };
+				LoggingUtility.log(`Restored index from backup ${backup.path}`);
+				return db;
+			} catch (error) {
+				LoggingUtility.warn(`Backup ${backup.path} is not usable:`, error);
+			}
+		}
+
+		this.recoveryReport = { outcome: 'rebuilt', reason, quarantinePath, at: Date.now() };
+		LoggingUtility.warn('No usable index backup, starting with an empty index');
+		return this.openDatabase(SQL);
+	}
+
 	/**
 	 * Close the database connection
 	 */
 	async close(): Promise<void> {
 		if (this.db) {
+			try {
+				await this.persistence.flush();
+			} catch (error) {
+				LoggingUtility.error('Failed to write database before closing:', error);
+			}
+			this.persistence.discard();
 			this.db.close();
 			this.db = null;
+			this.lexicalIndex.clear();
+			this.lexicalIndexReady = false;
+			this.vectorCache = null;
+			this.annIndex = null;
+			this.pendingAnnIndex = null;
 			LoggingUtility.log('Closed unified vector database');
 		}
 	}
 
 	/**
-	 * Add or update documents for a file
+	 * Replace the documents of a file by applying the difference to what is stored: rows whose id and
+	 * content hash are unchanged only get their file metadata refreshed, new or changed rows are written
+	 * and rows that no longer exist are deleted
 	 */
 	async upsertFileDocuments(filePath: string, documents: VectorDocument[]): Promise<void> {
 		if (!this.db) {
@@ -170,22 +348,55 @@ export class UnifiedVectorDatabase {
 			}
 		}
 
+		const storedHashes = this.getStoredContentHashes(filePath);
+		const unchanged = documents.filter(doc => !!doc.metadata.contentHash && storedHashes.get(doc.id) === doc.metadata.contentHash);
+		const unchangedIds = new Set(unchanged.map(doc => doc.id));
+		const written = documents.filter(doc => !unchangedIds.has(doc.id));
+		const newIds = new Set(documents.map(doc => doc.id));
+		const removedIds = Array.from(storedHashes.keys()).filter(id => !newIds.has(id));
+		const normalizedVectors = written.map(doc => VectorCodec.normalize(doc.vector));
+
 		// Start transaction
 		this.db.run("BEGIN TRANSACTION");
 		try {
-			// Remove existing documents for this file
-			this.db.run('DELETE FROM documents WHERE file_path = ?', [filePath]);
+			const deleteStmt = this.db.prepare('DELETE FROM documents WHERE id = ?');
+			for (const id of removedIds) {
+				deleteStmt.run([id]);
+			}
+			deleteStmt.free();
+
+			const refreshStmt = this.db.prepare(`
+				UPDATE documents SET
+					file_name = ?, title = ?, paragraph_index = ?, file_checksum = ?, last_modified = ?,
+					file_size = ?, folder = ?, tags = ?, frontmatter = ?, origin_path = ?, updated_at = strftime('%s', 'now')
+				WHERE id = ?
+			`);
+			for (const doc of unchanged) {
+				refreshStmt.run([
+					doc.metadata.fileName || null,
+					doc.metadata.title,
+					doc.metadata.paragraphIndex,
+					doc.metadata.fileChecksum,
+					doc.metadata.lastModified || null,
+					doc.metadata.fileSize || null,
+					doc.metadata.folder ?? getFolderOfPath(doc.metadata.filePath),
+					encodeTags(doc.metadata.tags || []),
+					encodeFrontmatter(doc.metadata.frontmatter || {}),
+					doc.metadata.originPath || null,
+					doc.id
+				]);
+			}
+			refreshStmt.free();
 
-			// Insert new documents
 			const insertStmt = this.db.prepare(`
-				INSERT INTO documents (
+				INSERT OR REPLACE INTO documents (
 					id, file_path, file_name, title, paragraph_index, paragraph_text,
 					file_checksum, last_modified, file_size, source_type, extracted_text,
-					vector_json, dimension, updated_at
-				) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, strftime('%s', 'now'))
+					folder, tags, frontmatter, heading_path, content_hash, page_number, origin_path, vector, dimension, updated_at
+				) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, strftime('%s', 'now'))
 			`);
 
-			for (const doc of documents) {
+			written.forEach((doc, index) => {
 				insertStmt.run([
 					doc.id,
 					doc.metadata.filePath,
@@ -198,22 +409,87 @@ export class UnifiedVectorDatabase {
 					doc.metadata.fileSize || null,
 					doc.metadata.sourceType,
 					doc.metadata.extractedText ? 1 : 0,
-					JSON.stringify(doc.vector),
+					doc.metadata.folder ?? getFolderOfPath(doc.metadata.filePath),
+					encodeTags(doc.metadata.tags || []),
+					encodeFrontmatter(doc.metadata.frontmatter || {}),
+					(doc.metadata.headingPath || []).join('\n'),
+					doc.metadata.contentHash || '',
+					doc.metadata.pageNumber ?? null,
+					doc.metadata.originPath || null,
+					VectorCodec.toBlob(normalizedVectors[index]),
 					this.dimension
 				]);
-			}
+			});
 			insertStmt.free();
 
 			this.db.run("COMMIT");
-			LoggingUtility.log(`Updated ${documents.length} documents for file: ${filePath}`);
-
-			// Persist to disk immediately since sql.js is in-memory
-			await this.save();
 		} catch (error) {
 			this.db.run("ROLLBACK");
 			LoggingUtility.error('Failed to upsert file documents:', error);
 			throw error;
 		}
+
+		LoggingUtility.log(`Updated documents for file ${filePath}: ${written.length} written, ${unchanged.length} unchanged, ${removedIds.length} removed`);
+
+		if (this.lexicalIndexReady) {
+			for (const id of removedIds) {
+				this.lexicalIndex.remove(id);
+			}
+			for (const doc of written) {
+				this.lexicalIndex.remove(doc.id);
+				this.lexicalIndex.add(doc.id, filePath, [...(doc.metadata.headingPath || []), doc.metadata.paragraphText].join('\n'));
+			}
+		}
+
+		if (this.vectorCache) {
+			for (const id of removedIds) {
+				this.removeIdFromVectorCache(id);
+			}
+			written.forEach((doc, index) => {
+				this.removeIdFromVectorCache(doc.id);
+				const slot = this.vectorCache!.add(doc.id, filePath, normalizedVectors[index]);
+				this.annIndex?.insert(slot);
+			});
+		}
+
+		// Persist to disk immediately since sql.js is in-memory
+		await this.save();
+	}
+
+	/**
+	 * Stored vectors of a file keyed by content hash, so unchanged chunks can skip embedding even when they moved
+	 */
+	getStoredVectorsByContentHash(filePath: string): Map<string, number[]> {
+		const vectors = new Map<string, number[]>();
+		if (!this.db) {
+			return vectors;
+		}
+
+		const stmt = this.db.prepare("SELECT content_hash, vector FROM documents WHERE file_path = ? AND content_hash != ''");
+		stmt.bind([filePath]);
+		while (stmt.step()) {
+			const row = stmt.getAsObject();
+			if (!vectors.has(row.content_hash)) {
+				vectors.set(row.content_hash, Array.from(VectorCodec.fromBlob(row.vector)));
+			}
+		}
+		stmt.free();
+		return vectors;
+	}
+
+	/**
+	 * Content hash of every stored row of a file, by id
+	 */
+	private getStoredContentHashes(filePath: string): Map<string, string> {
+		const hashes = new Map<string, string>();
+		const stmt = this.db.prepare('SELECT id, content_hash FROM documents WHERE file_path = ?');
+		stmt.bind([filePath]);
+		while (stmt.step()) {
+			const row = stmt.getAsObject();
+			hashes.set(row.id, row.content_hash || '');
+		}
+		stmt.free();
+		return hashes;
 	}
 
 	/**
@@ -226,89 +502,478 @@ export class UnifiedVectorDatabase {
 
 		this.db.run('DELETE FROM documents WHERE file_path = ?', [filePath]);
 		const changes = this.db.getRowsModified();
+		this.lexicalIndex.removeFile(filePath);
+		this.removeFileFromVectorCache(filePath);
 
 		// Persist to disk
 		await this.save();
 
-		if (changes > 0) {
-			LoggingUtility.log(`Removed ${changes} documents for file: ${filePath}`);
+		if (changes > 0) {
+			LoggingUtility.log(`Removed ${changes} documents for file: ${filePath}`);
+		}
+	}
+
+	/**
+	 * Move a file's documents to a new path without touching their vectors.
+	 * Ids starting with the old path are rewritten; file name and title change only when given.
+	 */
+	async renameFileDocuments(oldPath: string, newPath: string, changes: { fileName?: string; title?: string } = {}): Promise<number> {
+		if (!this.db) {
+			throw new Error('Database not initialized. Call load() first.');
+		}
+
+		const moved = this.moveFileDocuments(oldPath, newPath, changes);
+		// Chunks other notes embedded from this one follow it as well
+		this.db.run('UPDATE documents SET origin_path = ? WHERE origin_path = ?', [newPath, oldPath]);
+		if (moved > 0 || this.db.getRowsModified() > 0) {
+			await this.save();
+		}
+		return moved;
+	}
+
+	/**
+	 * Notes with chunks embedded from the given note, which need re-chunking when it changes
+	 */
+	getEmbeddingFilePaths(originPath: string): string[] {
+		if (!this.db) {
+			return [];
+		}
+
+		const filePaths: string[] = [];
+		const stmt = this.db.prepare('SELECT DISTINCT file_path FROM documents WHERE origin_path = ? AND file_path != ?');
+		stmt.bind([originPath, originPath]);
+		while (stmt.step()) {
+			filePaths.push(stmt.getAsObject().file_path);
+		}
+		stmt.free();
+		return filePaths;
+	}
+
+	/**
+	 * Move the documents of every file below a folder, e.g. after the folder was renamed or moved
+	 */
+	async renameFolderDocuments(oldFolder: string, newFolder: string): Promise<number> {
+		if (!this.db) {
+			throw new Error('Database not initialized. Call load() first.');
+		}
+
+		const prefix = `${oldFolder}/`;
+		const filePaths: string[] = [];
+		const stmt = this.db.prepare('SELECT DISTINCT file_path FROM documents WHERE substr(file_path, 1, ?) = ?');
+		stmt.bind([prefix.length, prefix]);
+		while (stmt.step()) {
+			filePaths.push(stmt.getAsObject().file_path);
+		}
+		stmt.free();
+
+		let moved = 0;
+		for (const filePath of filePaths) {
+			moved += this.moveFileDocuments(filePath, `${newFolder}/${filePath.substring(prefix.length)}`, {});
+		}
+		this.db.run(
+			'UPDATE documents SET origin_path = ? || substr(origin_path, ?) WHERE substr(origin_path, 1, ?) = ?',
+			[`${newFolder}/`, prefix.length + 1, prefix.length, prefix]
+		);
+		if (moved > 0 || this.db.getRowsModified() > 0) {
+			await this.save();
+			LoggingUtility.log(`Moved ${moved} documents of ${filePaths.length} files from ${oldFolder} to ${newFolder}`);
+		}
+		return moved;
+	}
+
+	private moveFileDocuments(oldPath: string, newPath: string, changes: { fileName?: string; title?: string }): number {
+		const rows: { id: string; newId: string; text: string; vector: Float32Array }[] = [];
+		const selectStmt = this.db.prepare('SELECT id, heading_path, paragraph_text, vector FROM documents WHERE file_path = ?');
+		selectStmt.bind([oldPath]);
+		while (selectStmt.step()) {
+			const row = selectStmt.getAsObject();
+			rows.push({
+				id: row.id,
+				newId: row.id.startsWith(oldPath) ? newPath + row.id.substring(oldPath.length) : row.id,
+				text: row.heading_path ? `${row.heading_path}\n${row.paragraph_text}` : row.paragraph_text,
+				vector: VectorCodec.fromBlob(row.vector)
+			});
+		}
+		selectStmt.free();
+
+		if (rows.length === 0) {
+			return 0;
+		}
+
+		this.db.run("BEGIN TRANSACTION");
+		try {
+			// A leftover copy at the new path (e.g. from an earlier partial move) would collide with the rewritten ids
+			this.db.run('DELETE FROM documents WHERE file_path = ?', [newPath]);
+
+			const updateStmt = this.db.prepare(`
+				UPDATE documents SET
+					id = ?, file_path = ?, file_name = COALESCE(?, file_name), title = COALESCE(?, title),
+					folder = ?, updated_at = strftime('%s', 'now')
+				WHERE id = ?
+			`);
+			for (const row of rows) {
+				updateStmt.run([row.newId, newPath, changes.fileName ?? null, changes.title ?? null, getFolderOfPath(newPath), row.id]);
+			}
+			updateStmt.free();
+
+			this.db.run("COMMIT");
+		} catch (error) {
+			this.db.run("ROLLBACK");
+			LoggingUtility.error('Failed to rename file documents:', error);
+			throw error;
+		}
+
+		if (this.lexicalIndexReady) {
+			this.lexicalIndex.removeFile(oldPath);
+			this.lexicalIndex.removeFile(newPath);
+			for (const row of rows) {
+				this.lexicalIndex.add(row.newId, newPath, row.text);
+			}
+		}
+
+		if (this.vectorCache) {
+			this.removeFileFromVectorCache(oldPath);
+			this.removeFileFromVectorCache(newPath);
+			for (const row of rows) {
+				const slot = this.vectorCache.add(row.newId, newPath, row.vector);
+				this.annIndex?.insert(slot);
+			}
+		}
+
+		LoggingUtility.log(`Moved ${rows.length} documents from ${oldPath} to ${newPath}`);
+		return rows.length;
+	}
+
+	/**
+	 * Search for similar documents using cosine similarity.
+	 * Vectors are served from an in-memory typed array; large collections go through an HNSW graph instead of a full scan.
+	 * With a metadata filter, only the matching chunks are scanned exactly.
+	 */
+	search(queryVector: number[], limit: number = 5, threshold: number = 0.5, filter?: MetadataFilter): VectorSearchResult[] {
+		if (!this.db) {
+			throw new Error('Database not initialized. Call load() first.');
+		}
+
+		LoggingUtility.log(`Searching for ${limit} similar documents with threshold ${threshold}`);
+
+		// Validate query vector dimension
+		if (queryVector.length !== this.dimension) {
+			throw new Error(`Query vector dimension mismatch. Expected ${this.dimension}, got ${queryVector.length}`);
+		}
+
+		const startTime = Date.now();
+		const allowedIds = this.getFilteredIds(filter);
+		const annIndex = allowedIds ? null : this.ensureAnnIndex();
+		const cache = this.ensureVectorCache();
+		if (cache.size === 0) {
+			return [];
+		}
+
+		const query = VectorCodec.normalize(queryVector);
+		let matches: SlotMatch[];
+		if (allowedIds) {
+			const candidateSlots: number[] = [];
+			for (const id of allowedIds) {
+				const slot = cache.getSlot(id);
+				if (slot !== undefined) {
+					candidateSlots.push(slot);
+				}
+			}
+			matches = cache.searchExact(query, limit, threshold, candidateSlots);
+		} else if (annIndex) {
+			matches = annIndex.search(query, limit).filter(match => match.similarity >= threshold);
+		} else {
+			matches = cache.searchExact(query, limit, threshold);
+		}
+
+		const documentsById = new Map(
+			this.getDocumentsByIds(matches.map(match => cache.getId(match.slot)!))
+				.map(document => [document.id, document] as [string, VectorDocument])
+		);
+
+		const results: VectorSearchResult[] = [];
+		for (const match of matches) {
+			const document = documentsById.get(cache.getId(match.slot)!);
+			if (document) {
+				results.push({ document, similarity: match.similarity });
+			}
+		}
+
+		const searchKind = allowedIds ? `filtered exact search over ${allowedIds.size}` : `${annIndex ? 'ANN' : 'exact'} search over ${cache.size}`;
+		LoggingUtility.log(`Found ${results.length} similar documents in ${Date.now() - startTime}ms (${searchKind} vectors)`);
+		return results;
+	}
+
+	/**
+	 * Rank documents by BM25 over their paragraph text
+	 */
+	keywordSearch(queryText: string, limit: number = 5): { id: string; score: number }[] {
+		if (!this.db) {
+			throw new Error('Database not initialized. Call load() first.');
+		}
+
+		this.ensureLexicalIndex();
+		return this.lexicalIndex.search(queryText, limit);
+	}
+
+	/**
+	 * Combine vector similarity and BM25 keyword rankings with weighted reciprocal rank fusion.
+	 * The threshold only applies to vector matches so exact keyword hits are still returned.
+	 * Results keep their cosine similarity for display but are ordered by fused rank.
+	 */
+	hybridSearch(queryVector: number[], queryText: string, limit: number = 5, threshold: number = 0.5, weights: HybridSearchWeights = { vector: 1, keyword: 1 }, filter?: MetadataFilter): VectorSearchResult[] {
+		const candidateCount = limit * HYBRID_CANDIDATE_MULTIPLIER;
+		const vectorResults = weights.vector > 0 ? this.search(queryVector, candidateCount, threshold, filter) : [];
+		let keywordResults: { id: string; score: number }[] = [];
+		if (weights.keyword > 0) {
+			const allowedIds = this.getFilteredIds(filter);
+			// With a filter, rank the whole collection and keep the allowed matches so filtering cannot starve the keyword list
+			keywordResults = allowedIds
+				? this.keywordSearch(queryText, Number.MAX_SAFE_INTEGER).filter(result => allowedIds.has(result.id)).slice(0, candidateCount)
+				: this.keywordSearch(queryText, candidateCount);
+		}
+
+		const fused = reciprocalRankFusion([
+			{ ids: vectorResults.map(result => result.document.id), weight: weights.vector },
+			{ ids: keywordResults.map(result => result.id), weight: weights.keyword }
+		]).slice(0, limit);
+
+		const resultsById = new Map(vectorResults.map(result => [result.document.id, result]));
+		const missingIds = fused.map(result => result.id).filter(id => !resultsById.has(id));
+		for (const document of this.getDocumentsByIds(missingIds)) {
+			resultsById.set(document.id, {
+				document,
+				similarity: document.vector.length === queryVector.length ? this.cosineSimilarity(queryVector, document.vector) : 0
+			});
+		}
+
+		const results: VectorSearchResult[] = [];
+		for (const { id } of fused) {
+			const result = resultsById.get(id);
+			if (result) {
+				results.push(result);
+			}
+		}
+
+		LoggingUtility.log(`Hybrid search fused ${vectorResults.length} vector and ${keywordResults.length} keyword matches into ${results.length} results`);
+		return results;
+	}
+
+	/**
+	 * Ids of the chunks matching the filter, or null when the filter is empty
+	 */
+	private getFilteredIds(filter?: MetadataFilter): Set<string> | null {
+		if (!filter || isMetadataFilterEmpty(filter)) {
+			return null;
+		}
+
+		const clause = buildMetadataFilterClause(filter);
+		const stmt = this.db.prepare(`SELECT id FROM documents WHERE ${clause.sql}`);
+		stmt.bind(clause.params);
+		const ids = new Set<string>();
+		while (stmt.step()) {
+			ids.add(stmt.getAsObject().id);
+		}
+		stmt.free();
+		return ids;
+	}
+
+	/**
+	 * Folder, tags and frontmatter currently stored for each indexed file
+	 */
+	getFileFilterMetadata(): Map<string, FileFilterMetadata> {
+		if (!this.db) {
+			throw new Error('Database not initialized. Call load() first.');
+		}
+
+		const stmt = this.db.prepare('SELECT file_path, folder, tags, frontmatter FROM documents GROUP BY file_path');
+		const metadataByFile = new Map<string, FileFilterMetadata>();
+		while (stmt.step()) {
+			const row = stmt.getAsObject();
+			metadataByFile.set(row.file_path, {
+				folder: row.folder ?? getFolderOfPath(row.file_path),
+				tags: decodeTags(row.tags),
+				frontmatter: decodeFrontmatter(row.frontmatter)
+			});
+		}
+		stmt.free();
+		return metadataByFile;
+	}
+
+	/**
+	 * Refresh the folder, tags and frontmatter stored for already indexed files (no re-embedding)
+	 */
+	async updateFileFilterMetadata(entries: Map<string, FileFilterMetadata>): Promise<void> {
+		if (!this.db) {
+			throw new Error('Database not initialized. Call load() first.');
+		}
+
+		if (entries.size === 0) {
+			return;
+		}
+
+		this.db.run("BEGIN TRANSACTION");
+		try {
+			const updateStmt = this.db.prepare('UPDATE documents SET folder = ?, tags = ?, frontmatter = ? WHERE file_path = ?');
+			for (const [filePath, metadata] of entries) {
+				updateStmt.run([metadata.folder, encodeTags(metadata.tags), encodeFrontmatter(metadata.frontmatter), filePath]);
+			}
+			updateStmt.free();
+			this.db.run("COMMIT");
+		} catch (error) {
+			this.db.run("ROLLBACK");
+			LoggingUtility.error('Failed to update filter metadata:', error);
+			throw error;
+		}
+
+		await this.save();
+		LoggingUtility.log(`Updated filter metadata for ${entries.size} files`);
+	}
+
+	/**
+	 * Load every stored vector into one typed array the first time it is needed
+	 */
+	private ensureVectorCache(): VectorCache {
+		if (this.vectorCache) {
+			return this.vectorCache;
+		}
+
+		const startTime = Date.now();
+		const countStmt = this.db.prepare('SELECT COUNT(*) as count FROM documents');
+		countStmt.step();
+		const count = Number(countStmt.getAsObject().count);
+		countStmt.free();
+
+		const cache = new VectorCache(this.dimension, count);
+		const stmt = this.db.prepare('SELECT id, file_path, vector FROM documents');
+		while (stmt.step()) {
+			const row = stmt.getAsObject();
+			cache.add(row.id, row.file_path, VectorCodec.fromBlob(row.vector));
+		}
+		stmt.free();
+
+		this.vectorCache = cache;
+		this.annIndex = null;
+		LoggingUtility.log(`Loaded ${cache.size} vectors into memory in ${Date.now() - startTime}ms`);
+		return cache;
+	}
+
+	/**
+	 * Return the HNSW graph when the collection is large enough to benefit from it.
+	 * The graph is built (or rebuilt after many removals) in the background; exact search is used until it is ready.
+	 */
+	private ensureAnnIndex(): HnswIndex | null {
+		let cache = this.ensureVectorCache();
+		if (cache.size < ANN_MIN_DOCUMENTS) {
+			return null;
+		}
+
+		if (this.annIndex && cache.tombstoneRatio <= ANN_MAX_TOMBSTONE_RATIO) {
+			return this.annIndex;
+		}
+
+		if (!this.pendingAnnIndex) {
+			if (cache.tombstoneRatio > 0) {
+				cache = cache.compact();
+				this.vectorCache = cache;
+			}
+			this.annIndex = null;
+			void this.buildAnnIndex(cache);
+		}
+		return null;
+	}
+
+	private async buildAnnIndex(cache: VectorCache): Promise<void> {
+		const startTime = Date.now();
+		const annIndex = new HnswIndex(cache);
+		this.pendingAnnIndex = annIndex;
+
+		try {
+			// Vectors added while building are appended to the cache, so the loop picks them up too
+			for (let slot = 0; slot < cache.slotCount; slot++) {
+				if (this.vectorCache !== cache) {
+					return; // Cache was cleared or replaced while building
+				}
+				if (cache.isLive(slot)) {
+					annIndex.insert(slot);
+				}
+				if ((slot + 1) % ANN_BUILD_BATCH_SIZE === 0) {
+					await new Promise(resolve => setTimeout(resolve, 0));
+				}
+			}
+
+			this.annIndex = annIndex;
+			LoggingUtility.log(`Built ANN index for ${annIndex.size} vectors in ${Date.now() - startTime}ms`);
+		} catch (error) {
+			LoggingUtility.error('Failed to build ANN index, using exact search:', error);
+		} finally {
+			if (this.pendingAnnIndex === annIndex) {
+				this.pendingAnnIndex = null;
+			}
 		}
 	}
 
-	/**
-	 * Search for similar documents using cosine similarity
-	 */
-	search(queryVector: number[], limit: number = 5, threshold: number = 0.5): VectorSearchResult[] {
-		if (!this.db) {
-			throw new Error('Database not initialized. Call load() first.');
+	private removeIdFromVectorCache(id: string): void {
+		const slot = this.vectorCache?.remove(id);
+		if (slot !== null && slot !== undefined) {
+			this.annIndex?.markDeleted(slot);
+			this.pendingAnnIndex?.markDeleted(slot);
 		}
+	}
 
-		LoggingUtility.log(`Searching for ${limit} similar documents with threshold ${threshold}`);
+	private removeFileFromVectorCache(filePath: string): void {
+		if (!this.vectorCache) {
+			return;
+		}
+		for (const slot of this.vectorCache.removeFile(filePath)) {
+			this.annIndex?.markDeleted(slot);
+			this.pendingAnnIndex?.markDeleted(slot);
+		}
+	}
 
-		// Validate query vector dimension
-		if (queryVector.length !== this.dimension) {
-			throw new Error(`Query vector dimension mismatch. Expected ${this.dimension}, got ${queryVector.length}`);
+	/**
+	 * Build the BM25 index from the documents table the first time it is needed
+	 */
+	private ensureLexicalIndex(): void {
+		if (this.lexicalIndexReady) {
+			return;
 		}
 
-		// Get all documents
-		const stmt = this.db.prepare('SELECT * FROM documents');
-		const rows: any[] = [];
+		const startTime = Date.now();
+		// Section headings are searchable keywords too
+		const stmt = this.db.prepare('SELECT id, file_path, heading_path, paragraph_text FROM documents');
 		while (stmt.step()) {
-			rows.push(stmt.getAsObject());
+			const row = stmt.getAsObject();
+			this.lexicalIndex.add(row.id, row.file_path, row.heading_path ? `${row.heading_path}\n${row.paragraph_text}` : row.paragraph_text);
 		}
 		stmt.free();
 
-		if (rows.length === 0) {
+		this.lexicalIndexReady = true;
+		LoggingUtility.log(`Built keyword index for ${this.lexicalIndex.size} documents in ${Date.now() - startTime}ms`);
+	}
+
+	private getDocumentsByIds(ids: string[]): VectorDocument[] {
+		if (ids.length === 0) {
 			return [];
 		}
 
-		const startTime = Date.now();
-
-		// Calculate similarities
-		const similarities: VectorSearchResult[] = [];
-		for (const row of rows) {
-			const docVector = JSON.parse(row.vector_json) as number[];
-			const similarity = this.cosineSimilarity(queryVector, docVector);
-
-			if (similarity >= threshold) {
-				const document: VectorDocument = {
-					id: row.id,
-					vector: docVector,
-					metadata: {
-						filePath: row.file_path,
-						fileName: row.file_name || undefined,
-						title: row.title,
-						paragraphIndex: row.paragraph_index,
-						paragraphText: row.paragraph_text,
-						fileChecksum: row.file_checksum,
-						lastModified: row.last_modified || undefined,
-						fileSize: row.file_size || undefined,
-						sourceType: row.source_type,
-						extractedText: row.extracted_text === 1
-					}
-				};
-
-				similarities.push({
-					document,
-					similarity
-				});
-			}
+		const placeholders = ids.map(() => '?').join(', ');
+		const stmt = this.db.prepare(`SELECT * FROM documents WHERE id IN (${placeholders})`);
+		stmt.bind(ids);
+		const rows: any[] = [];
+		while (stmt.step()) {
+			rows.push(stmt.getAsObject());
 		}
+		stmt.free();
 
-		// Sort by similarity and limit results
-		const results = similarities
-			.sort((a, b) => b.similarity - a.similarity)
-			.slice(0, limit);
-
-		LoggingUtility.log(`Found ${results.length} similar documents in ${Date.now() - startTime}ms`);
-		return results;
+		return rows.map((row: any) => this.rowToDocument(row));
 	}
 
 	/**
 	 * Search for similar documents and group by file
 	 */
-	searchGroupedByFile(queryVector: number[], maxFiles: number = 3, maxParagraphsPerFile: number = 3, threshold: number = 0.5): Map<string, VectorSearchResult[]> {
-		const allResults = this.search(queryVector, maxFiles * maxParagraphsPerFile * 2, threshold);
+	searchGroupedByFile(queryVector: number[], maxFiles: number = 3, maxParagraphsPerFile: number = 3, threshold: number = 0.5, filter?: MetadataFilter): Map<string, VectorSearchResult[]> {
+		const allResults = this.search(queryVector, maxFiles * maxParagraphsPerFile * 2, threshold, filter);
 
 		// Group by file
 		const resultsByFile = new Map<string, VectorSearchResult[]>();
@@ -334,6 +999,32 @@ export class UnifiedVectorDatabase {
 		return new Map(sortedFiles);
 	}
 
+	private rowToDocument(row: any): VectorDocument {
+		return {
+			id: row.id,
+			vector: Array.from(VectorCodec.fromBlob(row.vector)),
+			metadata: {
+				filePath: row.file_path,
+				fileName: row.file_name || undefined,
+				title: row.title,
+				paragraphIndex: row.paragraph_index,
+				paragraphText: row.paragraph_text,
+				fileChecksum: row.file_checksum,
+				lastModified: row.last_modified || undefined,
+				fileSize: row.file_size || undefined,
+				sourceType: row.source_type,
+				extractedText: row.extracted_text === 1,
+				folder: row.folder ?? getFolderOfPath(row.file_path),
+				tags: decodeTags(row.tags),
+				frontmatter: decodeFrontmatter(row.frontmatter),
+				headingPath: row.heading_path ? row.heading_path.split('\n') : [],
+				contentHash: row.content_hash || undefined,
+				pageNumber: row.page_number ?? undefined,
+				originPath: row.origin_path || undefined
+			}
+		};
+	}
+
 	/**
 	 * Calculate cosine similarity between two vectors
 	 */
@@ -371,13 +1062,238 @@ export class UnifiedVectorDatabase {
 		}
 
 		this.db.run('DELETE FROM documents');
+		this.db.run('DELETE FROM index_metadata');
+		this.db.run('DELETE FROM index_failures');
 		// Persist changes
 		await this.save();
 
 		this.dimension = 0;
+		this.lexicalIndex.clear();
+		this.vectorCache = null;
+		this.annIndex = null;
+		this.pendingAnnIndex = null;
 		LoggingUtility.log('Cleared unified vector database');
 	}
 
+	/**
+	 * Vector dimension of the stored documents (0 while the index is empty)
+	 */
+	getDimension(): number {
+		return this.dimension;
+	}
+
+	/**
+	 * Model, dimension and chunker the stored vectors were produced with, or null when not yet recorded
+	 */
+	getIndexFingerprint(): IndexFingerprint | null {
+		if (!this.db) {
+			throw new Error('Database not initialized. Call load() first.');
+		}
+
+		const values = new Map<string, string>();
+		const stmt = this.db.prepare('SELECT key, value FROM index_metadata');
+		while (stmt.step()) {
+			const row = stmt.getAsObject();
+			values.set(row.key, row.value);
+		}
+		stmt.free();
+
+		if (!values.has('embedding_model')) {
+			return null;
+		}
+		return {
+			embeddingModel: values.get('embedding_model') || '',
+			dimension: Number(values.get('dimension')) || 0,
+			chunkerVersion: Number(values.get('chunker_version')) || 0,
+			createdAt: Number(values.get('created_at')) || 0
+		};
+	}
+
+	async setIndexFingerprint(fingerprint: IndexFingerprint): Promise<void> {
+		if (!this.db) {
+			throw new Error('Database not initialized. Call load() first.');
+		}
+
+		const stmt = this.db.prepare('INSERT OR REPLACE INTO index_metadata (key, value) VALUES (?, ?)');
+		stmt.run(['embedding_model', fingerprint.embeddingModel]);
+		stmt.run(['dimension', String(fingerprint.dimension)]);
+		stmt.run(['chunker_version', String(fingerprint.chunkerVersion)]);
+		stmt.run(['created_at', String(fingerprint.createdAt)]);
+		stmt.free();
+		await this.save();
+	}
+
+	/**
+	 * Cached embeddings of the given text hashes for a model; hits are marked as recently used
+	 */
+	getCachedEmbeddings(model: string, textHashes: string[]): Map<string, number[]> {
+		const embeddings = new Map<string, number[]>();
+		if (!this.db || textHashes.length === 0) {
+			return embeddings;
+		}
+
+		const now = Date.now();
+		const select = this.db.prepare('SELECT vector FROM embedding_cache WHERE model = ? AND text_hash = ?');
+		const touch = this.db.prepare('UPDATE embedding_cache SET last_used = ? WHERE model = ? AND text_hash = ?');
+		for (const hash of textHashes) {
+			if (embeddings.has(hash)) {
+				continue;
+			}
+			select.bind([model, hash]);
+			if (select.step()) {
+				embeddings.set(hash, Array.from(VectorCodec.fromBlob(select.getAsObject().vector)));
+				touch.run([now, model, hash]);
+			}
+			select.reset();
+		}
+		select.free();
+		touch.free();
+		return embeddings;
+	}
+
+	/**
+	 * Add embeddings to the cache (persisted with the next save)
+	 */
+	putCachedEmbeddings(model: string, entries: { textHash: string; vector: number[] }[]): void {
+		if (!this.db || entries.length === 0) {
+			return;
+		}
+
+		const now = Date.now();
+		const stmt = this.db.prepare('INSERT OR REPLACE INTO embedding_cache (model, text_hash, vector, last_used) VALUES (?, ?, ?, ?)');
+		for (const entry of entries) {
+			stmt.run([model, entry.textHash, VectorCodec.toBlob(Float32Array.from(entry.vector)), now]);
+		}
+		stmt.free();
+	}
+
+	/**
+	 * Evict least recently used cache entries until the cached vectors fit in maxBytes
+	 */
+	pruneEmbeddingCache(maxBytes: number): number {
+		if (!this.db) {
+			return 0;
+		}
+
+		let excess = this.getEmbeddingCacheStats().sizeInBytes - maxBytes;
+		if (excess <= 0) {
+			return 0;
+		}
+
+		const evicted: number[] = [];
+		const stmt = this.db.prepare('SELECT rowid, LENGTH(vector) AS size FROM embedding_cache ORDER BY last_used ASC');
+		while (excess > 0 && stmt.step()) {
+			const row = stmt.getAsObject();
+			evicted.push(row.rowid);
+			excess -= row.size;
+		}
+		stmt.free();
+
+		const remove = this.db.prepare('DELETE FROM embedding_cache WHERE rowid = ?');
+		for (const rowid of evicted) {
+			remove.run([rowid]);
+		}
+		remove.free();
+
+		LoggingUtility.log(`Evicted ${evicted.length} embeddings from the cache`);
+		return evicted.length;
+	}
+
+	getEmbeddingCacheStats(): { entryCount: number; sizeInBytes: number } {
+		if (!this.db) {
+			return { entryCount: 0, sizeInBytes: 0 };
+		}
+
+		const stmt = this.db.prepare('SELECT COUNT(*) as count, COALESCE(SUM(LENGTH(vector)), 0) as size FROM embedding_cache');
+		stmt.step();
+		const row = stmt.getAsObject();
+		stmt.free();
+		return { entryCount: Number(row.count), sizeInBytes: Number(row.size) };
+	}
+
+	async clearEmbeddingCache(): Promise<void> {
+		if (!this.db) {
+			throw new Error('Database not initialized. Call load() first.');
+		}
+
+		this.db.run('DELETE FROM embedding_cache');
+		await this.save();
+	}
+
+	/**
+	 * Text previously extracted from an image with this content, '' when it had none, or null when never extracted
+	 */
+	getCachedImageText(checksum: string, fileSize: number): string | null {
+		if (!this.db) {
+			return null;
+		}
+
+		const stmt = this.db.prepare('SELECT extracted_text FROM image_text_cache WHERE checksum = ? AND file_size = ?');
+		stmt.bind([checksum, fileSize]);
+		const text = stmt.step() ? stmt.getAsObject().extracted_text : null;
+		stmt.free();
+		return text;
+	}
+
+	putCachedImageText(checksum: string, fileSize: number, extractedText: string): void {
+		if (!this.db) {
+			return;
+		}
+
+		this.db.run(
+			'INSERT OR REPLACE INTO image_text_cache (checksum, file_size, extracted_text, extracted_at) VALUES (?, ?, ?, ?)',
+			[checksum, fileSize, extractedText, Date.now()]
+		);
+	}
+
+	/**
+	 * Files whose last indexing attempt failed, oldest failure first
+	 */
+	getIndexFailures(): IndexFailure[] {
+		if (!this.db) {
+			return [];
+		}
+
+		const stmt = this.db.prepare('SELECT * FROM index_failures ORDER BY last_attempt ASC');
+		const failures: IndexFailure[] = [];
+		while (stmt.step()) {
+			const row = stmt.getAsObject();
+			failures.push({
+				filePath: row.file_path,
+				category: row.category,
+				error: row.error,
+				attempts: Number(row.attempts),
+				lastAttempt: Number(row.last_attempt),
+				nextRetry: Number(row.next_retry)
+			});
+		}
+		stmt.free();
+		return failures;
+	}
+
+	async putIndexFailure(failure: IndexFailure): Promise<void> {
+		if (!this.db) {
+			throw new Error('Database not initialized. Call load() first.');
+		}
+
+		this.db.run(
+			'INSERT OR REPLACE INTO index_failures (file_path, category, error, attempts, last_attempt, next_retry) VALUES (?, ?, ?, ?, ?, ?)',
+			[failure.filePath, failure.category, failure.error, failure.attempts, failure.lastAttempt, failure.nextRetry]
+		);
+		await this.save();
+	}
+
+	async removeIndexFailure(filePath: string): Promise<void> {
+		if (!this.db) {
+			return;
+		}
+
+		this.db.run('DELETE FROM index_failures WHERE file_path = ?', [filePath]);
+		if (this.db.getRowsModified() > 0) {
+			await this.save();
+		}
+	}
+
 	/**
 	 * Get statistics about the database
 	 */
@@ -401,23 +1317,83 @@ export class UnifiedVectorDatabase {
 		const lastUpdatedResult = lastUpdatedStmt.getAsObject();
 		lastUpdatedStmt.free();
 
-		// Get database file size
-		let sizeInBytes = 0;
-		try {
-			if (fs.existsSync(this.dbPath)) {
-				const stats = fs.statSync(this.dbPath);
-				sizeInBytes = stats.size;
-			}
-		} catch (error) {
-			LoggingUtility.warn('Could not get database file size:', error);
-		}
-
 		return {
 			documentCount: Number(countResult.count),
 			fileCount: Number(fileCountResult.count),
 			lastUpdated: lastUpdatedResult.last_updated ? new Date(lastUpdatedResult.last_updated * 1000) : new Date(),
-			sizeInBytes
+			// Size of the file as last loaded or written
+			sizeInBytes: this.fileSize
+		};
+	}
+
+	/**
+	 * Chunk and file counts per source type
+	 */
+	getSourceTypeStats(): Record<VectorDocument['metadata']['sourceType'], { documentCount: number; fileCount: number }> {
+		if (!this.db) {
+			throw new Error('Database not initialized. Call load() first.');
+		}
+
+		const stats = {
+			markdown: { documentCount: 0, fileCount: 0 },
+			image: { documentCount: 0, fileCount: 0 },
+			pdf: { documentCount: 0, fileCount: 0 }
 		};
+		const stmt = this.db.prepare('SELECT source_type, COUNT(*) as count, COUNT(DISTINCT file_path) as files FROM documents GROUP BY source_type');
+		while (stmt.step()) {
+			const row = stmt.getAsObject();
+			const sourceType = row.source_type as keyof typeof stats;
+			if (stats[sourceType]) {
+				stats[sourceType] = { documentCount: Number(row.count), fileCount: Number(row.files) };
+			}
+		}
+		stmt.free();
+		return stats;
+	}
+
+	/**
+	 * Remove every chunk of one source type, e.g. all notes before a complete rebuild
+	 */
+	async removeSourceTypeDocuments(sourceType: VectorDocument['metadata']['sourceType']): Promise<void> {
+		if (!this.db) {
+			throw new Error('Database not initialized. Call load() first.');
+		}
+
+		this.db.run('DELETE FROM documents WHERE source_type = ?', [sourceType]);
+		// The in-memory indexes are rebuilt from the remaining rows on next use
+		this.lexicalIndex.clear();
+		this.lexicalIndexReady = false;
+		this.vectorCache = null;
+		this.annIndex = null;
+		this.pendingAnnIndex = null;
+		await this.save();
+	}
+
+	/**
+	 * One summary per indexed file, for the index inspector
+	 */
+	getIndexedFiles(): IndexedFileSummary[] {
+		if (!this.db) {
+			throw new Error('Database not initialized. Call load() first.');
+		}
+
+		const stmt = this.db.prepare(`
+			SELECT file_path, source_type, COUNT(*) as chunk_count, MAX(file_checksum) as file_checksum, MAX(updated_at) as updated_at
+			FROM documents GROUP BY file_path
+		`);
+		const files: IndexedFileSummary[] = [];
+		while (stmt.step()) {
+			const row = stmt.getAsObject();
+			files.push({
+				filePath: row.file_path,
+				sourceType: row.source_type,
+				chunkCount: Number(row.chunk_count),
+				fileChecksum: row.file_checksum,
+				lastIndexed: Number(row.updated_at) * 1000
+			});
+		}
+		stmt.free();
+		return files;
 	}
 
 	/**
@@ -453,22 +1429,7 @@ export class UnifiedVectorDatabase {
 		}
 		stmt.free();
 
-		return rows.map((row: any) => ({
-			id: row.id,
-			vector: JSON.parse(row.vector_json) as number[],
-			metadata: {
-				filePath: row.file_path,
-				fileName: row.file_name || undefined,
-				title: row.title,
-				paragraphIndex: row.paragraph_index,
-				paragraphText: row.paragraph_text,
-				fileChecksum: row.file_checksum,
-				lastModified: row.last_modified || undefined,
-				fileSize: row.file_size || undefined,
-				sourceType: row.source_type,
-				extractedText: row.extracted_text === 1
-			}
-		}));
+		return rows.map((row: any) => this.rowToDocument(row));
 	}
 
 	/**
@@ -486,22 +1447,7 @@ export class UnifiedVectorDatabase {
 		}
 		stmt.free();
 
-		return rows.map((row: any) => ({
-			id: row.id,
-			vector: JSON.parse(row.vector_json) as number[],
-			metadata: {
-				filePath: row.file_path,
-				fileName: row.file_name || undefined,
-				title: row.title,
-				paragraphIndex: row.paragraph_index,
-				paragraphText: row.paragraph_text,
-				fileChecksum: row.file_checksum,
-				lastModified: row.last_modified || undefined,
-				fileSize: row.file_size || undefined,
-				sourceType: row.source_type,
-				extractedText: row.extracted_text === 1
-			}
-		}));
+		return rows.map((row: any) => this.rowToDocument(row));
 	}
 
 	/**
@@ -552,6 +1498,15 @@ export class UnifiedVectorDatabase {
 
 		const dbFilePaths = new Set(rows.map((row: any) => row.file_path));
 
+		// Failures of files that are gone are not retried
+		const obsoleteFailures = this.getIndexFailures().filter(failure => !existingFiles.has(failure.filePath));
+		for (const failure of obsoleteFailures) {
+			this.db.run('DELETE FROM index_failures WHERE file_path = ?', [failure.filePath]);
+		}
+		if (obsoleteFailures.length > 0) {
+			await this.save();
+		}
+
 		// Find files that exist in database but not in file system
 		const filesToRemove: string[] = [];
 		for (const dbFilePath of dbFilePaths) {
@@ -567,6 +1522,8 @@ export class UnifiedVectorDatabase {
 				const deleteStmt = this.db.prepare('DELETE FROM documents WHERE file_path = ?');
 				for (const filePath of filesToRemove) {
 					deleteStmt.run([filePath]);
+					this.lexicalIndex.removeFile(filePath);
+					this.removeFileFromVectorCache(filePath);
 				}
 				deleteStmt.free();
 				this.db.run("COMMIT");
@@ -583,13 +1540,36 @@ export class UnifiedVectorDatabase {
 	}
 
 	/**
-	 * Save the database to disk
+	 * Mark the database as changed. Changes are coalesced and written by the next scheduled flush,
+	 * so calling this after every write is cheap.
 	 */
 	async save(): Promise<void> {
 		if (this.db) {
-			const data = this.db.export();
-			const buffer = Buffer.from(data);
-			fs.writeFileSync(this.dbPath, buffer);
+			this.persistence.markDirty();
+		}
+	}
+
+	/**
+	 * Write pending changes to disk now, e.g. at the end of an indexing run or on shutdown
+	 */
+	async flush(): Promise<void> {
+		if (this.db) {
+			await this.persistence.flush();
 		}
 	}
+
+	/**
+	 * Export the whole database and replace the file atomically
+	 */
+	private async writeToDisk(): Promise<void> {
+		if (!this.db) {
+			return;
+		}
+		const startTime = Date.now();
+		const data: Uint8Array = this.db.export();
+		const size = data.byteLength;
+		await this.storage.writeAtomic(this.dbPath, data);
+		this.fileSize = size;
+		LoggingUtility.log(`Wrote database (${(size / 1024 / 1024).toFixed(1)} MB) in ${Date.now() - startTime}ms`);
+	}
 }
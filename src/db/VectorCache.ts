@@ -0,0 +1,184 @@
+export interface SlotMatch {
+	slot: number;
+	similarity: number;
+}
+
+const INITIAL_CAPACITY = 1024;
+
+/**
+ * All normalized vectors packed into one Float32Array, addressed by slot.
+ * Slots are append-only so the ANN index can refer to them; removed slots become tombstones until compact() is called.
+ */
+export class VectorCache {
+	readonly dimension: number;
+	private data: Float32Array;
+	private ids: (string | null)[] = [];
+	private filePaths: (string | null)[] = [];
+	private slotById: Map<string, number> = new Map();
+	private slotsByFile: Map<string, Set<number>> = new Map();
+	private removedCount: number = 0;
+
+	constructor(dimension: number, initialCapacity: number = INITIAL_CAPACITY) {
+		this.dimension = dimension;
+		this.data = new Float32Array(Math.max(1, initialCapacity) * dimension);
+	}
+
+	/** Number of live vectors */
+	get size(): number {
+		return this.ids.length - this.removedCount;
+	}
+
+	/** Number of allocated slots, including tombstones */
+	get slotCount(): number {
+		return this.ids.length;
+	}
+
+	get tombstoneRatio(): number {
+		return this.ids.length === 0 ? 0 : this.removedCount / this.ids.length;
+	}
+
+	/**
+	 * Store a normalized vector and return its slot (an existing entry with the same id is replaced)
+	 */
+	add(id: string, filePath: string, vector: Float32Array): number {
+		if (vector.length !== this.dimension) {
+			throw new Error(`Vector dimension mismatch. Expected ${this.dimension}, got ${vector.length}`);
+		}
+
+		this.remove(id);
+
+		const slot = this.ids.length;
+		if ((slot + 1) * this.dimension > this.data.length) {
+			const grown = new Float32Array(this.data.length * 2);
+			grown.set(this.data);
+			this.data = grown;
+		}
+
+		this.data.set(vector, slot * this.dimension);
+		this.ids.push(id);
+		this.filePaths.push(filePath);
+		this.slotById.set(id, slot);
+
+		if (!this.slotsByFile.has(filePath)) {
+			this.slotsByFile.set(filePath, new Set());
+		}
+		this.slotsByFile.get(filePath)!.add(slot);
+
+		return slot;
+	}
+
+	/**
+	 * Tombstone the vector with this id, returning the freed slot
+	 */
+	remove(id: string): number | null {
+		const slot = this.slotById.get(id);
+		if (slot === undefined) {
+			return null;
+		}
+
+		const filePath = this.filePaths[slot];
+		if (filePath !== null) {
+			const fileSlots = this.slotsByFile.get(filePath);
+			fileSlots?.delete(slot);
+			if (fileSlots && fileSlots.size === 0) {
+				this.slotsByFile.delete(filePath);
+			}
+		}
+
+		this.slotById.delete(id);
+		this.ids[slot] = null;
+		this.filePaths[slot] = null;
+		this.removedCount++;
+		return slot;
+	}
+
+	/**
+	 * Tombstone every vector that belongs to the file, returning the freed slots
+	 */
+	removeFile(filePath: string): number[] {
+		const fileSlots = this.slotsByFile.get(filePath);
+		if (!fileSlots) {
+			return [];
+		}
+
+		const removed: number[] = [];
+		for (const slot of Array.from(fileSlots)) {
+			const id = this.ids[slot];
+			if (id !== null && this.remove(id) !== null) {
+				removed.push(slot);
+			}
+		}
+		return removed;
+	}
+
+	isLive(slot: number): boolean {
+		return this.ids[slot] !== null && this.ids[slot] !== undefined;
+	}
+
+	getId(slot: number): string | null {
+		return this.ids[slot] ?? null;
+	}
+
+	getVector(slot: number): Float32Array {
+		return this.data.subarray(slot * this.dimension, (slot + 1) * this.dimension);
+	}
+
+	/**
+	 * Cosine similarity between the stored vector and a normalized query
+	 */
+	similarity(slot: number, query: Float32Array): number {
+		const offset = slot * this.dimension;
+		let dot = 0;
+		for (let i = 0; i < this.dimension; i++) {
+			dot += this.data[offset + i] * query[i];
+		}
+		return dot;
+	}
+
+	getSlot(id: string): number | undefined {
+		return this.slotById.get(id);
+	}
+
+	/**
+	 * Exact search over every live slot, or only over the given candidate slots
+	 */
+	searchExact(query: Float32Array, limit: number, threshold: number, candidateSlots?: number[]): SlotMatch[] {
+		const matches: SlotMatch[] = [];
+		const consider = (slot: number) => {
+			if (this.ids[slot] === null || this.ids[slot] === undefined) {
+				return;
+			}
+			const similarity = this.similarity(slot, query);
+			if (similarity >= threshold) {
+				matches.push({ slot, similarity });
+			}
+		};
+
+		if (candidateSlots) {
+			candidateSlots.forEach(consider);
+		} else {
+			for (let slot = 0; slot < this.ids.length; slot++) {
+				consider(slot);
+			}
+		}
+
+		return matches
+			.sort((a, b) => b.similarity - a.similarity)
+			.slice(0, limit);
+	}
+
+	/**
+	 * Copy the live vectors into a new cache without tombstones (slots are renumbered)
+	 */
+	compact(): VectorCache {
+		const compacted = new VectorCache(this.dimension, Math.max(INITIAL_CAPACITY, this.size));
+		for (let slot = 0; slot < this.ids.length; slot++) {
+			const id = this.ids[slot];
+			const filePath = this.filePaths[slot];
+			if (id !== null && filePath !== null) {
+				compacted.add(id, filePath, this.getVector(slot));
+			}
+		}
+		return compacted;
+	}
+}
@@ -0,0 +1,38 @@
+/**
+ * Converts embeddings between plain arrays and the normalized Float32 BLOBs stored in the documents table
+ */
+export class VectorCodec {
+	/**
+	 * Scale the vector to unit length so cosine similarity becomes a plain dot product
+	 */
+	static normalize(vector: ArrayLike<number>): Float32Array {
+		const normalized = new Float32Array(vector.length);
+		let norm = 0;
+		for (let i = 0; i < vector.length; i++) {
+			norm += vector[i] * vector[i];
+		}
+		norm = Math.sqrt(norm);
+
+		if (norm === 0) {
+			return normalized;
+		}
+
+		for (let i = 0; i < vector.length; i++) {
+			normalized[i] = vector[i] / norm;
+		}
+		return normalized;
+	}
+
+	static toBlob(vector: Float32Array): Uint8Array {
+		return new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+	}
+
+	/**
+	 * Read a BLOB back into a Float32Array (copied, since sql.js buffers are not guaranteed to be 4-byte aligned)
+	 */
+	static fromBlob(blob: Uint8Array): Float32Array {
+		const copy = new Uint8Array(blob.byteLength);
+		copy.set(blob);
+		return new Float32Array(copy.buffer);
+	}
+}
@@ -0,0 +1,78 @@
+import { LoggingUtility } from '../utils/LoggingUtility';
+
+// Changes are written at most this long after the first unsaved change. Anything lost in a crash
+// inside that window is re-indexed by the checksum comparison on the next start.
+export const DEFAULT_FLUSH_DELAY_MS = 30000;
+
+/**
+ * Tracks unsaved changes and coalesces them into one write: the first change schedules a flush,
+ * later changes ride along with it. flush() writes immediately, e.g. at indexing checkpoints or shutdown.
+ */
+export class WriteBehindPersistence {
+	private write: () => Promise<void>;
+	private delayMs: number;
+	private dirty: boolean = false;
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private writing: Promise<void> | null = null;
+
+	constructor(write: () => Promise<void>, delayMs: number = DEFAULT_FLUSH_DELAY_MS) {
+		this.write = write;
+		this.delayMs = delayMs;
+	}
+
+	isDirty(): boolean {
+		return this.dirty;
+	}
+
+	markDirty(): void {
+		this.dirty = true;
+		if (!this.timer) {
+			this.timer = setTimeout(() => {
+				this.timer = null;
+				this.flush().catch(error => {
+					LoggingUtility.error('Scheduled database write failed, retrying later:', error);
+					this.markDirty();
+				});
+			}, this.delayMs);
+		}
+	}
+
+	/**
+	 * Write pending changes now; does nothing when there are none. Changes stay pending if the write fails.
+	 * Writes never overlap: a flush during a write waits for it and then writes what changed meanwhile.
+	 */
+	async flush(): Promise<void> {
+		this.cancelTimer();
+		while (this.writing) {
+			await this.writing.catch(() => undefined);
+		}
+		if (!this.dirty) {
+			return;
+		}
+		this.dirty = false;
+		this.writing = this.write();
+		try {
+			await this.writing;
+		} catch (error) {
+			this.dirty = true;
+			throw error;
+		} finally {
+			this.writing = null;
+		}
+	}
+
+	/**
+	 * Drop pending changes without writing them, e.g. when the database is closed after a failed flush
+	 */
+	discard(): void {
+		this.cancelTimer();
+		this.dirty = false;
+	}
+
+	private cancelTimer(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+}
@@ -0,0 +1,97 @@
+import { Migration } from './Migration';
+import { LoggingUtility } from '../../utils/LoggingUtility';
+import { VectorCodec } from '../VectorCodec';
+
+export class Migration002 implements Migration {
+    version = 2;
+
+    async up(db: any): Promise<void> {
+        LoggingUtility.log('Running Migration 2: Storing vectors as normalized Float32 BLOBs');
+
+        // SQLite cannot drop a NOT NULL column in place, so copy into a new table and swap it in
+        db.run(`
+			CREATE TABLE documents_v2 (
+				id TEXT PRIMARY KEY,
+				file_path TEXT NOT NULL,
+				file_name TEXT,
+				title TEXT NOT NULL,
+				paragraph_index INTEGER NOT NULL,
+				paragraph_text TEXT NOT NULL,
+				file_checksum TEXT NOT NULL,
+				last_modified INTEGER,
+				file_size INTEGER,
+				source_type TEXT NOT NULL CHECK(source_type IN ('markdown', 'image')),
+				extracted_text INTEGER DEFAULT 0,
+				vector BLOB NOT NULL,
+				dimension INTEGER NOT NULL,
+				created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+				updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+			);
+		`);
+
+        const selectStmt = db.prepare('SELECT * FROM documents');
+        const insertStmt = db.prepare(`
+			INSERT INTO documents_v2 (
+				id, file_path, file_name, title, paragraph_index, paragraph_text,
+				file_checksum, last_modified, file_size, source_type, extracted_text,
+				vector, dimension, created_at, updated_at
+			) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+		`);
+
+        let converted = 0;
+        const skippedFiles = new Set<string>();
+        let skipped = 0;
+        try {
+            while (selectStmt.step()) {
+                const row = selectStmt.getAsObject();
+
+                let vector: Float32Array;
+                try {
+                    vector = VectorCodec.normalize(JSON.parse(row.vector_json) as number[]);
+                } catch (error) {
+                    // Clearing the file's checksum below gets it re-embedded on the next index update
+                    skipped++;
+                    skippedFiles.add(row.file_path);
+                    LoggingUtility.warn(`Dropping document ${row.id} with unreadable vector:`, error);
+                    continue;
+                }
+
+                insertStmt.run([
+                    row.id,
+                    row.file_path,
+                    row.file_name,
+                    row.title,
+                    row.paragraph_index,
+                    row.paragraph_text,
+                    row.file_checksum,
+                    row.last_modified,
+                    row.file_size,
+                    row.source_type,
+                    row.extracted_text,
+                    VectorCodec.toBlob(vector),
+                    vector.length,
+                    row.created_at,
+                    row.updated_at
+                ]);
+                converted++;
+            }
+        } finally {
+            selectStmt.free();
+            insertStmt.free();
+        }
+
+        db.run('DROP TABLE documents');
+        db.run('ALTER TABLE documents_v2 RENAME TO documents');
+
+        db.run(`CREATE INDEX IF NOT EXISTS idx_file_path ON documents(file_path);`);
+        db.run(`CREATE INDEX IF NOT EXISTS idx_source_type ON documents(source_type);`);
+        db.run(`CREATE INDEX IF NOT EXISTS idx_file_checksum ON documents(file_checksum);`);
+
+        // The remaining paragraphs of those files would otherwise look up to date
+        for (const filePath of skippedFiles) {
+            db.run(`UPDATE documents SET file_checksum = '' WHERE file_path = ?`, [filePath]);
+        }
+
+        LoggingUtility.log(`Migration 2 complete (${converted} vectors converted, ${skipped} skipped)`);
+    }
+}
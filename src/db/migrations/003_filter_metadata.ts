@@ -0,0 +1,24 @@
+import { Migration } from './Migration';
+import { LoggingUtility } from '../../utils/LoggingUtility';
+
+export class Migration003 implements Migration {
+    version = 3;
+
+    async up(db: any): Promise<void> {
+        LoggingUtility.log('Running Migration 3: Adding folder, tag and frontmatter columns for filtered search');
+
+        db.run(`ALTER TABLE documents ADD COLUMN folder TEXT NOT NULL DEFAULT '';`);
+        db.run(`ALTER TABLE documents ADD COLUMN tags TEXT NOT NULL DEFAULT '';`);
+        db.run(`ALTER TABLE documents ADD COLUMN frontmatter TEXT NOT NULL DEFAULT '';`);
+
+        // Folder can be derived from the path: strip everything after the last "/"
+        db.run(`UPDATE documents SET folder = rtrim(rtrim(file_path, replace(file_path, '/', '')), '/');`);
+
+        // Tags and frontmatter need the metadata cache, so RAGService backfills them after load
+
+        db.run(`CREATE INDEX IF NOT EXISTS idx_folder ON documents(folder);`);
+        db.run(`CREATE INDEX IF NOT EXISTS idx_last_modified ON documents(last_modified);`);
+
+        LoggingUtility.log('Migration 3 complete');
+    }
+}
@@ -0,0 +1,18 @@
+import { Migration } from './Migration';
+import { LoggingUtility } from '../../utils/LoggingUtility';
+
+export class Migration004 implements Migration {
+    version = 4;
+
+    async up(db: any): Promise<void> {
+        LoggingUtility.log('Running Migration 4: Adding heading path column for section breadcrumbs');
+
+        // Headings of the section a chunk came from, outermost first, one per line
+        db.run(`ALTER TABLE documents ADD COLUMN heading_path TEXT NOT NULL DEFAULT '';`);
+
+        // Markdown was chunked without regard to headings; clearing the checksum makes the next update re-chunk it
+        db.run(`UPDATE documents SET file_checksum = '' WHERE source_type = 'markdown';`);
+
+        LoggingUtility.log('Migration 4 complete');
+    }
+}
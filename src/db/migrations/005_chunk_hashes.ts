@@ -0,0 +1,15 @@
+import { Migration } from './Migration';
+import { LoggingUtility } from '../../utils/LoggingUtility';
+
+export class Migration005 implements Migration {
+    version = 5;
+
+    async up(db: any): Promise<void> {
+        LoggingUtility.log('Running Migration 5: Adding chunk content hashes for incremental re-embedding');
+
+        // Hash of the embedded text; empty for rows written before hashes existed, which are never reused
+        db.run(`ALTER TABLE documents ADD COLUMN content_hash TEXT NOT NULL DEFAULT '';`);
+
+        LoggingUtility.log('Migration 5 complete');
+    }
+}
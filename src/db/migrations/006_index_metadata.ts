@@ -0,0 +1,22 @@
+import { Migration } from './Migration';
+import { LoggingUtility } from '../../utils/LoggingUtility';
+
+export class Migration006 implements Migration {
+    version = 6;
+
+    async up(db: any): Promise<void> {
+        LoggingUtility.log('Running Migration 6: Adding index metadata table for embedding model fingerprints');
+
+        // Key/value facts about how the stored vectors were produced (model, dimension, chunker version, creation time)
+        db.run(`
+            CREATE TABLE IF NOT EXISTS index_metadata (
+                key TEXT PRIMARY KEY,
+                value TEXT NOT NULL
+            );
+        `);
+
+        // Existing indexes get their fingerprint recorded by RAGService on the next load
+
+        LoggingUtility.log('Migration 6 complete');
+    }
+}
@@ -0,0 +1,24 @@
+import { Migration } from './Migration';
+import { LoggingUtility } from '../../utils/LoggingUtility';
+
+export class Migration007 implements Migration {
+    version = 7;
+
+    async up(db: any): Promise<void> {
+        LoggingUtility.log('Running Migration 7: Adding embedding cache table');
+
+        // Content-addressed embeddings that survive index rebuilds; last_used drives LRU eviction
+        db.run(`
+            CREATE TABLE IF NOT EXISTS embedding_cache (
+                model TEXT NOT NULL,
+                text_hash TEXT NOT NULL,
+                vector BLOB NOT NULL,
+                last_used INTEGER NOT NULL,
+                PRIMARY KEY (model, text_hash)
+            );
+        `);
+        db.run(`CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used ON embedding_cache(last_used);`);
+
+        LoggingUtility.log('Migration 7 complete');
+    }
+}
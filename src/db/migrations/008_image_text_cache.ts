@@ -0,0 +1,24 @@
+import { Migration } from './Migration';
+import { LoggingUtility } from '../../utils/LoggingUtility';
+
+export class Migration008 implements Migration {
+    version = 8;
+
+    async up(db: any): Promise<void> {
+        LoggingUtility.log('Running Migration 8: Adding image text cache table');
+
+        // Text the vision model extracted, keyed by image content so rebuilds and renames never repeat extraction.
+        // An empty text records that the image has no text.
+        db.run(`
+            CREATE TABLE IF NOT EXISTS image_text_cache (
+                checksum TEXT NOT NULL,
+                file_size INTEGER NOT NULL,
+                extracted_text TEXT NOT NULL,
+                extracted_at INTEGER NOT NULL,
+                PRIMARY KEY (checksum, file_size)
+            );
+        `);
+
+        LoggingUtility.log('Migration 8 complete');
+    }
+}
@@ -0,0 +1,56 @@
+import { Migration } from './Migration';
+import { LoggingUtility } from '../../utils/LoggingUtility';
+
+const COLUMNS = `
+    id, file_path, file_name, title, paragraph_index, paragraph_text,
+    file_checksum, last_modified, file_size, source_type, extracted_text,
+    vector, dimension, created_at, updated_at,
+    folder, tags, frontmatter, heading_path, content_hash
+`;
+
+export class Migration009 implements Migration {
+    version = 9;
+
+    async up(db: any): Promise<void> {
+        LoggingUtility.log('Running Migration 9: Adding PDF source type and page numbers');
+
+        // SQLite cannot change a CHECK constraint in place, so copy into a new table and swap it in
+        db.run(`
+			CREATE TABLE documents_v9 (
+				id TEXT PRIMARY KEY,
+				file_path TEXT NOT NULL,
+				file_name TEXT,
+				title TEXT NOT NULL,
+				paragraph_index INTEGER NOT NULL,
+				paragraph_text TEXT NOT NULL,
+				file_checksum TEXT NOT NULL,
+				last_modified INTEGER,
+				file_size INTEGER,
+				source_type TEXT NOT NULL CHECK(source_type IN ('markdown', 'image', 'pdf')),
+				extracted_text INTEGER DEFAULT 0,
+				vector BLOB NOT NULL,
+				dimension INTEGER NOT NULL,
+				created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+				updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+				folder TEXT NOT NULL DEFAULT '',
+				tags TEXT NOT NULL DEFAULT '',
+				frontmatter TEXT NOT NULL DEFAULT '',
+				heading_path TEXT NOT NULL DEFAULT '',
+				content_hash TEXT NOT NULL DEFAULT '',
+				page_number INTEGER
+			);
+		`);
+
+        db.run(`INSERT INTO documents_v9 (${COLUMNS}) SELECT ${COLUMNS} FROM documents;`);
+        db.run('DROP TABLE documents');
+        db.run('ALTER TABLE documents_v9 RENAME TO documents');
+
+        db.run(`CREATE INDEX IF NOT EXISTS idx_file_path ON documents(file_path);`);
+        db.run(`CREATE INDEX IF NOT EXISTS idx_source_type ON documents(source_type);`);
+        db.run(`CREATE INDEX IF NOT EXISTS idx_file_checksum ON documents(file_checksum);`);
+        db.run(`CREATE INDEX IF NOT EXISTS idx_folder ON documents(folder);`);
+        db.run(`CREATE INDEX IF NOT EXISTS idx_last_modified ON documents(last_modified);`);
+
+        LoggingUtility.log('Migration 9 complete');
+    }
+}
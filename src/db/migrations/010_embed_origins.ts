@@ -0,0 +1,16 @@
+import { Migration } from './Migration';
+import { LoggingUtility } from '../../utils/LoggingUtility';
+
+export class Migration010 implements Migration {
+    version = 10;
+
+    async up(db: any): Promise<void> {
+        LoggingUtility.log('Running Migration 10: Adding origin paths for embedded text');
+
+        // Note that an inlined embed came from; NULL for text written in the note itself
+        db.run(`ALTER TABLE documents ADD COLUMN origin_path TEXT;`);
+        db.run(`CREATE INDEX IF NOT EXISTS idx_origin_path ON documents(origin_path);`);
+
+        LoggingUtility.log('Migration 10 complete');
+    }
+}
@@ -0,0 +1,24 @@
+import { Migration } from './Migration';
+import { LoggingUtility } from '../../utils/LoggingUtility';
+
+export class Migration011 implements Migration {
+    version = 11;
+
+    async up(db: any): Promise<void> {
+        LoggingUtility.log('Running Migration 11: Adding index failures table');
+
+        // Files whose last indexing attempt failed, with the time of the next automatic retry
+        db.run(`
+            CREATE TABLE IF NOT EXISTS index_failures (
+                file_path TEXT PRIMARY KEY,
+                category TEXT NOT NULL,
+                error TEXT NOT NULL,
+                attempts INTEGER NOT NULL,
+                last_attempt INTEGER NOT NULL,
+                next_retry INTEGER NOT NULL
+            );
+        `);
+
+        LoggingUtility.log('Migration 11 complete');
+    }
+}
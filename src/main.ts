@@ -1,7 +1,11 @@
 import { App, Plugin, PluginSettingTab, Setting, WorkspaceLeaf, ItemView, Notice } from 'obsidian';
 import { ChatView } from './views/ChatView';
+import { IndexInspectorView, INDEX_INSPECTOR_VIEW_TYPE } from './views/IndexInspectorView';
 import { LoggingUtility } from './utils/LoggingUtility';
 import { RAGService } from './services/RAGService';
+import { ChatHistoryService } from './services/ChatHistoryService';
+import { LLMProviderType, LLM_PROVIDER_LABELS } from './services/providers/LLMProvider';
+import { ModelProfile, createModelProfile } from './services/ModelProfiles';
 import '../styles.css';
 import manifest from '../manifest.json';
 
@@ -14,8 +18,12 @@ export enum ContextMode {
 }
 
 interface LocalLLMSettings {
+	// Server API used for chat, embeddings and model lists
+	llmProvider: LLMProviderType;
 	apiEndpoint: string;
 	maxTokens: number;
+	// Context size of the model, used to budget prompts when the server does not report it
+	contextWindow: number;
 	temperature: number;
 	// System prompt setting
 	systemPrompt: string;
@@ -23,6 +31,8 @@ interface LocalLLMSettings {
 	model?: string;
 	// API key (optional) - if specified, used as a Bearer token (works with LM Studio)
 	apiKey?: string;
+	// Named alternatives to the settings above, selectable per chat
+	modelProfiles: ModelProfile[];
 	// Search settings
 	searchMaxResults: number;
 	searchContextPercentage: number;
@@ -35,16 +45,36 @@ interface LocalLLMSettings {
 	enableRAG: boolean;
 	ragThreshold: number;
 	ragMaxResults: number;
+	// Hybrid retrieval: BM25 keyword ranking fused with vector ranking
+	hybridSearchEnabled: boolean;
+	hybridVectorWeight: number;
+	hybridKeywordWeight: number;
 	// Embedding settings
 	embeddingEndpoint: string;
 	embeddingModel: string;
+	// Rebuild without asking when the index was built with another embedding model
+	autoRebuildOnModelChange: boolean;
+	// Size limit (MB) of the embedding cache reused across rebuilds; 0 disables it
+	embeddingCacheSizeMB: number;
 	// Image processing settings
 	enableImageTextExtraction: boolean;
+	// PDF attachments: local text layer extraction, with optional vision model reading of scanned pages
+	enablePdfIndexing: boolean;
+	pdfOcrFallback: boolean;
+	// Inline ![[embeds]] into the notes that embed them, up to this many levels deep
+	resolveEmbeds: boolean;
+	embedResolutionDepth: number;
 	// Exclusion settings for indexing/task processing
 	excludedFolders: string[];
 	excludedFilePatterns: string[];
+	// Single files excluded from the index inspector, matched by their exact vault path
+	excludedFiles: string[];
+	// Frontmatter keys stored with each chunk so retrieval can be filtered by them
+	indexedFrontmatterKeys: string[];
 	// Context notes visibility setting
 	contextNotesVisible: boolean;
+	// Vault folder for conversations saved as notes
+	chatExportFolder: string;
 	// Review prompt tracking
 	usageTimeMs: number;
 	lastUsageStartTimestamp: number | null;
@@ -53,8 +83,11 @@ interface LocalLLMSettings {
 }
 
 const DEFAULT_SETTINGS: LocalLLMSettings = {
+	llmProvider: 'openai-compatible',
+	modelProfiles: [],
 	apiEndpoint: 'http://localhost:1234/v1/chat/completions',
 	maxTokens: 10000,
+	contextWindow: 16384,
 	temperature: 0.7,
 	// Default system prompt
 	systemPrompt: "You are a helpful assistant with access to the user's Obsidian vault. When provided with context from their notes, use that information to provide more accurate and relevant responses. Reference specific notes when appropriate, but focus on answering the user's question clearly and concisely.",
@@ -70,16 +103,30 @@ const DEFAULT_SETTINGS: LocalLLMSettings = {
 	enableRAG: true,
 	ragThreshold: 0.5,
 	ragMaxResults: 10,
+	// Hybrid retrieval defaults (equal weights)
+	hybridSearchEnabled: true,
+	hybridVectorWeight: 1,
+	hybridKeywordWeight: 1,
 	// Embedding defaults
 	embeddingEndpoint: 'http://localhost:1234/v1/embeddings',
 	embeddingModel: 'text-embedding-nomic-embed-text-v1.5',
+	autoRebuildOnModelChange: false,
+	embeddingCacheSizeMB: 64,
 	// Image processing defaults
 	enableImageTextExtraction: true,
+	enablePdfIndexing: true,
+	pdfOcrFallback: false,
+	resolveEmbeds: false,
+	embedResolutionDepth: 2,
 	// Indexing exclusions defaults
 	excludedFolders: [],
 	excludedFilePatterns: [],
+	excludedFiles: [],
+	indexedFrontmatterKeys: ['type', 'status'],
 	// Default context notes visibility
 	contextNotesVisible: false,
+	// Saved chat notes default folder
+	chatExportFolder: 'Private AI chats',
 	// Review prompt defaults
 	usageTimeMs: 0,
 	lastUsageStartTimestamp: null,
@@ -95,6 +142,7 @@ const REVIEW_PROMPT_MESSAGE = 'Enjoying Private AI? A quick review helps others
 export default class LocalLLMPlugin extends Plugin {
 	settings: LocalLLMSettings;
 	ragService: RAGService;
+	chatHistoryService: ChatHistoryService;
 	private llmService: any; // LLMService instance for image processing
 	private usageTrackingIntervalId: number | null = null;
 	private reviewPromptPending = false;
@@ -113,6 +161,7 @@ export default class LocalLLMPlugin extends Plugin {
 		this.llmService = createLLMService({
 			apiEndpoint: this.settings.apiEndpoint,
 			apiKey: this.settings.apiKey,
+			provider: this.settings.llmProvider,
 			maxTokens: this.settings.maxTokens,
 			temperature: this.settings.temperature,
 			systemPrompt: this.settings.systemPrompt
@@ -122,7 +171,8 @@ export default class LocalLLMPlugin extends Plugin {
 		this.ragService = new RAGService(this.app, this.manifest, {
 			endpoint: this.settings.embeddingEndpoint,
 			model: this.settings.embeddingModel,
-			apiKey: this.settings.apiKey
+			apiKey: this.settings.apiKey,
+			provider: this.settings.llmProvider
 		}, {
 			autoMaintenance: true,
 			backgroundIndexing: true,
@@ -141,16 +191,24 @@ export default class LocalLLMPlugin extends Plugin {
 		// Defer RAG initialization until layout is ready to ensure vault cache is populated
 		this.app.workspace.onLayoutReady(async () => {
 			await this.ragService.initialize(this.settings);
+			this.notifyChatViewsOfRAGStatus();
 
 			// Always start file watcher since RAG is always enabled
 			this.ragService.startFileWatcher();
 		});
 
+		// Saved conversations are stored as JSON in the plugin folder
+		this.chatHistoryService = new ChatHistoryService(this.app, this.manifest);
+
 		// Register the view
 		this.registerView(
 			CHAT_VIEW_TYPE,
 			(leaf) => new ChatView(leaf, this)
 		);
+		this.registerView(
+			INDEX_INSPECTOR_VIEW_TYPE,
+			(leaf) => new IndexInspectorView(leaf, this)
+		);
 
 		// Add ribbon icon to open chat
 		this.addRibbonIcon('sparkles', 'Open private AI', () => {
@@ -166,6 +224,29 @@ export default class LocalLLMPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'open-index-inspector',
+			name: 'Open index inspector',
+			callback: () => {
+				void this.activateIndexInspector();
+			}
+		});
+
+		this.addCommand({
+			id: 'save-chat-as-note',
+			name: 'Save current chat as note',
+			checkCallback: (checking: boolean) => {
+				const chatView = this.getChatViewWithConversation();
+				if (!chatView) {
+					return false;
+				}
+				if (!checking) {
+					void chatView.saveConversationAsNote();
+				}
+				return true;
+			}
+		});
+
 		this.addCommand({
 			id: 'resume-paused-rag-indexing',
 			name: 'Resume paused indexing',
@@ -215,6 +296,7 @@ export default class LocalLLMPlugin extends Plugin {
 			this.llmService = createLLMService({
 				apiEndpoint: this.settings.apiEndpoint,
 				apiKey: this.settings.apiKey,
+				provider: this.settings.llmProvider,
 				maxTokens: this.settings.maxTokens,
 				temperature: this.settings.temperature,
 				systemPrompt: this.settings.systemPrompt
@@ -231,7 +313,8 @@ export default class LocalLLMPlugin extends Plugin {
 			this.ragService.updateEmbeddingConfig({
 				endpoint: this.settings.embeddingEndpoint,
 				model: this.settings.embeddingModel,
-				apiKey: this.settings.apiKey
+				apiKey: this.settings.apiKey,
+				provider: this.settings.llmProvider
 			});
 		}
 
@@ -344,6 +427,7 @@ export default class LocalLLMPlugin extends Plugin {
 			// In Obsidian v1.7.2+, views start as DeferredView until they become visible
 			if (leaf.view instanceof ChatView) {
 				leaf.view.updateContextModeFromSettings();
+				leaf.view.updateProfilesFromSettings();
 			}
 		});
 	}
@@ -361,6 +445,19 @@ export default class LocalLLMPlugin extends Plugin {
 		});
 	}
 
+	/**
+	 * Let chat views refresh their RAG status, e.g. to report a recovered index after loading
+	 */
+	notifyChatViewsOfRAGStatus() {
+		const leaves = this.app.workspace.getLeavesOfType(CHAT_VIEW_TYPE);
+		leaves.forEach(leaf => {
+			const chatView = leaf.view as ChatView;
+			if (chatView && typeof chatView.onRAGStatusChanged === 'function') {
+				chatView.onRAGStatusChanged();
+			}
+		});
+	}
+
 	/**
 	 * Notify all chat views that RAG indexing is complete
 	 */
@@ -372,6 +469,11 @@ export default class LocalLLMPlugin extends Plugin {
 				chatView.onRAGIndexingComplete();
 			}
 		});
+		this.app.workspace.getLeavesOfType(INDEX_INSPECTOR_VIEW_TYPE).forEach(leaf => {
+			if (leaf.view instanceof IndexInspectorView) {
+				void leaf.view.refresh();
+			}
+		});
 	}
 
 	private notifyChatViewsOfReviewPrompt(): boolean {
@@ -389,6 +491,18 @@ export default class LocalLLMPlugin extends Plugin {
 		return injected;
 	}
 
+	/**
+	 * Find an open chat view that has at least one question in it
+	 */
+	private getChatViewWithConversation(): ChatView | null {
+		for (const leaf of this.app.workspace.getLeavesOfType(CHAT_VIEW_TYPE)) {
+			if (leaf.view instanceof ChatView && leaf.view.hasConversation()) {
+				return leaf.view;
+			}
+		}
+		return null;
+	}
+
 	async activateView() {
 		const { workspace } = this.app;
 
@@ -414,6 +528,24 @@ export default class LocalLLMPlugin extends Plugin {
 			workspace.revealLeaf(leaf);
 		}
 	}
+
+	/**
+	 * Open the index inspector in a tab, reusing one that is already open
+	 */
+	async activateIndexInspector() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(INDEX_INSPECTOR_VIEW_TYPE)[0];
+		if (!leaf) {
+			leaf = workspace.getLeaf('tab');
+			await leaf.setViewState({ type: INDEX_INSPECTOR_VIEW_TYPE, active: true });
+		}
+		workspace.revealLeaf(leaf);
+	}
+}
+
+interface StyledSliderOptions {
+	min: number, max: number, step: number, value: number, onChange: (value: number) => Promise<void>,
+	format?: (value: number) => string
 }
 
 class LocalLLMSettingTab extends PluginSettingTab {
@@ -430,10 +562,7 @@ class LocalLLMSettingTab extends PluginSettingTab {
 		containerEl.empty();
 
 		// Helper to create a slider with live value label and custom style
-		const addStyledSlider = (setting: Setting, opts: {
-			min: number, max: number, step: number, value: number, onChange: (value: number) => Promise<void>,
-			format?: (value: number) => string
-		}) => {
+		const addStyledSlider = (setting: Setting, opts: StyledSliderOptions) => {
 			let valueLabel: HTMLSpanElement | null = null;
 			setting.addSlider(slider => {
 				slider.setLimits(opts.min, opts.max, opts.step)
@@ -470,9 +599,24 @@ class LocalLLMSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Server type')
+			.setDesc('The API your local LLM server speaks. Chat, embeddings and model lists all use it. llama.cpp needs --embeddings for indexing.')
+			.addDropdown(dropdown => {
+				for (const type of Object.keys(LLM_PROVIDER_LABELS) as LLMProviderType[]) {
+					dropdown.addOption(type, LLM_PROVIDER_LABELS[type]);
+				}
+				dropdown
+					.setValue(this.plugin.settings.llmProvider)
+					.onChange(async (value) => {
+						this.plugin.settings.llmProvider = value as LLMProviderType;
+						await this.plugin.saveSettings();
+					});
+			});
+
 		new Setting(containerEl)
 			.setName('API endpoint')
-			.setDesc('The endpoint URL for your local LLM API')
+			.setDesc('The endpoint URL for your local LLM API. For Ollama the server address is enough, e.g. http://localhost:11434')
 			.addText(text => text
 				.setPlaceholder('http://localhost:1234/v1/chat/completions')
 				.setValue(this.plugin.settings.apiEndpoint)
@@ -496,7 +640,7 @@ class LocalLLMSettingTab extends PluginSettingTab {
 		// Model dropdown setting
 		const modelSetting = new Setting(containerEl)
 			.setName('Model')
-			.setDesc('Select a specific model to use. (Loaded from LM Studio downloaded models.)')
+			.setDesc('Select a specific model to use. (Loaded from the models available on your server.)')
 			.addDropdown(dropdown => {
 				// Add empty option for no model selection
 				dropdown.addOption('', 'Auto (server chooses)');
@@ -541,6 +685,19 @@ class LocalLLMSettingTab extends PluginSettingTab {
 			}
 		);
 
+		addStyledSlider(
+			new Setting(containerEl)
+				.setName('Context window')
+				.setDesc('Context size the model runs with. Prompts are trimmed to fit it; llama.cpp servers report their own size instead'),
+			{
+				min: 1024, max: 131072, step: 1024, value: this.plugin.settings.contextWindow,
+				onChange: async (value) => {
+					this.plugin.settings.contextWindow = value;
+					await this.plugin.saveSettings();
+				}
+			}
+		);
+
 		addStyledSlider(
 			new Setting(containerEl)
 				.setName('Temperature')
@@ -574,6 +731,24 @@ class LocalLLMSettingTab extends PluginSettingTab {
 			await this.plugin.saveSettings();
 		});
 
+		new Setting(containerEl).setName('Model profiles').setHeading();
+
+		new Setting(containerEl)
+			.setName('Add profile')
+			.setDesc('Profiles are named copies of the settings above, e.g. a fast small model and a slow high-quality one. Pick one per chat from the chat header.')
+			.addButton(button => button
+				.setButtonText('Add profile')
+				.onClick(async () => {
+					const profiles = this.plugin.settings.modelProfiles;
+					profiles.push(createModelProfile(this.plugin.settings, `Profile ${profiles.length + 1}`));
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		for (const profile of this.plugin.settings.modelProfiles) {
+			this.displayModelProfile(containerEl, profile, addStyledSlider);
+		}
+
 		new Setting(containerEl).setName('Search').setHeading();
 
 		addStyledSlider(
@@ -592,7 +767,7 @@ class LocalLLMSettingTab extends PluginSettingTab {
 		addStyledSlider(
 			new Setting(containerEl)
 				.setName('Context percentage from search')
-				.setDesc('Percentage of max tokens to use for search context (50% = 2000 tokens if max tokens is 4000)'),
+				.setDesc('Share of the prompt budget (context window minus the reply) that retrieved notes may use. Lower-ranked notes are dropped to fit'),
 			{
 				min: 10, max: 80, step: 5, value: this.plugin.settings.searchContextPercentage,
 				onChange: async (value) => {
@@ -661,6 +836,63 @@ class LocalLLMSettingTab extends PluginSettingTab {
 				}));
 		excludedFilePatternsSetting.settingEl.addClass('local-llm-exclusion-setting');
 
+		const excludedFilesSetting = new Setting(containerEl)
+			.setName('Excluded files')
+			.setDesc('One vault path per line, matched exactly. Files excluded from the index inspector are listed here.')
+			.addTextArea(text => text
+				.setPlaceholder('Journal/2024-01-01.md')
+				.setValue((this.plugin.settings.excludedFiles || []).join('\n'))
+				.then((text) => {
+					text.inputEl.rows = 3;
+					text.inputEl.addClass('local-llm-exclusion-textarea');
+					text.inputEl.addClass('local-llm-exclusion-textarea-compact');
+				})
+				.onChange(async (value) => {
+					this.plugin.settings.excludedFiles = this.parseMultilineList(value);
+					await this.plugin.saveSettings();
+				}));
+		excludedFilesSetting.settingEl.addClass('local-llm-exclusion-setting');
+
+		const indexedFrontmatterKeysSetting = new Setting(containerEl)
+			.setName('Filterable frontmatter keys')
+			.setDesc('One key per line. Values of these keys are stored with each note so search filters can match them (for example "status: draft"). Already indexed notes pick up changes on the next startup.')
+			.addTextArea(text => text
+				.setPlaceholder('type\nstatus')
+				.setValue((this.plugin.settings.indexedFrontmatterKeys || []).join('\n'))
+				.then((text) => {
+					text.inputEl.rows = 3;
+					text.inputEl.addClass('local-llm-exclusion-textarea');
+					text.inputEl.addClass('local-llm-exclusion-textarea-compact');
+				})
+				.onChange(async (value) => {
+					this.plugin.settings.indexedFrontmatterKeys = this.parseMultilineList(value);
+					await this.plugin.saveSettings();
+				}));
+		indexedFrontmatterKeysSetting.settingEl.addClass('local-llm-exclusion-setting');
+
+		new Setting(containerEl)
+			.setName('Resolve embeds when indexing')
+			.setDesc('Index the text of embedded notes, sections and blocks (![[Note#Section]]) as part of the notes that embed them. Editing an embedded note reindexes the notes that embed it. Applies on the next update.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.resolveEmbeds)
+				.onChange(async (value) => {
+					this.plugin.settings.resolveEmbeds = value;
+					await this.plugin.saveSettings();
+				}));
+
+		addStyledSlider(
+			new Setting(containerEl)
+				.setName('Embed depth')
+				.setDesc('How many levels of embeds inside embeds are resolved'),
+			{
+				min: 1, max: 5, step: 1, value: this.plugin.settings.embedResolutionDepth,
+				onChange: async (value) => {
+					this.plugin.settings.embedResolutionDepth = value;
+					await this.plugin.saveSettings();
+				}
+			}
+		);
+
 		// Smart update RAG database button
 		new Setting(containerEl)
 			.setName('Update RAG database')
@@ -725,6 +957,59 @@ class LocalLLMSettingTab extends PluginSettingTab {
 					}
 				}));
 
+		const failures = this.plugin.ragService.getIndexFailures();
+		if (failures.length > 0) {
+			const categories: Record<string, number> = {};
+			failures.forEach(failure => categories[failure.category] = (categories[failure.category] || 0) + 1);
+			const nextRetry = Math.min(...failures.map(failure => failure.nextRetry));
+			new Setting(containerEl)
+				.setName(`${failures.length} ${failures.length === 1 ? 'file' : 'files'} failed to index`)
+				.setDesc(`${Object.keys(categories).map(category => `${categories[category]} ${category}`).join(', ')}. ` +
+					`Failed files are retried automatically with increasing delays, next at ${new Date(nextRetry).toLocaleString()}. ` +
+					'The index inspector shows each error.')
+				.addButton(button => button
+					.setButtonText('Retry All')
+					.onClick(() => {
+						const indexing = this.plugin.ragService.isCurrentlyIndexing;
+						const queued = this.plugin.ragService.retryAllIndexFailures();
+						new Notice(indexing
+							? 'Indexing is running; the failed files are retried once it is done'
+							: `Retrying ${queued} ${queued === 1 ? 'file' : 'files'}`);
+						this.display();
+					}));
+		}
+
+		addStyledSlider(
+			new Setting(containerEl)
+				.setName('Embedding cache size')
+				.setDesc('Embeddings of unchanged text are reused when the index is rebuilt. The cache is saved in the index file; the least recently used entries are removed once it is larger than this (0 = off).'),
+			{
+				min: 0, max: 2048, step: 64, value: this.plugin.settings.embeddingCacheSizeMB,
+				onChange: async (value) => {
+					this.plugin.settings.embeddingCacheSizeMB = value;
+					await this.plugin.saveSettings();
+				},
+				format: (v) => v === 0 ? 'Off' : `${v} MB`
+			}
+		);
+
+		const cacheStats = this.plugin.ragService.getEmbeddingCacheStats();
+		new Setting(containerEl)
+			.setName('Clear embedding cache')
+			.setDesc(`${cacheStats.entryCount} cached embeddings (${(cacheStats.sizeInBytes / 1024 / 1024).toFixed(1)} MB). The index itself is kept.`)
+			.addButton(button => button
+				.setButtonText('Clear Cache')
+				.onClick(async () => {
+					try {
+						await this.plugin.ragService.clearEmbeddingCache();
+						new Notice('Embedding cache cleared');
+						this.display();
+					} catch (error) {
+						LoggingUtility.error('Failed to clear embedding cache:', error);
+						new Notice(`Failed to clear embedding cache: ${error.message}`);
+					}
+				}));
+
 		addStyledSlider(
 			new Setting(containerEl)
 				.setName('RAG relevance threshold')
@@ -752,10 +1037,48 @@ class LocalLLMSettingTab extends PluginSettingTab {
 			}
 		);
 
+		new Setting(containerEl)
+			.setName('Hybrid keyword search')
+			.setDesc('Combine embedding similarity with keyword (BM25) matching so exact names, acronyms and project codes are found')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.hybridSearchEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.hybridSearchEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		addStyledSlider(
+			new Setting(containerEl)
+				.setName('Semantic match weight')
+				.setDesc('How much embedding similarity counts when ranks are fused (0 = keyword only)'),
+			{
+				min: 0, max: 2, step: 0.1, value: this.plugin.settings.hybridVectorWeight,
+				onChange: async (value) => {
+					this.plugin.settings.hybridVectorWeight = value;
+					await this.plugin.saveSettings();
+				},
+				format: (v) => v.toFixed(1)
+			}
+		);
+
+		addStyledSlider(
+			new Setting(containerEl)
+				.setName('Keyword match weight')
+				.setDesc('How much keyword matching counts when ranks are fused (0 = semantic only)'),
+			{
+				min: 0, max: 2, step: 0.1, value: this.plugin.settings.hybridKeywordWeight,
+				onChange: async (value) => {
+					this.plugin.settings.hybridKeywordWeight = value;
+					await this.plugin.saveSettings();
+				},
+				format: (v) => v.toFixed(1)
+			}
+		);
+
 		// Embedding endpoint setting
 		new Setting(containerEl)
 			.setName('Embedding API endpoint')
-			.setDesc('The endpoint URL for the embedding API (used for generating vector embeddings)')
+			.setDesc('The endpoint URL for the embedding API (used for generating vector embeddings). Uses the same server type as chat.')
 			.addText(text => text
 				.setPlaceholder('http://localhost:1234/v1/embeddings')
 				.setValue(this.plugin.settings.embeddingEndpoint)
@@ -793,6 +1116,16 @@ class LocalLLMSettingTab extends PluginSettingTab {
 			this.loadAvailableEmbeddingModels();
 		}, 0);
 
+		new Setting(containerEl)
+			.setName('Rebuild automatically when the embedding model changes')
+			.setDesc('Vectors from different embedding models cannot be compared. When off, you are asked before the index is rebuilt; semantic search is paused until then.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoRebuildOnModelChange)
+				.onChange(async (value) => {
+					this.plugin.settings.autoRebuildOnModelChange = value;
+					await this.plugin.saveSettings();
+				}));
+
 
 
 		// Test embedding connection button
@@ -811,7 +1144,8 @@ class LocalLLMSettingTab extends PluginSettingTab {
 						this.plugin.ragService.updateEmbeddingConfig({
 							endpoint: this.plugin.settings.embeddingEndpoint,
 							model: this.plugin.settings.embeddingModel,
-							apiKey: this.plugin.settings.apiKey
+							apiKey: this.plugin.settings.apiKey,
+							provider: this.plugin.settings.llmProvider
 						});
 
 						// Test the connection
@@ -879,6 +1213,41 @@ class LocalLLMSettingTab extends PluginSettingTab {
 					}
 				}));
 
+		new Setting(containerEl).setName('PDF Attachments').setHeading();
+
+		new Setting(containerEl)
+			.setName('Index PDF attachments')
+			.setDesc('Extract the text of PDFs in your vault locally and add it to the RAG index, page by page. Citations open the PDF at the matching page.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.enablePdfIndexing)
+				.onChange(async (value) => {
+					this.plugin.settings.enablePdfIndexing = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Read scanned PDF pages with the vision model')
+			.setDesc('Pages without a text layer are rendered and sent to your vision model, like images. Requires image text extraction to be available.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.pdfOcrFallback)
+				.onChange(async (value) => {
+					this.plugin.settings.pdfOcrFallback = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl).setName('Saved chats').setHeading();
+
+		new Setting(containerEl)
+			.setName('Chat note folder')
+			.setDesc('Vault folder where conversations are written when you save a chat as a note')
+			.addText(text => text
+				.setPlaceholder('Private AI chats')
+				.setValue(this.plugin.settings.chatExportFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.chatExportFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl).setName('Support').setHeading();
 
 		new Setting(containerEl)
@@ -918,6 +1287,7 @@ class LocalLLMSettingTab extends PluginSettingTab {
 				const llmService = createLLMService({
 					apiEndpoint: this.plugin.settings.apiEndpoint,
 					apiKey: this.plugin.settings.apiKey,
+					provider: this.plugin.settings.llmProvider,
 					maxTokens: this.plugin.settings.maxTokens,
 					temperature: this.plugin.settings.temperature,
 					systemPrompt: this.plugin.settings.systemPrompt,
@@ -984,7 +1354,8 @@ class LocalLLMSettingTab extends PluginSettingTab {
 			const { createLLMService } = await import('./services/LLMService');
 			const llmService = createLLMService({
 				apiEndpoint: this.plugin.settings.apiEndpoint,
-				apiKey: this.plugin.settings.apiKey
+				apiKey: this.plugin.settings.apiKey,
+				provider: this.plugin.settings.llmProvider
 			});
 
 			// Fetch available models
@@ -1051,7 +1422,8 @@ class LocalLLMSettingTab extends PluginSettingTab {
 			const { createLLMService } = await import('./services/LLMService');
 			const llmService = createLLMService({
 				apiEndpoint: this.plugin.settings.embeddingEndpoint,
-				apiKey: this.plugin.settings.apiKey
+				apiKey: this.plugin.settings.apiKey,
+				provider: this.plugin.settings.llmProvider
 			});
 
 			const models = await llmService.getAvailableEmbeddingModels();
@@ -1106,6 +1478,121 @@ class LocalLLMSettingTab extends PluginSettingTab {
 		}
 	}
 
+	private displayModelProfile(containerEl: HTMLElement, profile: ModelProfile, addStyledSlider: (setting: Setting, opts: StyledSliderOptions) => void): void {
+		const profileEl = containerEl.createEl('div', { cls: 'local-llm-profile' });
+
+		new Setting(profileEl)
+			.setName('Profile name')
+			.addText(text => text
+				.setValue(profile.name)
+				.onChange(async (value) => {
+					profile.name = value.trim() || 'Untitled profile';
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash-2')
+				.setTooltip('Delete profile')
+				.onClick(async () => {
+					this.plugin.settings.modelProfiles = this.plugin.settings.modelProfiles.filter(existing => existing.id !== profile.id);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(profileEl)
+			.setName('Server type')
+			.addDropdown(dropdown => {
+				for (const type of Object.keys(LLM_PROVIDER_LABELS) as LLMProviderType[]) {
+					dropdown.addOption(type, LLM_PROVIDER_LABELS[type]);
+				}
+				dropdown
+					.setValue(profile.provider)
+					.onChange(async (value) => {
+						profile.provider = value as LLMProviderType;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(profileEl)
+			.setName('API endpoint')
+			.addText(text => text
+				.setPlaceholder('http://localhost:1234/v1/chat/completions')
+				.setValue(profile.apiEndpoint)
+				.onChange(async (value) => {
+					profile.apiEndpoint = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(profileEl)
+			.setName('Model')
+			.setDesc('Leave empty to let the server choose')
+			.addText(text => text
+				.setPlaceholder('Auto (server chooses)')
+				.setValue(profile.model ?? '')
+				.onChange(async (value) => {
+					const trimmedValue = value.trim();
+					profile.model = trimmedValue.length > 0 ? trimmedValue : undefined;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(profileEl)
+			.setName('API key')
+			.addText(text => text
+				.setPlaceholder('Enter API key')
+				.setValue(profile.apiKey ?? '')
+				.onChange(async (value) => {
+					const trimmedValue = value.trim();
+					profile.apiKey = trimmedValue.length > 0 ? trimmedValue : undefined;
+					await this.plugin.saveSettings();
+				}));
+
+		addStyledSlider(
+			new Setting(profileEl).setName('Max tokens'),
+			{
+				min: 100, max: 40000, step: 100, value: profile.maxTokens,
+				onChange: async (value) => {
+					profile.maxTokens = value;
+					await this.plugin.saveSettings();
+				}
+			}
+		);
+
+		addStyledSlider(
+			new Setting(profileEl).setName('Context window'),
+			{
+				min: 1024, max: 131072, step: 1024, value: profile.contextWindow || this.plugin.settings.contextWindow,
+				onChange: async (value) => {
+					profile.contextWindow = value;
+					await this.plugin.saveSettings();
+				}
+			}
+		);
+
+		addStyledSlider(
+			new Setting(profileEl).setName('Temperature'),
+			{
+				min: 0, max: 1, step: 0.01, value: profile.temperature,
+				onChange: async (value) => {
+					profile.temperature = value;
+					await this.plugin.saveSettings();
+				},
+				format: (v) => v.toFixed(2)
+			}
+		);
+
+		new Setting(profileEl)
+			.setName('System prompt');
+
+		const systemPromptTextArea = profileEl.createEl('textarea', {
+			cls: 'local-llm-system-prompt-textarea',
+			attr: { rows: '3' }
+		});
+		systemPromptTextArea.value = profile.systemPrompt;
+		systemPromptTextArea.addEventListener('input', async () => {
+			profile.systemPrompt = systemPromptTextArea.value;
+			await this.plugin.saveSettings();
+		});
+	}
+
 	private parseMultilineList(value: string): string[] {
 		return value
 			.split('\n')
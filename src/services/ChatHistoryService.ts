@@ -0,0 +1,185 @@
+import { App, PluginManifest } from 'obsidian';
+import { LoggingUtility } from '../utils/LoggingUtility';
+
+export interface StoredNoteReference {
+	title: string;
+	path: string;
+	relevance: number;
+	paragraphIndex?: number;
+	heading?: string; // innermost heading of the cited chunk, for note#heading links
+	page?: number; // PDF page of the cited chunk, for file.pdf#page=N links
+	excerpt?: string;
+}
+
+export interface StoredChatMessage {
+	id: string;
+	role: 'user' | 'assistant';
+	content: string;
+	timestamp: number;
+	usedNotes?: StoredNoteReference[];
+	thinkingBlocks?: string[];
+}
+
+export interface StoredConversation {
+	id: string;
+	title: string;
+	createdAt: number;
+	updatedAt: number;
+	messages: StoredChatMessage[];
+	profileId?: string; // model profile chosen for this chat (global settings when unset)
+}
+
+interface ChatHistoryFile {
+	version: number;
+	conversations: StoredConversation[];
+}
+
+const CHAT_HISTORY_FILE_VERSION = 1;
+const MAX_TITLE_LENGTH = 60;
+
+export class ChatHistoryService {
+	private app: App;
+	private historyPath: string;
+	private conversations: Map<string, StoredConversation> = new Map();
+	private loaded: boolean = false;
+	private loadPromise: Promise<void> | null = null;
+
+	constructor(app: App, manifest: PluginManifest) {
+		this.app = app;
+		const pluginDir = manifest.dir || `${this.app.vault.configDir}/plugins/${manifest.id}`;
+		this.historyPath = `${pluginDir}/chat-history.json`;
+	}
+
+	/**
+	 * Load saved conversations from the plugin folder (only reads from disk once)
+	 */
+	async load(): Promise<void> {
+		if (this.loaded) {
+			return;
+		}
+		if (!this.loadPromise) {
+			this.loadPromise = this.readFromDisk();
+		}
+		await this.loadPromise;
+	}
+
+	private async readFromDisk(): Promise<void> {
+		try {
+			const adapter = this.app.vault.adapter;
+			if (await adapter.exists(this.historyPath)) {
+				const raw = await adapter.read(this.historyPath);
+				const parsed = JSON.parse(raw) as Partial<ChatHistoryFile>;
+				for (const conversation of parsed.conversations || []) {
+					if (conversation && typeof conversation.id === 'string' && Array.isArray(conversation.messages)) {
+						this.conversations.set(conversation.id, conversation);
+					}
+				}
+			}
+			LoggingUtility.log(`Loaded ${this.conversations.size} saved conversations`);
+		} catch (error) {
+			LoggingUtility.error('Failed to load chat history:', error);
+		} finally {
+			this.loaded = true;
+		}
+	}
+
+	private async writeToDisk(): Promise<void> {
+		const payload: ChatHistoryFile = {
+			version: CHAT_HISTORY_FILE_VERSION,
+			conversations: Array.from(this.conversations.values())
+		};
+
+		try {
+			await this.app.vault.adapter.write(this.historyPath, JSON.stringify(payload));
+		} catch (error) {
+			LoggingUtility.error('Failed to save chat history:', error);
+		}
+	}
+
+	/**
+	 * List saved conversations, most recently updated first.
+	 * When a query is given, only conversations whose title or messages contain it are returned.
+	 */
+	async listConversations(query: string = ''): Promise<StoredConversation[]> {
+		await this.load();
+
+		const needle = query.trim().toLowerCase();
+		return Array.from(this.conversations.values())
+			.filter(conversation => {
+				if (!needle) {
+					return true;
+				}
+				if (conversation.title.toLowerCase().includes(needle)) {
+					return true;
+				}
+				return conversation.messages.some(message => message.content.toLowerCase().includes(needle));
+			})
+			.sort((a, b) => b.updatedAt - a.updatedAt);
+	}
+
+	async getConversation(id: string): Promise<StoredConversation | null> {
+		await this.load();
+		return this.conversations.get(id) || null;
+	}
+
+	/**
+	 * Create or replace a conversation. The title is kept if the conversation already has one.
+	 */
+	async saveConversation(id: string, messages: StoredChatMessage[], profileId?: string): Promise<StoredConversation> {
+		await this.load();
+
+		const now = Date.now();
+		const existing = this.conversations.get(id);
+		const conversation: StoredConversation = {
+			id,
+			title: existing?.title || ChatHistoryService.deriveTitle(messages),
+			createdAt: existing?.createdAt ?? now,
+			updatedAt: now,
+			messages
+		};
+		if (profileId) {
+			conversation.profileId = profileId;
+		}
+
+		this.conversations.set(id, conversation);
+		await this.writeToDisk();
+		return conversation;
+	}
+
+	async renameConversation(id: string, title: string): Promise<void> {
+		await this.load();
+
+		const conversation = this.conversations.get(id);
+		const trimmedTitle = title.trim();
+		if (!conversation || !trimmedTitle) {
+			return;
+		}
+
+		conversation.title = trimmedTitle;
+		await this.writeToDisk();
+	}
+
+	async deleteConversation(id: string): Promise<void> {
+		await this.load();
+
+		if (this.conversations.delete(id)) {
+			await this.writeToDisk();
+		}
+	}
+
+	static createConversationId(): string {
+		return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+	}
+
+	/**
+	 * Use the first user message as the conversation title
+	 */
+	static deriveTitle(messages: StoredChatMessage[]): string {
+		const firstUserMessage = messages.find(message => message.role === 'user');
+		const text = (firstUserMessage?.content || '').replace(/\s+/g, ' ').trim();
+		if (!text) {
+			return 'Untitled chat';
+		}
+		return text.length > MAX_TITLE_LENGTH ? text.substring(0, MAX_TITLE_LENGTH - 1) + '…' : text;
+	}
+}
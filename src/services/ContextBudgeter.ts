@@ -0,0 +1,153 @@
+import type { ChatMessage } from './LLMService';
+
+/** Returns one token count per text, in input order */
+export type TokenCounter = (texts: string[]) => Promise<number[]>;
+
+// Chat templates wrap every message in role markers
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export interface ContextBudgetRequest<T> {
+	contextWindow: number;
+	responseTokens: number; // reserved for the reply (max tokens)
+	contextShare: number; // 0-1, share of the prompt budget retrieved notes may use
+	systemPrompt: string;
+	history: ChatMessage[]; // oldest first, without the question
+	question: string;
+	results: T[]; // best ranked first
+	resultText: (result: T) => string; // text a single result adds to the prompt
+	buildPrompt: (results: T[]) => string; // final user message for the kept results
+}
+
+export interface ContextBudgetBreakdown {
+	system: number;
+	history: number;
+	context: number;
+	question: number;
+	total: number;
+	budget: number; // prompt tokens that fit next to the reserved reply
+	contextWindow: number;
+	exact: boolean; // counted by the server tokenizer rather than estimated
+}
+
+export interface ContextBudgetPlan<T> {
+	history: ChatMessage[];
+	results: T[];
+	prompt: string;
+	droppedTurns: number;
+	droppedResults: number;
+	breakdown: ContextBudgetBreakdown;
+}
+
+/**
+ * Rough token count for when the server has no tokenizer endpoint (about 4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/**
+ * Counter that asks the server tokenizer first and falls back to estimates when it has none or fails
+ */
+export function createTokenCounter(countExact?: (texts: string[]) => Promise<number[] | null>): { count: TokenCounter; isExact: () => boolean } {
+	let exact = !!countExact;
+	return {
+		count: async (texts: string[]) => {
+			if (texts.length === 0) {
+				return [];
+			}
+			if (exact && countExact) {
+				try {
+					const counts = await countExact(texts);
+					if (counts && counts.length === texts.length) {
+						return counts;
+					}
+				} catch {
+					// Fall through to estimates
+				}
+				exact = false;
+			}
+			return texts.map(estimateTokens);
+		},
+		isExact: () => exact
+	};
+}
+
+function messageText(message: ChatMessage): string {
+	if (typeof message.content === 'string') {
+		return message.content;
+	}
+	return message.content.map(part => part.text || '').join('\n');
+}
+
+/**
+ * Fit system prompt, history, retrieved notes and question into the model's context window.
+ * Notes get up to their share of the budget and are dropped from the lowest ranked end;
+ * history fills what is left, dropping the oldest turns first.
+ */
+export async function planContextBudget<T>(request: ContextBudgetRequest<T>, counter: { count: TokenCounter; isExact: () => boolean }): Promise<ContextBudgetPlan<T>> {
+	// Never reserve more than half the window for the reply, so a large max tokens setting still leaves room for the prompt
+	const budget = Math.max(0, request.contextWindow - Math.min(request.responseTokens, Math.floor(request.contextWindow / 2)));
+	const hasSystemPrompt = request.systemPrompt.trim().length > 0;
+
+	const baseTexts = [hasSystemPrompt ? request.systemPrompt : '', request.question];
+	const resultTexts = request.results.map(request.resultText);
+	const historyTexts = request.history.map(messageText);
+	const counts = await counter.count([...baseTexts, ...resultTexts, ...historyTexts]);
+
+	const systemTokens = hasSystemPrompt ? counts[0] + MESSAGE_OVERHEAD_TOKENS : 0;
+	const questionTokens = counts[1] + MESSAGE_OVERHEAD_TOKENS;
+	const resultTokens = counts.slice(baseTexts.length, baseTexts.length + resultTexts.length);
+	const historyTokens = counts.slice(baseTexts.length + resultTexts.length);
+
+	// Keep the best ranked results that fit the notes share
+	const contextLimit = Math.min(Math.floor(budget * request.contextShare), budget - systemTokens - questionTokens);
+	let keptResultCount = 0;
+	let usedContext = 0;
+	while (keptResultCount < resultTokens.length && usedContext + resultTokens[keptResultCount] <= contextLimit) {
+		usedContext += resultTokens[keptResultCount];
+		keptResultCount++;
+	}
+	const results = request.results.slice(0, keptResultCount);
+
+	const prompt = request.buildPrompt(results);
+	const promptTokens = results.length > 0
+		? (await counter.count([prompt]))[0] + MESSAGE_OVERHEAD_TOKENS
+		: questionTokens;
+
+	// Walk back from the newest turn while history still fits
+	const historyLimit = budget - systemTokens - promptTokens;
+	let firstKept = request.history.length;
+	let usedHistory = 0;
+	while (firstKept > 0) {
+		const messageTokens = historyTokens[firstKept - 1] + MESSAGE_OVERHEAD_TOKENS;
+		if (usedHistory + messageTokens > historyLimit) {
+			break;
+		}
+		usedHistory += messageTokens;
+		firstKept--;
+	}
+	// Start on a user turn so the kept history still alternates user/assistant
+	while (firstKept < request.history.length && request.history[firstKept].role !== 'user') {
+		usedHistory -= historyTokens[firstKept] + MESSAGE_OVERHEAD_TOKENS;
+		firstKept++;
+	}
+	const history = request.history.slice(firstKept);
+
+	return {
+		history,
+		results,
+		prompt,
+		droppedTurns: request.history.length - history.length,
+		droppedResults: request.results.length - results.length,
+		breakdown: {
+			system: systemTokens,
+			history: usedHistory,
+			context: promptTokens - questionTokens,
+			question: questionTokens,
+			total: systemTokens + usedHistory + promptTokens,
+			budget,
+			contextWindow: request.contextWindow,
+			exact: counter.isExact()
+		}
+	};
+}
@@ -0,0 +1,138 @@
+import { App, TFile, TFolder, normalizePath } from 'obsidian';
+import { LoggingUtility } from '../utils/LoggingUtility';
+import { StoredChatMessage, StoredNoteReference } from './ChatHistoryService';
+
+export interface ConversationNoteDetails {
+	title: string;
+	model?: string;
+	contextMode: string;
+	messages: StoredChatMessage[];
+}
+
+const INVALID_FILE_NAME_CHARACTERS = /[\\/:*?"<>|#^[\]]/g;
+const MAX_FILE_NAME_LENGTH = 80;
+
+export class ConversationNoteExporter {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Build the note content: frontmatter, one callout per turn and wikilinks to the notes used as context
+	 */
+	static buildMarkdown(details: ConversationNoteDetails): string {
+		const timestamps = details.messages.map(m => m.timestamp);
+		const created = timestamps.length > 0 ? Math.min(...timestamps) : Date.now();
+		const updated = timestamps.length > 0 ? Math.max(...timestamps) : created;
+
+		const lines: string[] = [
+			'---',
+			`title: ${JSON.stringify(details.title)}`,
+			`model: ${JSON.stringify(details.model || 'auto')}`,
+			`context_mode: ${details.contextMode}`,
+			`created: ${new Date(created).toISOString()}`,
+			`updated: ${new Date(updated).toISOString()}`,
+			`exported: ${new Date().toISOString()}`,
+			'---',
+			''
+		];
+
+		for (const message of details.messages) {
+			const time = new Date(message.timestamp).toLocaleString();
+			const calloutType = message.role === 'user' ? 'question' : 'note';
+			const speaker = message.role === 'user' ? 'You' : 'Assistant';
+
+			lines.push(`> [!${calloutType}] ${speaker} · ${time}`);
+			lines.push(...ConversationNoteExporter.quote(message.content, '> '));
+
+			if (message.thinkingBlocks && message.thinkingBlocks.length > 0) {
+				lines.push('>');
+				lines.push('> > [!abstract]- Thought process');
+				lines.push(...ConversationNoteExporter.quote(message.thinkingBlocks.join('\n\n'), '> > '));
+			}
+
+			lines.push('');
+		}
+
+		const usedNotes = ConversationNoteExporter.collectUsedNotes(details.messages);
+		if (usedNotes.length > 0) {
+			lines.push('## Notes used as context');
+			lines.push('');
+			for (const note of usedNotes) {
+				lines.push(`- ${ConversationNoteExporter.toWikilink(note)}`);
+			}
+			lines.push('');
+		}
+
+		return lines.join('\n');
+	}
+
+	/**
+	 * Write the conversation into the given vault folder, creating the folder if needed
+	 */
+	async saveToVault(folder: string, details: ConversationNoteDetails): Promise<TFile> {
+		const folderPath = normalizePath(folder.trim() || '/');
+		if (folderPath !== '/' && !(this.app.vault.getAbstractFileByPath(folderPath) instanceof TFolder)) {
+			await this.app.vault.createFolder(folderPath);
+		}
+
+		const baseName = ConversationNoteExporter.toFileName(details.title);
+		const prefix = folderPath === '/' ? '' : `${folderPath}/`;
+		let filePath = normalizePath(`${prefix}${baseName}.md`);
+		let suffix = 1;
+		while (this.app.vault.getAbstractFileByPath(filePath)) {
+			filePath = normalizePath(`${prefix}${baseName} ${suffix}.md`);
+			suffix++;
+		}
+
+		const file = await this.app.vault.create(filePath, ConversationNoteExporter.buildMarkdown(details));
+		LoggingUtility.log(`Saved conversation as note: ${file.path}`);
+		return file;
+	}
+
+	private static quote(text: string, prefix: string): string[] {
+		return text
+			.replace(/\r/g, '')
+			.trim()
+			.split('\n')
+			.map(line => line.length > 0 ? `${prefix}${line}` : prefix.trimEnd());
+	}
+
+	/**
+	 * Deduplicate used notes across the whole conversation, keeping first-seen order
+	 */
+	private static collectUsedNotes(messages: StoredChatMessage[]): StoredNoteReference[] {
+		const seenPaths = new Set<string>();
+		const notes: StoredNoteReference[] = [];
+
+		for (const message of messages) {
+			for (const note of message.usedNotes || []) {
+				if (!seenPaths.has(note.path)) {
+					seenPaths.add(note.path);
+					notes.push(note);
+				}
+			}
+		}
+
+		return notes;
+	}
+
+	private static toWikilink(note: StoredNoteReference): string {
+		const linkPath = note.path.replace(/\.md$/i, '');
+		const linkName = linkPath.split('/').pop() || linkPath;
+		const alias = note.title.replace(/[|\]]/g, ' ').trim();
+		return alias && alias !== linkName ? `[[${linkPath}|${alias}]]` : `[[${linkPath}]]`;
+	}
+
+	private static toFileName(title: string): string {
+		const cleaned = title
+			.replace(INVALID_FILE_NAME_CHARACTERS, ' ')
+			.replace(/\s+/g, ' ')
+			.trim()
+			.replace(/^\.+/, '');
+		const name = cleaned.substring(0, MAX_FILE_NAME_LENGTH).trim();
+		return name || 'Private AI chat';
+	}
+}
@@ -0,0 +1,116 @@
+import { App, TFile, CachedMetadata } from 'obsidian';
+import { MarkdownSegment } from '../utils/ChunkingUtility';
+
+interface TextRange {
+	start: number;
+	end: number;
+}
+
+// Block ids at the end of a line ("Some text ^abc123") are markup, not content
+const BLOCK_ID_PATTERN = /\s+\^[A-Za-z0-9-]+[ \t]*$/gm;
+
+/**
+ * Inlines the notes, sections and blocks that a note embeds with ![[...]], so the index holds the text
+ * a reader sees rather than the embed syntax
+ */
+export class EmbedResolver {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * The note split around its embeds, with embedded text resolved up to maxDepth levels deep.
+	 * Embeds that cannot be resolved, point at a file rejected by canEmbed or would recurse into a note
+	 * that is already being inlined are left as written.
+	 */
+	async resolve(file: TFile, maxDepth: number, canEmbed: (target: TFile) => boolean): Promise<MarkdownSegment[]> {
+		const content = await this.app.vault.cachedRead(file);
+		const segments: MarkdownSegment[] = [];
+		await this.appendSegments(file, content, { start: 0, end: content.length }, 0, maxDepth, canEmbed, [file.path], segments);
+		return segments;
+	}
+
+	/**
+	 * Character range of a heading's section (up to the next heading of the same or a higher level),
+	 * of a block, or of the whole note without its frontmatter when the subpath is empty
+	 */
+	static getSubpathRange(cache: CachedMetadata | null, subpath: string, contentLength: number): TextRange | null {
+		if (!subpath) {
+			const start = cache?.frontmatterPosition ? cache.frontmatterPosition.end.offset : 0;
+			return { start, end: contentLength };
+		}
+
+		if (subpath.startsWith('^')) {
+			const block = cache?.blocks ? cache.blocks[subpath.substring(1).toLowerCase()] : undefined;
+			return block ? { start: block.position.start.offset, end: block.position.end.offset } : null;
+		}
+
+		// Nested heading links ("#Project#Goals") name the innermost heading last
+		const parts = subpath.split('#').filter(part => part.trim().length > 0);
+		const target = (parts[parts.length - 1] || '').trim().toLowerCase();
+		const headings = cache?.headings || [];
+		const index = headings.findIndex(heading => heading.heading.trim().toLowerCase() === target);
+		if (index === -1) {
+			return null;
+		}
+
+		const level = headings[index].level;
+		const next = headings.slice(index + 1).find(heading => heading.level <= level);
+		return { start: headings[index].position.start.offset, end: next ? next.position.start.offset : contentLength };
+	}
+
+	private async appendSegments(
+		file: TFile,
+		content: string,
+		range: TextRange,
+		depth: number,
+		maxDepth: number,
+		canEmbed: (target: TFile) => boolean,
+		ancestors: string[],
+		segments: MarkdownSegment[]
+	): Promise<void> {
+		const origin = depth === 0 ? undefined : file.path;
+		const pushText = (text: string) => {
+			segments.push({ text: origin ? text.replace(BLOCK_ID_PATTERN, '') : text, depth, origin });
+		};
+
+		const embeds = (this.app.metadataCache.getFileCache(file)?.embeds || [])
+			.filter(embed => embed.position.start.offset >= range.start && embed.position.end.offset <= range.end)
+			.sort((a, b) => a.position.start.offset - b.position.start.offset);
+
+		let cursor = range.start;
+		for (const embed of embeds) {
+			if (depth >= maxDepth) {
+				break;
+			}
+
+			const hashIndex = embed.link.indexOf('#');
+			const linkPath = hashIndex === -1 ? embed.link : embed.link.substring(0, hashIndex);
+			const subpath = hashIndex === -1 ? '' : embed.link.substring(hashIndex + 1);
+			const target = linkPath
+				? this.app.metadataCache.getFirstLinkpathDest(linkPath, file.path)
+				: file; // "![[#Heading]]" embeds a section of the same note
+			if (!target || target.extension.toLowerCase() !== 'md' || !canEmbed(target)) {
+				continue;
+			}
+			if (target.path !== file.path && ancestors.indexOf(target.path) !== -1) {
+				continue;
+			}
+
+			const targetContent = target.path === file.path ? content : await this.app.vault.cachedRead(target);
+			const targetRange = EmbedResolver.getSubpathRange(this.app.metadataCache.getFileCache(target), subpath, targetContent.length);
+			// A same-note embed of the section it sits in would inline itself
+			if (!targetRange || (target.path === file.path && targetRange.start <= embed.position.start.offset && targetRange.end >= embed.position.end.offset)) {
+				continue;
+			}
+
+			pushText(content.substring(cursor, embed.position.start.offset));
+			await this.appendSegments(target, targetContent, targetRange, depth + 1, maxDepth, canEmbed, ancestors.concat(target.path), segments);
+			cursor = embed.position.end.offset;
+		}
+
+		pushText(content.substring(cursor, range.end));
+	}
+}
@@ -1,46 +1,28 @@
 import { LoggingUtility } from '../utils/LoggingUtility';
-import { requestUrl } from 'obsidian';
-
-interface EmbeddingRequest {
-	input: string | string[];
-	model?: string;
-}
-
-interface EmbeddingResponse {
-	data: Array<{
-		embedding: number[];
-		index: number;
-	}>;
-	model: string;
-	usage: {
-		prompt_tokens: number;
-		total_tokens: number;
-	};
-}
+import { LLMProvider, LLMProviderType } from './providers/LLMProvider';
+import { createLLMProvider } from './providers/ProviderFactory';
 
 export interface EmbeddingConfig {
 	endpoint: string;
 	model: string;
 	apiKey?: string;
+	provider?: LLMProviderType;
 }
 
 export class EmbeddingService {
 	private config: EmbeddingConfig;
+	private provider: LLMProvider;
 
 	constructor(config: EmbeddingConfig) {
 		this.config = config;
+		this.provider = EmbeddingService.createProvider(config);
 	}
 
-	private buildHeaders(): Record<string, string> {
-		const headers: Record<string, string> = {
-			'Content-Type': 'application/json',
-		};
-
-		if (this.config.apiKey && this.config.apiKey.trim().length > 0) {
-			headers.Authorization = `Bearer ${this.config.apiKey.trim()}`;
-		}
-
-		return headers;
+	private static createProvider(config: EmbeddingConfig): LLMProvider {
+		return createLLMProvider(config.provider, {
+			endpoint: config.endpoint,
+			apiKey: config.apiKey
+		});
 	}
 
 	/**
@@ -48,35 +30,12 @@ export class EmbeddingService {
 	 */
 	async generateEmbedding(text: string): Promise<number[]> {
 		try {
-			const request: EmbeddingRequest = {
-				input: text,
-				model: this.config.model
-			};
-
 			LoggingUtility.log('Generating embedding for text length:', text.length);
 
-			const response = await requestUrl({
-				url: this.config.endpoint,
-				method: 'POST',
-				headers: this.buildHeaders(),
-				body: JSON.stringify(request)
-			});
-
-			if (response.status >= 400) {
-				const errorText = response.text;
-				LoggingUtility.error('Embedding API Error Response:', errorText);
-				throw new Error(`Embedding API request failed: ${response.status} - ${errorText}`);
-			}
-
-			const responseData = response.json as EmbeddingResponse;
-			
-			if (!responseData.data || responseData.data.length === 0) {
-				throw new Error('No embedding data returned from API');
-			}
-
-			const embedding = responseData.data[0].embedding;
+			const embeddings = await this.provider.embed(text, this.config.model);
+			const embedding = embeddings[0];
 			LoggingUtility.log(`Generated embedding with ${embedding.length} dimensions`);
-			
+
 			return embedding;
 
 		} catch (error) {
@@ -90,38 +49,12 @@ export class EmbeddingService {
 	 */
 	async generateEmbeddings(texts: string[]): Promise<number[][]> {
 		try {
-			const request: EmbeddingRequest = {
-				input: texts,
-				model: this.config.model
-			};
-
 			LoggingUtility.log('Generating embeddings for', texts.length, 'texts');
 
-			const response = await requestUrl({
-				url: this.config.endpoint,
-				method: 'POST',
-				headers: this.buildHeaders(),
-				body: JSON.stringify(request)
-			});
+			const embeddings = await this.provider.embed(texts, this.config.model);
 
-			if (response.status >= 400) {
-				const errorText = response.text;
-				LoggingUtility.error('Embedding API Error Response:', errorText);
-				throw new Error(`Embedding API request failed: ${response.status} - ${errorText}`);
-			}
-
-			const responseData = response.json as EmbeddingResponse;
-			
-			if (!responseData.data || responseData.data.length === 0) {
-				throw new Error('No embedding data returned from API');
-			}
-
-			// Sort by index to ensure correct order
-			const sortedData = responseData.data.sort((a, b) => a.index - b.index);
-			const embeddings = sortedData.map(item => item.embedding);
-			
 			LoggingUtility.log(`Generated ${embeddings.length} embeddings with ${embeddings[0]?.length || 0} dimensions each`);
-			
+
 			return embeddings;
 
 		} catch (error) {
@@ -157,6 +90,7 @@ export class EmbeddingService {
 	 */
 	updateConfig(config: EmbeddingConfig): void {
 		this.config = config;
+		this.provider = EmbeddingService.createProvider(config);
 		LoggingUtility.log('Updated embedding service config:', config);
 	}
 } 
@@ -6,6 +6,7 @@ export interface ImageTextExtractionResult {
 	success: boolean;
 	extractedText: string;
 	error?: string;
+	noText?: boolean; // the model read the image and found no text (not a failure worth retrying)
 	modelCapabilities?: {
 		supportsVision: boolean;
 		modelName?: string;
@@ -99,10 +100,26 @@ export class ImageTextExtractor {
 	 * Extract text from an image file
 	 */
 	async extractTextFromImage(imageFile: TFile): Promise<ImageTextExtractionResult> {
+		let imageData: string;
 		try {
 			// Read the image file as base64
-			const imageData = await this.readImageAsBase64(imageFile);
+			imageData = await this.readImageAsBase64(imageFile);
+		} catch (error) {
+			LoggingUtility.error('Error extracting text from image:', error);
+			return {
+				success: false,
+				extractedText: '',
+				error: `Extraction failed: ${error.message}`
+			};
+		}
+		return this.extractTextFromImageData(imageData);
+	}
 
+	/**
+	 * Extract text from an image given as a data URL (e.g. a rendered PDF page)
+	 */
+	async extractTextFromImageData(imageData: string): Promise<ImageTextExtractionResult> {
+		try {
 			// Create a vision prompt for text extraction
 			const visionPrompt = `Please extract all the text content from this image. Return only the extracted text, formatted clearly and preserving the structure. If there are multiple text elements, separate them with line breaks. If no text is found, respond with "No text found in image."`;
 
@@ -114,7 +131,8 @@ export class ImageTextExtractor {
 				return {
 					success: false,
 					extractedText: '',
-					error: 'No text could be extracted from the image'
+					error: 'No text could be extracted from the image',
+					noText: true
 				};
 			}
 
@@ -1,5 +1,6 @@
 import { LoggingUtility } from '../utils/LoggingUtility';
-import { requestUrl } from 'obsidian';
+import { LLMProvider, LLMProviderType, ProviderChatRequest } from './providers/LLMProvider';
+import { createLLMProvider } from './providers/ProviderFactory';
 
 export interface LLMConfig {
 	apiEndpoint: string;
@@ -8,10 +9,11 @@ export interface LLMConfig {
 	systemPrompt?: string;
 	model?: string;
 	apiKey?: string;
+	provider?: LLMProviderType;
 }
 
 // Centralized error message function
-function getLLMErrorMessage(error: Error, endpoint?: string): string {
+function getLLMErrorMessage(error: Error, serverName: string = 'LM Studio'): string {
 	// Check if it's a network/connection error
 	if (error.message.includes('Failed to fetch') ||
 		error.message.includes('NetworkError') ||
@@ -19,7 +21,7 @@ function getLLMErrorMessage(error: Error, endpoint?: string): string {
 		error.message.includes('ERR_CONNECTION_REFUSED') ||
 		error.message.includes('ERR_EMPTY_RESPONSE')) {
 		return `It appears your local LLM server is not running.
-* Check that LM Studio is running and a model is loaded
+* Check that ${serverName} is running and a model is loaded
 * Check that you started local server
 * Check that Cross-Origin-Resource-Sharing CORS is enabled		
 `;
@@ -37,6 +39,18 @@ function getLLMErrorMessage(error: Error, endpoint?: string): string {
 	}
 
 	// For other errors, return a generic message
+	if (serverName !== 'LM Studio') {
+		return `## ⚠️ Connection Error
+
+It appears your local LLM server is not running.
+
+### Troubleshooting Steps
+* Check that ${serverName} is running and a model is available
+* Verify that the server accepts requests from Obsidian (CORS / allowed origins)
+* Verify that the endpoint and port match those in the settings page of this plugin
+`;
+	}
+
 	return `## ⚠️ Connection Error
 
 It appears your local LLM server is not running.
@@ -62,112 +76,52 @@ export interface ChatMessage {
 	}>;
 }
 
-export interface ChatRequest {
-	messages: ChatMessage[];
-	max_tokens?: number;
-	temperature?: number;
-	stream?: boolean;
-	model?: string;
-}
-
-export interface ChatResponse {
-	choices: Array<{
-		message: {
-			content: string;
-			role: string;
-		};
-		finish_reason: string;
-	}>;
-	usage?: {
-		prompt_tokens: number;
-		completion_tokens: number;
-		total_tokens: number;
-	};
-}
-
-export interface StreamChunk {
-	choices: Array<{
-		delta: {
-			content?: string;
-			role?: string;
-		};
-		finish_reason?: string;
-	}>;
-}
-
-export interface ModelData {
-	id: string;
-	object: string;
-	created?: number;
-	owned_by?: string;
-}
-
-export interface ModelsResponse {
-	data: ModelData[];
-	object: string;
-}
-
-export interface LMStudioRestModel {
-	type?: 'llm' | 'embedding';
-	key?: string;
-	id?: string;
-	display_name?: string;
-}
-
-export interface LMStudioRestModelsResponse {
-	models: LMStudioRestModel[];
-}
-
 export type StreamCallback = (chunk: string, isComplete: boolean) => void;
 
 export class LLMService {
 	private config: LLMConfig;
+	private provider: LLMProvider;
 
 	constructor(config: LLMConfig) {
 		this.config = config;
+		this.provider = createLLMProvider(config.provider, {
+			endpoint: config.apiEndpoint,
+			apiKey: config.apiKey
+		});
 	}
 
-	private buildHeaders(): Record<string, string> {
-		const headers: Record<string, string> = {
-			'Content-Type': 'application/json',
-		};
+	/**
+	 * Prepend the system prompt (if configured) to the conversation
+	 */
+	private buildMessages(conversation: ChatMessage[]): ChatMessage[] {
+		const messages: ChatMessage[] = [];
 
-		if (this.config.apiKey && this.config.apiKey.trim().length > 0) {
-			headers.Authorization = `Bearer ${this.config.apiKey.trim()}`;
+		if (this.config.systemPrompt && this.config.systemPrompt.trim()) {
+			messages.push({ role: 'system', content: this.config.systemPrompt });
 		}
 
-		return headers;
+		messages.push(...conversation);
+		return messages;
+	}
+
+	private buildRequest(messages: ChatMessage[]): ProviderChatRequest {
+		return {
+			messages,
+			model: this.config.model,
+			maxTokens: this.config.maxTokens,
+			temperature: this.config.temperature
+		};
 	}
 
 	async sendMessage(message: string, conversationHistory: ChatMessage[] = []): Promise<string> {
 		try {
-			const messages: ChatMessage[] = [];
-
-			// Add system prompt if configured
-			if (this.config.systemPrompt && this.config.systemPrompt.trim()) {
-				messages.push({ role: 'system', content: this.config.systemPrompt });
-			}
-
-			// Add conversation history and current message
-			messages.push(...conversationHistory, { role: 'user', content: message });
-
-			const request: ChatRequest = {
-				messages,
-				max_tokens: this.config.maxTokens || 1000,
-				temperature: this.config.temperature || 0.7,
-				stream: false
-			};
+			const request = this.buildRequest(this.buildMessages([...conversationHistory, { role: 'user', content: message }]));
 
-			// Add model to request if specified
-			if (this.config.model) {
-				request.model = this.config.model;
-			}
-
-			LoggingUtility.log('Sending request to:', this.config.apiEndpoint);
+			LoggingUtility.log(`Sending ${this.provider.type} request to:`, this.config.apiEndpoint);
 			LoggingUtility.log('Request payload:', JSON.stringify(request, null, 2));
 
-			const response = await this.makeAPIRequest(request);
-			return response.choices[0]?.message?.content || 'No response content';
+			const content = await this.callProvider(() => this.provider.chat(request));
+			return content || 'No response content';
 		} catch (error) {
 			LoggingUtility.error('Error sending message to LLM:', error);
 			throw error;
@@ -179,16 +133,6 @@ export class LLMService {
 	 */
 	async sendVisionMessage(text: string, imageBase64: string, conversationHistory: ChatMessage[] = []): Promise<string> {
 		try {
-			const messages: ChatMessage[] = [];
-
-			// Add system prompt if configured
-			if (this.config.systemPrompt && this.config.systemPrompt.trim()) {
-				messages.push({ role: 'system', content: this.config.systemPrompt });
-			}
-
-			// Add conversation history
-			messages.push(...conversationHistory);
-
 			// Create vision message with image and text
 			const visionMessage: ChatMessage = {
 				role: 'user',
@@ -207,21 +151,13 @@ export class LLMService {
 				]
 			};
 
-			messages.push(visionMessage);
-
-			const request: ChatRequest = {
-				messages,
-				max_tokens: this.config.maxTokens || 1000,
-				temperature: this.config.temperature || 0.7,
-				stream: false
-			};
+			const request = this.buildRequest(this.buildMessages([...conversationHistory, visionMessage]));
 
 			LoggingUtility.log('Sending vision request to:', this.config.apiEndpoint);
-			LoggingUtility.log('Vision request payload:', JSON.stringify(request, null, 2));
 
-			const response = await this.makeAPIRequest(request);
-			LoggingUtility.log('Raw vision response:', JSON.stringify(response.choices[0]?.message?.content, null, 2));
-			return response.choices[0]?.message?.content || 'No response content';
+			const content = await this.callProvider(() => this.provider.chat(request));
+			LoggingUtility.log('Raw vision response:', JSON.stringify(content, null, 2));
+			return content || 'No response content';
 		} catch (error) {
 			LoggingUtility.error('Error sending vision message to LLM:', error);
 			throw error;
@@ -230,32 +166,12 @@ export class LLMService {
 
 	async sendMessageStream(message: string, conversationHistory: ChatMessage[] = [], callback: StreamCallback, abortSignal?: AbortSignal): Promise<void> {
 		try {
-			const messages: ChatMessage[] = [];
+			const request = this.buildRequest(this.buildMessages([...conversationHistory, { role: 'user', content: message }]));
 
-			// Add system prompt if configured
-			if (this.config.systemPrompt && this.config.systemPrompt.trim()) {
-				messages.push({ role: 'system', content: this.config.systemPrompt });
-			}
-
-			// Add conversation history and current message
-			messages.push(...conversationHistory, { role: 'user', content: message });
-
-			const request: ChatRequest = {
-				messages,
-				max_tokens: this.config.maxTokens || 1000,
-				temperature: this.config.temperature || 0.7,
-				stream: true
-			};
-
-			// Add model to request if specified
-			if (this.config.model) {
-				request.model = this.config.model;
-			}
-
-			LoggingUtility.log('Sending streaming request to:', this.config.apiEndpoint);
+			LoggingUtility.log(`Sending ${this.provider.type} streaming request to:`, this.config.apiEndpoint);
 			LoggingUtility.log('Request payload:', JSON.stringify(request, null, 2));
 
-			await this.makeStreamingAPIRequest(request, callback, abortSignal);
+			await this.callProvider(() => this.provider.chatStream(request, callback, abortSignal));
 		} catch (error) {
 			if (error.name === 'AbortError') {
 				LoggingUtility.log('Request was cancelled by user');
@@ -266,158 +182,19 @@ export class LLMService {
 		}
 	}
 
-	private async makeAPIRequest(request: ChatRequest): Promise<ChatResponse> {
-		const headers = this.buildHeaders();
-
-		LoggingUtility.log('Making API request to:', this.config.apiEndpoint);
-		LoggingUtility.log('Headers:', headers);
-
+	/**
+	 * Run a provider call, turning failures into troubleshooting text (user cancellation is passed through)
+	 */
+	private async callProvider<T>(call: () => Promise<T>): Promise<T> {
 		try {
-			const response = await requestUrl({
-				url: this.config.apiEndpoint,
-				method: 'POST',
-				headers,
-				body: JSON.stringify(request)
-			});
-
-			LoggingUtility.log('Response status:', response.status);
-			LoggingUtility.log('Response headers:', response.headers);
-
-			if (response.status >= 400) {
-				const errorText = response.text;
-				LoggingUtility.error('API Error Response:', errorText);
-				throw new Error(`API request failed: ${response.status} - ${errorText}`);
-			}
-
-			const responseData = response.json;
-			LoggingUtility.log('Response data:', responseData);
-			return responseData;
+			return await call();
 		} catch (error) {
 			LoggingUtility.error('Fetch error details:', error);
-			throw new Error(getLLMErrorMessage(error, this.config.apiEndpoint));
-		}
-	}
-
-	private async makeStreamingAPIRequest(request: ChatRequest, callback: StreamCallback, abortSignal?: AbortSignal): Promise<void> {
-		LoggingUtility.log('Making streaming API request to:', this.config.apiEndpoint);
-
-		// Note: requestUrl doesn't support streaming, so we fall back to fetch for streaming requests
-		// This is a known limitation when working with streaming APIs in Obsidian plugins
-		try {
-			// For streaming, we need to use native fetch as Obsidian's requestUrl doesn't support streaming
-			if (!window || !window.fetch) {
-				throw new Error('Streaming is not supported in this environment');
-			}
-
-			const headers = this.buildHeaders();
-
-			const response = await fetch(this.config.apiEndpoint, {
-				method: 'POST',
-				headers,
-				body: JSON.stringify(request),
-				signal: abortSignal || AbortSignal.timeout(60000), // 60 second timeout for streaming
-			});
-
-			LoggingUtility.log('Streaming response status:', response.status);
-
-			if (!response.ok) {
-				const errorText = await response.text();
-				LoggingUtility.error('Streaming API Error Response:', errorText);
-				throw new Error(`Streaming API request failed: ${response.status} ${response.statusText} - ${errorText}`);
-			}
-
-			if (!response.body) {
-				throw new Error('No response body for streaming request');
-			}
-
-			const reader = response.body.getReader();
-			const decoder = new TextDecoder();
-			let buffer = '';
-			let isCompleted = false; // Flag to prevent multiple completion signals
-
-			try {
-				while (true) {
-					const { done, value } = await reader.read();
-
-					if (done) {
-						// Process any remaining buffer
-						if (buffer.trim() && !isCompleted) {
-							this.processStreamChunk(buffer, callback);
-						}
-						if (!isCompleted) {
-							callback('', true); // Signal completion
-							isCompleted = true;
-						}
-						break;
-					}
-
-					// Decode the chunk and add to buffer
-					buffer += decoder.decode(value, { stream: true });
-
-					// Process complete lines
-					const lines = buffer.split('\n');
-					buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-					for (const line of lines) {
-						if (line.trim() && line.startsWith('data: ')) {
-							const data = line.slice(6); // Remove 'data: ' prefix
-
-							if (data === '[DONE]') {
-								if (!isCompleted) {
-									callback('', true); // Signal completion
-									isCompleted = true;
-								}
-								return;
-							}
-
-							try {
-								const chunk: StreamChunk = JSON.parse(data);
-								this.processStreamChunk(chunk, callback, isCompleted);
-								// Check if completion was signaled by processStreamChunk
-								if (chunk.choices?.some(choice => choice.finish_reason)) {
-									isCompleted = true;
-								}
-							} catch (parseError) {
-								LoggingUtility.warn('Failed to parse streaming chunk:', data, parseError);
-							}
-						}
-					}
-				}
-			} finally {
-				reader.releaseLock();
-			}
-		} catch (error) {
-			LoggingUtility.error('Streaming fetch error details:', error);
-
-			// Handle specific error types
 			if (error.name === 'AbortError') {
 				// Re-throw as AbortError so the caller can detect user cancellation
 				throw error;
 			}
-
-			throw new Error(getLLMErrorMessage(error, this.config.apiEndpoint));
-		}
-	}
-
-	private processStreamChunk(chunk: StreamChunk | string, callback: StreamCallback, isCompleted: boolean = false): void {
-		if (typeof chunk === 'string') {
-			// Handle raw string chunks (fallback)
-			if (chunk.trim() && !isCompleted) {
-				callback(chunk, false);
-			}
-			return;
-		}
-
-		// Handle structured chunks
-		for (const choice of chunk.choices) {
-			if (choice.delta?.content && !isCompleted) {
-				callback(choice.delta.content, false);
-			}
-
-			if (choice.finish_reason && !isCompleted) {
-				callback('', true); // Signal completion
-				return;
-			}
+			throw new Error(getLLMErrorMessage(error, this.provider.serverName));
 		}
 	}
 
@@ -427,46 +204,21 @@ export class LLMService {
 			LoggingUtility.log('Testing connection to:', this.config.apiEndpoint);
 
 			// Create a simple test request asking for a smiley face
-			const testRequest: ChatRequest = {
+			const content = await this.provider.chat({
 				messages: [{ role: 'user', content: 'Return a smiley face' }],
-				max_tokens: 10,
-				temperature: 0.1,
-				stream: false
-			};
-
-			// Add model to test request if specified
-			if (this.config.model) {
-				testRequest.model = this.config.model;
-			}
-
-			const response = await this.makeAPIRequest(testRequest);
-
-			// Log the actual response structure for debugging
-			LoggingUtility.log('Connection test - full response structure:', JSON.stringify(response, null, 2));
-
-			// Verify we got a response with content
-			if (!response.choices || response.choices.length === 0) {
-				throw new Error(`Invalid response structure from API - no choices array. Response: ${JSON.stringify(response)}`);
-			}
-
-			const firstChoice = response.choices[0];
-			if (!firstChoice.message) {
-				throw new Error(`Invalid response structure from API - no message in choice. Choice: ${JSON.stringify(firstChoice)}`);
-			}
+				model: this.config.model,
+				maxTokens: 10,
+				temperature: 0.1
+			});
 
 			// Some APIs might return empty content, which is still a valid connection
-			const content = firstChoice.message.content;
-			if (content === null || content === undefined) {
-				LoggingUtility.warn('API returned null/undefined content, but connection appears successful');
-			}
-
 			LoggingUtility.log('Connection test successful, received response:', content);
 			return { success: true };
 		} catch (error) {
 			LoggingUtility.error('Connection test failed:', error);
 			return {
 				success: false,
-				error: getLLMErrorMessage(error, this.config.apiEndpoint)
+				error: getLLMErrorMessage(error, this.provider.serverName)
 			};
 		}
 	}
@@ -474,7 +226,7 @@ export class LLMService {
 	// Method to get supported models (if the API supports it)
 	async getAvailableModels(): Promise<string[]> {
 		try {
-			const models = await this.fetchAvailableModels();
+			const models = await this.provider.listModels();
 			return models.map((model) => model.id);
 		} catch (error) {
 			LoggingUtility.error('Failed to fetch available models:', error);
@@ -484,7 +236,7 @@ export class LLMService {
 
 	async getAvailableEmbeddingModels(): Promise<string[]> {
 		try {
-			const models = await this.fetchAvailableModels();
+			const models = await this.provider.listModels();
 
 			return models
 				.filter(model => {
@@ -502,92 +254,34 @@ export class LLMService {
 		}
 	}
 
-	private async fetchAvailableModels(): Promise<Array<{ id: string; type?: 'llm' | 'embedding' }>> {
-		const endpoints = this.getModelListEndpoints();
-		const headers = this.buildHeaders();
-
-		for (const endpoint of endpoints) {
-			try {
-				LoggingUtility.log('Fetching models from:', endpoint);
-				const response = await requestUrl({
-					url: endpoint,
-					method: 'GET',
-					headers
-				});
-
-				if (response.status >= 400) {
-					throw new Error(`Failed to fetch models: ${response.status}`);
-				}
-
-				const parsed = this.parseModelsResponse(response.json);
-				if (parsed.length > 0) {
-					return parsed;
-				}
-			} catch (error) {
-				LoggingUtility.warn(`Failed to fetch models from ${endpoint}:`, error);
-			}
+	/**
+	 * Token counts from the server tokenizer, or null when the server has none
+	 */
+	async countTokens(texts: string[]): Promise<number[] | null> {
+		if (!this.provider.countTokens) {
+			return null;
 		}
-
-		throw new Error('Failed to fetch models from all known model endpoints');
-	}
-
-	private getModelListEndpoints(): string[] {
 		try {
-			const parsedUrl = new URL(this.config.apiEndpoint);
-			const pathLower = parsedUrl.pathname.toLowerCase();
-
-			const basePath =
-				pathLower.includes('/v1/')
-					? parsedUrl.pathname.substring(0, pathLower.indexOf('/v1/'))
-					: '';
-
-			return [
-				`${parsedUrl.origin}${basePath}/api/v1/models`,
-				`${parsedUrl.origin}${basePath}/v1/models`
-			];
-			} catch (error) {
-				LoggingUtility.error('Error parsing URL for model endpoint:', error);
-			const fallbackBase = this.config.apiEndpoint
-				.replace('/chat/completions', '')
-				.replace('/embeddings', '')
-				.replace('/v1/models', '')
-				.replace('/api/v1/models', '');
-
-			return [
-				`${fallbackBase}/api/v1/models`,
-				`${fallbackBase}/v1/models`
-			];
+			return await this.provider.countTokens(texts);
+		} catch (error) {
+			LoggingUtility.warn('Failed to count tokens, falling back to estimates:', error);
+			return null;
 		}
 	}
 
-	private parseModelsResponse(payload: unknown): Array<{ id: string; type?: 'llm' | 'embedding' }> {
-		const modelMap = new Map<string, { id: string; type?: 'llm' | 'embedding' }>();
-		const dataPayload = payload as Partial<ModelsResponse>;
-		const lmStudioPayload = payload as Partial<LMStudioRestModelsResponse>;
-
-		if (Array.isArray(dataPayload.data)) {
-			dataPayload.data
-				.map(model => model?.id)
-				.filter((id): id is string => typeof id === 'string' && id.trim().length > 0)
-				.forEach(id => {
-					modelMap.set(id, { id });
-				});
+	/**
+	 * Context window reported by the server, or null when it does not report one
+	 */
+	async getContextWindow(): Promise<number | null> {
+		if (!this.provider.getContextWindow) {
+			return null;
 		}
-
-		if (Array.isArray(lmStudioPayload.models)) {
-			lmStudioPayload.models
-				.map(model => ({
-					id: model?.key || model?.id || model?.display_name || '',
-					type: model?.type
-				}))
-				.forEach(model => {
-					if (typeof model.id === 'string' && model.id.trim().length > 0) {
-						modelMap.set(model.id, model);
-					}
-				});
+		try {
+			return await this.provider.getContextWindow();
+		} catch (error) {
+			LoggingUtility.warn('Failed to read context window from server:', error);
+			return null;
 		}
-
-		return Array.from(modelMap.values());
 	}
 
 	// Method to validate configuration
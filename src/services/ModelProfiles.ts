@@ -0,0 +1,92 @@
+import { LLMConfig } from './LLMService';
+import { LLMProviderType } from './providers/LLMProvider';
+
+/**
+ * A named set of server, model and sampling settings that a chat can switch to
+ */
+export interface ModelProfile {
+	id: string;
+	name: string;
+	provider: LLMProviderType;
+	apiEndpoint: string;
+	model?: string;
+	apiKey?: string;
+	maxTokens: number;
+	contextWindow?: number;
+	temperature: number;
+	systemPrompt: string;
+}
+
+/** The global settings act as the unnamed default profile */
+export interface ModelProfileSettings {
+	llmProvider: LLMProviderType;
+	apiEndpoint: string;
+	model?: string;
+	apiKey?: string;
+	maxTokens: number;
+	contextWindow: number;
+	temperature: number;
+	systemPrompt: string;
+	modelProfiles: ModelProfile[];
+}
+
+export function createModelProfileId(): string {
+	return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * New profile pre-filled from the global settings
+ */
+export function createModelProfile(settings: ModelProfileSettings, name: string): ModelProfile {
+	return {
+		id: createModelProfileId(),
+		name,
+		provider: settings.llmProvider,
+		apiEndpoint: settings.apiEndpoint,
+		model: settings.model,
+		apiKey: settings.apiKey,
+		maxTokens: settings.maxTokens,
+		contextWindow: settings.contextWindow,
+		temperature: settings.temperature,
+		systemPrompt: settings.systemPrompt
+	};
+}
+
+export function findModelProfile(settings: ModelProfileSettings, profileId: string | null | undefined): ModelProfile | null {
+	if (!profileId) {
+		return null;
+	}
+	return (settings.modelProfiles || []).find(profile => profile.id === profileId) || null;
+}
+
+/**
+ * LLM config for a profile, or for the global settings when the profile is unset or no longer exists
+ */
+export function getLLMConfigForProfile(settings: ModelProfileSettings, profileId: string | null | undefined): LLMConfig {
+	const source = findModelProfile(settings, profileId) || {
+		provider: settings.llmProvider,
+		apiEndpoint: settings.apiEndpoint,
+		model: settings.model,
+		apiKey: settings.apiKey,
+		maxTokens: settings.maxTokens,
+		temperature: settings.temperature,
+		systemPrompt: settings.systemPrompt
+	};
+
+	return {
+		apiEndpoint: source.apiEndpoint,
+		maxTokens: source.maxTokens,
+		temperature: source.temperature,
+		systemPrompt: source.systemPrompt,
+		model: source.model,
+		apiKey: source.apiKey,
+		provider: source.provider
+	};
+}
+
+/**
+ * Context window for a profile, falling back to the global setting for profiles saved before it existed
+ */
+export function getContextWindowForProfile(settings: ModelProfileSettings, profileId: string | null | undefined): number {
+	return findModelProfile(settings, profileId)?.contextWindow || settings.contextWindow;
+}
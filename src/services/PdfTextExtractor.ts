@@ -0,0 +1,109 @@
+import { App, TFile, loadPdfJs } from 'obsidian';
+import { LoggingUtility } from '../utils/LoggingUtility';
+
+export interface PdfPageText {
+	pageNumber: number; // 1-based
+	text: string;
+	ocr: boolean; // read by the vision model because the page has no text layer
+}
+
+export interface PdfTextItem {
+	str?: string;
+	hasEOL?: boolean;
+}
+
+/**
+ * Reads a page image with the vision model; returns null when that fails
+ */
+export type PdfPageOcr = (pageNumber: number, renderPage: () => Promise<string>) => Promise<string | null>;
+
+// Pages with less text than this are treated as scanned
+const MIN_TEXT_LAYER_CHARS = 20;
+// Render scanned pages at twice their size so small print stays legible to the vision model
+const OCR_RENDER_SCALE = 2;
+
+export class PdfTextExtractor {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	static isPdfFile(file: TFile): boolean {
+		return file.extension.toLowerCase() === 'pdf';
+	}
+
+	/**
+	 * Join the text items of a page into lines, then collapse runs of spaces and blank lines
+	 */
+	static joinTextItems(items: PdfTextItem[]): string {
+		return items
+			.map(item => (item.str || '') + (item.hasEOL ? '\n' : ''))
+			.join('')
+			.replace(/[ \t\u00a0]+/g, ' ')
+			.replace(/ *\n */g, '\n')
+			.replace(/\n{3,}/g, '\n\n')
+			.trim();
+	}
+
+	/**
+	 * Text of every page, read locally from the PDF text layer with Obsidian's bundled PDF.js.
+	 * Pages without a text layer are passed to ocrPage when given, and skipped otherwise.
+	 */
+	async extractPages(file: TFile, ocrPage?: PdfPageOcr): Promise<PdfPageText[]> {
+		const pdfjs = await loadPdfJs();
+		const data = new Uint8Array(await this.app.vault.readBinary(file));
+		const pdf = await pdfjs.getDocument({ data }).promise;
+		const pages: PdfPageText[] = [];
+
+		try {
+			for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+				const page = await pdf.getPage(pageNumber);
+				const content = await page.getTextContent();
+				const text = PdfTextExtractor.joinTextItems(content.items);
+
+				if (text.length >= MIN_TEXT_LAYER_CHARS) {
+					pages.push({ pageNumber, text, ocr: false });
+					continue;
+				}
+
+				if (ocrPage) {
+					const ocrText = await ocrPage(pageNumber, () => this.renderPage(page));
+					if (ocrText && ocrText.trim()) {
+						pages.push({ pageNumber, text: ocrText.trim(), ocr: true });
+						continue;
+					}
+				}
+
+				if (text) {
+					pages.push({ pageNumber, text, ocr: false });
+				}
+			}
+		} finally {
+			await pdf.destroy();
+		}
+
+		LoggingUtility.log(`Extracted text from ${pages.length}/${pdf.numPages} pages of ${file.path}`);
+		return pages;
+	}
+
+	/**
+	 * Render a page to a PNG data URL for the vision model
+	 */
+	private async renderPage(page: any): Promise<string> {
+		const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+		const canvas = document.createElement('canvas');
+		canvas.width = Math.ceil(viewport.width);
+		canvas.height = Math.ceil(viewport.height);
+		const context = canvas.getContext('2d');
+		if (!context) {
+			throw new Error('Canvas rendering is not available');
+		}
+
+		await page.render({ canvasContext: context, viewport }).promise;
+		const dataUrl = canvas.toDataURL('image/png');
+		canvas.width = 0;
+		canvas.height = 0;
+		return dataUrl;
+	}
+}
@@ -1,11 +1,24 @@
-import { App, TFile, EventRef, Events, Notice, ProgressBarComponent, Plugin, FileSystemAdapter, PluginManifest } from 'obsidian';
-import { UnifiedVectorDatabase, VectorSearchResult, VectorDocument } from '../db/UnifiedVectorDatabase';
+import { App, TFile, TFolder, EventRef, Events, Notice, ProgressBarComponent, Plugin, FileSystemAdapter, PluginManifest, CachedMetadata, getAllTags } from 'obsidian';
+import { VectorSearchResult, VectorDocument, IndexFailure } from '../db/UnifiedVectorDatabase';
+import { NodeIndexStorage } from '../db/NodeIndexStorage';
+import { MetadataFilter, FileFilterMetadata, encodeTags, encodeFrontmatter, getFolderOfPath } from '../db/MetadataFilter';
 import { LoggingUtility } from '../utils/LoggingUtility';
+import { CHUNKER_VERSION, MarkdownChunk, MarkdownSegment } from '../utils/ChunkingUtility';
+import { CanvasUtility } from '../utils/CanvasUtility';
+import { PrivacyUtility, NotePrivacy } from '../utils/PrivacyUtility';
+import { describeFingerprintMismatch } from '../db/IndexFingerprint';
+import { IndexRecoveryReport } from '../db/IndexRecovery';
 import { SearchResult } from './SearchService';
 import { EmbeddingService, EmbeddingConfig } from './EmbeddingService';
 import { ImageTextExtractor } from './ImageTextExtractor';
-import * as CRC32 from 'crc-32';
+import { PdfTextExtractor, PdfPageOcr, PdfPageText } from './PdfTextExtractor';
+import { EmbedResolver } from './EmbedResolver';
+import { IndexWorkerClient } from '../workers/IndexWorkerClient';
+import { IndexWorkerHost } from '../workers/IndexWorkerHost';
+import { AsyncVectorDatabase } from '../workers/IndexWorkerProtocol';
+import { createIndexWorker } from '../workers/createIndexWorker';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import { SettingsManager, LocalLLMSettings } from './SettingsManager';
 
 
@@ -16,16 +29,35 @@ export interface RAGSearchResult {
 	title: string;
 	path: string;
 	paragraphIndex?: number;
+	headingPath?: string[];
+	pageNumber?: number; // PDF page of the chunk
+	originPath?: string; // note an embedded chunk was inlined from
 	matchedParagraph?: string;
 }
 
-interface ProgressCallback {
-	(current: number, total: number, message: string): void;
+/**
+ * One row of the index inspector: an indexed file, or a file that should be indexed but is not
+ */
+export interface IndexInspectorEntry {
+	path: string;
+	sourceType: VectorDocument['metadata']['sourceType'];
+	status: 'indexed' | 'not-indexed' | 'failed' | 'excluded';
+	chunkCount: number;
+	lastIndexed: number | null;
+	checksum: string | null;
+	lastError: IndexFailure | null;
 }
 
-interface ChunkContent {
-	text: string;
+export interface IndexedChunk {
 	index: number;
+	text: string;
+	headingPath: string[];
+	pageNumber?: number;
+	originPath?: string;
+}
+
+interface ProgressCallback {
+	(current: number, total: number, message: string): void;
 }
 
 export interface RAGInitializationOptions {
@@ -38,21 +70,34 @@ export interface RAGInitializationOptions {
 
 export enum MaintenanceOperation {
 	REBUILD = 'rebuild',
+	COMPLETE_REBUILD = 'complete rebuild',
 	UPDATE = 'update'
 }
 
 export type IndexingState = 'idle' | 'indexing' | 'paused' | 'cancelled';
 type PauseCategory = 'embedding' | 'vision' | 'connection' | 'unknown';
+// Wait before each automatic retry of a file that failed to index; the last delay repeats
+const INDEX_RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000, 12 * 60 * 60 * 1000];
+type ImageIndexOutcome = { status: 'unchanged' | 'indexed' | 'no-text' | 'aborted' } | { status: 'failed'; reason: string };
 
 export class RAGService {
 	private app: App;
-	private vectorDB: UnifiedVectorDatabase;
+	private indexWorker: IndexWorkerClient;
+	private vectorDB: AsyncVectorDatabase;
 	private embeddingService: EmbeddingService;
 	private imageTextExtractor?: ImageTextExtractor;
+	private pdfTextExtractor: PdfTextExtractor;
+	private embedResolver: EmbedResolver;
 	private fileChangeRef?: EventRef;
+	private fileCreateRef?: EventRef;
 	private fileRenameRef?: EventRef;
 	private fileDeleteRef?: EventRef;
+	private metadataChangeRef?: EventRef;
 	private workspaceChangeRef?: EventRef;
+	// Last seen privacy of notes that are not 'default', to notice when a property or tag changes it
+	private notePrivacy: Map<string, NotePrivacy> = new Map();
+	// Notes whose metadata changed during an index pass; their privacy is re-checked once it is done
+	private pendingPrivacyChanges: Set<string> = new Set();
 	private isIndexing: boolean = false;
 	private indexingState: IndexingState = 'idle';
 	private isPausedForEmbeddingRecovery: boolean = false;
@@ -72,6 +117,23 @@ export class RAGService {
 	private settings: LocalLLMSettings;
 	private imageProcessingEnabled: boolean = false;
 	private vaultRootPathNormalized: string = '';
+	private embeddingModel: string;
+	private indexMismatchReason: string | null = null;
+	private promptedMismatchModel: string | null = null;
+	private indexRecoveryReport: IndexRecoveryReport | null = null;
+	// Index statistics as of the last database change, so the UI can read them synchronously
+	private indexStats: ReturnType<RAGService['getStats']> | null = null;
+	private embeddingCacheStats: { entryCount: number; sizeInBytes: number } = { entryCount: 0, sizeInBytes: 0 };
+	private statsRefresh: Promise<void> | null = null;
+	private statsRefreshQueued: boolean = false;
+	// Files whose last indexing attempt failed, as of the last change to the index
+	private indexFailures: IndexFailure[] = [];
+	// Bumped on every change to indexFailures, so a stats refresh does not overwrite them with an older list
+	private indexFailuresVersion: number = 0;
+	private failureRetryTimer?: ReturnType<typeof setTimeout>;
+	private failureRetryEnabled: boolean = false;
+	// Retry All was pressed during an index pass; every failed file is retried once it is done
+	private retryAllWhenIdle: boolean = false;
 
 	private createEmptyStats(): {
 		documentCount: number;
@@ -122,8 +184,18 @@ export class RAGService {
 		this.vaultRootPathNormalized = this.normalizePathForMatching(vaultRoot);
 
 		LoggingUtility.log('RAGService constructor called with dbPath:', dbPath);
-		this.vectorDB = new UnifiedVectorDatabase(this.app, dbPath);
+		// The database, chunking and checksums run in a worker; its file operations are served from here
+		const storage = new NodeIndexStorage();
+		this.indexWorker = new IndexWorkerClient(dbPath, storage, {
+			createWorker: createIndexWorker,
+			createInProcessHost: () => new IndexWorkerHost(dbPath, storage)
+		});
+		this.indexWorker.onDidChange(() => this.refreshIndexStats());
+		this.vectorDB = this.indexWorker.db;
 		this.embeddingService = new EmbeddingService(embeddingConfig);
+		this.embeddingModel = embeddingConfig.model;
+		this.pdfTextExtractor = new PdfTextExtractor(this.app);
+		this.embedResolver = new EmbedResolver(this.app);
 		this.initOptions = {
 			autoMaintenance: true,
 			backgroundIndexing: true,
@@ -248,12 +320,35 @@ export class RAGService {
 		return false;
 	}
 
+	/**
+	 * Files excluded one by one; their paths are compared as they are, without wildcards
+	 */
+	private isExcludedByPath(file: TFile): boolean {
+		const filePath = this.toVaultRelativePath(file.path);
+		return this.normalizeExclusionEntries(this.settings?.excludedFiles)
+			.some(excludedPath => this.toVaultRelativePath(excludedPath) === filePath);
+	}
+
 	private isExcludedFile(file: TFile): boolean {
-		return this.isExcludedByFolder(file) || this.isExcludedByFilePattern(file);
+		return this.isExcludedByFolder(file) || this.isExcludedByFilePattern(file) || this.isExcludedByPath(file);
+	}
+
+	/**
+	 * Notes and canvases, which are indexed as Markdown
+	 */
+	private isNoteFile(file: TFile): boolean {
+		return file.extension.toLowerCase() === 'md' || CanvasUtility.isCanvasFile(file);
 	}
 
 	private shouldIndexMarkdownFile(file: TFile): boolean {
-		return file.extension.toLowerCase() === 'md' && !this.isExcludedFile(file);
+		return this.isNoteFile(file) && !this.isExcludedFile(file) && PrivacyUtility.canIndex(this.getNotePrivacy(file));
+	}
+
+	/**
+	 * Privacy set by the note's `private-ai` property or tags; attachments have none
+	 */
+	private getNotePrivacy(file: TFile): NotePrivacy {
+		return this.isNoteFile(file) ? PrivacyUtility.getNotePrivacy(this.app.metadataCache.getFileCache(file)) : 'default';
 	}
 
 	private shouldIndexImageFile(file: TFile): boolean {
@@ -261,13 +356,32 @@ export class RAGService {
 	}
 
 	private getIncludedMarkdownFiles(): TFile[] {
-		return this.app.vault.getMarkdownFiles().filter(file => this.shouldIndexMarkdownFile(file));
+		return this.app.vault.getFiles().filter(file => this.shouldIndexMarkdownFile(file));
+	}
+
+	/**
+	 * Images are only watched while image text extraction is set up and enabled
+	 */
+	private isWatchedImageFile(file: TFile): boolean {
+		return ImageTextExtractor.isImageFile(file) && !!this.imageTextExtractor && !!this.settings?.enableImageTextExtraction;
 	}
 
 	private getIncludedImageFiles(): TFile[] {
 		return this.app.vault.getFiles().filter(file => this.shouldIndexImageFile(file));
 	}
 
+	private shouldIndexPdfFile(file: TFile): boolean {
+		return PdfTextExtractor.isPdfFile(file) && !!this.settings?.enablePdfIndexing && !this.isExcludedFile(file);
+	}
+
+	private getIncludedPdfFiles(): TFile[] {
+		return this.app.vault.getFiles().filter(file => this.shouldIndexPdfFile(file));
+	}
+
+	private isWatchedPdfFile(file: TFile): boolean {
+		return PdfTextExtractor.isPdfFile(file) && !!this.settings?.enablePdfIndexing;
+	}
+
 	/**
 	 * Initialize the image text extractor with LLM service
 	 */
@@ -345,62 +459,19 @@ export class RAGService {
 				}
 
 				try {
-					LoggingUtility.log(`Processing image ${i + 1}/${imageFiles.length}: ${imageFile.path}`);
-
-					// Extract text from image
-					const result = await this.imageTextExtractor.extractTextFromImage(imageFile);
-
-					if (this.indexingAbortController?.signal.aborted) break;
-
-					if (result.success && result.extractedText.trim()) {
-						// Create a virtual document for the extracted text
-						const extractedText = result.extractedText;
-
-						// Split extracted text into chunks
-						const chunks = this.splitIntoParagraphs(extractedText);
-
-						if (chunks.length > 0) {
-							// Generate embeddings for chunks
-							const texts = chunks.map(c => c.text);
-							const embeddings = await this.generateEmbeddings(texts);
-							const checksum = await this.calculateCRC32(imageFile);
-
-							// Create chunk documents for the image
-							const chunkDocuments = chunks.map((chunk, index) => ({
-								id: `${imageFile.path}#c${chunk.index}`,
-								vector: embeddings[index],
-								metadata: {
-									filePath: imageFile.path,
-									fileName: imageFile.basename,
-									title: `Image: ${imageFile.basename}`,
-									paragraphIndex: chunk.index,
-									paragraphText: chunk.text,
-									fileChecksum: checksum,
-									lastModified: imageFile.stat.mtime,
-									fileSize: imageFile.stat.size,
-									sourceType: 'image' as const,
-									extractedText: true
-								}
-							}));
-
-							// Store in unified vector database
-							await this.vectorDB.upsertFileDocuments(imageFile.path, chunkDocuments);
+					LoggingUtility.log(`Checking image ${i + 1}/${imageFiles.length}: ${imageFile.path}`);
 
-							if (!this.indexingAbortController?.signal.aborted) {
-								await this.vectorDB.save();
-							}
+					const outcome = await this.indexImageFile(imageFile);
+					if (outcome.status === 'aborted' || this.indexingAbortController?.signal.aborted) break;
 
-							LoggingUtility.log(`Successfully processed image ${imageFile.path} with ${chunks.length} text chunks`);
+					if (outcome.status === 'failed') {
+						if (this.isIndexing && this.isRecoverableServiceFailure(outcome.reason)) {
+							await this.pauseForEmbeddingRecovery(outcome.reason);
+							i--;
+							continue;
 						}
-							} else {
-								const failureReason = result.error || 'No text found';
-								if (this.isIndexing && this.isRecoverableServiceFailure(failureReason)) {
-									await this.pauseForEmbeddingRecovery(failureReason);
-									i--;
-									continue;
-								}
-								LoggingUtility.log(`No text extracted from image ${imageFile.path}: ${failureReason}`);
-							}
+						LoggingUtility.log(`No text extracted from image ${imageFile.path}: ${outcome.reason}`);
+					}
 
 					// Yield control periodically
 					if (i % 3 === 0) {
@@ -412,11 +483,12 @@ export class RAGService {
 				}
 			}
 
-			// Save the updated database
+			// Write the updated database
 			if (!this.indexingAbortController?.signal.aborted) {
-				await this.vectorDB.save();
+				await this.vectorDB.flush();
 			}
 
+			await this.refreshIndexStats();
 			const stats = this.getStats();
 			LoggingUtility.log(`Manual image processing complete. Total: ${stats.documentCount} paragraph documents (${stats.markdownDocuments} markdown, ${stats.imageDocuments} image) across ${stats.fileCount} files (${stats.markdownFiles} markdown, ${stats.imageFiles} image)`);
 
@@ -486,10 +558,22 @@ export class RAGService {
 
 			// Load database first
 			await this.vectorDB.load();
+			this.indexRecoveryReport = await this.vectorDB.getRecoveryReport();
+			if (this.indexRecoveryReport) {
+				LoggingUtility.warn(`Index recovered at startup (${this.indexRecoveryReport.outcome}): ${this.indexRecoveryReport.reason}`);
+			}
+			await this.refreshFilterMetadata();
+			await this.pruneEmbeddingCache();
 
+			await this.refreshIndexStats();
 			const stats = this.getStats();
 			LoggingUtility.log(`RAG Service initialized with ${stats.documentCount} total paragraph documents (${stats.markdownDocuments} markdown, ${stats.imageDocuments} image) across ${stats.fileCount} total files (${stats.markdownFiles} markdown, ${stats.imageFiles} image)`);
 
+			// An index built with another model is rebuilt (or offered for rebuild) instead of being updated
+			if (await this.checkIndexFingerprint()) {
+				return;
+			}
+
 			// Automatic maintenance if enabled
 			if (this.initOptions.autoMaintenance) {
 				// Clean up missing files first
@@ -525,6 +609,9 @@ export class RAGService {
 			LoggingUtility.error('Failed to initialize RAG service:', error);
 			// Don't throw the error to prevent plugin from failing to load
 			// The user can manually trigger indexing later
+			if (!(await this.vectorDB.isLoaded().catch(() => false))) {
+				this.indexRecoveryReport = { outcome: 'unavailable', reason: error.message || String(error), at: Date.now() };
+			}
 		}
 	}
 
@@ -536,7 +623,7 @@ export class RAGService {
 			// Ensure database is loaded before checking stats
 			await this.vectorDB.load();
 
-			const stats = this.vectorDB.getStats();
+			const stats = await this.vectorDB.getStats();
 			const totalDocuments = stats.documentCount;
 			const totalFiles = stats.fileCount;
 
@@ -569,6 +656,8 @@ export class RAGService {
 
 				if (operation === MaintenanceOperation.REBUILD) {
 					await this.forceRebuildIndex(progressCallback);
+				} else if (operation === MaintenanceOperation.COMPLETE_REBUILD) {
+					await this.forceCompleteRebuildIndex(progressCallback);
 				} else {
 					await this.buildIndex(progressCallback);
 				}
@@ -591,6 +680,115 @@ export class RAGService {
 		}, 100); // Small delay to ensure UI is ready
 	}
 
+	/**
+	 * Compare the stored index fingerprint with the current embedding model and chunker.
+	 * Returns true when the index does not match and must not be updated in place.
+	 */
+	private async checkIndexFingerprint(currentDimension?: number): Promise<boolean> {
+		const stored = await this.vectorDB.getIndexFingerprint();
+		if (!stored) {
+			// Indexes from before fingerprints existed are assumed to match the configured model
+			if (!this.isIndexEmpty()) {
+				await this.recordIndexFingerprint(false);
+			}
+			this.indexMismatchReason = null;
+			return false;
+		}
+
+		const reason = describeFingerprintMismatch(stored, {
+			embeddingModel: this.embeddingModel,
+			chunkerVersion: CHUNKER_VERSION,
+			dimension: currentDimension
+		});
+		this.indexMismatchReason = reason;
+		if (!reason) {
+			return false;
+		}
+
+		LoggingUtility.warn(`Index fingerprint mismatch: ${reason}`);
+		this.handleIndexMismatch(reason);
+		return true;
+	}
+
+	/**
+	 * Rebuild automatically when enabled, otherwise ask once per embedding model
+	 */
+	private handleIndexMismatch(reason: string): void {
+		if (this.settings?.autoRebuildOnModelChange) {
+			if (!this.isIndexing) {
+				LoggingUtility.log('Embedding setup changed, starting automatic complete rebuild');
+				this.runBackgroundMaintenance(MaintenanceOperation.COMPLETE_REBUILD);
+			}
+			return;
+		}
+
+		if (this.promptedMismatchModel === this.embeddingModel) {
+			return;
+		}
+		this.promptedMismatchModel = this.embeddingModel;
+
+		const fragment = document.createDocumentFragment();
+		const message = fragment.createDiv({ text: `${reason}. Semantic search is paused until the index is rebuilt.` });
+		message.addClass('local-llm-index-mismatch');
+		const button = fragment.createEl('button', { text: 'Rebuild now' });
+		button.addClass('mod-cta');
+		const notice = new Notice(fragment, 0);
+		button.addEventListener('click', () => {
+			notice.hide();
+			this.rebuildForIndexMismatch();
+		});
+	}
+
+	/**
+	 * Replace an index built with another embedding setup
+	 */
+	rebuildForIndexMismatch(): void {
+		if (this.isIndexing) {
+			new Notice('Indexing is already in progress');
+			return;
+		}
+		this.runBackgroundMaintenance(MaintenanceOperation.COMPLETE_REBUILD);
+	}
+
+	/**
+	 * Why the index cannot be used with the current embedding setup, or null when it can
+	 */
+	getIndexMismatchReason(): string | null {
+		return this.indexMismatchReason;
+	}
+
+	/**
+	 * How a damaged or unreadable index was handled at startup, until the user dismisses it
+	 */
+	getIndexRecoveryReport(): IndexRecoveryReport | null {
+		return this.indexRecoveryReport;
+	}
+
+	dismissIndexRecoveryReport(): void {
+		this.indexRecoveryReport = null;
+	}
+
+	/**
+	 * Store the fingerprint of the current embedding setup; without replace, an existing fingerprint is kept
+	 */
+	private async recordIndexFingerprint(replace: boolean): Promise<void> {
+		if (!replace && await this.vectorDB.getIndexFingerprint()) {
+			return;
+		}
+		const dimension = await this.vectorDB.getDimension();
+		if (dimension === 0) {
+			return;
+		}
+		await this.vectorDB.setIndexFingerprint({
+			embeddingModel: this.embeddingModel,
+			dimension,
+			chunkerVersion: CHUNKER_VERSION,
+			createdAt: Date.now()
+		});
+		this.indexMismatchReason = null;
+		this.promptedMismatchModel = null;
+	}
+
 	/**
 	 * Create a progress callback for auto-maintenance operations
 	 */
@@ -617,303 +815,308 @@ export class RAGService {
 	}
 
 	/**
-	 * Split content into meaningful chunks of approximately 200 words
+	 * Process images in the vault to extract text and add to the index
 	 */
-	private splitIntoParagraphs(content: string): ChunkContent[] {
-		// Remove frontmatter if present
-		let cleanContent = content;
-		const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---\s*\n/);
-		if (frontmatterMatch) {
-			cleanContent = content.substring(frontmatterMatch[0].length);
+	async processImagesInVault(enabled: boolean = true): Promise<void> {
+		if (!enabled) {
+			LoggingUtility.log('Image text extraction is disabled, skipping image processing');
+			return;
 		}
 
-		const targetWords = 200;
-		const maxWords = 250; // Force break at this point
-		const chunks: ChunkContent[] = [];
-
-		// Split into lines for processing
-		const lines = cleanContent.split('\n');
-		let currentChunk = '';
-		let currentWordCount = 0;
+		if (!this.imageTextExtractor) {
+			LoggingUtility.log('Image text extractor not initialized, skipping image processing');
+			return;
+		}
 
-		for (let i = 0; i < lines.length; i++) {
-			const line = lines[i].trim();
+		try {
+			// Get all image files in the vault
+			const imageFiles = this.getIncludedImageFiles();
 
-			// Skip empty lines at the start of a chunk
-			if (currentChunk === '' && line === '') {
-				continue;
+			if (imageFiles.length === 0) {
+				LoggingUtility.log('No image files found in vault');
+				return;
 			}
 
-			const lineWordCount = line.split(/\s+/).filter(word => word.length > 0).length;
-			const wouldExceedTarget = currentWordCount + lineWordCount > targetWords;
-			const wouldExceedMax = currentWordCount + lineWordCount > maxWords;
+			LoggingUtility.log(`Found ${imageFiles.length} image files to process`);
 
-			// Check if this line is a natural break point
-			const isNaturalBreak = this.isNaturalBreakPoint(line, lines[i + 1]);
+			// Process each image
 
-			// Decide whether to start a new chunk
-			if (currentChunk !== '' && (wouldExceedMax || (wouldExceedTarget && isNaturalBreak))) {
-				// Finalize current chunk
-				const cleanChunk = currentChunk.trim().replace(/\s+/g, ' ');
-				if (cleanChunk.length > 0) {
-					chunks.push({
-						text: cleanChunk,
-						index: chunks.length
-					});
-				}
+			// Process each image
+			for (let i = 0; i < imageFiles.length; i++) {
+				const imageFile = imageFiles[i];
 
-				// Start new chunk
-				currentChunk = line;
-				currentWordCount = lineWordCount;
-			} else {
-				// Add line to current chunk
-				if (currentChunk === '') {
-					currentChunk = line;
-				} else {
-					currentChunk += (line === '' ? '\n' : '\n' + line);
-				}
-				currentWordCount += lineWordCount;
-			}
-
-			// Handle case where a single line exceeds max words
-			if (currentWordCount > maxWords) {
-				const cleanChunk = currentChunk.trim().replace(/\s+/g, ' ');
-				if (cleanChunk.length > 0) {
-					// Try to break at sentence boundaries if the chunk is too long
-					const splitChunks = this.splitLongChunk(cleanChunk, maxWords);
-					for (const splitChunk of splitChunks) {
-						chunks.push({
-							text: splitChunk,
-							index: chunks.length
-						});
+				try {
+					LoggingUtility.log(`Checking image ${i + 1}/${imageFiles.length}: ${imageFile.path}`);
+
+					const outcome = await this.indexImageFile(imageFile);
+					if (outcome.status === 'aborted' || this.indexingAbortController?.signal.aborted) break;
+
+					if (outcome.status === 'failed') {
+						if (this.isIndexing && this.isRecoverableServiceFailure(outcome.reason)) {
+							await this.pauseForEmbeddingRecovery(outcome.reason);
+							i--;
+							continue;
+						}
+						LoggingUtility.log(`No text extracted from image ${imageFile.path}: ${outcome.reason}`);
 					}
+
+					// Yield control periodically
+					if (i % 5 === 0) {
+						await new Promise(resolve => setTimeout(resolve, 0));
+					}
+
+				} catch (error) {
+					LoggingUtility.error(`Error processing image ${imageFile.path}:`, error);
 				}
-				currentChunk = '';
-				currentWordCount = 0;
 			}
-		}
-
-		// Add final chunk if it exists
-		if (currentChunk.trim().length > 0) {
-			const cleanChunk = currentChunk.trim().replace(/\s+/g, ' ');
-			chunks.push({
-				text: cleanChunk,
-				index: chunks.length
-			});
-		}
 
-		// Filter out chunks that are too short to be meaningful
-		const meaningfulChunks = chunks.filter(chunk => {
-			const wordCount = chunk.text.split(/\s+/).filter(word => word.length > 0).length;
-			return wordCount >= 10; // Minimum 10 words per chunk
-		});
+			// Write the updated database
+			await this.vectorDB.flush();
+			LoggingUtility.log('Image processing complete');
 
-		LoggingUtility.log(`Split content into ${meaningfulChunks.length} chunks (~200 words each)`);
-		return meaningfulChunks;
+		} catch (error) {
+			LoggingUtility.error('Error processing images in vault:', error);
+		}
 	}
 
 	/**
-	 * Check if a line represents a natural break point
+	 * Index one image. Images whose checksum matches the stored documents are skipped, and extracted text is
+	 * reused from the image text cache, so the vision model only sees new or changed images.
 	 */
-	private isNaturalBreakPoint(currentLine: string, nextLine?: string): boolean {
-		// Empty line followed by content
-		if (currentLine === '' && nextLine && nextLine.trim() !== '') {
-			return true;
+	private async indexImageFile(imageFile: TFile): Promise<ImageIndexOutcome> {
+		try {
+			const outcome = await this.extractAndIndexImage(imageFile);
+			if (outcome.status === 'failed') {
+				await this.recordIndexFailure(imageFile.path, outcome.reason);
+			} else if (outcome.status !== 'aborted') {
+				await this.clearIndexFailure(imageFile.path);
+			}
+			return outcome;
+		} catch (error) {
+			await this.recordIndexFailure(imageFile.path, error);
+			throw error;
 		}
+	}
 
-		// Heading patterns
-		if (currentLine.match(/^#{1,6}\s+/) || // Markdown headings
-			currentLine.match(/^.+\n[=-]+$/) || // Underlined headings
-			currentLine.match(/^\d+\.\s+/) || // Numbered lists
-			currentLine.match(/^[-*+]\s+/)) { // Bullet points
-			return true;
-		}
+	private async extractAndIndexImage(imageFile: TFile): Promise<ImageIndexOutcome> {
+		const checksum = await this.calculateCRC32(imageFile);
+		if (this.indexingAbortController?.signal.aborted) return { status: 'aborted' };
 
-		// End of bullet point series (current line is bullet, next is not)
-		if (currentLine.match(/^[-*+]\s+/) && nextLine && !nextLine.match(/^[-*+]\s+/) && nextLine.trim() !== '') {
-			return true;
+		const existingDocs = await this.vectorDB.getFileDocuments(imageFile.path);
+		if (existingDocs.length > 0 && existingDocs[0].metadata.fileChecksum === checksum) {
+			LoggingUtility.log(`Image unchanged since last extraction, skipping: ${imageFile.path}`);
+			return { status: 'unchanged' };
 		}
 
-		// End of numbered list series
-		if (currentLine.match(/^\d+\.\s+/) && nextLine && !nextLine.match(/^\d+\.\s+/) && nextLine.trim() !== '') {
-			return true;
-		}
+		let extractedText = await this.vectorDB.getCachedImageText(checksum, imageFile.stat.size);
+		if (extractedText === null) {
+			if (!this.imageTextExtractor) {
+				return { status: 'failed', reason: 'Image text extractor not initialized' };
+			}
 
-		// Code blocks
-		if (currentLine.match(/^```/) || currentLine.match(/^~~~`/)) {
-			return true;
-		}
+			LoggingUtility.log(`Extracting text from image: ${imageFile.path} (checksum: ${checksum})`);
+			const result = await this.imageTextExtractor.extractTextFromImage(imageFile);
+			if (this.indexingAbortController?.signal.aborted) return { status: 'aborted' };
 
-		// Horizontal rules
-		if (currentLine.match(/^[-*_]{3,}$/)) {
-			return true;
+			if (!result.success && !result.noText) {
+				return { status: 'failed', reason: result.error || 'No text found' };
+			}
+			extractedText = result.success ? result.extractedText.trim() : '';
+			await this.vectorDB.putCachedImageText(checksum, imageFile.stat.size, extractedText);
+		} else {
+			LoggingUtility.log(`Reusing cached image text: ${imageFile.path}`);
 		}
 
-		// Block quotes
-		if (currentLine.match(/^>\s+/)) {
-			return true;
+		const prepared = extractedText ? await this.indexWorker.prepareChunks(imageFile.path, extractedText) : null;
+		const chunks = prepared ? prepared.chunks : [];
+		if (!prepared || chunks.length === 0) {
+			if (existingDocs.length > 0) {
+				await this.vectorDB.removeFileDocuments(imageFile.path);
+			}
+			LoggingUtility.log(`No text in image: ${imageFile.path}`);
+			return { status: 'no-text' };
 		}
 
-		return false;
+		const embeddings = await this.generateEmbeddings(prepared.embeddingTexts);
+		if (this.indexingAbortController?.signal.aborted) return { status: 'aborted' };
+
+		const chunkDocuments: VectorDocument[] = chunks.map((chunk, index) => ({
+			id: `${imageFile.path}#c${chunk.index}`,
+			vector: embeddings[index],
+			metadata: {
+				filePath: imageFile.path,
+				fileName: imageFile.basename,
+				title: `Image: ${imageFile.basename}`,
+				paragraphIndex: chunk.index,
+				paragraphText: chunk.text,
+				headingPath: chunk.headingPath,
+				fileChecksum: checksum,
+				lastModified: imageFile.stat.mtime,
+				fileSize: imageFile.stat.size,
+				sourceType: 'image' as const,
+				extractedText: true
+			}
+		}));
+
+		// Store in unified vector database
+		await this.vectorDB.upsertFileDocuments(imageFile.path, chunkDocuments);
+		LoggingUtility.log(`Successfully processed image ${imageFile.path} with ${chunks.length} text chunks`);
+		return { status: 'indexed' };
 	}
 
 	/**
-	 * Split a chunk that's too long into smaller pieces at sentence boundaries
+	 * Index the text of one PDF page by page. Unchanged PDFs are skipped; scanned pages go to the vision model
+	 * when the OCR fallback is enabled, with the text cached like image text. A PDF with scanned pages the
+	 * vision model could not read is indexed without them and recorded as failed, so it is retried later.
 	 */
-	private splitLongChunk(chunk: string, maxWords: number): string[] {
-		const words = chunk.split(/\s+/);
-		if (words.length <= maxWords) {
-			return [chunk];
+	private async indexPdfFile(pdfFile: TFile): Promise<'unchanged' | 'indexed' | 'no-text' | 'aborted' | 'incomplete'> {
+		try {
+			const unreadPages: number[] = [];
+			const outcome = await this.extractAndIndexPdf(pdfFile, unreadPages);
+			if (outcome === 'aborted') {
+				return outcome;
+			}
+			if (unreadPages.length > 0) {
+				await this.recordIndexFailure(pdfFile.path, `The vision model could not read scanned page${unreadPages.length === 1 ? '' : 's'} ${unreadPages.join(', ')}`);
+				return 'incomplete';
+			}
+			await this.clearIndexFailure(pdfFile.path);
+			return outcome;
+		} catch (error) {
+			await this.recordIndexFailure(pdfFile.path, error);
+			throw error;
 		}
+	}
 
-		const chunks: string[] = [];
-		const sentences = chunk.split(/[.!?]+\s+/);
+	private async extractAndIndexPdf(pdfFile: TFile, unreadPages: number[]): Promise<'unchanged' | 'indexed' | 'no-text' | 'aborted'> {
+		const checksum = await this.calculateCRC32(pdfFile);
+		if (this.indexingAbortController?.signal.aborted) return 'aborted';
 
-		let currentChunk = '';
-		let currentWordCount = 0;
+		const existingDocs = await this.vectorDB.getFileDocuments(pdfFile.path);
+		if (existingDocs.length > 0 && existingDocs[0].metadata.fileChecksum === checksum) {
+			LoggingUtility.log(`PDF unchanged since last extraction, skipping: ${pdfFile.path}`);
+			return 'unchanged';
+		}
 
-		for (const sentence of sentences) {
-			const sentenceWords = sentence.split(/\s+/).filter(word => word.length > 0).length;
+		const pages = await this.pdfTextExtractor.extractPages(pdfFile, this.createPdfPageOcr(pdfFile, checksum, unreadPages));
+		if (this.indexingAbortController?.signal.aborted) return 'aborted';
 
-			if (currentWordCount + sentenceWords > maxWords && currentChunk !== '') {
-				// Start new chunk
-				chunks.push(currentChunk.trim());
-				currentChunk = sentence;
-				currentWordCount = sentenceWords;
-			} else {
-				// Add to current chunk
-				if (currentChunk === '') {
-					currentChunk = sentence;
-				} else {
-					currentChunk += '. ' + sentence;
-				}
-				currentWordCount += sentenceWords;
+		// Chunks never cross a page, so each one cites a single page
+		const chunks: Array<MarkdownChunk & { page: PdfPageText; embeddingText: string }> = [];
+		for (const page of pages) {
+			const prepared = await this.indexWorker.prepareChunks(pdfFile.path, page.text);
+			prepared.chunks.forEach((chunk, index) => chunks.push({ ...chunk, page, embeddingText: prepared.embeddingTexts[index] }));
+		}
+		if (chunks.length === 0) {
+			if (existingDocs.length > 0) {
+				await this.vectorDB.removeFileDocuments(pdfFile.path);
 			}
+			LoggingUtility.log(`No text in PDF: ${pdfFile.path}`);
+			return 'no-text';
 		}
 
-		// Add final chunk
-		if (currentChunk.trim().length > 0) {
-			chunks.push(currentChunk.trim());
-		}
+		const embeddings = await this.generateEmbeddings(chunks.map(chunk => chunk.embeddingText));
+		if (this.indexingAbortController?.signal.aborted) return 'aborted';
 
-		// If we still have chunks that are too long, force split them
-		const finalChunks: string[] = [];
-		for (const chunkToCheck of chunks) {
-			const chunkWords = chunkToCheck.split(/\s+/);
-			if (chunkWords.length > maxWords) {
-				// Force split by word count
-				for (let i = 0; i < chunkWords.length; i += maxWords) {
-					const subChunk = chunkWords.slice(i, i + maxWords).join(' ');
-					finalChunks.push(subChunk);
-				}
-			} else {
-				finalChunks.push(chunkToCheck);
+		const chunkDocuments: VectorDocument[] = chunks.map((chunk, index) => ({
+			id: `${pdfFile.path}#p${chunk.page.pageNumber}c${chunk.index}`,
+			vector: embeddings[index],
+			metadata: {
+				filePath: pdfFile.path,
+				fileName: pdfFile.basename,
+				title: pdfFile.basename,
+				paragraphIndex: index,
+				paragraphText: chunk.text,
+				headingPath: chunk.headingPath,
+				// Without its checksum the PDF is not skipped next time; the pages read so far come from the cache
+				fileChecksum: unreadPages.length > 0 ? '' : checksum,
+				lastModified: pdfFile.stat.mtime,
+				fileSize: pdfFile.stat.size,
+				sourceType: 'pdf' as const,
+				extractedText: chunk.page.ocr,
+				pageNumber: chunk.page.pageNumber
 			}
-		}
+		}));
 
-		return finalChunks;
+		await this.vectorDB.upsertFileDocuments(pdfFile.path, chunkDocuments);
+		LoggingUtility.log(`Successfully processed PDF ${pdfFile.path} with ${chunks.length} text chunks from ${pages.length} pages`);
+		return 'indexed';
 	}
 
 	/**
-	 * Process images in the vault to extract text and add to the index
+	 * Vision model reading of scanned PDF pages, or undefined when the fallback is off or unavailable.
+	 * Pages the model fails to read are added to unreadPages.
 	 */
-	async processImagesInVault(enabled: boolean = true): Promise<void> {
-		if (!enabled) {
-			LoggingUtility.log('Image text extraction is disabled, skipping image processing');
+	private createPdfPageOcr(pdfFile: TFile, checksum: string, unreadPages: number[]): PdfPageOcr | undefined {
+		const extractor = this.imageTextExtractor;
+		if (!this.settings?.pdfOcrFallback || !extractor) {
+			return undefined;
+		}
+
+		return async (pageNumber, renderPage) => {
+			// Keyed per page of this exact PDF content
+			const cacheKey = `${checksum}#page=${pageNumber}`;
+			const cached = await this.vectorDB.getCachedImageText(cacheKey, pdfFile.stat.size);
+			if (cached !== null) {
+				return cached;
+			}
+
+			LoggingUtility.log(`Reading scanned page ${pageNumber} of ${pdfFile.path} with the vision model`);
+			const result = await extractor.extractTextFromImageData(await renderPage());
+			if (!result.success && !result.noText) {
+				LoggingUtility.warn(`Could not read scanned page ${pageNumber} of ${pdfFile.path}: ${result.error}`);
+				unreadPages.push(pageNumber);
+				return null;
+			}
+			const text = result.success ? result.extractedText.trim() : '';
+			await this.vectorDB.putCachedImageText(cacheKey, pdfFile.stat.size, text);
+			return text;
+		};
+	}
+
+	/**
+	 * Index phase for PDF attachments, run after Markdown and before images
+	 */
+	private async processPdfFiles(): Promise<void> {
+		if (!this.settings?.enablePdfIndexing) {
+			LoggingUtility.log('PDF indexing disabled, skipping PDF phase');
 			return;
 		}
 
-		if (!this.imageTextExtractor) {
-			LoggingUtility.log('Image text extractor not initialized, skipping image processing');
+		// PDFs that failed recently wait for their next retry
+		const pdfFiles = this.getIncludedPdfFiles().filter(file => !this.isWaitingForRetry(file.path));
+		if (pdfFiles.length === 0) {
 			return;
 		}
 
-		try {
-			// Get all image files in the vault
-			const imageFiles = this.getIncludedImageFiles();
-
-			if (imageFiles.length === 0) {
-				LoggingUtility.log('No image files found in vault');
+		LoggingUtility.log(`Starting PDF processing phase for ${pdfFiles.length} PDFs...`);
+		for (let i = 0; i < pdfFiles.length; i++) {
+			if (this.indexingAbortController?.signal.aborted) {
+				LoggingUtility.log('PDF processing aborted by user');
 				return;
 			}
 
-			LoggingUtility.log(`Found ${imageFiles.length} image files to process`);
-
-			// Process each image
-
-			// Process each image
-			for (let i = 0; i < imageFiles.length; i++) {
-				const imageFile = imageFiles[i];
-
-				try {
-					LoggingUtility.log(`Processing image ${i + 1}/${imageFiles.length}: ${imageFile.path}`);
-
-					// Extract text from image
-					const result = await this.imageTextExtractor.extractTextFromImage(imageFile);
-
-					if (result.success && result.extractedText.trim()) {
-						// Create a virtual document for the extracted text
-						const extractedText = result.extractedText;
-
-						// Split extracted text into chunks
-						const chunks = this.splitIntoParagraphs(extractedText);
-
-						if (chunks.length > 0) {
-							// Generate embeddings for chunks
-							const texts = chunks.map(c => c.text);
-							const embeddings = await this.generateEmbeddings(texts);
-							const fileChecksum = await this.calculateCRC32(imageFile);
-
-							// Create chunk documents for the image
-							const chunkDocuments = chunks.map((chunk, index) => ({
-								id: `${imageFile.path}#c${chunk.index}`,
-								vector: embeddings[index],
-								metadata: {
-									filePath: imageFile.path,
-									fileName: imageFile.basename,
-									title: `Image: ${imageFile.basename}`,
-									paragraphIndex: chunk.index,
-									paragraphText: chunk.text,
-									fileChecksum: fileChecksum,
-									lastModified: imageFile.stat.mtime,
-									fileSize: imageFile.stat.size,
-									sourceType: 'image' as const,
-									extractedText: true
-								}
-							}));
-
-							// Store in unified vector database
-							await this.vectorDB.upsertFileDocuments(imageFile.path, chunkDocuments);
-
-							LoggingUtility.log(`Successfully processed image ${imageFile.path} with ${chunks.length} text chunks`);
-						}
-							} else {
-								const failureReason = result.error || 'No text found';
-								if (this.isIndexing && this.isRecoverableServiceFailure(failureReason)) {
-									await this.pauseForEmbeddingRecovery(failureReason);
-									i--;
-									continue;
-								}
-								LoggingUtility.log(`No text extracted from image ${imageFile.path}: ${failureReason}`);
-							}
-
-					// Yield control periodically
-					if (i % 5 === 0) {
-						await new Promise(resolve => setTimeout(resolve, 0));
-					}
+			const pdfFile = pdfFiles[i];
+			if (this.progressCallback) {
+				this.progressCallback(i + 1, pdfFiles.length, `Processing PDF: ${pdfFile.basename}`);
+			}
 
-				} catch (error) {
-					LoggingUtility.error(`Error processing image ${imageFile.path}:`, error);
+			try {
+				await this.indexPdfFile(pdfFile);
+			} catch (error) {
+				LoggingUtility.error(`Error processing PDF ${pdfFile.path}:`, error);
+				if (this.isEmbeddingRecoveryError(error)) {
+					await this.pauseForEmbeddingRecovery(error instanceof Error ? error.message : String(error));
+					i--;
 				}
 			}
 
-			// Save the updated database
-			await this.vectorDB.save();
-			LoggingUtility.log('Image processing complete');
-
-		} catch (error) {
-			LoggingUtility.error('Error processing images in vault:', error);
+			// Yield control periodically
+			await new Promise(resolve => setTimeout(resolve, 0));
 		}
+
+		await this.vectorDB.save();
+		LoggingUtility.log(`PDF processing complete. Processed ${pdfFiles.length} PDFs.`);
 	}
 
 	/**
@@ -925,7 +1128,7 @@ export class RAGService {
 
 			// Keep only files that should stay indexed.
 			const allFiles = this.app.vault.getFiles().filter(file =>
-				this.shouldIndexMarkdownFile(file) || this.shouldIndexImageFile(file)
+				this.shouldIndexMarkdownFile(file) || this.shouldIndexImageFile(file) || this.shouldIndexPdfFile(file)
 			);
 			const existingFilePaths = new Set(allFiles.map(f => f.path));
 
@@ -947,8 +1150,8 @@ export class RAGService {
 				return false;
 			}
 
-			// Check if the active view is a markdown view with this file
-			if (activeLeaf.view.getViewType() === 'markdown') {
+			// Check if the active view is a note or canvas view with this file
+			if (this.isNoteViewType(activeLeaf.view.getViewType())) {
 				const activeFile = (activeLeaf.view as any).file;
 				return activeFile && activeFile.path === file.path;
 			}
@@ -960,6 +1163,71 @@ export class RAGService {
 		}
 	}
 
+	/**
+	 * A note that is now excluded leaves the index at once, even while it is being edited; a note that is
+	 * allowed again is indexed like a modified one. Notes that embed it are re-chunked either way.
+	 */
+	private handleNotePrivacyChange(file: TFile): void {
+		const privacy = this.getNotePrivacy(file);
+		const previous = this.notePrivacy.get(file.path) || 'default';
+		if (privacy === previous) {
+			return;
+		}
+		if (privacy === 'default') {
+			this.notePrivacy.delete(file.path);
+		} else {
+			this.notePrivacy.set(file.path, privacy);
+		}
+		LoggingUtility.log(`Privacy of ${file.path} changed from ${previous} to ${privacy}`);
+
+		setTimeout(async () => {
+			try {
+				await this.queueEmbeddingNotes(file.path);
+				if (!this.shouldIndexMarkdownFile(file)) {
+					this.pendingActiveFileUpdates.delete(file.path);
+					await this.vectorDB.removeFileDocuments(file.path);
+					await this.clearIndexFailure(file.path);
+					await this.vectorDB.save();
+				} else if (!PrivacyUtility.canIndex(previous)) {
+					this.queueFileUpdate(file, 'modify');
+				}
+			} catch (error) {
+				LoggingUtility.error(`Error applying privacy change: ${file.path}`, error);
+			}
+		}, 0);
+	}
+
+	/**
+	 * Re-check the notes whose metadata changed while an index pass was running
+	 */
+	private applyPendingPrivacyChanges(): void {
+		const filePaths = Array.from(this.pendingPrivacyChanges);
+		this.pendingPrivacyChanges.clear();
+		for (const filePath of filePaths) {
+			const file = this.app.vault.getAbstractFileByPath(filePath);
+			if (file instanceof TFile) {
+				this.handleNotePrivacyChange(file);
+			}
+		}
+	}
+
+	/**
+	 * Remember the privacy notes start with, so that a marker removed later is noticed
+	 */
+	private loadNotePrivacy(): void {
+		this.notePrivacy.clear();
+		for (const file of this.app.vault.getFiles()) {
+			const privacy = this.getNotePrivacy(file);
+			if (privacy !== 'default') {
+				this.notePrivacy.set(file.path, privacy);
+			}
+		}
+	}
+
+	private isNoteViewType(viewType: string): boolean {
+		return viewType === 'markdown' || viewType === 'canvas';
+	}
+
 	/**
 	 * Start watching for file changes
 	 * 
@@ -970,6 +1238,10 @@ export class RAGService {
 	 * 4. Periodic backup processing ensures no files are missed (every 30 seconds)
 	 */
 	startFileWatcher(): void {
+		this.failureRetryEnabled = true;
+		this.scheduleFailureRetry();
+		this.loadNotePrivacy();
+
 		// Watch for file modifications
 		this.fileChangeRef = this.app.vault.on('modify', async (file) => {
 			if (file instanceof TFile && this.shouldIndexMarkdownFile(file) && !this.isIndexing) {
@@ -983,20 +1255,45 @@ export class RAGService {
 
 				// Queue the file update to run in background with debouncing
 				this.queueFileUpdate(file, 'modify');
+			} else if (file instanceof TFile && (this.isWatchedImageFile(file) || this.isWatchedPdfFile(file)) && !this.isIndexing) {
+				this.queueFileUpdate(file, 'modify');
+			}
+		});
+
+		// Watch for new images and PDFs (new notes are picked up by their first modify event)
+		this.fileCreateRef = this.app.vault.on('create', async (file) => {
+			if (file instanceof TFile && (this.isWatchedImageFile(file) || this.isWatchedPdfFile(file)) && !this.isIndexing) {
+				this.queueFileUpdate(file, 'modify');
 			}
 		});
 
 		// Watch for file renames
 		this.fileRenameRef = this.app.vault.on('rename', async (file, oldPath) => {
-			if (file instanceof TFile && file.extension.toLowerCase() === 'md' && !this.isIndexing) {
+			const privacy = this.notePrivacy.get(oldPath);
+			if (privacy) {
+				this.notePrivacy.delete(oldPath);
+				this.notePrivacy.set(file.path, privacy);
+			}
+			if (file instanceof TFile && (this.isNoteFile(file) || this.isWatchedImageFile(file) || this.isWatchedPdfFile(file)) && !this.isIndexing) {
 				// Renames should always be processed as they don't interfere with editing
 				this.queueFileUpdate(file, 'rename', oldPath);
+			} else if (file instanceof TFolder && !this.isIndexing) {
+				// Move everything below the folder at once; the per-file rename events then find nothing left to do
+				setTimeout(async () => {
+					try {
+						await this.vectorDB.renameFolderDocuments(oldPath, file.path);
+					} catch (error) {
+						LoggingUtility.error(`Error processing folder rename: ${oldPath} -> ${file.path}`, error);
+					}
+				}, 0);
 			}
 		});
 
 		// Watch for file deletions
 		this.fileDeleteRef = this.app.vault.on('delete', async (file) => {
-			if (file instanceof TFile && file.extension.toLowerCase() === 'md' && !this.isIndexing) {
+			this.notePrivacy.delete(file.path);
+			this.pendingPrivacyChanges.delete(file.path);
+			if (file instanceof TFile && (this.isNoteFile(file) || ImageTextExtractor.isImageFile(file) || PdfTextExtractor.isPdfFile(file)) && !this.isIndexing) {
 				// Remove from pending updates if it was there
 				this.pendingActiveFileUpdates.delete(file.path);
 
@@ -1004,7 +1301,9 @@ export class RAGService {
 				setTimeout(async () => {
 					try {
 						LoggingUtility.log(`File deleted: ${file.path}`);
+						await this.queueEmbeddingNotes(file.path);
 						await this.vectorDB.removeFileDocuments(file.path);
+						await this.clearIndexFailure(file.path);
 						await this.vectorDB.save();
 					} catch (error) {
 						LoggingUtility.error(`Error processing file deletion: ${file.path}`, error);
@@ -1013,6 +1312,18 @@ export class RAGService {
 			}
 		});
 
+		// Watch for privacy properties and tags being added or removed
+		this.metadataChangeRef = this.app.metadataCache.on('changed', (file) => {
+			if (!(file instanceof TFile) || !this.isNoteFile(file)) {
+				return;
+			}
+			if (this.isIndexing) {
+				this.pendingPrivacyChanges.add(file.path);
+			} else {
+				this.handleNotePrivacyChange(file);
+			}
+		});
+
 		// Watch for workspace active leaf changes (when user switches notes)
 		this.workspaceChangeRef = this.app.workspace.on('active-leaf-change', (leaf) => {
 			this.handleActiveLeafChange(leaf);
@@ -1062,7 +1373,7 @@ export class RAGService {
 	private updateLastActiveFile(): void {
 		try {
 			const activeLeaf = this.app.workspace.activeLeaf;
-			if (activeLeaf && activeLeaf.view && activeLeaf.view.getViewType() === 'markdown') {
+			if (activeLeaf && activeLeaf.view && this.isNoteViewType(activeLeaf.view.getViewType())) {
 				const activeFile = (activeLeaf.view as any).file;
 				this.lastActiveFilePath = activeFile ? activeFile.path : null;
 			} else {
@@ -1114,15 +1425,24 @@ export class RAGService {
 	 * Stop watching for file changes
 	 */
 	stopFileWatcher(): void {
+		this.failureRetryEnabled = false;
+		this.retryAllWhenIdle = false;
+		this.scheduleFailureRetry();
 		if (this.fileChangeRef) {
 			this.app.vault.offref(this.fileChangeRef);
 		}
+		if (this.fileCreateRef) {
+			this.app.vault.offref(this.fileCreateRef);
+		}
 		if (this.fileRenameRef) {
 			this.app.vault.offref(this.fileRenameRef);
 		}
 		if (this.fileDeleteRef) {
 			this.app.vault.offref(this.fileDeleteRef);
 		}
+		if (this.metadataChangeRef) {
+			this.app.metadataCache.offref(this.metadataChangeRef);
+		}
 		if (this.workspaceChangeRef) {
 			this.app.workspace.offref(this.workspaceChangeRef);
 		}
@@ -1139,6 +1459,7 @@ export class RAGService {
 			this.activeFileCheckInterval = undefined;
 		}
 		this.pendingActiveFileUpdates.clear();
+		this.pendingPrivacyChanges.clear();
 		this.lastActiveFilePath = null;
 
 		LoggingUtility.log('File watcher stopped');
@@ -1180,10 +1501,39 @@ export class RAGService {
 		this.fileUpdateQueue.set(filePath, timeout);
 	}
 
+	/**
+	 * Watcher update for an image or PDF: move its documents on rename, then re-extract only if the content changed
+	 */
+	private async processAttachmentUpdate(file: TFile, oldPath?: string): Promise<void> {
+		const isPdf = PdfTextExtractor.isPdfFile(file);
+		if (oldPath) {
+			await this.vectorDB.renameFileDocuments(oldPath, file.path, {
+				fileName: file.basename,
+				title: isPdf ? file.basename : `Image: ${file.basename}`
+			});
+		}
+
+		if (isPdf ? !this.shouldIndexPdfFile(file) : !this.shouldIndexImageFile(file)) {
+			LoggingUtility.log(`Skipping excluded attachment update: ${file.path}`);
+			await this.vectorDB.removeFileDocuments(file.path);
+			await this.clearIndexFailure(file.path);
+			return;
+		}
+
+		if (isPdf) {
+			await this.indexPdfFile(file);
+		} else {
+			const outcome = await this.indexImageFile(file);
+			if (outcome.status === 'failed') {
+				LoggingUtility.log(`No text extracted from image ${file.path}: ${outcome.reason}`);
+			}
+		}
+		await this.vectorDB.save();
+	}
+
 	private async calculateCRC32(file: TFile): Promise<string> {
-		const fileBinary = await this.app.vault.readBinary(file);
-		// Use unsigned integer for consistent hex string representation
-		return (CRC32.buf(new Uint8Array(fileBinary)) >>> 0).toString(16);
+		// Calculated in the index worker; the buffer is moved there rather than copied
+		return this.indexWorker.checksum(await this.app.vault.readBinary(file));
 	}
 
 	/**
@@ -1199,41 +1549,68 @@ export class RAGService {
 			return;
 		}
 
+		// Vectors from the current model must not be mixed into an index built with another one
+		if (this.indexMismatchReason) {
+			return;
+		}
+
 		this.isProcessingFileUpdates = true;
 
 		try {
+			if (ImageTextExtractor.isImageFile(file) || PdfTextExtractor.isPdfFile(file)) {
+				await this.processAttachmentUpdate(file, oldPath);
+				return;
+			}
+
 			if (!this.shouldIndexMarkdownFile(file)) {
 				LoggingUtility.log(`Skipping excluded markdown file update: ${file.path}`);
 				if (oldPath) {
 					await this.vectorDB.removeFileDocuments(oldPath);
 				}
 				await this.vectorDB.removeFileDocuments(file.path);
+				await this.clearIndexFailure(file.path);
 				await this.vectorDB.save();
 				return;
 			}
 
 			if (operation === 'modify') {
 				// Check if file actually changed by comparing checksum
-				const newChecksum = await this.calculateCRC32(file);
-				const existingDocs = this.vectorDB.getFileDocuments(file.path);
+				const newChecksum = await this.calculateNoteChecksum(file);
+				const existingDocs = await this.vectorDB.getFileDocuments(file.path);
 
 				if (existingDocs.length > 0 && existingDocs[0].metadata.fileChecksum === newChecksum) {
 					// File content hasn't actually changed, skip update
 					LoggingUtility.log(`File modification detected but content unchanged: ${file.path}`);
+					await this.clearIndexFailure(file.path);
 					return;
 				}
 
 				LoggingUtility.log(`File content changed: ${file.path} (checksum: ${newChecksum})`);
 				await this.updateFileEmbeddings(file);
 				await this.vectorDB.save();
+				await this.queueEmbeddingNotes(file.path);
 
 			} else if (operation === 'rename') {
 				LoggingUtility.log(`File renamed from ${oldPath} to ${file.path}`);
+				let moved = 0;
 				if (oldPath) {
-					await this.vectorDB.removeFileDocuments(oldPath);
+					// Keep the stored vectors; only path, id and title change
+					const metadata = this.app.metadataCache.getFileCache(file);
+					moved = await this.vectorDB.renameFileDocuments(oldPath, file.path, {
+						fileName: file.basename,
+						title: this.getFileTitle(file, metadata)
+					});
+				}
+
+				// Re-embed only if the content changed as well (or the file was not indexed yet)
+				const newChecksum = await this.calculateNoteChecksum(file);
+				const existingDocs = await this.vectorDB.getFileDocuments(file.path);
+				if (existingDocs.length > 0 && existingDocs[0].metadata.fileChecksum === newChecksum) {
+					LoggingUtility.log(`Content unchanged after rename, kept ${moved || existingDocs.length} chunks: ${file.path}`);
+				} else {
+					await this.updateFileEmbeddings(file);
+					await this.vectorDB.save();
 				}
-				await this.updateFileEmbeddings(file);
-				await this.vectorDB.save();
 			}
 
 			// Yield control periodically during processing
@@ -1356,6 +1733,9 @@ export class RAGService {
 
 	private setIndexingState(state: IndexingState): void {
 		this.indexingState = state;
+		if ((state === 'idle' || state === 'cancelled') && this.pendingPrivacyChanges.size > 0) {
+			this.applyPendingPrivacyChanges();
+		}
 	}
 
 	private setEmbeddingPauseState(reason: string): void {
@@ -1454,6 +1834,12 @@ export class RAGService {
 			return;
 		}
 
+		if (this.indexMismatchReason) {
+			LoggingUtility.warn('Skipping index update: the index must be rebuilt for the current embedding model');
+			new Notice(`${this.indexMismatchReason}. Rebuild the index to update it.`, 8000);
+			return;
+		}
+
 		this.isIndexing = true;
 		this.setIndexingState('indexing');
 		this.progressCallback = progressCallback;
@@ -1496,7 +1882,7 @@ export class RAGService {
 
 				try {
 					fileStats.set(file.path, {
-						checksum: await this.calculateCRC32(file),
+						checksum: await this.calculateNoteChecksum(file),
 						lastModified: file.stat.mtime,
 						size: file.stat.size
 					});
@@ -1513,12 +1899,19 @@ export class RAGService {
 			// Ensure image files are included in existingFiles so they aren't removed as obsolete.
 			// This prevents removeObsoleteDocuments from deleting valid image entries.
 			this.getIncludedImageFiles().forEach(img => existingFiles.add(img.path));
+			this.getIncludedPdfFiles().forEach(pdf => existingFiles.add(pdf.path));
 
 			// Remove documents for files that no longer exist
 			await this.vectorDB.removeObsoleteDocuments(existingFiles);
 
-			// Find files that need updating
-			const filesToUpdate = this.vectorDB.getFilesNeedingUpdate(fileStats);
+			// Find files that need updating; files that failed recently wait for their next retry
+			const filesToUpdate = (await this.vectorDB.getFilesNeedingUpdate(fileStats)).filter(filePath => {
+				if (this.isWaitingForRetry(filePath)) {
+					LoggingUtility.log(`Skipping ${filePath} until its next retry`);
+					return false;
+				}
+				return true;
+			});
 
 			LoggingUtility.log(`Found ${filesToUpdate.length} markdown files that need updating out of ${files.length} total files`);
 
@@ -1539,9 +1932,8 @@ export class RAGService {
 
 					if (file instanceof TFile) {
 						try {
-							const content = await this.app.vault.read(file);
-							const chunks = this.splitIntoParagraphs(content);
-							const chunkCount = chunks.length;
+							const content = await this.readNoteContent(file);
+							const chunkCount = (await this.indexWorker.prepareChunks(file.path, content)).chunks.length;
 							fileChunkCounts.set(filePath, chunkCount);
 							totalChunks += chunkCount;
 						} catch (error) {
@@ -1584,7 +1976,7 @@ export class RAGService {
 							return;
 						}
 
-						await this.updateFileEmbeddingsWithProgress(file, (chunkIndex: number, totalFileChunks: number) => {
+						await this.updateFileEmbeddingsInRun(file, (chunkIndex: number, totalFileChunks: number) => {
 							if (this.progressCallback) {
 								const currentChunk = processedChunks + chunkIndex + 1;
 								this.progressCallback(currentChunk, totalChunks, `Processing chunk ${chunkIndex + 1} of ${totalFileChunks} chunks in ${file.basename}`);
@@ -1617,12 +2009,15 @@ export class RAGService {
 					return;
 				}
 
-				// Final save for markdown files
-				await this.vectorDB.save();
+				// Checkpoint after the markdown files
+				await this.vectorDB.flush();
 
 				LoggingUtility.log(`Markdown file processing complete. Updated ${filesToUpdate.length} files with ${processedChunks} total chunks.`);
 			}
 
+			await this.processPdfFiles();
+			if (this.indexingAbortController?.signal.aborted) return;
+
 			// Process images LAST if image text extractor is available
 			LoggingUtility.log(`Image processing check: extractor=${!!this.imageTextExtractor}, enabled=${this.settings.enableImageTextExtraction}`);
 
@@ -1633,8 +2028,8 @@ export class RAGService {
 				const allFiles = this.app.vault.getFiles();
 				LoggingUtility.log(`Total files in vault during indexing: ${allFiles.length}`);
 
-				// Get all image files in the vault
-				const imageFiles = allFiles.filter(file => this.shouldIndexImageFile(file));
+				// Get all image files in the vault; images that failed recently wait for their next retry
+				const imageFiles = allFiles.filter(file => this.shouldIndexImageFile(file) && !this.isWaitingForRetry(file.path));
 				LoggingUtility.log(`Found ${imageFiles.length} image files in vault during indexing`);
 
 				// Log the first few image files for debugging
@@ -1663,85 +2058,16 @@ export class RAGService {
 						try {
 							LoggingUtility.log(`Checking image ${i + 1}/${imageFiles.length}: ${imageFile.path}`);
 
-							// Check if image has changed since last extraction by comparing checksum
-							const newImageChecksum = await this.calculateCRC32(imageFile);
-
-							// Check abort after async operation
-							if (this.indexingAbortController?.signal.aborted) break;
-
-							const existingImageDocs = this.vectorDB.getFileDocuments(imageFile.path);
-
-							if (existingImageDocs.length > 0) {
-								const existingChecksum = existingImageDocs[0].metadata.fileChecksum;
-								if (existingChecksum === newImageChecksum) {
-									// Image content hasn't changed, skip extraction
-									LoggingUtility.log(`Image unchanged since last extraction, skipping: ${imageFile.path}`);
-									continue;
-								} else {
-									LoggingUtility.log(`Image content changed: ${imageFile.path} (new checksum: ${newImageChecksum}, old: ${existingChecksum})`);
-								}
-							} else {
-								LoggingUtility.log(`New image detected: ${imageFile.path} (checksum: ${newImageChecksum})`);
-							}
-
-							// Extract text from image
-							const result = await this.imageTextExtractor.extractTextFromImage(imageFile);
-
-							// Check abort after async operation
-							if (this.indexingAbortController?.signal.aborted) break;
-
-							if (result.success && result.extractedText.trim()) {
-								// Create a virtual document for the extracted text
-								const extractedText = result.extractedText;
-
-								// Split extracted text into chunks
-								const chunks = this.splitIntoParagraphs(extractedText);
-
-								if (chunks.length > 0) {
-									// Generate embeddings for chunks
-									const texts = chunks.map(c => c.text);
-									const embeddings = await this.generateEmbeddings(texts);
-
-									// Check abort after async operation
-									if (this.indexingAbortController?.signal.aborted) break;
-
-									const fileChecksum = await this.calculateCRC32(imageFile);
-
-									// Create chunk documents for the image
-									const chunkDocuments = chunks.map((chunk, index) => ({
-										id: `${imageFile.path}#c${chunk.index}`,
-										vector: embeddings[index],
-										metadata: {
-											filePath: imageFile.path,
-											fileName: imageFile.basename,
-											title: `Image: ${imageFile.basename}`,
-											paragraphIndex: chunk.index,
-											paragraphText: chunk.text,
-											fileChecksum: fileChecksum,
-											lastModified: imageFile.stat.mtime,
-											fileSize: imageFile.stat.size,
-											sourceType: 'image' as const,
-											extractedText: true
-										}
-									}));
-
-									// Store in unified vector database
-									await this.vectorDB.upsertFileDocuments(imageFile.path, chunkDocuments);
-									// Save periodically to avoid losing progress
-									if ((i + 1) % 2 === 0) {
-										await this.vectorDB.save();
-									}
-
-									LoggingUtility.log(`Successfully processed image ${imageFile.path} with ${chunks.length} text chunks`);
-								}
-							} else {
-								const failureReason = result.error || 'No text found';
-								if (this.isIndexing && this.isRecoverableServiceFailure(failureReason)) {
-									await this.pauseForEmbeddingRecovery(failureReason);
+							const outcome = await this.indexImageFile(imageFile);
+							if (outcome.status === 'aborted' || this.indexingAbortController?.signal.aborted) break;
+
+							if (outcome.status === 'failed') {
+								if (this.isIndexing && this.isRecoverableServiceFailure(outcome.reason)) {
+									await this.pauseForEmbeddingRecovery(outcome.reason);
 									i--;
 									continue;
 								}
-								LoggingUtility.log(`No text extracted from image ${imageFile.path}: ${failureReason}`);
+								LoggingUtility.log(`No text extracted from image ${imageFile.path}: ${outcome.reason}`);
 							}
 
 							// Yield control periodically
@@ -1774,6 +2100,12 @@ export class RAGService {
 
 			if (this.indexingAbortController?.signal.aborted) return;
 
+			await this.recordIndexFingerprint(false);
+			await this.pruneEmbeddingCache();
+			// Indexing checkpoint: write everything the run changed
+			await this.vectorDB.flush();
+
+			await this.refreshIndexStats();
 			const stats = this.getStats();
 			LoggingUtility.log(`Indexing complete. Total: ${stats.documentCount} paragraph documents across ${stats.fileCount} files (including images)`);
 
@@ -1847,8 +2179,18 @@ export class RAGService {
 			this.activeFileCheckInterval = undefined;
 		}
 
-		// 4. Close the database
-		await this.vectorDB.close();
+		// 4. Write pending changes, then close the database
+		try {
+			await this.vectorDB.flush();
+		} catch (error) {
+			LoggingUtility.error('Failed to write the index before shutdown:', error);
+		}
+		try {
+			await this.vectorDB.close();
+		} finally {
+			// 5. Stop the index worker
+			this.indexWorker.terminate();
+		}
 		LoggingUtility.log('RAG Service shutdown complete');
 	}
 
@@ -1882,6 +2224,8 @@ export class RAGService {
 			// Clear existing database completely (including images)
 			await this.vectorDB.clear();
 			LoggingUtility.log('Cleared ALL existing vector indexes for complete rebuild');
+			// Nothing from the previous embedding setup is left
+			this.indexMismatchReason = null;
 
 			// Get all markdown files that are not excluded
 			const files = this.getIncludedMarkdownFiles();
@@ -1900,9 +2244,8 @@ export class RAGService {
 				const file = files[i];
 
 				try {
-					const content = await this.app.vault.read(file);
-					const chunks = this.splitIntoParagraphs(content);
-					const chunkCount = chunks.length;
+					const content = await this.readNoteContent(file);
+					const chunkCount = (await this.indexWorker.prepareChunks(file.path, content)).chunks.length;
 					fileChunkCounts.set(file.path, chunkCount);
 					totalChunks += chunkCount;
 				} catch (error) {
@@ -1934,7 +2277,7 @@ export class RAGService {
 					this.progressCallback(processedChunks + 1, totalChunks, `Processing chunk 1 of ${chunkCount} chunks in ${file.basename}`);
 				}
 
-				await this.updateFileEmbeddingsWithProgress(file, (chunkIndex: number, totalFileChunks: number) => {
+				await this.updateFileEmbeddingsInRun(file, (chunkIndex: number, totalFileChunks: number) => {
 					if (this.progressCallback) {
 						const currentChunk = processedChunks + chunkIndex + 1;
 						this.progressCallback(currentChunk, totalChunks, `Processing chunk ${chunkIndex + 1} of ${totalFileChunks} chunks in ${file.basename}`);
@@ -1961,13 +2304,16 @@ export class RAGService {
 				}
 			}
 
-			// Final save for markdown files
+			// Checkpoint after the markdown files
 			if (!this.indexingAbortController?.signal.aborted) {
-				await this.vectorDB.save();
+				await this.vectorDB.flush();
 			}
 
 			LoggingUtility.log(`Markdown file rebuild complete. Indexed ${processedChunks} total chunks across ${files.length} files.`);
 
+			await this.processPdfFiles();
+			if (this.indexingAbortController?.signal.aborted) return;
+
 			// Process images LAST if image text extractor is available
 			LoggingUtility.log(`Image processing check: extractor=${!!this.imageTextExtractor}, enabled=${this.settings.enableImageTextExtraction}`);
 
@@ -1983,7 +2329,7 @@ export class RAGService {
 						this.progressCallback(0, imageFiles.length, 'Finding unindexed image text');
 					}
 
-					// Process each image (no checksum check since we cleared the database)
+					// Process each image (the database was cleared, but extracted text comes from the image text cache)
 					for (let i = 0; i < imageFiles.length; i++) {
 						if (this.indexingAbortController?.signal.aborted) {
 							LoggingUtility.log('Image processing aborted by user');
@@ -1999,60 +2345,16 @@ export class RAGService {
 						try {
 							LoggingUtility.log(`Checking image ${i + 1}/${imageFiles.length}: ${imageFile.path}`);
 
-							// Extract text from image
-							const result = await this.imageTextExtractor.extractTextFromImage(imageFile);
-
-							// Check abort after async
-							if (this.indexingAbortController?.signal.aborted) break;
-
-							if (result.success && result.extractedText.trim()) {
-								// Create a virtual document for the extracted text
-								const extractedText = result.extractedText;
-
-								// Split extracted text into chunks
-								const chunks = this.splitIntoParagraphs(extractedText);
-
-								if (chunks.length > 0) {
-									// Generate embeddings for chunks
-									const texts = chunks.map(c => c.text);
-									const embeddings = await this.generateEmbeddings(texts);
-
-									if (this.indexingAbortController?.signal.aborted) break;
-
-									const checksum = await this.calculateCRC32(imageFile);
-
-									// Create chunk documents for the image
-									const chunkDocuments = chunks.map((chunk, index) => ({
-										id: `${imageFile.path}#c${chunk.index}`,
-										vector: embeddings[index],
-										metadata: {
-											filePath: imageFile.path,
-											fileName: imageFile.basename,
-											title: `Image: ${imageFile.basename}`,
-											paragraphIndex: chunk.index,
-											paragraphText: chunk.text,
-											fileChecksum: checksum,
-											lastModified: imageFile.stat.mtime,
-											fileSize: imageFile.stat.size,
-											sourceType: 'image' as const,
-											extractedText: true
-										}
-									}));
-
-									// Store in unified vector database
-									await this.vectorDB.upsertFileDocuments(imageFile.path, chunkDocuments);
-									await this.vectorDB.save();
-
-									LoggingUtility.log(`Successfully processed image ${imageFile.path} with ${chunks.length} text chunks`);
-								}
-							} else {
-								const failureReason = result.error || 'No text found';
-								if (this.isIndexing && this.isRecoverableServiceFailure(failureReason)) {
-									await this.pauseForEmbeddingRecovery(failureReason);
+							const outcome = await this.indexImageFile(imageFile);
+							if (outcome.status === 'aborted' || this.indexingAbortController?.signal.aborted) break;
+
+							if (outcome.status === 'failed') {
+								if (this.isIndexing && this.isRecoverableServiceFailure(outcome.reason)) {
+									await this.pauseForEmbeddingRecovery(outcome.reason);
 									i--;
 									continue;
 								}
-								LoggingUtility.log(`No text extracted from image ${imageFile.path}: ${failureReason}`);
+								LoggingUtility.log(`No text extracted from image ${imageFile.path}: ${outcome.reason}`);
 							}
 
 							// Yield control periodically
@@ -2082,6 +2384,12 @@ export class RAGService {
 				LoggingUtility.log('Image processing skipped - extractor not available or disabled');
 			}
 
+			await this.recordIndexFingerprint(true);
+			await this.pruneEmbeddingCache();
+			// Indexing checkpoint: write everything the run changed
+			await this.vectorDB.flush();
+
+			await this.refreshIndexStats();
 			const stats = this.getStats();
 			LoggingUtility.log(`Complete rebuild finished. Total: ${stats.documentCount} paragraph documents across ${stats.fileCount} files (including images)`);
 
@@ -2111,6 +2419,12 @@ export class RAGService {
 			return;
 		}
 
+		// Image vectors from another embedding model cannot be kept either
+		if (this.indexMismatchReason) {
+			await this.forceCompleteRebuildIndex(progressCallback);
+			return;
+		}
+
 		this.isIndexing = true;
 		this.setIndexingState('indexing');
 		this.progressCallback = progressCallback;
@@ -2125,11 +2439,8 @@ export class RAGService {
 
 			// Clear existing markdown documents, but preserve image documents for checksum checking
 			// We'll delete only markdown documents to preserve image checksums
-			const db = (this.vectorDB as any).db;
-			if (db) {
-				db.prepare('DELETE FROM documents WHERE source_type = ?').run('markdown');
-				LoggingUtility.log('Cleared markdown documents for rebuild, preserving image documents for checksum checking');
-			}
+			await this.vectorDB.removeSourceTypeDocuments('markdown');
+			LoggingUtility.log('Cleared markdown documents for rebuild, preserving image documents for checksum checking');
 
 			// Get all markdown files that are not excluded
 			const files = this.getIncludedMarkdownFiles();
@@ -2148,9 +2459,8 @@ export class RAGService {
 				const file = files[i];
 
 				try {
-					const content = await this.app.vault.read(file);
-					const chunks = this.splitIntoParagraphs(content);
-					const chunkCount = chunks.length;
+					const content = await this.readNoteContent(file);
+					const chunkCount = (await this.indexWorker.prepareChunks(file.path, content)).chunks.length;
 					fileChunkCounts.set(file.path, chunkCount);
 					totalChunks += chunkCount;
 				} catch (error) {
@@ -2182,7 +2492,7 @@ export class RAGService {
 					this.progressCallback(processedChunks + 1, totalChunks, `Processing chunk 1 of ${chunkCount} chunks in ${file.basename}`);
 				}
 
-				await this.updateFileEmbeddingsWithProgress(file, (chunkIndex: number, totalFileChunks: number) => {
+				await this.updateFileEmbeddingsInRun(file, (chunkIndex: number, totalFileChunks: number) => {
 					if (this.progressCallback) {
 						const currentChunk = processedChunks + chunkIndex + 1;
 						this.progressCallback(currentChunk, totalChunks, `Processing chunk ${chunkIndex + 1} of ${totalFileChunks} chunks in ${file.basename}`);
@@ -2202,11 +2512,14 @@ export class RAGService {
 				}
 			}
 
-			// Final save for markdown files
-			await this.vectorDB.save();
+			// Checkpoint after the markdown files
+			await this.vectorDB.flush();
 
 			LoggingUtility.log(`Markdown file rebuild complete. Indexed ${processedChunks} total chunks across ${files.length} files.`);
 
+			await this.processPdfFiles();
+			if (this.indexingAbortController?.signal.aborted) return;
+
 			// Process images LAST if image text extractor is available
 			LoggingUtility.log(`Image processing check: extractor=${!!this.imageTextExtractor}, enabled=${this.imageProcessingEnabled}`);
 
@@ -2237,68 +2550,18 @@ export class RAGService {
 						}
 
 						try {
-							LoggingUtility.log(`Processing image ${i + 1}/${imageFiles.length}: ${imageFile.path}`);
-
-							// Check if image has changed since last extraction by comparing checksum
-							const newImageChecksum = await this.calculateCRC32(imageFile);
+							LoggingUtility.log(`Checking image ${i + 1}/${imageFiles.length}: ${imageFile.path}`);
 
-							const existingImageDocs = this.vectorDB.getFileDocuments(imageFile.path);
-							if (existingImageDocs.length > 0 && existingImageDocs[0].metadata.fileChecksum === newImageChecksum) {
-								// Image content hasn't changed, skip extraction
-								LoggingUtility.log(`Image unchanged since last extraction: ${imageFile.path} (checksum: ${newImageChecksum})`);
-								continue;
-							}
+							const outcome = await this.indexImageFile(imageFile);
+							if (outcome.status === 'aborted' || this.indexingAbortController?.signal.aborted) break;
 
-							LoggingUtility.log(`Image content changed, extracting text: ${imageFile.path} (checksum: ${newImageChecksum})`);
-
-							// Extract text from image
-							const result = await this.imageTextExtractor.extractTextFromImage(imageFile);
-
-							if (result.success && result.extractedText.trim()) {
-								// Create a virtual document for the extracted text
-								const extractedText = result.extractedText;
-
-								// Split extracted text into chunks
-								const chunks = this.splitIntoParagraphs(extractedText);
-
-								if (chunks.length > 0) {
-									// Generate embeddings for chunks
-									const texts = chunks.map(c => c.text);
-									const embeddings = await this.generateEmbeddings(texts);
-									const checksum = await this.calculateCRC32(imageFile);
-
-									// Create chunk documents for the image
-									const chunkDocuments = chunks.map((chunk, index) => ({
-										id: `${imageFile.path}#c${chunk.index}`,
-										vector: embeddings[index],
-										metadata: {
-											filePath: imageFile.path,
-											fileName: imageFile.basename,
-											title: `Image: ${imageFile.basename}`,
-											paragraphIndex: chunk.index,
-											paragraphText: chunk.text,
-											fileChecksum: checksum,
-											lastModified: imageFile.stat.mtime,
-											fileSize: imageFile.stat.size,
-											sourceType: 'image' as const,
-											extractedText: true
-										}
-									}));
-
-									// Store in unified vector database
-									await this.vectorDB.upsertFileDocuments(imageFile.path, chunkDocuments);
-									await this.vectorDB.save();
-
-									LoggingUtility.log(`Successfully processed image ${imageFile.path} with ${chunks.length} text chunks`);
-								}
-							} else {
-								const failureReason = result.error || 'No text found';
-								if (this.isIndexing && this.isRecoverableServiceFailure(failureReason)) {
-									await this.pauseForEmbeddingRecovery(failureReason);
+							if (outcome.status === 'failed') {
+								if (this.isIndexing && this.isRecoverableServiceFailure(outcome.reason)) {
+									await this.pauseForEmbeddingRecovery(outcome.reason);
 									i--;
 									continue;
 								}
-								LoggingUtility.log(`No text extracted from image ${imageFile.path}: ${failureReason}`);
+								LoggingUtility.log(`No text extracted from image ${imageFile.path}: ${outcome.reason}`);
 							}
 
 							// Yield control periodically
@@ -2328,6 +2591,12 @@ export class RAGService {
 				LoggingUtility.log('Image processing skipped - extractor not available or disabled');
 			}
 
+			await this.recordIndexFingerprint(false);
+			await this.pruneEmbeddingCache();
+			// Indexing checkpoint: write everything the run changed
+			await this.vectorDB.flush();
+
+			await this.refreshIndexStats();
 			const stats = this.getStats();
 			LoggingUtility.log(`Complete rebuild finished. Total: ${stats.documentCount} paragraph documents across ${stats.fileCount} files (including images)`);
 
@@ -2375,7 +2644,35 @@ export class RAGService {
 		}
 	}
 
+	/**
+	 * Generate embeddings, reusing cached ones for text embedded before with the same model
+	 */
 	private async generateEmbeddings(texts: string[]): Promise<number[][]> {
+		const cacheEnabled = this.getEmbeddingCacheLimitBytes() > 0;
+		const textHashes = cacheEnabled ? texts.map(text => this.hashEmbeddingText(text)) : [];
+		const cached = cacheEnabled ? await this.vectorDB.getCachedEmbeddings(this.embeddingModel, textHashes) : new Map<string, number[]>();
+
+		const missingIndices = texts
+			.map((_, index) => cached.has(textHashes[index]) ? -1 : index)
+			.filter(index => index !== -1);
+		if (missingIndices.length === 0) {
+			return textHashes.map(hash => cached.get(hash) as number[]);
+		}
+
+		const embeddings = await this.requestEmbeddings(missingIndices.map(index => texts[index]));
+		if (!cacheEnabled) {
+			return embeddings;
+		}
+
+		await this.vectorDB.putCachedEmbeddings(this.embeddingModel, missingIndices.map((textIndex, index) => ({
+			textHash: textHashes[textIndex],
+			vector: embeddings[index]
+		})));
+		missingIndices.forEach((textIndex, index) => cached.set(textHashes[textIndex], embeddings[index]));
+		return textHashes.map(hash => cached.get(hash) as number[]);
+	}
+
+	private async requestEmbeddings(texts: string[]): Promise<number[][]> {
 		while (true) {
 			try {
 				return await this.embeddingService.generateEmbeddings(texts);
@@ -2391,85 +2688,160 @@ export class RAGService {
 	}
 
 	/**
-	 * Update embeddings for a single file (creates embeddings for each paragraph)
+	 * Embed a search query, refusing when the index was built with another embedding setup
 	 */
-	private async updateFileEmbeddings(file: TFile): Promise<void> {
-		try {
-			const content = await this.app.vault.read(file);
-			const metadata = this.app.metadataCache.getFileCache(file);
-			const title = this.getFileTitle(file, metadata);
+	private async generateQueryEmbedding(query: string): Promise<number[]> {
+		if (this.indexMismatchReason) {
+			throw new Error(`Index needs a rebuild: ${this.indexMismatchReason}`);
+		}
 
-			// Calculate checksum from binary content
-			const checksum = await this.calculateCRC32(file);
+		const queryEmbedding = await this.generateEmbedding(query);
 
-			// Split content into chunks
-			const chunks = this.splitIntoParagraphs(content);
+		// Same model name, different vector size (e.g. another server or quantization)
+		const indexDimension = await this.vectorDB.getDimension();
+		if (indexDimension > 0 && queryEmbedding.length !== indexDimension) {
+			await this.checkIndexFingerprint(queryEmbedding.length);
+			throw new Error(`Index needs a rebuild: the embedding model returned ${queryEmbedding.length} dimensions, the index holds ${indexDimension}`);
+		}
+		return queryEmbedding;
+	}
 
-			if (chunks.length === 0) {
-				LoggingUtility.log(`No chunks found in file: ${file.path}`);
-				return;
+	private hashEmbeddingText(text: string): string {
+		return createHash('sha256').update(text).digest('hex');
+	}
+
+	private getEmbeddingCacheLimitBytes(): number {
+		return (this.settings?.embeddingCacheSizeMB ?? 64) * 1024 * 1024;
+	}
+
+	/**
+	 * Apply the cache size limit, evicting the least recently used embeddings
+	 */
+	private async pruneEmbeddingCache(): Promise<void> {
+		try {
+			if (await this.vectorDB.pruneEmbeddingCache(this.getEmbeddingCacheLimitBytes()) > 0) {
+				await this.vectorDB.save();
 			}
+		} catch (error) {
+			LoggingUtility.error('Failed to prune embedding cache:', error);
+		}
+	}
 
-			// Yield control briefly before starting embedding generation
-			await new Promise(resolve => setTimeout(resolve, 0));
+	getEmbeddingCacheStats(): { entryCount: number; sizeInBytes: number } {
+		return this.embeddingCacheStats;
+	}
 
-			// Generate embeddings for all chunks
-			const texts = chunks.map(c => c.text);
-			const embeddings = await this.generateEmbeddings(texts);
+	async clearEmbeddingCache(): Promise<void> {
+		await this.vectorDB.clearEmbeddingCache();
+		await this.refreshIndexStats();
+	}
 
-			// Yield control after embedding generation
-			await new Promise(resolve => setTimeout(resolve, 0));
+	/**
+	 * Update embeddings for a single file (creates embeddings for each paragraph)
+	 */
+	private async updateFileEmbeddings(file: TFile): Promise<void> {
+		await this.updateFileEmbeddingsWithProgress(file);
+	}
 
-			// Create chunk documents
-			const chunkDocuments = chunks.map((chunk, index) => ({
-				id: `${file.path}#c${chunk.index}`,
-				vector: embeddings[index],
-				metadata: {
-					filePath: file.path,
-					fileName: file.basename,
-					title: title,
-					paragraphIndex: chunk.index,
-					paragraphText: chunk.text,
-					fileChecksum: checksum,
-					lastModified: file.stat.mtime,
-					fileSize: file.stat.size,
-					sourceType: 'markdown' as const
-				}
-			}));
+	/**
+	 * Index one note as part of a full pass. A failure is recorded for a later retry and does not stop the pass.
+	 */
+	private async updateFileEmbeddingsInRun(file: TFile, progressCallback: (chunkIndex: number, totalChunks: number) => void): Promise<void> {
+		try {
+			await this.updateFileEmbeddingsWithProgress(file, progressCallback);
+		} catch (error) {
+			if (!this.indexingAbortController?.signal.aborted) {
+				LoggingUtility.warn(`Skipped ${file.path} after an indexing error, it will be retried later`);
+			}
+		}
+	}
 
-			// Store in unified vector database
-			await this.vectorDB.upsertFileDocuments(file.path, chunkDocuments);
+	/**
+	 * Markdown to chunk for a note; canvases are rendered from their JSON and, when enabled,
+	 * embeds are resolved into the text they show
+	 */
+	private async readNoteContent(file: TFile): Promise<string | MarkdownSegment[]> {
+		if (CanvasUtility.isCanvasFile(file)) {
+			return CanvasUtility.toMarkdown(await this.app.vault.read(file));
+		}
+		if (this.settings?.resolveEmbeds) {
+			return this.embedResolver.resolve(file, this.settings.embedResolutionDepth, target => this.shouldIndexMarkdownFile(target) && this.getNotePrivacy(target) === 'default');
+		}
+		return this.app.vault.read(file);
+	}
+
+	/**
+	 * Checksum of a note; with embeds resolved it also covers the embedded text, so a note is
+	 * re-chunked when something it embeds changes
+	 */
+	private async calculateNoteChecksum(file: TFile, content?: string | MarkdownSegment[]): Promise<string> {
+		const checksum = await this.calculateCRC32(file);
+		if (!this.settings?.resolveEmbeds || CanvasUtility.isCanvasFile(file)) {
+			return checksum;
+		}
 
-			LoggingUtility.log(`Updated ${chunkDocuments.length} chunk embeddings for file: ${file.path}`);
+		const segments = content ?? await this.readNoteContent(file);
+		const embeddedText = typeof segments === 'string'
+			? ''
+			: segments.filter(segment => segment.origin).map(segment => segment.text).join('\n');
+		return embeddedText ? `${checksum}+${await this.indexWorker.checksum(embeddedText)}` : checksum;
+	}
 
-		} catch (error) {
-			LoggingUtility.error(`Error updating embeddings for ${file.path}:`, error);
-			throw error;
+	/**
+	 * Queue the notes that embed a changed or deleted note; their checksums include the embedded text
+	 */
+	private async queueEmbeddingNotes(originPath: string): Promise<void> {
+		if (!this.settings?.resolveEmbeds) {
+			return;
+		}
+
+		for (const filePath of await this.vectorDB.getEmbeddingFilePaths(originPath)) {
+			const file = this.app.vault.getAbstractFileByPath(filePath);
+			if (file instanceof TFile) {
+				LoggingUtility.log(`Embedded note changed, reindexing ${filePath} (embeds ${originPath})`);
+				this.queueFileUpdate(file, 'modify');
+			}
 		}
 	}
 
 	/**
-	 * Update embeddings for a single file with chunk-level progress reporting
+	 * Update embeddings for a single file with chunk-level progress reporting.
+	 * Chunks whose text is already stored for the file reuse their vector; only new or edited chunks are embedded.
 	 */
 	private async updateFileEmbeddingsWithProgress(file: TFile, progressCallback?: (chunkIndex: number, totalChunks: number) => void): Promise<void> {
 		try {
-			const content = await this.app.vault.read(file);
+			const content = await this.readNoteContent(file);
 			const metadata = this.app.metadataCache.getFileCache(file);
 			const title = this.getFileTitle(file, metadata);
+			const filterMetadata = this.getFilterMetadata(file, metadata);
 
-			// Calculate checksum from binary content
-			const checksum = await this.calculateCRC32(file);
+			// Calculate checksum from binary content (and embedded text)
+			const checksum = await this.calculateNoteChecksum(file, content);
 
-			// Split content into chunks
-			const chunks = this.splitIntoParagraphs(content);
+			// Split content into chunks (in the index worker)
+			const { chunks, embeddingTexts, contentHashes, chunkIds } = await this.indexWorker.prepareChunks(file.path, content);
 
 			if (chunks.length === 0) {
 				LoggingUtility.log(`No chunks found in file: ${file.path}`);
+				await this.clearIndexFailure(file.path);
 				return;
 			}
 
-			// Generate embeddings for chunks one at a time with progress reporting
-			const chunkDocuments = [];
+			const storedVectors = await this.vectorDB.getStoredVectorsByContentHash(file.path);
+			let embeddedCount = 0;
+
+			// Without progress reporting, embed all new or changed chunks in one batch
+			const missingIndices = contentHashes
+				.map((hash, index) => storedVectors.has(hash) ? -1 : index)
+				.filter(index => index !== -1);
+			if (!progressCallback && missingIndices.length > 0) {
+				const embeddings = await this.generateEmbeddings(missingIndices.map(index => embeddingTexts[index]));
+				missingIndices.forEach((chunkIndex, index) => storedVectors.set(contentHashes[chunkIndex], embeddings[index]));
+				embeddedCount = missingIndices.length;
+			}
+
+			// Otherwise embed them one at a time with progress reporting
+			const chunkDocuments: VectorDocument[] = [];
 
 			for (let i = 0; i < chunks.length; i++) {
 				const chunk = chunks[i];
@@ -2479,17 +2851,18 @@ export class RAGService {
 					progressCallback(i, chunks.length);
 				}
 
-				// Yield control briefly before each embedding generation
-				if (i % 5 === 0) {
-					await new Promise(resolve => setTimeout(resolve, 0));
+				let embedding = storedVectors.get(contentHashes[i]);
+				if (!embedding) {
+					// Yield control briefly before each embedding generation
+					if (embeddedCount % 5 === 0) {
+						await new Promise(resolve => setTimeout(resolve, 0));
+					}
+					[embedding] = await this.generateEmbeddings([embeddingTexts[i]]);
+					embeddedCount++;
 				}
 
-				// Generate embedding for this chunk
-				const embedding = await this.generateEmbedding(chunk.text);
-
-				// Create chunk document
-				const chunkDocument = {
-					id: `${file.path}#c${chunk.index}`,
+				chunkDocuments.push({
+					id: chunkIds[i],
 					vector: embedding,
 					metadata: {
 						filePath: file.path,
@@ -2497,14 +2870,16 @@ export class RAGService {
 						title: title,
 						paragraphIndex: chunk.index,
 						paragraphText: chunk.text,
+						headingPath: chunk.headingPath,
+						contentHash: contentHashes[i],
+						originPath: chunk.origin,
 						fileChecksum: checksum,
 						lastModified: file.stat.mtime,
 						fileSize: file.stat.size,
-						sourceType: 'markdown' as const
+						sourceType: 'markdown' as const,
+						...filterMetadata
 					}
-				};
-
-				chunkDocuments.push(chunkDocument);
+				});
 			}
 
 			// Store in unified vector database
@@ -2515,23 +2890,31 @@ export class RAGService {
 				progressCallback(chunks.length, chunks.length);
 			}
 
-			LoggingUtility.log(`Updated ${chunkDocuments.length} chunk embeddings for file: ${file.path}`);
+			LoggingUtility.log(`Updated ${chunkDocuments.length} chunks for file ${file.path} (${embeddedCount} embedded, ${chunkDocuments.length - embeddedCount} reused)`);
+			await this.clearIndexFailure(file.path);
 
 		} catch (error) {
 			LoggingUtility.error(`Error updating embeddings for ${file.path}:`, error);
+			await this.recordIndexFailure(file.path, error);
 			throw error;
 		}
 	}
 
 	/**
-	 * Search for similar documents using RAG (now searches by paragraph)
+	 * Search for similar documents using RAG (now searches by paragraph).
+	 * With hybrid search enabled, keyword (BM25) matches are fused with the vector ranking.
 	 */
-	async search(query: string, limit: number = 5, threshold: number = 0.3): Promise<RAGSearchResult[]> {
+	async search(query: string, limit: number = 5, threshold: number = 0.3, filter?: MetadataFilter): Promise<RAGSearchResult[]> {
 		// Generate query embedding
-		const queryEmbedding = await this.generateEmbedding(query);
+		const queryEmbedding = await this.generateQueryEmbedding(query);
 
 		// Search in unified vector database
-		const allResults = this.vectorDB.search(queryEmbedding, limit, threshold);
+		const allResults = this.settings?.hybridSearchEnabled
+			? await this.vectorDB.hybridSearch(queryEmbedding, query, limit, threshold, {
+				vector: this.settings.hybridVectorWeight ?? 1,
+				keyword: this.settings.hybridKeywordWeight ?? 1
+			}, filter)
+			: await this.vectorDB.search(queryEmbedding, limit, threshold, filter);
 
 		// Convert to RAGSearchResult format
 		const ragResults: RAGSearchResult[] = [];
@@ -2546,6 +2929,9 @@ export class RAGService {
 					title: result.document.metadata.title,
 					path: result.document.metadata.filePath,
 					paragraphIndex: result.document.metadata.paragraphIndex,
+					headingPath: result.document.metadata.headingPath,
+					pageNumber: result.document.metadata.pageNumber,
+					originPath: result.document.metadata.originPath,
 					matchedParagraph: result.document.metadata.paragraphText
 				});
 			}
@@ -2557,12 +2943,12 @@ export class RAGService {
 	/**
 	 * Search for similar documents grouped by file (useful for getting context from multiple paragraphs)
 	 */
-	async searchGroupedByFile(query: string, maxFiles: number = 3, maxParagraphsPerFile: number = 3, threshold: number = 0.3): Promise<Map<string, RAGSearchResult[]>> {
+	async searchGroupedByFile(query: string, maxFiles: number = 3, maxParagraphsPerFile: number = 3, threshold: number = 0.3, filter?: MetadataFilter): Promise<Map<string, RAGSearchResult[]>> {
 		// Generate query embedding
-		const queryEmbedding = await this.generateEmbedding(query);
+		const queryEmbedding = await this.generateQueryEmbedding(query);
 
 		// Search in unified vector database grouped by file
-		const resultsMap = this.vectorDB.searchGroupedByFile(queryEmbedding, maxFiles, maxParagraphsPerFile, threshold);
+		const resultsMap = await this.vectorDB.searchGroupedByFile(queryEmbedding, maxFiles, maxParagraphsPerFile, threshold, filter);
 
 		// Convert to RAGSearchResult format
 		const ragResultsMap = new Map<string, RAGSearchResult[]>();
@@ -2577,6 +2963,9 @@ export class RAGService {
 					title: result.document.metadata.title,
 					path: result.document.metadata.filePath,
 					paragraphIndex: result.document.metadata.paragraphIndex,
+					headingPath: result.document.metadata.headingPath,
+					pageNumber: result.document.metadata.pageNumber,
+					originPath: result.document.metadata.originPath,
 					matchedParagraph: result.document.metadata.paragraphText
 				}));
 
@@ -2587,6 +2976,59 @@ export class RAGService {
 		return ragResultsMap;
 	}
 
+	/**
+	 * Folder, tags and the configured frontmatter keys of a note, stored with its chunks for metadata filters
+	 */
+	getFilterMetadata(file: TFile, metadata: CachedMetadata | null = this.app.metadataCache.getFileCache(file)): FileFilterMetadata {
+		const frontmatter: Record<string, string[]> = {};
+		for (const key of this.settings?.indexedFrontmatterKeys || []) {
+			const value = metadata?.frontmatter?.[key];
+			if (value === undefined || value === null || value === '') {
+				continue;
+			}
+			const values = (Array.isArray(value) ? value : [value])
+				.filter(item => item !== null && item !== undefined && typeof item !== 'object')
+				.map(item => String(item));
+			if (values.length > 0) {
+				frontmatter[key] = values;
+			}
+		}
+
+		return {
+			folder: getFolderOfPath(file.path),
+			tags: metadata ? (getAllTags(metadata) || []) : [],
+			frontmatter
+		};
+	}
+
+	/**
+	 * Bring stored tags and frontmatter up to date for notes indexed before filters existed or before the
+	 * filterable keys changed, without re-embedding them
+	 */
+	async refreshFilterMetadata(): Promise<void> {
+		try {
+			const stored = await this.vectorDB.getFileFilterMetadata();
+			const changed = new Map<string, FileFilterMetadata>();
+
+			for (const file of this.getIncludedMarkdownFiles()) {
+				const current = stored.get(file.path);
+				if (!current) {
+					continue;
+				}
+				const latest = this.getFilterMetadata(file);
+				if (current.folder !== latest.folder
+					|| encodeTags(current.tags) !== encodeTags(latest.tags)
+					|| encodeFrontmatter(current.frontmatter) !== encodeFrontmatter(latest.frontmatter)) {
+					changed.set(file.path, latest);
+				}
+			}
+
+			await this.vectorDB.updateFileFilterMetadata(changed);
+		} catch (error) {
+			LoggingUtility.error('Failed to refresh filter metadata:', error);
+		}
+	}
+
 	/**
 	 * Get file title from metadata
 	 */
@@ -2601,7 +3043,7 @@ export class RAGService {
 	}
 
 	/**
-	 * Format RAG search results for LLM context
+	 * Format RAG search results for LLM context, numbered so the model can cite them as [1], [2], ...
 	 */
 	formatSearchResults(results: RAGSearchResult[]): string {
 		if (results.length === 0) {
@@ -2610,8 +3052,8 @@ export class RAGService {
 
 		let context = '\n\n--- RELEVANT NOTES (RAG) ---\n\n';
 
-		for (const result of results) {
-			context += `**${result.title}** (${result.path}`;
+		results.forEach((result, index) => {
+			context += `[${index + 1}] **${result.title}** (${result.path}`;
 			if (result.paragraphIndex !== undefined) {
 				context += `, paragraph ${result.paragraphIndex + 1}`;
 			}
@@ -2619,7 +3061,7 @@ export class RAGService {
 			context += `Similarity: ${(result.similarity * 100).toFixed(1)}%\n\n`;
 			context += result.content + '\n\n';
 			context += '---\n\n';
-		}
+		});
 
 		return context;
 	}
@@ -2654,7 +3096,237 @@ export class RAGService {
 	}
 
 	/**
-	 * Get index statistics
+	 * Every indexed file with its chunk count, checksum and last error, plus the notes and attachments
+	 * that are not indexed (excluded, failed or not reached yet)
+	 */
+	async getIndexInspectorEntries(): Promise<IndexInspectorEntry[]> {
+		const entries = new Map<string, IndexInspectorEntry>();
+		for (const summary of await this.vectorDB.getIndexedFiles()) {
+			entries.set(summary.filePath, {
+				path: summary.filePath,
+				sourceType: summary.sourceType,
+				status: 'indexed',
+				chunkCount: summary.chunkCount,
+				lastIndexed: summary.lastIndexed,
+				checksum: summary.fileChecksum,
+				lastError: null
+			});
+		}
+
+		for (const file of this.app.vault.getFiles()) {
+			if (entries.has(file.path)) {
+				continue;
+			}
+			const included = this.shouldIndexMarkdownFile(file) || this.shouldIndexPdfFile(file)
+				|| (this.isWatchedImageFile(file) && this.shouldIndexImageFile(file));
+			if (included || this.isNoteFile(file)) {
+				entries.set(file.path, {
+					path: file.path,
+					sourceType: this.getSourceType(file),
+					status: included ? 'not-indexed' : 'excluded',
+					chunkCount: 0,
+					lastIndexed: null,
+					checksum: null,
+					lastError: null
+				});
+			}
+		}
+
+		for (const failure of await this.vectorDB.getIndexFailures()) {
+			const entry = entries.get(failure.filePath);
+			if (entry && entry.status !== 'excluded') {
+				entry.status = 'failed';
+				entry.lastError = failure;
+			}
+		}
+		return Array.from(entries.values());
+	}
+
+	/**
+	 * The stored chunks of one file, in document order
+	 */
+	async getFileChunks(filePath: string): Promise<IndexedChunk[]> {
+		const documents = await this.vectorDB.getFileDocuments(filePath);
+		return documents.map(document => ({
+			index: document.metadata.paragraphIndex,
+			text: document.metadata.paragraphText,
+			headingPath: document.metadata.headingPath || [],
+			pageNumber: document.metadata.pageNumber,
+			originPath: document.metadata.originPath
+		}));
+	}
+
+	/**
+	 * Index one file now, even if its checksum is unchanged. Throws with the reason when it fails.
+	 */
+	async reindexFile(filePath: string): Promise<void> {
+		// Vectors from the current model must not be mixed into an index built with another one
+		if (this.indexMismatchReason) {
+			throw new Error(`Index needs a rebuild: ${this.indexMismatchReason}`);
+		}
+
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) {
+			throw new Error(`${filePath} no longer exists`);
+		}
+
+		if (this.shouldIndexMarkdownFile(file)) {
+			await this.updateFileEmbeddings(file);
+		} else if (this.shouldIndexPdfFile(file)) {
+			// Attachments are skipped while their checksum matches, so drop the stored chunks first
+			await this.vectorDB.removeFileDocuments(file.path);
+			if (await this.indexPdfFile(file) === 'incomplete') {
+				await this.vectorDB.save();
+				throw new Error(this.indexFailures.find(failure => failure.filePath === file.path)?.error || 'Some scanned pages could not be read');
+			}
+		} else if (this.isWatchedImageFile(file) && this.shouldIndexImageFile(file)) {
+			await this.vectorDB.removeFileDocuments(file.path);
+			const outcome = await this.indexImageFile(file);
+			if (outcome.status === 'failed') {
+				throw new Error(outcome.reason);
+			}
+		} else {
+			throw new Error(`${filePath} is excluded from indexing`);
+		}
+		await this.vectorDB.save();
+	}
+
+	/**
+	 * Drop a file's chunks, e.g. after it was excluded from indexing
+	 */
+	async removeFileFromIndex(filePath: string): Promise<void> {
+		await this.clearIndexFailure(filePath);
+		await this.vectorDB.removeFileDocuments(filePath);
+		await this.vectorDB.save();
+	}
+
+	/**
+	 * Files whose last indexing attempt failed, as of the last change to the index
+	 */
+	getIndexFailures(): IndexFailure[] {
+		return this.indexFailures;
+	}
+
+	/**
+	 * Retry every failed file now instead of waiting for its next scheduled retry. During an index pass nothing
+	 * is queued and 0 is returned; the files are retried once the pass is done.
+	 */
+	retryAllIndexFailures(): number {
+		if (this.isIndexing) {
+			this.retryAllWhenIdle = true;
+			this.scheduleFailureRetry();
+			return 0;
+		}
+		this.retryAllWhenIdle = false;
+		return this.retryIndexFailures(this.indexFailures);
+	}
+
+	/**
+	 * Remember that indexing a file failed, and when to try it again. Each attempt waits longer than the one before.
+	 */
+	private async recordIndexFailure(filePath: string, error: unknown): Promise<void> {
+		// An aborted run is not the file's fault
+		if (this.indexingAbortController?.signal.aborted) {
+			return;
+		}
+
+		const message = error instanceof Error ? error.message : String(error);
+		const previous = this.indexFailures.find(failure => failure.filePath === filePath);
+		const attempts = (previous?.attempts || 0) + 1;
+		const now = Date.now();
+		const failure: IndexFailure = {
+			filePath,
+			category: this.categorizePauseReason(message),
+			error: message,
+			attempts,
+			lastAttempt: now,
+			nextRetry: now + INDEX_RETRY_DELAYS_MS[Math.min(attempts, INDEX_RETRY_DELAYS_MS.length) - 1]
+		};
+		this.indexFailures = this.indexFailures.filter(other => other.filePath !== filePath).concat(failure);
+		this.indexFailuresVersion++;
+
+		try {
+			await this.vectorDB.putIndexFailure(failure);
+		} catch (storeError) {
+			LoggingUtility.warn(`Could not record the indexing failure of ${filePath}:`, storeError);
+		}
+		this.logIndexEvent('file_failed', { filePath, category: failure.category, attempts, nextRetry: new Date(failure.nextRetry).toISOString() });
+		this.scheduleFailureRetry();
+	}
+
+	private async clearIndexFailure(filePath: string): Promise<void> {
+		if (!this.indexFailures.some(failure => failure.filePath === filePath)) {
+			return;
+		}
+		this.indexFailures = this.indexFailures.filter(failure => failure.filePath !== filePath);
+		this.indexFailuresVersion++;
+		await this.vectorDB.removeIndexFailure(filePath);
+	}
+
+	/**
+	 * Failed files whose next retry has not come yet; index runs skip them
+	 */
+	private isWaitingForRetry(filePath: string): boolean {
+		const failure = this.indexFailures.find(other => other.filePath === filePath);
+		return !!failure && failure.nextRetry > Date.now();
+	}
+
+	/**
+	 * Set a timer for the earliest retry. Retries only run while the file watcher is active.
+	 */
+	private scheduleFailureRetry(): void {
+		if (this.failureRetryTimer) {
+			clearTimeout(this.failureRetryTimer);
+			this.failureRetryTimer = undefined;
+		}
+		if ((!this.failureRetryEnabled && !this.retryAllWhenIdle) || this.indexFailures.length === 0) {
+			return;
+		}
+
+		const nextRetry = this.retryAllWhenIdle ? Date.now() : Math.min(...this.indexFailures.map(failure => failure.nextRetry));
+		this.failureRetryTimer = setTimeout(() => {
+			this.failureRetryTimer = undefined;
+			// A running index pass picks up the due files itself
+			if (this.isIndexing) {
+				this.failureRetryTimer = setTimeout(() => this.scheduleFailureRetry(), 60 * 1000);
+				return;
+			}
+			const now = Date.now();
+			const retryAll = this.retryAllWhenIdle;
+			this.retryAllWhenIdle = false;
+			this.retryIndexFailures(retryAll ? this.indexFailures : this.indexFailures.filter(failure => failure.nextRetry <= now));
+		}, Math.max(nextRetry - Date.now(), 1000));
+	}
+
+	/**
+	 * Queue the files for another attempt; failures of files that are gone or now excluded are dropped
+	 */
+	private retryIndexFailures(failures: IndexFailure[]): number {
+		let queued = 0;
+		for (const failure of failures) {
+			const file = this.app.vault.getAbstractFileByPath(failure.filePath);
+			const included = file instanceof TFile && (this.shouldIndexMarkdownFile(file) || this.shouldIndexPdfFile(file)
+				|| (this.isWatchedImageFile(file) && this.shouldIndexImageFile(file)));
+			if (!included) {
+				void this.clearIndexFailure(failure.filePath);
+				continue;
+			}
+			LoggingUtility.log(`Retrying indexing of ${failure.filePath} (attempt ${failure.attempts + 1})`);
+			this.queueFileUpdate(file as TFile, 'modify');
+			queued++;
+		}
+		return queued;
+	}
+
+	private getSourceType(file: TFile): VectorDocument['metadata']['sourceType'] {
+		if (PdfTextExtractor.isPdfFile(file)) {
+			return 'pdf';
+		}
+		return ImageTextExtractor.isImageFile(file) ? 'image' : 'markdown';
+	}
+
+	/**
+	 * Get index statistics, as of the last change to the index
 	 */
 	getStats(): {
 		documentCount: number;
@@ -2666,53 +3338,54 @@ export class RAGService {
 		markdownFiles: number;
 		imageFiles: number;
 	} {
-		const db = (this.vectorDB as any)?.db;
-		if (!db) {
-			return this.createEmptyStats();
-		}
-
-		let stats: { documentCount: number; fileCount: number; lastUpdated: Date; sizeInBytes: number };
-		try {
-			stats = this.vectorDB.getStats();
-		} catch (error) {
-			LoggingUtility.warn('RAG stats requested before database was ready:', error);
-			return this.createEmptyStats();
-		}
+		return this.indexStats || this.createEmptyStats();
+	}
 
-		// Get breakdown by source type
-		if (!this.vectorDB) {
-			return this.createEmptyStats();
+	/**
+	 * Re-read the statistics from the database. Calls while a refresh is running share one follow-up refresh.
+	 */
+	private refreshIndexStats(): Promise<void> {
+		this.statsRefreshQueued = true;
+		if (!this.statsRefresh) {
+			this.statsRefresh = this.runStatsRefresh().then(() => {
+				this.statsRefresh = null;
+			});
 		}
+		return this.statsRefresh;
+	}
 
-		// Get counts by source type from database
-		if (!db) {
-			return {
-				documentCount: stats.documentCount,
-				fileCount: stats.fileCount,
-				lastUpdated: stats.lastUpdated,
-				sizeInBytes: stats.sizeInBytes,
-				markdownDocuments: 0,
-				imageDocuments: 0,
-				markdownFiles: 0,
-				imageFiles: 0
-			};
+	private async runStatsRefresh(): Promise<void> {
+		while (this.statsRefreshQueued) {
+			this.statsRefreshQueued = false;
+			try {
+				if (!(await this.vectorDB.isLoaded())) {
+					this.indexStats = null;
+					continue;
+				}
+				const failuresVersion = this.indexFailuresVersion;
+				const [stats, sourceTypes, cacheStats, failures] = await Promise.all([
+					this.vectorDB.getStats(),
+					this.vectorDB.getSourceTypeStats(),
+					this.vectorDB.getEmbeddingCacheStats(),
+					this.vectorDB.getIndexFailures()
+				]);
+				this.indexStats = {
+					...stats,
+					markdownDocuments: sourceTypes.markdown.documentCount,
+					imageDocuments: sourceTypes.image.documentCount,
+					markdownFiles: sourceTypes.markdown.fileCount,
+					imageFiles: sourceTypes.image.fileCount
+				};
+				this.embeddingCacheStats = cacheStats;
+				// A failure recorded or cleared meanwhile queues another refresh once it is stored
+				if (failuresVersion === this.indexFailuresVersion) {
+					this.indexFailures = failures;
+				}
+				this.scheduleFailureRetry();
+			} catch (error) {
+				LoggingUtility.warn('Could not refresh index statistics:', error);
+			}
 		}
-
-		const markdownCount = db.prepare('SELECT COUNT(*) as count FROM documents WHERE source_type = ?').get('markdown') as { count: number };
-		const imageCount = db.prepare('SELECT COUNT(*) as count FROM documents WHERE source_type = ?').get('image') as { count: number };
-		const markdownFileCount = db.prepare('SELECT COUNT(DISTINCT file_path) as count FROM documents WHERE source_type = ?').get('markdown') as { count: number };
-		const imageFileCount = db.prepare('SELECT COUNT(DISTINCT file_path) as count FROM documents WHERE source_type = ?').get('image') as { count: number };
-
-		return {
-			documentCount: stats.documentCount,
-			fileCount: stats.fileCount,
-			lastUpdated: stats.lastUpdated,
-			sizeInBytes: stats.sizeInBytes,
-			markdownDocuments: markdownCount.count,
-			imageDocuments: imageCount.count,
-			markdownFiles: markdownFileCount.count,
-			imageFiles: imageFileCount.count
-		};
 	}
 
 	/**
@@ -2728,6 +3401,18 @@ export class RAGService {
 	 */
 	updateEmbeddingConfig(config: EmbeddingConfig): void {
 		this.embeddingService.updateConfig(config);
+
+		if (config.model === this.embeddingModel) {
+			return;
+		}
+		this.embeddingModel = config.model;
+
+		// Only once the database is loaded; initialize() runs the first check
+		if (this.settings) {
+			this.checkIndexFingerprint().catch(error => {
+				LoggingUtility.error('Failed to check index fingerprint after embedding model change:', error);
+			});
+		}
 	}
 
 	/**
@@ -2741,8 +3426,10 @@ export class RAGService {
 	 * Close database connection and cleanup resources
 	 */
 	async close(): Promise<void> {
-		if (this.vectorDB) {
+		try {
 			await this.vectorDB.close();
+		} finally {
+			this.indexWorker.terminate();
 		}
 	}
 
@@ -2765,33 +3452,11 @@ export class RAGService {
 		totalFiles: number;
 	} {
 		const stats = this.getStats();
-		const isInitialized = !!(this.vectorDB as any)?.db;
-
-		// Get breakdown by source type
-		const db = (this.vectorDB as any).db;
-		let textStats = { documentCount: 0, fileCount: 0, lastUpdated: stats.lastUpdated, sizeInBytes: 0 };
-		let imageStats = { documentCount: 0, fileCount: 0, lastUpdated: stats.lastUpdated, sizeInBytes: 0 };
-
-		if (db) {
-			const markdownCount = db.prepare('SELECT COUNT(*) as count FROM documents WHERE source_type = ?').get('markdown') as { count: number };
-			const imageCount = db.prepare('SELECT COUNT(*) as count FROM documents WHERE source_type = ?').get('image') as { count: number };
-			const markdownFileCount = db.prepare('SELECT COUNT(DISTINCT file_path) as count FROM documents WHERE source_type = ?').get('markdown') as { count: number };
-			const imageFileCount = db.prepare('SELECT COUNT(DISTINCT file_path) as count FROM documents WHERE source_type = ?').get('image') as { count: number };
-
-			textStats = {
-				documentCount: markdownCount.count,
-				fileCount: markdownFileCount.count,
-				lastUpdated: stats.lastUpdated,
-				sizeInBytes: 0 // Size breakdown not easily available
-			};
-
-			imageStats = {
-				documentCount: imageCount.count,
-				fileCount: imageFileCount.count,
-				lastUpdated: stats.lastUpdated,
-				sizeInBytes: 0 // Size breakdown not easily available
-			};
-		}
+		const isInitialized = this.indexStats !== null;
+
+		// Breakdown by source type; size breakdown is not easily available
+		const textStats = { documentCount: stats.markdownDocuments, fileCount: stats.markdownFiles, lastUpdated: stats.lastUpdated, sizeInBytes: 0 };
+		const imageStats = { documentCount: stats.imageDocuments, fileCount: stats.imageFiles, lastUpdated: stats.lastUpdated, sizeInBytes: 0 };
 
 		return {
 			isInitialized,
@@ -1,6 +1,10 @@
 import { App, TFile, CachedMetadata, getAllTags, MarkdownView } from 'obsidian';
 import { LoggingUtility } from '../utils/LoggingUtility';
+import { ChunkingUtility } from '../utils/ChunkingUtility';
+import { CanvasUtility } from '../utils/CanvasUtility';
+import { PrivacyUtility } from '../utils/PrivacyUtility';
 import { RAGService, RAGSearchResult } from './RAGService';
+import { MetadataFilter, FileFilterMetadata, isMetadataFilterEmpty, fileMatchesMetadataFilter, getFolderOfPath } from '../db/MetadataFilter';
 
 export interface SearchResult {
 	file: TFile;
@@ -8,12 +12,17 @@ export interface SearchResult {
 	relevance: number;
 	title: string;
 	path: string;
+	paragraphIndex?: number;
+	headingPath?: string[]; // section the chunk came from (RAG results only)
+	pageNumber?: number; // PDF page the chunk came from (RAG results only)
+	originPath?: string; // note an embedded chunk was inlined from (RAG results only)
 }
 
 export interface SearchOptions {
 	maxResults?: number;
 	maxTokens?: number;
 	threshold?: number;
+	filter?: MetadataFilter; // restrict results to notes matching these folders, tags, dates and frontmatter
 }
 
 export class SearchService {
@@ -45,7 +54,8 @@ export class SearchService {
 				const ragResults = await this.ragService.search(
 					query,
 					options.maxResults || 5,
-					options.threshold || 0.3
+					options.threshold || 0.3,
+					options.filter
 				);
 
 				// Convert RAG results to SearchResult format
@@ -54,11 +64,15 @@ export class SearchService {
 					content: result.content,
 					relevance: result.similarity,
 					title: result.title,
-					path: result.path
+					path: result.path,
+					paragraphIndex: result.paragraphIndex,
+					headingPath: result.headingPath,
+					pageNumber: result.pageNumber,
+					originPath: result.originPath
 				}));
 
 				LoggingUtility.log(`RAG search completed. Found ${searchResults.length} relevant notes.`);
-				return searchResults;
+				return this.removePrivateResults(searchResults);
 			} catch (error) {
 				LoggingUtility.warn('RAG search failed, falling back to keyword search:', error);
 			}
@@ -66,7 +80,27 @@ export class SearchService {
 
 		// Fallback to keyword search if RAG is unavailable
 		LoggingUtility.log('Using keyword search fallback');
-		return await this.keywordSearchVault(query, options);
+		return this.removePrivateResults(await this.keywordSearchVault(query, options));
+	}
+
+	/**
+	 * Drop results from notes whose `private-ai` property or tags forbid sending them to the model, including
+	 * text embedded from such a note. Checked against the current metadata, so a note marked private is kept out
+	 * even before it leaves the index.
+	 */
+	private removePrivateResults(results: SearchResult[], openPaths: Set<string> = new Set(this.getOpenNoteFiles().map(file => file.path))): SearchResult[] {
+		const canSend = (file: TFile) => PrivacyUtility.canSend(
+			PrivacyUtility.getNotePrivacy(this.app.metadataCache.getFileCache(file)),
+			openPaths.has(file.path)
+		);
+		const allowed = results.filter(result => {
+			const origin = result.originPath ? this.app.vault.getAbstractFileByPath(result.originPath) : null;
+			return canSend(result.file) && (!(origin instanceof TFile) || canSend(origin));
+		});
+		if (allowed.length < results.length) {
+			LoggingUtility.log(`Left out ${results.length - allowed.length} results from private notes`);
+		}
+		return allowed;
 	}
 
 	/**
@@ -79,6 +113,10 @@ export class SearchService {
 		const results: SearchResult[] = [];
 
 		for (const file of files) {
+			if (options.filter && !isMetadataFilterEmpty(options.filter) && !this.fileMatchesFilter(file, options.filter)) {
+				continue;
+			}
+
 			try {
 				const result = await this.searchFile(file, query, options);
 				if (result && result.relevance >= (options.threshold || 0.1)) {
@@ -98,6 +136,27 @@ export class SearchService {
 		return finalResults;
 	}
 
+	/**
+	 * Check a note against a metadata filter using the metadata cache (keyword fallback only)
+	 */
+	private fileMatchesFilter(file: TFile, filter: MetadataFilter): boolean {
+		const metadata = this.app.metadataCache.getFileCache(file);
+		const frontmatter: Record<string, string[]> = {};
+		for (const key of Object.keys(filter.frontmatter || {})) {
+			const value = metadata?.frontmatter?.[key];
+			if (value !== undefined && value !== null) {
+				frontmatter[key] = (Array.isArray(value) ? value : [value]).map(item => String(item));
+			}
+		}
+
+		const fileMetadata: FileFilterMetadata = {
+			folder: getFolderOfPath(file.path),
+			tags: metadata ? (getAllTags(metadata) || []) : [],
+			frontmatter
+		};
+		return fileMatchesMetadataFilter(filter, file.path, fileMetadata, file.stat.mtime);
+	}
+
 	/**
 	 * Search a single file for relevance to the query
 	 */
@@ -271,7 +330,8 @@ export class SearchService {
 	}
 
 	/**
-	 * Format search results for inclusion in LLM context
+	 * Format search results for inclusion in LLM context.
+	 * Each result is numbered so the model can cite it as [1], [2], ...
 	 */
 	formatSearchResults(results: SearchResult[]): string {
 		if (results.length === 0) {
@@ -280,27 +340,32 @@ export class SearchService {
 
 		let context = '\n\n--- RELEVANT OBSIDIAN NOTES ---\n\n';
 		
-		for (const result of results) {
-			context += `**${result.title}** (${result.path})\n`;
+		results.forEach((result, index) => {
+			context += `[${index + 1}] **${result.title}** (${result.path}`;
+			if (result.pageNumber !== undefined) {
+				context += `, page ${result.pageNumber}`;
+			} else if (result.headingPath && result.headingPath.length > 0) {
+				context += `, section ${ChunkingUtility.formatHeadingPath(result.headingPath)}`;
+			} else if (result.paragraphIndex !== undefined) {
+				context += `, paragraph ${result.paragraphIndex + 1}`;
+			}
+			context += `)\n`;
 			context += `Relevance: ${(result.relevance * 100).toFixed(1)}%\n\n`;
 			context += result.content + '\n\n';
 			context += '---\n\n';
-		}
+		});
 
 		return context;
 	}
 
 	/**
-	 * Get all open markdown notes as context
+	 * Notes and canvases open in a tab
 	 */
-	async getCurrentNoteContext(): Promise<SearchResult[]> {
-		try {
-			// Get all open leaves
-			const leaves = this.app.workspace.getLeavesOfType('markdown');
-			const openMarkdownFiles: TFile[] = [];
+	private getOpenNoteFiles(): TFile[] {
+		const openMarkdownFiles: TFile[] = [];
 
-					// Collect all open markdown files
-		for (const leaf of leaves) {
+		// Collect all open markdown files
+		for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
 			if (leaf.view instanceof MarkdownView) {
 				const file = leaf.view.file;
 				if (file && file.extension === 'md') {
@@ -309,7 +374,7 @@ export class SearchService {
 			}
 		}
 
-					// Also check the active view in case it's not in the markdown leaves
+		// Also check the active view in case it's not in the markdown leaves
 		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
 		if (activeView) {
 			const activeFile = activeView.file;
@@ -318,6 +383,24 @@ export class SearchService {
 			}
 		}
 
+		// Canvases are not MarkdownViews; their text is rendered from the canvas JSON
+		for (const leaf of this.app.workspace.getLeavesOfType('canvas')) {
+			const file: TFile | null = (leaf.view as any).file;
+			if (file && CanvasUtility.isCanvasFile(file) && !openMarkdownFiles.some(f => f.path === file.path)) {
+				openMarkdownFiles.push(file);
+			}
+		}
+
+		return openMarkdownFiles;
+	}
+
+	/**
+	 * Get all open markdown notes as context
+	 */
+	async getCurrentNoteContext(): Promise<SearchResult[]> {
+		try {
+			const openMarkdownFiles = this.getOpenNoteFiles();
+
 			if (openMarkdownFiles.length === 0) {
 				LoggingUtility.log('No open markdown files found');
 				return [];
@@ -329,7 +412,8 @@ export class SearchService {
 			const results: SearchResult[] = [];
 			for (const file of openMarkdownFiles) {
 				try {
-					const content = await this.app.vault.cachedRead(file);
+					const rawContent = await this.app.vault.cachedRead(file);
+					const content = CanvasUtility.isCanvasFile(file) ? CanvasUtility.toMarkdown(rawContent) : rawContent;
 					const metadata = this.app.metadataCache.getFileCache(file);
 					
 					results.push({
@@ -344,7 +428,7 @@ export class SearchService {
 				}
 			}
 
-			return results;
+			return this.removePrivateResults(results, new Set(openMarkdownFiles.map(file => file.path)));
 
 		} catch (error) {
 			LoggingUtility.error('Error getting current note context:', error);
@@ -406,7 +490,7 @@ export class SearchService {
 				}
 			}
 
-			return results;
+			return this.removePrivateResults(results);
 
 		} catch (error) {
 			LoggingUtility.error('Error getting recent notes context:', error);
@@ -1,10 +1,16 @@
 import { Plugin } from 'obsidian';
 import { LoggingUtility } from '../utils/LoggingUtility';
 import { ContextMode } from '../main';
+import { LLMProviderType } from './providers/LLMProvider';
+import { ModelProfile } from './ModelProfiles';
 
 export interface LocalLLMSettings {
+	// Server API used for chat, embeddings and model lists
+	llmProvider: LLMProviderType;
 	apiEndpoint: string;
 	maxTokens: number;
+	// Context size of the model, used to budget prompts when the server does not report it
+	contextWindow: number;
 	temperature: number;
 	// System prompt setting
 	systemPrompt: string;
@@ -12,6 +18,8 @@ export interface LocalLLMSettings {
 	model?: string;
 	// API key (optional) - if specified, used as a Bearer token (works with LM Studio)
 	apiKey?: string;
+	// Named alternatives to the settings above, selectable per chat
+	modelProfiles: ModelProfile[];
 	// Search settings
 	searchMaxResults: number;
 	searchContextPercentage: number;
@@ -21,17 +29,35 @@ export interface LocalLLMSettings {
 	// Developer logging setting
 	enableDeveloperLogging: boolean;
 	enableImageTextExtraction: boolean;
+	// PDF attachments: local text layer extraction, with optional vision model reading of scanned pages
+	enablePdfIndexing: boolean;
+	pdfOcrFallback: boolean;
+	// Inline ![[embeds]] into the notes that embed them, up to this many levels deep
+	resolveEmbeds: boolean;
+	embedResolutionDepth: number;
 	excludedFolders: string[];
 	excludedFilePatterns: string[];
+	excludedFiles: string[];
+	indexedFrontmatterKeys: string[];
 	// RAG settings
 	enableRAG: boolean;
 	ragThreshold: number;
 	ragMaxResults: number;
+	// Hybrid retrieval: BM25 keyword ranking fused with vector ranking
+	hybridSearchEnabled: boolean;
+	hybridVectorWeight: number;
+	hybridKeywordWeight: number;
 	// Embedding settings
 	embeddingEndpoint: string;
 	embeddingModel: string;
+	// Rebuild without asking when the index was built with another embedding model
+	autoRebuildOnModelChange: boolean;
+	// Size limit (MB) of the embedding cache reused across rebuilds; 0 disables it
+	embeddingCacheSizeMB: number;
 	// Context notes visibility setting
 	contextNotesVisible: boolean;
+	// Vault folder for conversations saved as notes
+	chatExportFolder: string;
 	// Review prompt tracking
 	usageTimeMs: number;
 	lastUsageStartTimestamp: number | null;
@@ -40,8 +66,11 @@ export interface LocalLLMSettings {
 }
 
 export const DEFAULT_SETTINGS: LocalLLMSettings = {
+	llmProvider: 'openai-compatible',
+	modelProfiles: [],
 	apiEndpoint: 'http://localhost:1234/v1/chat/completions',
 	maxTokens: 10000,
+	contextWindow: 16384,
 	temperature: 0.7,
 	// Default system prompt
 	systemPrompt: '',
@@ -57,14 +86,26 @@ export const DEFAULT_SETTINGS: LocalLLMSettings = {
 	enableRAG: true,
 	ragThreshold: 0.5,
 	ragMaxResults: 5,
+	hybridSearchEnabled: true,
+	hybridVectorWeight: 1,
+	hybridKeywordWeight: 1,
 	// Embedding defaults
 	embeddingEndpoint: 'http://localhost:1234/v1/embeddings',
 	embeddingModel: 'text-embedding-nomic-embed-text-v1.5',
+	autoRebuildOnModelChange: false,
+	embeddingCacheSizeMB: 64,
 	// Default context notes visibility
 	contextNotesVisible: false,
+	chatExportFolder: 'Private AI chats',
 	enableImageTextExtraction: true,
+	enablePdfIndexing: true,
+	pdfOcrFallback: false,
+	resolveEmbeds: false,
+	embedResolutionDepth: 2,
 	excludedFolders: [],
 	excludedFilePatterns: [],
+	excludedFiles: [],
+	indexedFrontmatterKeys: ['type', 'status'],
 	// Review prompt defaults
 	usageTimeMs: 0,
 	lastUsageStartTimestamp: null,
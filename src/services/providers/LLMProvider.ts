@@ -0,0 +1,137 @@
+import type { ChatMessage, StreamCallback } from '../LLMService';
+
+export type LLMProviderType = 'openai-compatible' | 'ollama' | 'llamacpp';
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderType, string> = {
+	'openai-compatible': 'OpenAI-compatible (LM Studio, vLLM, LocalAI)',
+	'ollama': 'Ollama',
+	'llamacpp': 'llama.cpp server'
+};
+
+export interface ProviderConfig {
+	endpoint: string; // URL configured in settings (chat or embedding endpoint)
+	apiKey?: string;
+}
+
+export interface ProviderChatRequest {
+	messages: ChatMessage[];
+	model?: string;
+	maxTokens?: number;
+	temperature?: number;
+}
+
+export interface ProviderModel {
+	id: string;
+	type?: 'llm' | 'embedding';
+}
+
+/**
+ * One local LLM server API. Chat, embeddings and model listing all go through the provider chosen in settings.
+ */
+export interface LLMProvider {
+	readonly type: LLMProviderType;
+	/** Server name used in troubleshooting messages */
+	readonly serverName: string;
+
+	/** Complete a chat and return the assistant text */
+	chat(request: ProviderChatRequest): Promise<string>;
+	/** Stream a chat; the callback receives text deltas and exactly one completion signal */
+	chatStream(request: ProviderChatRequest, callback: StreamCallback, abortSignal?: AbortSignal): Promise<void>;
+	/** Embed one text or a batch, returning vectors in input order */
+	embed(input: string | string[], model?: string): Promise<number[][]>;
+	listModels(): Promise<ProviderModel[]>;
+	/** Exact prompt token counts from the server tokenizer, for servers that expose one */
+	countTokens?(texts: string[]): Promise<number[]>;
+	/** Context size the loaded model runs with, for servers that report it */
+	getContextWindow?(): Promise<number | null>;
+}
+
+export function buildProviderHeaders(apiKey?: string): Record<string, string> {
+	const headers: Record<string, string> = {
+		'Content-Type': 'application/json',
+	};
+
+	if (apiKey && apiKey.trim().length > 0) {
+		headers.Authorization = `Bearer ${apiKey.trim()}`;
+	}
+
+	return headers;
+}
+
+/**
+ * POST with native fetch, since Obsidian's requestUrl cannot stream response bodies
+ */
+export async function postForStream(url: string, headers: Record<string, string>, body: unknown, abortSignal?: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+	if (!window || !window.fetch) {
+		throw new Error('Streaming is not supported in this environment');
+	}
+
+	const response = await fetch(url, {
+		method: 'POST',
+		headers,
+		body: JSON.stringify(body),
+		signal: abortSignal || AbortSignal.timeout(60000), // 60 second timeout for streaming
+	});
+
+	if (!response.ok) {
+		const errorText = await response.text();
+		throw new Error(`Streaming API request failed: ${response.status} ${response.statusText} - ${errorText}`);
+	}
+
+	if (!response.body) {
+		throw new Error('No response body for streaming request');
+	}
+
+	return response.body;
+}
+
+/**
+ * Feed each complete line of a streamed body to onLine; stops early when onLine returns true
+ */
+export async function readStreamLines(body: ReadableStream<Uint8Array>, onLine: (line: string) => boolean | void): Promise<void> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) {
+				buffer += decoder.decode();
+				if (buffer.trim()) {
+					onLine(buffer);
+				}
+				return;
+			}
+
+			buffer += decoder.decode(value, { stream: true });
+			const lines = buffer.split('\n');
+			buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+			for (const line of lines) {
+				if (line.trim() && onLine(line) === true) {
+					return;
+				}
+			}
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+/**
+ * Origin plus any path prefix in front of the API path (e.g. "http://host:11434" for "http://host:11434/api/chat")
+ */
+export function getServerBaseUrl(endpoint: string): string {
+	try {
+		const parsedUrl = new URL(endpoint);
+		const pathLower = parsedUrl.pathname.toLowerCase();
+		const apiIndex = [pathLower.indexOf('/api/'), pathLower.indexOf('/v1/')]
+			.filter(index => index !== -1)
+			.reduce((lowest, index) => Math.min(lowest, index), pathLower.length);
+		const basePath = parsedUrl.pathname.substring(0, apiIndex).replace(/\/+$/, '');
+		return `${parsedUrl.origin}${basePath}`;
+	} catch {
+		return endpoint.replace(/\/(api|v1)\/.*$/, '').replace(/\/+$/, '');
+	}
+}
@@ -0,0 +1,56 @@
+import { requestUrl } from 'obsidian';
+import { LLMProviderType, buildProviderHeaders, getServerBaseUrl } from './LLMProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+interface LlamaCppTokenizeResponse {
+	tokens?: unknown[];
+}
+
+interface LlamaCppPropsResponse {
+	n_ctx?: number;
+	default_generation_settings?: { n_ctx?: number };
+}
+
+/**
+ * llama.cpp's `llama-server` serves the OpenAI shapes (embeddings need the `--embeddings` flag).
+ * It has no LM Studio model API and lists its single loaded model under `/v1/models`.
+ * Its `/tokenize` and `/props` endpoints give exact token counts and the running context size.
+ */
+export class LlamaCppProvider extends OpenAICompatibleProvider {
+	readonly type: LLMProviderType = 'llamacpp';
+	readonly serverName: string = 'llama.cpp server';
+
+	async countTokens(texts: string[]): Promise<number[]> {
+		const url = `${getServerBaseUrl(this.config.endpoint)}/tokenize`;
+		return Promise.all(texts.map(async text => {
+			const response = await this.postJSON(url, { content: text, add_special: false }, 'Tokenize request failed') as LlamaCppTokenizeResponse;
+			if (!Array.isArray(response.tokens)) {
+				throw new Error('No tokens returned from llama.cpp server');
+			}
+			return response.tokens.length;
+		}));
+	}
+
+	async getContextWindow(): Promise<number | null> {
+		const response = await requestUrl({
+			url: `${getServerBaseUrl(this.config.endpoint)}/props`,
+			method: 'GET',
+			headers: buildProviderHeaders(this.config.apiKey),
+			throw: false
+		});
+		if (response.status >= 400) {
+			return null;
+		}
+
+		const props = response.json as LlamaCppPropsResponse;
+		return props.default_generation_settings?.n_ctx || props.n_ctx || null;
+	}
+
+	protected getModelListEndpoints(): string[] {
+		const baseUrl = getServerBaseUrl(this.config.endpoint);
+		return [
+			`${baseUrl}/v1/models`,
+			`${baseUrl}/models`
+		];
+	}
+}
@@ -0,0 +1,219 @@
+import { requestUrl } from 'obsidian';
+import { LoggingUtility } from '../../utils/LoggingUtility';
+import type { ChatMessage, StreamCallback } from '../LLMService';
+import {
+	LLMProvider,
+	LLMProviderType,
+	ProviderConfig,
+	ProviderChatRequest,
+	ProviderModel,
+	buildProviderHeaders,
+	postForStream,
+	readStreamLines,
+	getServerBaseUrl
+} from './LLMProvider';
+
+interface OllamaMessage {
+	role: 'user' | 'assistant' | 'system';
+	content: string;
+	images?: string[]; // base64 without the data URL prefix
+}
+
+interface OllamaChatRequest {
+	model: string;
+	messages: OllamaMessage[];
+	stream: boolean;
+	options: {
+		temperature: number;
+		num_predict: number;
+	};
+}
+
+interface OllamaChatResponse {
+	message?: { role: string; content: string };
+	done?: boolean;
+	error?: string;
+}
+
+interface OllamaEmbedResponse {
+	embeddings?: number[][];
+}
+
+interface OllamaTagsResponse {
+	models?: Array<{
+		name?: string;
+		model?: string;
+		details?: { family?: string; families?: string[] };
+	}>;
+}
+
+// Model families that only produce embeddings
+const EMBEDDING_FAMILIES = ['bert', 'nomic-bert', 'xlm-roberta'];
+
+/**
+ * Ollama's native API: `/api/chat` (NDJSON streaming), `/api/embed` and `/api/tags`.
+ * Any path on the configured endpoint is replaced, so both "http://localhost:11434" and ".../api/chat" work.
+ */
+export class OllamaProvider implements LLMProvider {
+	readonly type: LLMProviderType = 'ollama';
+	readonly serverName: string = 'Ollama';
+	private config: ProviderConfig;
+	private baseUrl: string;
+
+	constructor(config: ProviderConfig) {
+		this.config = config;
+		this.baseUrl = getServerBaseUrl(config.endpoint);
+	}
+
+	async chat(request: ProviderChatRequest): Promise<string> {
+		const response = await this.postJSON('/api/chat', await this.toChatRequest(request, false), 'API request failed') as OllamaChatResponse;
+		if (!response.message) {
+			throw new Error(`Invalid response structure from Ollama - no message. Response: ${JSON.stringify(response)}`);
+		}
+		return response.message.content ?? '';
+	}
+
+	async chatStream(request: ProviderChatRequest, callback: StreamCallback, abortSignal?: AbortSignal): Promise<void> {
+		const body = await postForStream(`${this.baseUrl}/api/chat`, buildProviderHeaders(this.config.apiKey), await this.toChatRequest(request, true), abortSignal);
+		let isCompleted = false;
+		let streamError: string | null = null;
+
+		// Every line is a complete JSON object; the last one has done: true
+		await readStreamLines(body, (line) => {
+			try {
+				const chunk: OllamaChatResponse = JSON.parse(line);
+				if (chunk.error) {
+					streamError = chunk.error;
+					return true;
+				}
+				if (chunk.message?.content) {
+					callback(chunk.message.content, false);
+				}
+				if (chunk.done) {
+					callback('', true);
+					isCompleted = true;
+					return true;
+				}
+			} catch (parseError) {
+				LoggingUtility.warn('Failed to parse streaming chunk:', line, parseError);
+			}
+		});
+
+		if (streamError) {
+			throw new Error(`Ollama error: ${streamError}`);
+		}
+		if (!isCompleted) {
+			callback('', true);
+		}
+	}
+
+	async embed(input: string | string[], model?: string): Promise<number[][]> {
+		const embedModel = model || await this.getDefaultModel('embedding');
+		const response = await this.postJSON('/api/embed', { model: embedModel, input }, 'Embedding API request failed') as OllamaEmbedResponse;
+
+		if (!response.embeddings || response.embeddings.length === 0) {
+			throw new Error('No embedding data returned from API');
+		}
+
+		return response.embeddings;
+	}
+
+	async listModels(): Promise<ProviderModel[]> {
+		const url = `${this.baseUrl}/api/tags`;
+		LoggingUtility.log('Fetching models from:', url);
+
+		const response = await requestUrl({
+			url,
+			method: 'GET',
+			headers: buildProviderHeaders(this.config.apiKey),
+			throw: false
+		});
+
+		if (response.status >= 400) {
+			throw new Error(`Failed to fetch models: ${response.status}`);
+		}
+
+		const payload = response.json as OllamaTagsResponse;
+		return (payload.models || [])
+			.map(model => {
+				const id = model?.name || model?.model || '';
+				const families = [model?.details?.family, ...(model?.details?.families || [])]
+					.filter((family): family is string => !!family)
+					.map(family => family.toLowerCase());
+				const isEmbedding = families.some(family => EMBEDDING_FAMILIES.indexOf(family) !== -1) || /embed/i.test(id);
+				return { id, type: isEmbedding ? 'embedding' as const : 'llm' as const };
+			})
+			.filter(model => model.id.trim().length > 0);
+	}
+
+	/**
+	 * Ollama requires a model name, so "server chooses" falls back to the first installed model of the right kind
+	 */
+	private async getDefaultModel(type: 'llm' | 'embedding'): Promise<string> {
+		const models = await this.listModels();
+		const model = models.find(candidate => candidate.type === type);
+		if (!model) {
+			throw new Error(`No ${type === 'embedding' ? 'embedding' : 'chat'} model is installed in Ollama`);
+		}
+		LoggingUtility.log(`No model selected, using Ollama model ${model.id}`);
+		return model.id;
+	}
+
+	private async toChatRequest(request: ProviderChatRequest, stream: boolean): Promise<OllamaChatRequest> {
+		return {
+			model: request.model || await this.getDefaultModel('llm'),
+			messages: request.messages.map(message => OllamaProvider.toOllamaMessage(message)),
+			stream,
+			options: {
+				temperature: request.temperature || 0.7,
+				num_predict: request.maxTokens || 1000
+			}
+		};
+	}
+
+	/**
+	 * Ollama takes plain text content plus a separate list of base64 images
+	 */
+	static toOllamaMessage(message: ChatMessage): OllamaMessage {
+		if (typeof message.content === 'string') {
+			return { role: message.role, content: message.content };
+		}
+
+		const text: string[] = [];
+		const images: string[] = [];
+		for (const part of message.content) {
+			if (part.type === 'text' && part.text) {
+				text.push(part.text);
+			} else if (part.type === 'image_url' && part.image_url?.url) {
+				images.push(part.image_url.url.replace(/^data:[^,]*,/, ''));
+			}
+		}
+
+		const ollamaMessage: OllamaMessage = { role: message.role, content: text.join('\n') };
+		if (images.length > 0) {
+			ollamaMessage.images = images;
+		}
+		return ollamaMessage;
+	}
+
+	private async postJSON(path: string, body: unknown, failureMessage: string): Promise<unknown> {
+		const url = `${this.baseUrl}${path}`;
+		LoggingUtility.log('Making API request to:', url);
+
+		const response = await requestUrl({
+			url,
+			method: 'POST',
+			headers: buildProviderHeaders(this.config.apiKey),
+			body: JSON.stringify(body),
+			throw: false
+		});
+
+		if (response.status >= 400) {
+			const errorText = response.text;
+			LoggingUtility.error('API Error Response:', errorText);
+			throw new Error(`${failureMessage}: ${response.status} - ${errorText}`);
+		}
+
+		return response.json;
+	}
+}
@@ -0,0 +1,264 @@
+import { requestUrl } from 'obsidian';
+import { LoggingUtility } from '../../utils/LoggingUtility';
+import type { ChatMessage, StreamCallback } from '../LLMService';
+import {
+	LLMProvider,
+	LLMProviderType,
+	ProviderConfig,
+	ProviderChatRequest,
+	ProviderModel,
+	buildProviderHeaders,
+	postForStream,
+	readStreamLines,
+	getServerBaseUrl
+} from './LLMProvider';
+
+export interface ChatRequest {
+	messages: ChatMessage[];
+	max_tokens?: number;
+	temperature?: number;
+	stream?: boolean;
+	model?: string;
+}
+
+export interface ChatResponse {
+	choices: Array<{
+		message: {
+			content: string;
+			role: string;
+		};
+		finish_reason: string;
+	}>;
+	usage?: {
+		prompt_tokens: number;
+		completion_tokens: number;
+		total_tokens: number;
+	};
+}
+
+export interface StreamChunk {
+	choices: Array<{
+		delta: {
+			content?: string;
+			role?: string;
+		};
+		finish_reason?: string;
+	}>;
+}
+
+interface EmbeddingResponse {
+	data: Array<{
+		embedding: number[];
+		index: number;
+	}>;
+	model: string;
+	usage: {
+		prompt_tokens: number;
+		total_tokens: number;
+	};
+}
+
+export interface ModelData {
+	id: string;
+	object: string;
+	created?: number;
+	owned_by?: string;
+}
+
+export interface ModelsResponse {
+	data: ModelData[];
+	object: string;
+}
+
+export interface LMStudioRestModel {
+	type?: 'llm' | 'embedding';
+	key?: string;
+	id?: string;
+	display_name?: string;
+}
+
+export interface LMStudioRestModelsResponse {
+	models: LMStudioRestModel[];
+}
+
+/**
+ * Servers speaking the OpenAI `/v1/chat/completions` and `/v1/embeddings` shapes (LM Studio, vLLM, LocalAI, ...).
+ * The configured endpoint is used as-is; model lists come from `/v1/models` or LM Studio's `/api/v1/models`.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+	readonly type: LLMProviderType = 'openai-compatible';
+	readonly serverName: string = 'LM Studio';
+	protected config: ProviderConfig;
+
+	constructor(config: ProviderConfig) {
+		this.config = config;
+	}
+
+	async chat(request: ProviderChatRequest): Promise<string> {
+		const response = await this.postJSON(this.config.endpoint, this.toChatRequest(request, false), 'API request failed') as ChatResponse;
+		LoggingUtility.log('Response data:', response);
+
+		if (!response.choices || response.choices.length === 0) {
+			throw new Error(`Invalid response structure from API - no choices array. Response: ${JSON.stringify(response)}`);
+		}
+
+		const firstChoice = response.choices[0];
+		if (!firstChoice.message) {
+			throw new Error(`Invalid response structure from API - no message in choice. Choice: ${JSON.stringify(firstChoice)}`);
+		}
+
+		return firstChoice.message.content ?? '';
+	}
+
+	async chatStream(request: ProviderChatRequest, callback: StreamCallback, abortSignal?: AbortSignal): Promise<void> {
+		const body = await postForStream(this.config.endpoint, buildProviderHeaders(this.config.apiKey), this.toChatRequest(request, true), abortSignal);
+		let isCompleted = false; // Flag to prevent multiple completion signals
+
+		await readStreamLines(body, (line) => {
+			if (!line.startsWith('data: ')) {
+				return;
+			}
+
+			const data = line.slice(6); // Remove 'data: ' prefix
+			if (data.trim() === '[DONE]') {
+				return true;
+			}
+
+			try {
+				const chunk: StreamChunk = JSON.parse(data);
+				for (const choice of chunk.choices || []) {
+					if (choice.delta?.content && !isCompleted) {
+						callback(choice.delta.content, false);
+					}
+					if (choice.finish_reason && !isCompleted) {
+						callback('', true);
+						isCompleted = true;
+					}
+				}
+			} catch (parseError) {
+				LoggingUtility.warn('Failed to parse streaming chunk:', data, parseError);
+			}
+		});
+
+		if (!isCompleted) {
+			callback('', true); // Signal completion
+		}
+	}
+
+	async embed(input: string | string[], model?: string): Promise<number[][]> {
+		const responseData = await this.postJSON(this.config.endpoint, { input, model }, 'Embedding API request failed') as EmbeddingResponse;
+
+		if (!responseData.data || responseData.data.length === 0) {
+			throw new Error('No embedding data returned from API');
+		}
+
+		// Sort by index to ensure correct order
+		return responseData.data
+			.sort((a, b) => a.index - b.index)
+			.map(item => item.embedding);
+	}
+
+	async listModels(): Promise<ProviderModel[]> {
+		const headers = buildProviderHeaders(this.config.apiKey);
+
+		for (const endpoint of this.getModelListEndpoints()) {
+			try {
+				LoggingUtility.log('Fetching models from:', endpoint);
+				const response = await requestUrl({
+					url: endpoint,
+					method: 'GET',
+					headers
+				});
+
+				if (response.status >= 400) {
+					throw new Error(`Failed to fetch models: ${response.status}`);
+				}
+
+				const parsed = this.parseModelsResponse(response.json);
+				if (parsed.length > 0) {
+					return parsed;
+				}
+			} catch (error) {
+				LoggingUtility.warn(`Failed to fetch models from ${endpoint}:`, error);
+			}
+		}
+
+		throw new Error('Failed to fetch models from all known model endpoints');
+	}
+
+	protected getModelListEndpoints(): string[] {
+		const baseUrl = getServerBaseUrl(this.config.endpoint);
+		return [
+			`${baseUrl}/api/v1/models`,
+			`${baseUrl}/v1/models`
+		];
+	}
+
+	protected toChatRequest(request: ProviderChatRequest, stream: boolean): ChatRequest {
+		const chatRequest: ChatRequest = {
+			messages: request.messages,
+			max_tokens: request.maxTokens || 1000,
+			temperature: request.temperature || 0.7,
+			stream
+		};
+
+		// Add model to request if specified
+		if (request.model) {
+			chatRequest.model = request.model;
+		}
+
+		return chatRequest;
+	}
+
+	protected async postJSON(url: string, body: unknown, failureMessage: string): Promise<unknown> {
+		LoggingUtility.log('Making API request to:', url);
+
+		const response = await requestUrl({
+			url,
+			method: 'POST',
+			headers: buildProviderHeaders(this.config.apiKey),
+			body: JSON.stringify(body),
+			throw: false
+		});
+
+		LoggingUtility.log('Response status:', response.status);
+
+		if (response.status >= 400) {
+			const errorText = response.text;
+			LoggingUtility.error('API Error Response:', errorText);
+			throw new Error(`${failureMessage}: ${response.status} - ${errorText}`);
+		}
+
+		return response.json;
+	}
+
+	private parseModelsResponse(payload: unknown): ProviderModel[] {
+		const modelMap = new Map<string, ProviderModel>();
+		const dataPayload = payload as Partial<ModelsResponse>;
+		const lmStudioPayload = payload as Partial<LMStudioRestModelsResponse>;
+
+		if (Array.isArray(dataPayload.data)) {
+			dataPayload.data
+				.map(model => model?.id)
+				.filter((id): id is string => typeof id === 'string' && id.trim().length > 0)
+				.forEach(id => {
+					modelMap.set(id, { id });
+				});
+		}
+
+		if (Array.isArray(lmStudioPayload.models)) {
+			lmStudioPayload.models
+				.map(model => ({
+					id: model?.key || model?.id || model?.display_name || '',
+					type: model?.type
+				}))
+				.forEach(model => {
+					if (typeof model.id === 'string' && model.id.trim().length > 0) {
+						modelMap.set(model.id, model);
+					}
+				});
+		}
+
+		return Array.from(modelMap.values());
+	}
+}
@@ -0,0 +1,18 @@
+import { LLMProvider, LLMProviderType, ProviderConfig } from './LLMProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { OllamaProvider } from './OllamaProvider';
+import { LlamaCppProvider } from './LlamaCppProvider';
+
+/**
+ * Create the provider for the server type chosen in settings (OpenAI-compatible when unset)
+ */
+export function createLLMProvider(type: LLMProviderType | undefined, config: ProviderConfig): LLMProvider {
+	switch (type) {
+		case 'ollama':
+			return new OllamaProvider(config);
+		case 'llamacpp':
+			return new LlamaCppProvider(config);
+		default:
+			return new OpenAICompatibleProvider(config);
+	}
+}
@@ -2,3 +2,9 @@ declare module '*.wasm' {
     const content: Uint8Array;
     export default content;
 }
+
+// Bundled source of a worker entry point, inlined by the inline-worker plugin in esbuild.config.mjs
+declare module 'inline-worker:*' {
+    const code: string;
+    export default code;
+}
@@ -0,0 +1,203 @@
+export interface CanvasNode {
+	id: string;
+	type: 'text' | 'file' | 'link' | 'group';
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	text?: string; // text cards
+	file?: string; // file cards: vault path of the referenced file
+	subpath?: string; // file cards: heading or block, e.g. "#Goals"
+	url?: string; // link cards
+	label?: string; // groups
+}
+
+export interface CanvasEdge {
+	id: string;
+	fromNode: string;
+	toNode: string;
+	label?: string;
+}
+
+export interface CanvasData {
+	nodes: CanvasNode[];
+	edges: CanvasEdge[];
+}
+
+const MAX_HEADING_LEVEL = 6;
+const MAX_EDGE_ENDPOINT_LENGTH = 60;
+
+export class CanvasUtility {
+	static isCanvasFile(file: { extension: string }): boolean {
+		return file.extension.toLowerCase() === 'canvas';
+	}
+
+	/**
+	 * Parse a .canvas file (JSON Canvas); malformed files give an empty canvas
+	 */
+	static parse(content: string): CanvasData {
+		let data: any;
+		try {
+			data = JSON.parse(content);
+		} catch {
+			return { nodes: [], edges: [] };
+		}
+		if (!data || typeof data !== 'object') {
+			return { nodes: [], edges: [] };
+		}
+
+		const nodes = Array.isArray(data.nodes)
+			? data.nodes.filter((node: any) => node && typeof node.id === 'string' && typeof node.type === 'string')
+			: [];
+		const edges = Array.isArray(data.edges)
+			? data.edges.filter((edge: any) => edge && typeof edge.fromNode === 'string' && typeof edge.toNode === 'string')
+			: [];
+		return { nodes, edges };
+	}
+
+	/**
+	 * Vault paths of the files placed on the canvas, in reading order
+	 */
+	static getReferencedFiles(canvas: CanvasData): string[] {
+		const files: string[] = [];
+		for (const node of CanvasUtility.sortByPosition(canvas.nodes)) {
+			if (node.type === 'file' && node.file && files.indexOf(node.file) === -1) {
+				files.push(node.file);
+			}
+		}
+		return files;
+	}
+
+	/**
+	 * Render a canvas as Markdown for chunking and chat context: groups become headings over the
+	 * cards inside them, file cards become links and edges are listed under "Connections"
+	 */
+	static toMarkdown(content: string): string {
+		const canvas = CanvasUtility.parse(content);
+		const nodes = CanvasUtility.sortByPosition(canvas.nodes);
+		const parents = new Map<string, string | null>();
+		for (const node of nodes) {
+			parents.set(node.id, CanvasUtility.findParentGroup(node, nodes));
+		}
+
+		const sections: string[] = [];
+		const renderChildren = (parentId: string | null, level: number) => {
+			for (const node of nodes) {
+				if (parents.get(node.id) !== parentId) {
+					continue;
+				}
+				if (node.type === 'group') {
+					const heading = '#'.repeat(Math.min(level, MAX_HEADING_LEVEL));
+					sections.push(`${heading} ${CanvasUtility.getGroupLabel(node)}`);
+					renderChildren(node.id, level + 1);
+					continue;
+				}
+				const card = CanvasUtility.renderCard(node);
+				if (card) {
+					sections.push(card);
+				}
+			}
+		};
+		renderChildren(null, 1);
+
+		const nodesById = new Map<string, CanvasNode>();
+		nodes.forEach(node => nodesById.set(node.id, node));
+		const connections: string[] = [];
+		for (const edge of canvas.edges) {
+			const from = nodesById.get(edge.fromNode);
+			const to = nodesById.get(edge.toNode);
+			if (!from || !to) {
+				continue;
+			}
+			const label = edge.label && edge.label.trim();
+			connections.push(label
+				? `- ${CanvasUtility.describeNode(from)} → ${label} → ${CanvasUtility.describeNode(to)}`
+				: `- ${CanvasUtility.describeNode(from)} → ${CanvasUtility.describeNode(to)}`);
+		}
+		if (connections.length > 0) {
+			sections.push('# Connections');
+			sections.push(connections.join('\n'));
+		}
+
+		return sections.join('\n\n');
+	}
+
+	private static renderCard(node: CanvasNode): string {
+		switch (node.type) {
+			case 'text':
+				// Headings inside a card would otherwise end the group it sits in
+				return (node.text || '').trim().replace(/^#{1,6}\s+(.+?)\s*#*\s*$/gm, '**$1**');
+			case 'file':
+				return node.file ? CanvasUtility.fileLink(node) : '';
+			case 'link':
+				return node.url || '';
+			default:
+				return '';
+		}
+	}
+
+	/**
+	 * Short name of a node for the connections list
+	 */
+	private static describeNode(node: CanvasNode): string {
+		switch (node.type) {
+			case 'group':
+				return CanvasUtility.getGroupLabel(node);
+			case 'file':
+				return node.file ? CanvasUtility.fileLink(node) : 'file';
+			case 'link':
+				return node.url || 'link';
+			default: {
+				const firstLine = (node.text || '').trim().split('\n')[0].replace(/^#{1,6}\s+/, '');
+				return firstLine.length > MAX_EDGE_ENDPOINT_LENGTH
+					? firstLine.substring(0, MAX_EDGE_ENDPOINT_LENGTH - 1) + '…'
+					: firstLine || 'card';
+			}
+		}
+	}
+
+	private static fileLink(node: CanvasNode): string {
+		return `[[${node.file}${node.subpath || ''}]]`;
+	}
+
+	private static getGroupLabel(node: CanvasNode): string {
+		return (node.label && node.label.trim()) || 'Untitled group';
+	}
+
+	/**
+	 * Smallest group that fully contains the node, or null for top-level nodes
+	 */
+	private static findParentGroup(node: CanvasNode, nodes: CanvasNode[]): string | null {
+		let parent: CanvasNode | null = null;
+		for (const group of nodes) {
+			if (group.type !== 'group' || group.id === node.id || !CanvasUtility.contains(group, node)) {
+				continue;
+			}
+			// Equal-sized groups nest in file order so neither becomes the other's parent twice
+			if (node.type === 'group' && CanvasUtility.area(group) === CanvasUtility.area(node) && nodes.indexOf(group) > nodes.indexOf(node)) {
+				continue;
+			}
+			if (!parent || CanvasUtility.area(group) < CanvasUtility.area(parent)) {
+				parent = group;
+			}
+		}
+		return parent ? parent.id : null;
+	}
+
+	private static contains(outer: CanvasNode, inner: CanvasNode): boolean {
+		return inner.x >= outer.x && inner.y >= outer.y &&
+			inner.x + inner.width <= outer.x + outer.width &&
+			inner.y + inner.height <= outer.y + outer.height;
+	}
+
+	private static area(node: CanvasNode): number {
+		return node.width * node.height;
+	}
+
+	/**
+	 * Top to bottom, then left to right
+	 */
+	private static sortByPosition(nodes: CanvasNode[]): CanvasNode[] {
+		return nodes.slice().sort((a, b) => (a.y - b.y) || (a.x - b.x));
+	}
+}
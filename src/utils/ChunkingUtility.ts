@@ -0,0 +1,286 @@
+import * as CRC32 from 'crc-32';
+
+export interface MarkdownChunk {
+	text: string;
+	index: number;
+	headingPath: string[]; // enclosing headings from outermost to innermost
+	origin?: string; // note the text was embedded from, when it is not the chunked note itself
+}
+
+/**
+ * Part of a note after its embeds are resolved. Depth 0 is the note itself and depth N is text embedded
+ * N levels deep; every embed is followed by a segment of the enclosing depth, which may be empty.
+ */
+export interface MarkdownSegment {
+	text: string;
+	depth: number;
+	origin?: string;
+}
+
+/**
+ * A note's chunks together with what indexing derives from them, computed in one pass
+ */
+export interface PreparedChunks {
+	chunks: MarkdownChunk[];
+	embeddingTexts: string[];
+	contentHashes: string[];
+	chunkIds: string[];
+}
+
+interface MarkdownBlock {
+	text: string;
+	wordCount: number;
+	atomic: boolean; // code blocks and tables are never split
+	headingPath: string[];
+	origin?: string;
+}
+
+// Bump when chunk boundaries or embedded text change, so existing indexes are rebuilt
+export const CHUNKER_VERSION = 2;
+
+const TARGET_WORDS = 200;
+const MAX_WORDS = 250; // Force break at this point
+const MIN_WORDS = 10; // Chunks shorter than this (breadcrumb included) are not worth embedding
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const TABLE_ROW_PATTERN = /^\s*\|/;
+
+function countWords(text: string): number {
+	return text.split(/\s+/).filter(word => word.length > 0).length;
+}
+
+export class ChunkingUtility {
+	/**
+	 * Split Markdown into chunks of about 200 words that never cross a heading and keep
+	 * code blocks, tables and list formatting intact. Embedded text keeps its own chunks, nested under the
+	 * headings around the embed, and records the note it came from.
+	 */
+	static splitMarkdown(content: string | MarkdownSegment[]): MarkdownChunk[] {
+		const segments = typeof content === 'string' ? [{ text: content, depth: 0 }] : content;
+		const blocks = ChunkingUtility.parseBlocks(segments.map((segment, index) =>
+			index === 0 && segment.depth === 0 ? { ...segment, text: ChunkingUtility.stripFrontmatter(segment.text) } : segment
+		));
+		const chunks: MarkdownChunk[] = [];
+		let current: MarkdownBlock[] = [];
+		let currentWords = 0;
+
+		const flush = () => {
+			if (current.length === 0) {
+				return;
+			}
+			const { headingPath, origin } = current[0];
+			const text = current.map(block => block.text).join('\n\n');
+			if (currentWords + countWords(headingPath.join(' ')) >= MIN_WORDS) {
+				chunks.push(origin ? { text, index: chunks.length, headingPath, origin } : { text, index: chunks.length, headingPath });
+			}
+			current = [];
+			currentWords = 0;
+		};
+
+		for (const block of blocks) {
+			const sameSection = current.length > 0 && current[0].origin === block.origin &&
+				ChunkingUtility.isSamePath(current[0].headingPath, block.headingPath);
+			if (!sameSection || currentWords + block.wordCount > TARGET_WORDS) {
+				flush();
+			}
+
+			if (block.wordCount > MAX_WORDS && !block.atomic) {
+				for (const piece of ChunkingUtility.splitLongText(block.text, MAX_WORDS)) {
+					current = [{ ...block, text: piece, wordCount: countWords(piece) }];
+					currentWords = current[0].wordCount;
+					flush();
+				}
+				continue;
+			}
+
+			current.push(block);
+			currentWords += block.wordCount;
+		}
+		flush();
+
+		return chunks;
+	}
+
+	/**
+	 * Split a note and derive the embedding text, content hash and id of every chunk
+	 */
+	static prepareChunks(filePath: string, content: string | MarkdownSegment[]): PreparedChunks {
+		const chunks = ChunkingUtility.splitMarkdown(content);
+		const embeddingTexts = chunks.map(chunk => ChunkingUtility.getEmbeddingText(chunk));
+		const contentHashes = embeddingTexts.map(text => ChunkingUtility.getContentHash(text));
+		return { chunks, embeddingTexts, contentHashes, chunkIds: ChunkingUtility.createChunkIds(filePath, contentHashes) };
+	}
+
+	/**
+	 * Breadcrumb shown to users and prepended to embedded text, e.g. "Project X > Decisions > 2024"
+	 */
+	static formatHeadingPath(headingPath: string[] | undefined): string {
+		return (headingPath || []).join(' > ');
+	}
+
+	/**
+	 * Text sent to the embedding model: the section breadcrumb followed by the chunk
+	 */
+	static getEmbeddingText(chunk: { text: string; headingPath?: string[] }): string {
+		const breadcrumb = ChunkingUtility.formatHeadingPath(chunk.headingPath);
+		return breadcrumb ? `${breadcrumb}\n\n${chunk.text}` : chunk.text;
+	}
+
+	/**
+	 * Short hash of a chunk's embedded text; equal hashes mean the stored vector can be reused
+	 */
+	static getContentHash(text: string): string {
+		return `${(CRC32.str(text) >>> 0).toString(16)}-${text.length.toString(36)}`;
+	}
+
+	/**
+	 * Chunk ids derived from content, so an unchanged chunk keeps its id when chunks before it are added or removed.
+	 * Repeated text in the same file gets a numbered suffix.
+	 */
+	static createChunkIds(filePath: string, contentHashes: string[]): string[] {
+		const seen = new Map<string, number>();
+		return contentHashes.map(hash => {
+			const count = (seen.get(hash) || 0) + 1;
+			seen.set(hash, count);
+			return count === 1 ? `${filePath}#${hash}` : `${filePath}#${hash}~${count}`;
+		});
+	}
+
+	private static stripFrontmatter(content: string): string {
+		const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---\s*(\n|$)/);
+		return frontmatterMatch ? content.substring(frontmatterMatch[0].length) : content;
+	}
+
+	/**
+	 * Group lines into paragraphs, lists, code blocks and tables, tracking the heading each one sits under.
+	 * Headings inside embedded text only apply until the embed ends.
+	 */
+	private static parseBlocks(segments: MarkdownSegment[]): MarkdownBlock[] {
+		const blocks: MarkdownBlock[] = [];
+		const headingFrames: { level: number; text: string }[][] = [];
+
+		for (const segment of segments) {
+			while (headingFrames.length > segment.depth + 1) {
+				headingFrames.pop();
+			}
+			while (headingFrames.length < segment.depth + 1) {
+				headingFrames.push([]);
+			}
+			ChunkingUtility.parseSegmentBlocks(segment, headingFrames, blocks);
+		}
+
+		return blocks;
+	}
+
+	private static parseSegmentBlocks(segment: MarkdownSegment, headingFrames: { level: number; text: string }[][], blocks: MarkdownBlock[]): void {
+		const lines = segment.text.replace(/\r/g, '').split('\n');
+		const headings = headingFrames[headingFrames.length - 1];
+		let paragraph: string[] = [];
+
+		const headingPath = () => {
+			const path: string[] = [];
+			headingFrames.forEach(frame => frame.forEach(heading => path.push(heading.text)));
+			return path;
+		};
+		const pushBlock = (blockLines: string[], atomic: boolean) => {
+			const text = blockLines.join('\n').replace(/^\n+|\s+$/g, '');
+			if (text.trim().length > 0) {
+				blocks.push({ text, wordCount: countWords(text), atomic, headingPath: headingPath(), origin: segment.origin });
+			}
+		};
+		const endParagraph = () => {
+			pushBlock(paragraph, false);
+			paragraph = [];
+		};
+
+		for (let i = 0; i < lines.length; i++) {
+			const line = lines[i];
+
+			const fence = line.match(FENCE_PATTERN);
+			if (fence) {
+				endParagraph();
+				const codeLines = [line];
+				const closing = new RegExp(`^\\s*${fence[1][0]}{${fence[1].length},}\\s*$`);
+				while (++i < lines.length) {
+					codeLines.push(lines[i]);
+					if (closing.test(lines[i])) {
+						break;
+					}
+				}
+				pushBlock(codeLines, true);
+				continue;
+			}
+
+			const heading = line.match(HEADING_PATTERN);
+			if (heading) {
+				endParagraph();
+				const level = heading[1].length;
+				while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+					headings.pop();
+				}
+				headings.push({ level, text: heading[2] });
+				continue;
+			}
+
+			if (TABLE_ROW_PATTERN.test(line)) {
+				endParagraph();
+				const tableLines = [line];
+				while (i + 1 < lines.length && TABLE_ROW_PATTERN.test(lines[i + 1])) {
+					tableLines.push(lines[++i]);
+				}
+				pushBlock(tableLines, true);
+				continue;
+			}
+
+			if (line.trim() === '') {
+				endParagraph();
+				continue;
+			}
+
+			paragraph.push(line);
+		}
+		endParagraph();
+	}
+
+	private static isSamePath(a: string[], b: string[]): boolean {
+		return a.length === b.length && a.every((heading, index) => heading === b[index]);
+	}
+
+	/**
+	 * Split an oversized paragraph at sentence boundaries, falling back to a hard word split
+	 */
+	private static splitLongText(text: string, maxWords: number): string[] {
+		const sentences = text.match(/[^.!?]+(?:[.!?]+(?:\s+|$)|$)/g) || [text];
+		const pieces: string[] = [];
+		let currentPiece = '';
+		let currentWords = 0;
+
+		for (const sentence of sentences) {
+			const sentenceWords = countWords(sentence);
+			if (currentWords + sentenceWords > maxWords && currentPiece !== '') {
+				pieces.push(currentPiece.trim());
+				currentPiece = '';
+				currentWords = 0;
+			}
+			currentPiece += sentence;
+			currentWords += sentenceWords;
+		}
+		if (currentPiece.trim().length > 0) {
+			pieces.push(currentPiece.trim());
+		}
+
+		// Sentences longer than the limit are cut by word count
+		const finalPieces: string[] = [];
+		for (const piece of pieces) {
+			const words = piece.split(/\s+/);
+			if (words.length <= maxWords) {
+				finalPieces.push(piece);
+				continue;
+			}
+			for (let i = 0; i < words.length; i += maxWords) {
+				finalPieces.push(words.slice(i, i + maxWords).join(' '));
+			}
+		}
+		return finalPieces;
+	}
+}
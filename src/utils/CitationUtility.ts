@@ -0,0 +1,70 @@
+export type CitationSegment =
+	| { type: 'text'; text: string }
+	| { type: 'citation'; index: number };
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/;
+const MAX_EXCERPT_LENGTH = 200;
+
+export class CitationUtility {
+	/**
+	 * Split text into plain text and citation markers such as [1] or [1, 3].
+	 * Numbers outside 1..sourceCount are left as plain text.
+	 */
+	static splitCitations(text: string, sourceCount: number): CitationSegment[] {
+		const segments: CitationSegment[] = [];
+		const pattern = new RegExp(CITATION_PATTERN.source, 'g');
+		let lastIndex = 0;
+		let match: RegExpExecArray | null;
+
+		while ((match = pattern.exec(text)) !== null) {
+			const numbers = match[1].split(',').map(value => parseInt(value.trim(), 10));
+			if (numbers.some(value => value < 1 || value > sourceCount)) {
+				continue;
+			}
+
+			const matchStart = match.index;
+			if (matchStart > lastIndex) {
+				segments.push({ type: 'text', text: text.substring(lastIndex, matchStart) });
+			}
+			for (const value of numbers) {
+				segments.push({ type: 'citation', index: value });
+			}
+			lastIndex = matchStart + match[0].length;
+		}
+
+		if (lastIndex < text.length) {
+			segments.push({ type: 'text', text: text.substring(lastIndex) });
+		}
+
+		return segments;
+	}
+
+	/**
+	 * Keep the start of a chunk so the note can later be scrolled to it
+	 */
+	static createExcerpt(chunkText: string): string {
+		const firstLine = chunkText
+			.replace(/\r/g, '')
+			.split('\n')
+			.map(line => line.trim())
+			.find(line => line.length > 0) || '';
+		return firstLine.substring(0, MAX_EXCERPT_LENGTH);
+	}
+
+	/**
+	 * Zero-based line number where the excerpt starts in the note, or null when it cannot be found
+	 */
+	static findExcerptLine(noteContent: string, excerpt: string): number | null {
+		const needle = excerpt.trim();
+		if (!needle) {
+			return null;
+		}
+
+		const offset = noteContent.indexOf(needle);
+		if (offset === -1) {
+			return null;
+		}
+
+		return noteContent.substring(0, offset).split('\n').length - 1;
+	}
+}
@@ -31,7 +31,7 @@ export class LoggingUtility {
 		console.error(...args);
 	}
 
-	private static isDeveloperLoggingEnabled(): boolean {
+	static isDeveloperLoggingEnabled(): boolean {
 		if (!LoggingUtility.pluginReady) {
 			return false;
 		}
@@ -0,0 +1,70 @@
+import { CachedMetadata, getAllTags } from 'obsidian';
+
+/**
+ * How a note may be used by the AI, set per note with the `private-ai` property or a tag:
+ * - exclude: never indexed and never sent to the model
+ * - no-send: indexed, but never sent to the model
+ * - open-only: sent to the model only while the note is open in a tab
+ */
+export type NotePrivacy = 'default' | 'exclude' | 'no-send' | 'open-only';
+
+const PRIVACY_PROPERTY = 'private-ai';
+
+const PROPERTY_VALUES: Record<string, NotePrivacy> = {
+	'exclude': 'exclude',
+	'never-index': 'exclude',
+	'no-send': 'no-send',
+	'never-send': 'no-send',
+	'index-only': 'no-send',
+	'open-only': 'open-only',
+	'when-open': 'open-only'
+};
+
+const PRIVACY_TAGS: Record<string, NotePrivacy> = {
+	'#no-ai': 'exclude',
+	'#private-ai/exclude': 'exclude',
+	'#private-ai/no-send': 'no-send',
+	'#private-ai/open-only': 'open-only'
+};
+
+// Most restrictive first; a note with several markers gets the most restrictive one
+const PRIVACY_ORDER: NotePrivacy[] = ['exclude', 'no-send', 'open-only', 'default'];
+
+export class PrivacyUtility {
+	/**
+	 * The privacy of a note from its property and tags
+	 */
+	static getNotePrivacy(metadata: CachedMetadata | null): NotePrivacy {
+		if (!metadata) {
+			return 'default';
+		}
+
+		const markers: NotePrivacy[] = [];
+		const value = metadata.frontmatter?.[PRIVACY_PROPERTY];
+		for (const item of Array.isArray(value) ? value : [value]) {
+			const privacy = typeof item === 'string' ? PROPERTY_VALUES[item.trim().toLowerCase()] : undefined;
+			if (privacy) {
+				markers.push(privacy);
+			}
+		}
+		for (const tag of getAllTags(metadata) || []) {
+			const privacy = PRIVACY_TAGS[tag.toLowerCase()];
+			if (privacy) {
+				markers.push(privacy);
+			}
+		}
+
+		return PRIVACY_ORDER.find(privacy => markers.indexOf(privacy) !== -1) || 'default';
+	}
+
+	static canIndex(privacy: NotePrivacy): boolean {
+		return privacy !== 'exclude';
+	}
+
+	/**
+	 * Whether the note's content may go into a prompt; isOpen means it is open in a tab
+	 */
+	static canSend(privacy: NotePrivacy, isOpen: boolean): boolean {
+		return privacy === 'default' || (privacy === 'open-only' && isOpen);
+	}
+}
@@ -0,0 +1,139 @@
+import { MetadataFilter } from '../db/MetadataFilter';
+
+export type QueryOperatorType = 'tag' | 'path' | 'after' | 'before' | 'in';
+
+export interface QueryOperator {
+	type: QueryOperatorType;
+	value: string; // tag without "#", folder, ISO date or link text
+	raw: string; // the operator as typed, shown on its chip
+}
+
+export interface ParsedQuery {
+	query: string; // message with the operators removed
+	operators: QueryOperator[];
+}
+
+// Values are a wikilink, a quoted string or a single word
+const OPERATOR_PATTERN = /(^|\s)(tag|path|after|before|in):(\[\[[^\]]+\]\]|"[^"]+"|\S+)/i;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export class QueryOperatorUtility {
+	/**
+	 * Extract scoping operators such as tag:#project, path:Meetings/, after:2024-01-01 and in:[[Note]] from a message.
+	 * Operators with a value that cannot be used (for example an invalid date) are left in the text.
+	 */
+	static parse(text: string): ParsedQuery {
+		const operators: QueryOperator[] = [];
+		const pattern = new RegExp(OPERATOR_PATTERN.source, 'gi');
+		let query = '';
+		let lastIndex = 0;
+		let match: RegExpExecArray | null;
+
+		while ((match = pattern.exec(text)) !== null) {
+			const operator = QueryOperatorUtility.createOperator(match[2].toLowerCase() as QueryOperatorType, match[3]);
+			if (!operator) {
+				continue;
+			}
+			operators.push(operator);
+			query += text.substring(lastIndex, match.index + match[1].length);
+			lastIndex = match.index + match[0].length;
+		}
+		query += text.substring(lastIndex);
+
+		return {
+			query: query.replace(/[ \t]{2,}/g, ' ').trim(),
+			operators
+		};
+	}
+
+	/**
+	 * Start of the given YYYY-MM-DD date in local time, or null if it is not a real date
+	 */
+	static parseDate(value: string): number | null {
+		const match = DATE_PATTERN.exec(value);
+		if (!match) {
+			return null;
+		}
+		const year = parseInt(match[1], 10);
+		const month = parseInt(match[2], 10) - 1;
+		const day = parseInt(match[3], 10);
+		const date = new Date(year, month, day);
+		if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+			return null;
+		}
+		return date.getTime();
+	}
+
+	/**
+	 * Convert operators into a metadata filter. Operators of the same kind widen the match (any of them);
+	 * in:[[...]] links are resolved to file paths with the given resolver; when none of them resolve, the filter matches nothing.
+	 */
+	static toMetadataFilter(operators: QueryOperator[], resolveLink: (linkText: string) => string | null): MetadataFilter {
+		const filter: MetadataFilter = {};
+		let hasNoteLinks = false;
+
+		for (const operator of operators) {
+			switch (operator.type) {
+				case 'tag':
+					(filter.tags = filter.tags || []).push(operator.value);
+					break;
+				case 'path':
+					(filter.folders = filter.folders || []).push(operator.value);
+					break;
+				case 'after': {
+					const start = QueryOperatorUtility.parseDate(operator.value)!;
+					filter.modifiedAfter = Math.max(filter.modifiedAfter ?? start, start);
+					break;
+				}
+				case 'before': {
+					const start = QueryOperatorUtility.parseDate(operator.value)!;
+					// Exclusive of the given day, matching after: which includes it
+					filter.modifiedBefore = Math.min(filter.modifiedBefore ?? start - 1, start - 1);
+					break;
+				}
+				case 'in': {
+					hasNoteLinks = true;
+					const filePath = resolveLink(operator.value);
+					if (filePath) {
+						(filter.filePaths = filter.filePaths || []).push(filePath);
+					}
+					break;
+				}
+			}
+		}
+
+		if (hasNoteLinks && !filter.filePaths) {
+			filter.matchNone = true;
+		}
+		return filter;
+	}
+
+	private static createOperator(type: QueryOperatorType, rawValue: string): QueryOperator | null {
+		let value = rawValue.replace(/^"(.*)"$/, '$1').trim();
+
+		switch (type) {
+			case 'tag':
+				value = value.replace(/^#/, '');
+				break;
+			case 'path':
+				value = value.replace(/^\/+|\/+$/g, '');
+				break;
+			case 'after':
+			case 'before':
+				if (QueryOperatorUtility.parseDate(value) === null) {
+					return null;
+				}
+				break;
+			case 'in':
+				// [[Note|alias]] and [[Note#heading]] both point at Note
+				value = value.replace(/^\[\[(.*)\]\]$/, '$1').split('|')[0].split('#')[0].trim();
+				break;
+		}
+
+		if (!value) {
+			return null;
+		}
+
+		return { type, value, raw: `${type}:${rawValue}` };
+	}
+}
@@ -1,7 +1,16 @@
-import { ItemView, WorkspaceLeaf, MarkdownRenderer, Notice, DropdownComponent, setIcon } from 'obsidian';
+import { ItemView, WorkspaceLeaf, MarkdownRenderer, Notice, DropdownComponent, setIcon, TFile } from 'obsidian';
 import { LLMService, createLLMService, ChatMessage as LLMChatMessage, StreamCallback } from '../services/LLMService';
+import { LLMProviderType } from '../services/providers/LLMProvider';
+import { getLLMConfigForProfile, getContextWindowForProfile, findModelProfile } from '../services/ModelProfiles';
+import { planContextBudget, createTokenCounter, ContextBudgetPlan } from '../services/ContextBudgeter';
 import { SearchService, SearchResult } from '../services/SearchService';
+import { ChatHistoryService, StoredChatMessage, StoredNoteReference } from '../services/ChatHistoryService';
+import { ConversationNoteExporter } from '../services/ConversationNoteExporter';
 import { LoggingUtility } from '../utils/LoggingUtility';
+import { CitationUtility } from '../utils/CitationUtility';
+import { QueryOperatorUtility, QueryOperator } from '../utils/QueryOperatorUtility';
+import { MetadataFilter, isMetadataFilterEmpty, combineMetadataFilters } from '../db/MetadataFilter';
+import { IndexRecoveryReport, describeIndexRecovery } from '../db/IndexRecovery';
 import LocalLLMPlugin, { ContextMode } from '../main';
 
 export const CHAT_VIEW_TYPE = 'local-llm-chat-view';
@@ -12,7 +21,7 @@ interface ChatMessage {
 	content: string;
 	timestamp: Date;
 	isStreaming?: boolean;
-	usedNotes?: SearchResult[];
+	usedNotes?: StoredNoteReference[];
 	thinkingBlocks?: string[];
 }
 
@@ -42,6 +51,7 @@ interface LLMConfig {
 	systemPrompt?: string;
 	model?: string;
 	apiKey?: string;
+	llmProvider?: LLMProviderType;
 }
 
 interface ObsidianApp {
@@ -68,11 +78,27 @@ export class ChatView extends ItemView {
 	private searchIndicator: HTMLElement;
 	private ragStatusArea: HTMLElement;
 	private ragStatusContent: HTMLElement;
+	private historyPanel: HTMLElement;
+	private historySearchInput: HTMLInputElement;
+	private historyListEl: HTMLElement;
+	private filterButton: HTMLButtonElement;
+	private filterPanel: HTMLElement;
+	private filterTagsInput: HTMLInputElement;
+	private filterFolderInput: HTMLInputElement;
+	private filterModifiedSelect: HTMLSelectElement;
+	private filterFrontmatterInput: HTMLInputElement;
+	private filterChipsEl: HTMLElement;
+	private tokenBreakdownEl: HTMLElement;
+	private queryOperators: QueryOperator[] = [];
+	private currentConversationId: string | null = null;
 	private llmService: LLMService;
 	private searchService: SearchService;
 	private isStreaming: boolean = false;
 	private currentAbortController: AbortController | null = null;
 	private contextMode: ContextMode = ContextMode.OPEN_NOTES;
+	private profileId: string | null = null; // model profile for this chat (global settings when null)
+	private profileContainer: HTMLElement;
+	private profileDropdown: DropdownComponent;
 	private plugin: LocalLLMPlugin;
 	private streamingThinkingState = new Map<string, StreamingThinkingState>();
 	private thinkingViewState = new Map<string, ThinkingViewState>();
@@ -124,6 +150,37 @@ export class ChatView extends ItemView {
 			await this.startNewChat();
 		});
 
+		// Create chat history button
+		const historyButton = headerButtons.createEl('button', {
+			cls: 'local-llm-history-button',
+			attr: { 'aria-label': 'Show chat history', 'type': 'button' }
+		});
+		setIcon(historyButton, 'history');
+		historyButton.addEventListener('click', async () => {
+			await this.toggleHistoryPanel();
+		});
+
+		// Create save as note button
+		const saveNoteButton = headerButtons.createEl('button', {
+			cls: 'local-llm-save-note-button',
+			attr: { 'aria-label': 'Save chat as note', 'type': 'button' }
+		});
+		setIcon(saveNoteButton, 'file-down');
+		saveNoteButton.addEventListener('click', async () => {
+			await this.saveConversationAsNote();
+		});
+
+		// Create model profile picker (hidden until profiles are configured)
+		this.profileContainer = headerButtons.createEl('div', {
+			cls: 'local-llm-profile-container'
+		});
+		this.profileDropdown = new DropdownComponent(this.profileContainer)
+			.onChange(async (value) => {
+				await this.setProfile(value || null);
+			});
+		this.profileDropdown.selectEl.setAttribute('aria-label', 'Model profile for this chat');
+		this.updateProfilesFromSettings();
+
 		// Create context mode dropdown
 		const contextModeContainer = headerButtons.createEl('div', {
 			cls: 'local-llm-context-mode-container'
@@ -145,11 +202,22 @@ export class ChatView extends ItemView {
 				await this.plugin.saveSettings();
 				// Update RAG status display
 				this.updateRAGStatus();
+				this.updateFilterButton();
 			});
 
 		// Set initial value based on plugin settings
 		dropdown.setValue(this.contextMode);
 
+		// Create search filter button (only used by All Notes search)
+		this.filterButton = contextModeContainer.createEl('button', {
+			cls: 'local-llm-filter-button',
+			attr: { 'aria-label': 'Filter searched notes', 'type': 'button' }
+		});
+		setIcon(this.filterButton, 'filter');
+		this.filterButton.addEventListener('click', () => {
+			this.toggleFilterPanel();
+		});
+
 		// Create settings button
 		const settingsButton = headerButtons.createEl('button', {
 			cls: 'local-llm-settings-button',
@@ -169,6 +237,25 @@ export class ChatView extends ItemView {
 		// Create main chat container with flexbox layout
 		const chatContainer = container.createEl('div', { cls: 'local-llm-chat-container' });
 
+		// Create chat history panel (hidden by default)
+		this.historyPanel = chatContainer.createEl('div', {
+			cls: 'local-llm-history-panel local-llm-history-panel-hidden'
+		});
+		this.historySearchInput = this.historyPanel.createEl('input', {
+			cls: 'local-llm-history-search',
+			attr: { type: 'search', placeholder: 'Search chats...' }
+		});
+		this.historySearchInput.addEventListener('input', () => {
+			void this.renderHistoryList();
+		});
+		this.historyListEl = this.historyPanel.createEl('div', {
+			cls: 'local-llm-history-list'
+		});
+
+		// Create search filter panel (hidden by default)
+		this.createFilterPanel(chatContainer);
+		this.updateFilterButton();
+
 		// Create message container (scrollable area)
 		this.messageContainer = chatContainer.createEl('div', {
 			cls: 'local-llm-messages'
@@ -179,6 +266,16 @@ export class ChatView extends ItemView {
 			cls: 'local-llm-review-prompt local-llm-review-prompt-hidden'
 		});
 
+		// Create active query operator chips (hidden while there are none)
+		this.filterChipsEl = chatContainer.createEl('div', {
+			cls: 'local-llm-filter-chips local-llm-filter-chips-hidden'
+		});
+
+		// Create token breakdown of the last prompt (hidden until a message is sent)
+		this.tokenBreakdownEl = chatContainer.createEl('div', {
+			cls: 'local-llm-token-breakdown local-llm-token-breakdown-hidden'
+		});
+
 		// Create input container (fixed at bottom)
 		this.inputContainer = chatContainer.createEl('div', {
 			cls: 'local-llm-input-container'
@@ -254,16 +351,42 @@ export class ChatView extends ItemView {
 
 	// Method to update LLM service from plugin settings
 	updateLLMServiceFromSettings() {
-		const settings = this.plugin.settings;
-		LoggingUtility.log('Updating LLM service with settings:', settings);
-		this.llmService = createLLMService({
-			apiEndpoint: settings.apiEndpoint,
-			maxTokens: settings.maxTokens,
-			temperature: settings.temperature,
-			systemPrompt: settings.systemPrompt,
-			model: settings.model,
-			apiKey: settings.apiKey
-		});
+		const config = getLLMConfigForProfile(this.plugin.settings, this.profileId);
+		LoggingUtility.log('Updating LLM service with settings:', config);
+		this.llmService = createLLMService(config);
+	}
+
+	/**
+	 * Rebuild the profile picker after profiles were added, renamed or deleted in settings
+	 */
+	updateProfilesFromSettings(): void {
+		if (!this.profileDropdown) {
+			return;
+		}
+
+		const profiles = this.plugin.settings.modelProfiles || [];
+		if (this.profileId && !findModelProfile(this.plugin.settings, this.profileId)) {
+			this.profileId = null;
+			this.updateLLMServiceFromSettings();
+		}
+
+		this.profileDropdown.selectEl.empty();
+		this.profileDropdown.addOption('', 'Default');
+		for (const profile of profiles) {
+			this.profileDropdown.addOption(profile.id, profile.name);
+		}
+		this.profileDropdown.setValue(this.profileId ?? '');
+		this.profileContainer.classList.toggle('local-llm-profile-container-hidden', profiles.length === 0);
+	}
+
+	/**
+	 * Switch the model profile for the current conversation only (global settings are left untouched)
+	 */
+	private async setProfile(profileId: string | null): Promise<void> {
+		this.profileId = profileId;
+		this.profileDropdown?.setValue(profileId ?? '');
+		this.updateLLMServiceFromSettings();
+		await this.persistConversation();
 	}
 
 	/**
@@ -288,7 +411,8 @@ export class ChatView extends ItemView {
 			temperature: config.temperature,
 			systemPrompt: config.systemPrompt,
 			model: config.model,
-			apiKey: config.apiKey
+			apiKey: config.apiKey,
+			provider: config.llmProvider
 		});
 	}
 
@@ -334,8 +458,27 @@ export class ChatView extends ItemView {
 	}
 
 	private async sendMessage() {
-		const content = this.inputElement.value.trim();
-		if (!content) return;
+		const rawContent = this.inputElement.value.trim();
+		if (!rawContent) return;
+
+		// Scoping operators (tag:, path:, after:, before:, in:[[...]]) become filter chips instead of message text
+		const parsedQuery = QueryOperatorUtility.parse(rawContent);
+		if (parsedQuery.operators.length > 0) {
+			this.addQueryOperators(parsedQuery.operators);
+		}
+		const content = parsedQuery.query;
+		if (!content) {
+			this.inputElement.value = '';
+			return;
+		}
+
+		// Sending with an in:[[...]] chip that points nowhere would search the wrong notes
+		const unresolvedOperator = this.queryOperators.find(operator => operator.type === 'in' && !this.resolveNoteLink(operator.value));
+		if (unresolvedOperator) {
+			this.inputElement.value = content;
+			new Notice(`Note not found for ${unresolvedOperator.raw}. Fix the link or remove the chip to send.`);
+			return;
+		}
 
 		// If already streaming, queue this message or handle it differently
 		if (this.isStreaming) {
@@ -356,6 +499,7 @@ export class ChatView extends ItemView {
 
 		await this.addMessage(userMessage);
 		this.inputElement.value = '';
+		await this.persistConversation();
 
 		// Create abort controller for this request
 		this.currentAbortController = new AbortController();
@@ -366,10 +510,13 @@ export class ChatView extends ItemView {
 		this.isStreaming = true;
 
 		// Get context based on dropdown selection
-		let searchContext = '';
 		let searchResults: SearchResult[] = [];
+		const profileConfig = getLLMConfigForProfile(this.plugin.settings, this.profileId);
+		const contextWindow = await this.llmService.getContextWindow() || getContextWindowForProfile(this.plugin.settings, this.profileId);
+		const contextShare = this.plugin.settings.searchContextPercentage / 100;
 
-		let contextMode: ContextMode = this.contextMode;
+		// Operator chips scope a vault search, whichever context mode is selected
+		let contextMode: ContextMode = this.queryOperators.length > 0 ? ContextMode.SEARCH : this.contextMode;
 		this.showSearchIndicator(true);
 		try {
 			if (contextMode === ContextMode.OPEN_NOTES) {
@@ -377,22 +524,21 @@ export class ChatView extends ItemView {
 				const openTabs = await this.searchService.getCurrentNoteContext();
 				if (openTabs.length > 0) {
 					searchResults = openTabs;
-					searchContext = this.searchService.formatSearchResults(searchResults);
 					LoggingUtility.log(`Using ${openTabs.length} open tabs as context`);
 				} else {
 					LoggingUtility.log('No open tabs found, no context will be used');
 				}
 			} else if (contextMode === ContextMode.SEARCH) {
 				// Search entire vault using RAG (with keyword fallback)
-				const maxContextTokens = Math.floor(this.plugin.settings.maxTokens * (this.plugin.settings.searchContextPercentage / 100));
+				const maxContextTokens = Math.floor(contextWindow * contextShare);
 				searchResults = await this.searchService.searchVault(content, {
 					maxResults: this.plugin.settings.ragMaxResults,
 					maxTokens: maxContextTokens,
-					threshold: this.plugin.settings.ragThreshold
+					threshold: this.plugin.settings.ragThreshold,
+					filter: combineMetadataFilters([this.getSearchFilter(), this.getQueryOperatorFilter()])
 				});
 
 				if (searchResults.length > 0) {
-					searchContext = this.searchService.formatSearchResults(searchResults);
 					LoggingUtility.log(`Found ${searchResults.length} relevant notes using enhanced search`);
 				}
 			} else if (contextMode === ContextMode.NONE) {
@@ -406,6 +552,26 @@ export class ChatView extends ItemView {
 			this.showSearchIndicator(false);
 		}
 
+		// Fit history and retrieved notes into the model's context window
+		const budgetPlan = await planContextBudget({
+			contextWindow,
+			responseTokens: profileConfig.maxTokens || this.plugin.settings.maxTokens,
+			contextShare,
+			systemPrompt: profileConfig.systemPrompt || '',
+			history: this.messages
+				.filter(m => !m.isStreaming && m.id !== 'welcome' && m.id !== userMessage.id)
+				.map(m => ({
+					role: m.role,
+					content: m.content
+				})),
+			question: content,
+			results: searchResults,
+			resultText: result => this.searchService.formatSearchResults([result]),
+			buildPrompt: results => this.buildPromptWithContext(content, results)
+		}, createTokenCounter(texts => this.llmService.countTokens(texts)));
+		searchResults = budgetPlan.results;
+		this.renderTokenBreakdown(budgetPlan);
+
 		// Create streaming assistant message
 		const assistantMessage: ChatMessage = {
 			id: 'streaming-' + Date.now(),
@@ -413,27 +579,22 @@ export class ChatView extends ItemView {
 			content: '',
 			timestamp: new Date(),
 			isStreaming: true,
-			usedNotes: searchResults.length > 0 ? searchResults : undefined
+			usedNotes: searchResults.length > 0 ? searchResults.map(result => ({
+				title: result.title,
+				path: result.path,
+				relevance: result.relevance,
+				paragraphIndex: result.paragraphIndex,
+				heading: result.headingPath && result.headingPath.length > 0 ? result.headingPath[result.headingPath.length - 1] : undefined,
+				page: result.pageNumber,
+				excerpt: CitationUtility.createExcerpt(result.content)
+			})) : undefined
 		};
 
 		await this.addMessage(assistantMessage);
 
 		try {
-			// Convert chat history to LLM format
-			const conversationHistory: LLMChatMessage[] = this.messages
-				.filter(m => !m.isStreaming && m.id !== 'welcome')
-				.map(m => ({
-					role: m.role,
-					content: m.content
-				}));
-
-
-
-			// Add search context to the user message if available
-			let enhancedContent = content;
-			if (searchContext) {
-				enhancedContent = `Context from your Obsidian vault:\n${searchContext}\n\nUser question: ${content}`;
-			}
+			const conversationHistory: LLMChatMessage[] = budgetPlan.history;
+			const enhancedContent = budgetPlan.prompt;
 
 			// Create streaming callback
 			const streamCallback: StreamCallback = async (chunk: string, isComplete: boolean) => {
@@ -479,6 +640,54 @@ export class ChatView extends ItemView {
 		}
 	}
 
+	/**
+	 * User message with the retrieved notes prepended (the bare question when there are none)
+	 */
+	private buildPromptWithContext(question: string, results: SearchResult[]): string {
+		if (results.length === 0) {
+			return question;
+		}
+		const searchContext = this.searchService.formatSearchResults(results);
+		return `Context from your Obsidian vault:\n${searchContext}\n\nWhen you use information from a numbered note above, cite it inline with its number in square brackets, for example [1].\n\nUser question: ${question}`;
+	}
+
+	/**
+	 * Show how the prompt about to be sent splits across system prompt, history, notes and question
+	 */
+	private renderTokenBreakdown(plan: ContextBudgetPlan<SearchResult>): void {
+		const { breakdown } = plan;
+		this.tokenBreakdownEl.empty();
+		this.tokenBreakdownEl.removeClass('local-llm-token-breakdown-hidden');
+		this.tokenBreakdownEl.classList.toggle('local-llm-token-breakdown-over', breakdown.total > breakdown.budget);
+
+		const sections = [
+			{ key: 'system', label: 'System', tokens: breakdown.system, note: '' },
+			{ key: 'history', label: 'History', tokens: breakdown.history, note: plan.droppedTurns > 0 ? `${plan.droppedTurns} older trimmed` : '' },
+			{ key: 'context', label: 'Notes', tokens: breakdown.context, note: plan.droppedResults > 0 ? `${plan.droppedResults} dropped` : '' },
+			{ key: 'question', label: 'Question', tokens: breakdown.question, note: '' }
+		];
+
+		const barEl = this.tokenBreakdownEl.createDiv({ cls: 'local-llm-token-breakdown-bar' });
+		for (const section of sections) {
+			if (section.tokens > 0) {
+				const segmentEl = barEl.createDiv({ cls: `local-llm-token-segment local-llm-token-segment-${section.key}` });
+				segmentEl.setCssProps({ '--segment-width': `${Math.min(100, (section.tokens / Math.max(1, breakdown.budget)) * 100)}%` });
+			}
+		}
+
+		const prefix = breakdown.exact ? '' : '~';
+		const labelsEl = this.tokenBreakdownEl.createDiv({ cls: 'local-llm-token-breakdown-labels' });
+		for (const section of sections) {
+			const itemEl = labelsEl.createEl('span', { cls: `local-llm-token-breakdown-item local-llm-token-breakdown-${section.key}` });
+			itemEl.setText(`${section.label} ${prefix}${section.tokens}${section.note ? ` (${section.note})` : ''}`);
+		}
+		labelsEl.createEl('span', {
+			cls: 'local-llm-token-breakdown-total',
+			text: `${prefix}${breakdown.total} / ${breakdown.budget} tokens`,
+			attr: { title: `Context window ${breakdown.contextWindow} tokens, the rest is reserved for the reply` }
+		});
+	}
+
 	private setInputEnabled(enabled: boolean) {
 		this.inputElement.disabled = !enabled;
 		this.sendButton.disabled = !enabled;
@@ -588,6 +797,7 @@ export class ChatView extends ItemView {
 				messageElement.remove();
 			}
 			await this.renderMessage(message);
+			await this.persistConversation();
 		}
 	}
 
@@ -758,6 +968,8 @@ export class ChatView extends ItemView {
 				cls: 'streaming-cursor',
 				text: '▋'
 			});
+		} else if (message.usedNotes && message.usedNotes.length > 0) {
+			this.linkCitations(responseEl, message.usedNotes);
 		}
 
 		const thinkingContainer = contentEl.querySelector('.local-llm-thinking-container') as HTMLElement | null;
@@ -766,6 +978,89 @@ export class ChatView extends ItemView {
 		}
 	}
 
+	/**
+	 * Replace [n] markers in the rendered answer with links to the nth context chunk
+	 */
+	private linkCitations(responseEl: HTMLElement, sources: StoredNoteReference[]): void {
+		const walker = document.createTreeWalker(responseEl, NodeFilter.SHOW_TEXT);
+		const textNodes: Text[] = [];
+		let node = walker.nextNode();
+		while (node) {
+			const parent = node.parentElement;
+			if (parent && !parent.closest('code, pre, a') && /\[\d/.test(node.textContent || '')) {
+				textNodes.push(node as Text);
+			}
+			node = walker.nextNode();
+		}
+
+		for (const textNode of textNodes) {
+			const segments = CitationUtility.splitCitations(textNode.textContent || '', sources.length);
+			if (!segments.some(segment => segment.type === 'citation')) {
+				continue;
+			}
+
+			const fragment = document.createDocumentFragment();
+			for (const segment of segments) {
+				if (segment.type === 'text') {
+					fragment.appendChild(document.createTextNode(segment.text));
+					continue;
+				}
+
+				const source = sources[segment.index - 1];
+				const link = document.createElement('a');
+				link.className = 'local-llm-citation';
+				link.textContent = `[${segment.index}]`;
+				link.setAttribute('aria-label', source.title);
+				link.setAttribute('title', source.page !== undefined
+					? `${source.title} (${source.path}, page ${source.page})`
+					: source.heading
+					? `${source.title} (${source.path} > ${source.heading})`
+					: source.paragraphIndex !== undefined
+						? `${source.title} (${source.path}, paragraph ${source.paragraphIndex + 1})`
+						: `${source.title} (${source.path})`);
+				link.addEventListener('click', async (event) => {
+					event.preventDefault();
+					await this.openCitation(source);
+				});
+				fragment.appendChild(link);
+			}
+
+			textNode.parentNode?.replaceChild(fragment, textNode);
+		}
+	}
+
+	/**
+	 * Open the cited note, scrolled to the chunk the answer was based on (or its heading when the text moved).
+	 * PDFs open at the cited page.
+	 */
+	private async openCitation(source: StoredNoteReference): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(source.path);
+		if (!(file instanceof TFile)) {
+			new Notice(`Note not found: ${source.path}`);
+			return;
+		}
+
+		if (source.page !== undefined) {
+			await this.app.workspace.openLinkText(`${source.path}#page=${source.page}`, '', true);
+			return;
+		}
+
+		let line: number | null = null;
+		if (source.excerpt) {
+			try {
+				line = CitationUtility.findExcerptLine(await this.app.vault.cachedRead(file), source.excerpt);
+			} catch (error) {
+				LoggingUtility.warn(`Could not locate cited text in ${source.path}:`, error);
+			}
+		}
+
+		if (line === null && source.heading) {
+			await this.app.workspace.openLinkText(`${source.path}#${source.heading}`, '', true);
+			return;
+		}
+		await this.app.workspace.openLinkText(source.path, '', true, line !== null ? { eState: { line } } : undefined);
+	}
+
 	private getOrCreateThinkingViewState(message: ChatMessage): ThinkingViewState {
 		const existing = this.thinkingViewState.get(message.id);
 		if (existing) {
@@ -989,6 +1284,7 @@ export class ChatView extends ItemView {
 				messageElement.remove();
 			}
 			this.renderMessage(message);
+			void this.persistConversation();
 		}
 		LoggingUtility.error('Error calling local LLM:', error);
 	}
@@ -1188,7 +1484,7 @@ export class ChatView extends ItemView {
 	 * Deduplicate search results by document path, keeping only the highest relevance score for each unique document.
 	 * Assumes input is already sorted by relevance (highest first).
 	 */
-	private deduplicateNotesByPath(notes: SearchResult[]): SearchResult[] {
+	private deduplicateNotesByPath(notes: StoredNoteReference[]): StoredNoteReference[] {
 		const seenPaths = new Set<string>();
 
 		return notes.filter((note) => {
@@ -1225,12 +1521,7 @@ export class ChatView extends ItemView {
 		}
 
 		// Clear all messages
-		this.messages = [];
-		this.messageContainer.empty();
-		this.streamingThinkingState.clear();
-		this.thinkingViewState.clear();
-		this.pendingStreamingRender.clear();
-		this.streamingRenderInFlight.clear();
+		this.clearConversationState();
 
 		// Add new welcome message
 		await this.addMessage({
@@ -1245,6 +1536,430 @@ export class ChatView extends ItemView {
 		this.inputElement.focus();
 	}
 
+	/**
+	 * Reset the in-memory conversation and rendering state
+	 */
+	private clearConversationState(): void {
+		this.messages = [];
+		this.currentConversationId = null;
+		this.messageContainer.empty();
+		this.streamingThinkingState.clear();
+		this.thinkingViewState.clear();
+		this.pendingStreamingRender.clear();
+		this.streamingRenderInFlight.clear();
+		this.queryOperators = [];
+		this.renderFilterChips();
+		if (this.profileId) {
+			this.profileId = null;
+			this.profileDropdown?.setValue('');
+			this.updateLLMServiceFromSettings();
+		}
+	}
+
+	/**
+	 * Save the current conversation to chat history (skips the welcome message and streaming messages)
+	 */
+	private async persistConversation(): Promise<void> {
+		const messagesToSave = this.getMessagesForStorage();
+
+		if (!messagesToSave.some(m => m.role === 'user')) {
+			return;
+		}
+
+		if (!this.currentConversationId) {
+			this.currentConversationId = ChatHistoryService.createConversationId();
+		}
+
+		try {
+			await this.plugin.chatHistoryService.saveConversation(this.currentConversationId, messagesToSave, this.profileId ?? undefined);
+			if (this.isHistoryPanelVisible()) {
+				await this.renderHistoryList();
+			}
+		} catch (error) {
+			LoggingUtility.error('Failed to save conversation:', error);
+		}
+	}
+
+	/**
+	 * Serializable copy of the conversation (skips the welcome message and streaming messages)
+	 */
+	private getMessagesForStorage(): StoredChatMessage[] {
+		return this.messages
+			.filter(m => m.id !== 'welcome' && !m.isStreaming)
+			.map(m => ({
+				id: m.id,
+				role: m.role,
+				content: m.content,
+				timestamp: m.timestamp.getTime(),
+				usedNotes: m.usedNotes?.map(note => ({
+					title: note.title,
+					path: note.path,
+					relevance: note.relevance,
+					paragraphIndex: note.paragraphIndex,
+					heading: note.heading,
+					page: note.page,
+					excerpt: note.excerpt
+				})),
+				thinkingBlocks: m.thinkingBlocks ? [...m.thinkingBlocks] : undefined
+			}));
+	}
+
+	/**
+	 * True when the chat contains at least one question
+	 */
+	hasConversation(): boolean {
+		return this.messages.some(m => m.role === 'user');
+	}
+
+	/**
+	 * Write the current conversation into the configured vault folder as a note
+	 */
+	async saveConversationAsNote(): Promise<void> {
+		const messages = this.getMessagesForStorage();
+		if (!messages.some(m => m.role === 'user')) {
+			new Notice('There is no conversation to save yet.');
+			return;
+		}
+
+		const savedConversation = this.currentConversationId
+			? await this.plugin.chatHistoryService.getConversation(this.currentConversationId)
+			: null;
+
+		try {
+			const exporter = new ConversationNoteExporter(this.app);
+			const file = await exporter.saveToVault(this.plugin.settings.chatExportFolder, {
+				title: savedConversation?.title || ChatHistoryService.deriveTitle(messages),
+				model: getLLMConfigForProfile(this.plugin.settings, this.profileId).model,
+				contextMode: this.contextMode,
+				messages
+			});
+			new Notice(`Chat saved to ${file.path}`, 3000);
+			await this.app.workspace.openLinkText(file.path, '', true);
+		} catch (error) {
+			LoggingUtility.error('Failed to save chat as note:', error);
+			new Notice(`Could not save chat as note: ${error.message}`);
+		}
+	}
+
+	private isHistoryPanelVisible(): boolean {
+		return !!this.historyPanel && !this.historyPanel.classList.contains('local-llm-history-panel-hidden');
+	}
+
+	private async toggleHistoryPanel(): Promise<void> {
+		if (this.isHistoryPanelVisible()) {
+			this.historyPanel.addClass('local-llm-history-panel-hidden');
+			return;
+		}
+
+		this.historyPanel.removeClass('local-llm-history-panel-hidden');
+		this.historySearchInput.value = '';
+		await this.renderHistoryList();
+		this.historySearchInput.focus();
+	}
+
+	private createFilterPanel(parentEl: HTMLElement): void {
+		this.filterPanel = parentEl.createEl('div', {
+			cls: 'local-llm-filter-panel local-llm-filter-panel-hidden'
+		});
+
+		const addField = (label: string): HTMLElement => {
+			const fieldEl = this.filterPanel.createEl('label', { cls: 'local-llm-filter-field' });
+			fieldEl.createEl('span', { cls: 'local-llm-filter-label', text: label });
+			return fieldEl;
+		};
+
+		this.filterTagsInput = addField('Tags').createEl('input', {
+			cls: 'local-llm-filter-input',
+			attr: { type: 'text', placeholder: 'project, work/meetings' }
+		});
+		this.filterFolderInput = addField('Folder').createEl('input', {
+			cls: 'local-llm-filter-input',
+			attr: { type: 'text', placeholder: 'Projects/2024' }
+		});
+		this.filterModifiedSelect = addField('Modified').createEl('select', {
+			cls: 'local-llm-filter-input dropdown'
+		});
+		for (const [value, text] of [['', 'Any time'], ['7', 'Last 7 days'], ['30', 'Last 30 days'], ['365', 'Last year']]) {
+			this.filterModifiedSelect.createEl('option', { text, attr: { value } });
+		}
+		this.filterFrontmatterInput = addField('Frontmatter').createEl('input', {
+			cls: 'local-llm-filter-input',
+			attr: { type: 'text', placeholder: 'status: draft, type: meeting' }
+		});
+
+		for (const inputEl of [this.filterTagsInput, this.filterFolderInput, this.filterFrontmatterInput]) {
+			inputEl.addEventListener('input', () => this.updateFilterButton());
+		}
+		this.filterModifiedSelect.addEventListener('change', () => this.updateFilterButton());
+
+		const clearButton = this.filterPanel.createEl('button', {
+			cls: 'local-llm-filter-clear',
+			text: 'Clear filters',
+			attr: { 'type': 'button' }
+		});
+		clearButton.addEventListener('click', () => {
+			this.clearSearchFilter();
+		});
+	}
+
+	private toggleFilterPanel(): void {
+		this.filterPanel.classList.toggle('local-llm-filter-panel-hidden');
+	}
+
+	/**
+	 * Metadata filter for All Notes search, read from the filter panel
+	 */
+	getSearchFilter(): MetadataFilter {
+		const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+		const filter: MetadataFilter = {};
+
+		const tags = splitList(this.filterTagsInput?.value || '');
+		if (tags.length > 0) {
+			filter.tags = tags;
+		}
+
+		const folder = (this.filterFolderInput?.value || '').trim();
+		if (folder) {
+			filter.folders = [folder];
+		}
+
+		const days = parseInt(this.filterModifiedSelect?.value || '', 10);
+		if (!isNaN(days)) {
+			filter.modifiedAfter = Date.now() - days * 24 * 60 * 60 * 1000;
+		}
+
+		for (const pair of splitList(this.filterFrontmatterInput?.value || '')) {
+			const separator = pair.indexOf(':');
+			if (separator > 0 && pair.substring(separator + 1).trim()) {
+				filter.frontmatter = filter.frontmatter || {};
+				filter.frontmatter[pair.substring(0, separator).trim()] = pair.substring(separator + 1).trim();
+			}
+		}
+
+		return filter;
+	}
+
+	private clearSearchFilter(): void {
+		this.filterTagsInput.value = '';
+		this.filterFolderInput.value = '';
+		this.filterModifiedSelect.value = '';
+		this.filterFrontmatterInput.value = '';
+		this.updateFilterButton();
+	}
+
+	private addQueryOperators(operators: QueryOperator[]): void {
+		for (const operator of operators) {
+			const duplicate = this.queryOperators.some(existing => existing.type === operator.type && existing.value.toLowerCase() === operator.value.toLowerCase());
+			if (!duplicate) {
+				this.queryOperators.push(operator);
+			}
+		}
+		this.renderFilterChips();
+	}
+
+	/**
+	 * Resolve a wikilink target the same way Obsidian does for links written in the vault root
+	 */
+	private resolveNoteLink(linkText: string): string | null {
+		return this.app.metadataCache.getFirstLinkpathDest(linkText, '')?.path ?? null;
+	}
+
+	/**
+	 * Metadata filter for the active operator chips
+	 */
+	private getQueryOperatorFilter(): MetadataFilter {
+		return QueryOperatorUtility.toMetadataFilter(this.queryOperators, linkText => this.resolveNoteLink(linkText));
+	}
+
+	private renderFilterChips(): void {
+		if (!this.filterChipsEl) {
+			return;
+		}
+
+		this.filterChipsEl.empty();
+		this.filterChipsEl.classList.toggle('local-llm-filter-chips-hidden', this.queryOperators.length === 0);
+
+		for (const operator of this.queryOperators) {
+			const chipEl = this.filterChipsEl.createEl('span', {
+				cls: 'local-llm-filter-chip',
+				attr: { 'title': 'Search is limited to matching notes' }
+			});
+			if (operator.type === 'in' && !this.resolveNoteLink(operator.value)) {
+				chipEl.addClass('local-llm-filter-chip-unresolved');
+				chipEl.setAttribute('title', 'Note not found');
+			}
+			chipEl.createEl('span', { cls: 'local-llm-filter-chip-label', text: operator.raw });
+
+			const removeButton = chipEl.createEl('button', {
+				cls: 'local-llm-filter-chip-remove',
+				attr: { 'aria-label': `Remove ${operator.raw}`, 'type': 'button' }
+			});
+			setIcon(removeButton, 'x');
+			removeButton.addEventListener('click', () => {
+				this.queryOperators = this.queryOperators.filter(existing => existing !== operator);
+				this.renderFilterChips();
+			});
+		}
+	}
+
+	/**
+	 * Show the filter button only for All Notes search and highlight it while a filter is set
+	 */
+	private updateFilterButton(): void {
+		if (!this.filterButton) {
+			return;
+		}
+
+		const searchMode = this.contextMode === ContextMode.SEARCH;
+		this.filterButton.classList.toggle('local-llm-filter-button-hidden', !searchMode);
+		this.filterButton.classList.toggle('local-llm-filter-button-active', !isMetadataFilterEmpty(this.getSearchFilter()));
+		if (!searchMode && this.filterPanel) {
+			this.filterPanel.addClass('local-llm-filter-panel-hidden');
+		}
+	}
+
+	/**
+	 * Render the list of saved conversations matching the history search box
+	 */
+	private async renderHistoryList(): Promise<void> {
+		const conversations = await this.plugin.chatHistoryService.listConversations(this.historySearchInput.value);
+
+		this.historyListEl.empty();
+		if (conversations.length === 0) {
+			this.historyListEl.createEl('div', {
+				cls: 'local-llm-history-empty',
+				text: this.historySearchInput.value.trim() ? 'No chats match your search' : 'No saved chats yet'
+			});
+			return;
+		}
+
+		for (const conversation of conversations) {
+			const itemEl = this.historyListEl.createEl('div', {
+				cls: 'local-llm-history-item',
+				attr: { 'data-conversation-id': conversation.id }
+			});
+			if (conversation.id === this.currentConversationId) {
+				itemEl.addClass('local-llm-history-item-active');
+			}
+
+			const infoEl = itemEl.createEl('div', { cls: 'local-llm-history-item-info' });
+			const titleEl = infoEl.createEl('div', {
+				cls: 'local-llm-history-item-title',
+				text: conversation.title
+			});
+			infoEl.createEl('div', {
+				cls: 'local-llm-history-item-meta',
+				text: `${new Date(conversation.updatedAt).toLocaleString()} · ${conversation.messages.length} message${conversation.messages.length === 1 ? '' : 's'}`
+			});
+
+			const actionsEl = itemEl.createEl('div', { cls: 'local-llm-history-item-actions' });
+			const renameButton = actionsEl.createEl('button', {
+				cls: 'local-llm-history-action',
+				attr: { 'aria-label': 'Rename chat', 'type': 'button' }
+			});
+			setIcon(renameButton, 'pencil');
+			const deleteButton = actionsEl.createEl('button', {
+				cls: 'local-llm-history-action',
+				attr: { 'aria-label': 'Delete chat', 'type': 'button' }
+			});
+			setIcon(deleteButton, 'trash-2');
+
+			itemEl.addEventListener('click', async () => {
+				await this.openConversation(conversation.id);
+			});
+
+			renameButton.addEventListener('click', (event) => {
+				event.stopPropagation();
+				this.startRenamingConversation(titleEl, conversation.id, conversation.title);
+			});
+
+			deleteButton.addEventListener('click', async (event) => {
+				event.stopPropagation();
+				await this.plugin.chatHistoryService.deleteConversation(conversation.id);
+				if (conversation.id === this.currentConversationId) {
+					await this.startNewChat();
+				}
+				await this.renderHistoryList();
+			});
+		}
+	}
+
+	private startRenamingConversation(titleEl: HTMLElement, conversationId: string, currentTitle: string): void {
+		titleEl.empty();
+		const input = titleEl.createEl('input', {
+			cls: 'local-llm-history-rename-input',
+			attr: { type: 'text' }
+		});
+		input.value = currentTitle;
+		input.addEventListener('click', (event) => event.stopPropagation());
+
+		let finished = false;
+		const finish = async (save: boolean) => {
+			if (finished) {
+				return;
+			}
+			finished = true;
+			if (save) {
+				await this.plugin.chatHistoryService.renameConversation(conversationId, input.value);
+			}
+			await this.renderHistoryList();
+		};
+
+		input.addEventListener('keydown', (event) => {
+			if (event.key === 'Enter') {
+				event.preventDefault();
+				void finish(true);
+			} else if (event.key === 'Escape') {
+				event.preventDefault();
+				void finish(false);
+			}
+		});
+		input.addEventListener('blur', () => {
+			void finish(true);
+		});
+
+		input.focus();
+		input.select();
+	}
+
+	/**
+	 * Replace the current chat with a saved conversation
+	 */
+	private async openConversation(conversationId: string): Promise<void> {
+		const conversation = await this.plugin.chatHistoryService.getConversation(conversationId);
+		if (!conversation) {
+			new Notice('That chat could not be found.');
+			return;
+		}
+
+		if (this.isStreaming) {
+			this.stopStreaming();
+		}
+
+		this.clearConversationState();
+		this.currentConversationId = conversation.id;
+		if (conversation.profileId && findModelProfile(this.plugin.settings, conversation.profileId)) {
+			this.profileId = conversation.profileId;
+			this.profileDropdown?.setValue(this.profileId);
+			this.updateLLMServiceFromSettings();
+		}
+		this.messages = conversation.messages.map(m => ({
+			id: m.id,
+			role: m.role,
+			content: m.content,
+			timestamp: new Date(m.timestamp),
+			usedNotes: m.usedNotes,
+			thinkingBlocks: m.thinkingBlocks
+		}));
+
+		for (const message of this.messages) {
+			await this.renderMessage(message);
+		}
+
+		this.historyPanel.addClass('local-llm-history-panel-hidden');
+		this.inputElement.focus();
+	}
+
 	private copyEntireConversation() {
 		// Filter out welcome message and format conversation
 		const conversationMessages = this.messages
@@ -1309,6 +2024,13 @@ Once your server is running, click the test connection button below.`;
 			return;
 		}
 
+		// A damaged index and how it was handled is shown in every context mode until dismissed
+		const recoveryReport = this.plugin.ragService?.getIndexRecoveryReport();
+		if (recoveryReport) {
+			this.showIndexRecovery(recoveryReport);
+			return;
+		}
+
 		// Show database stats if context mode is "All Notes"
 		if (this.contextMode === ContextMode.SEARCH) {
 			const stats = this.plugin.ragService.getStats();
@@ -1330,11 +2052,42 @@ Once your server is running, click the test connection button below.`;
 			text: `RAG Database: ${documentCount.toLocaleString()} paragraphs from ${fileCount.toLocaleString()} files available for context`
 		});
 
+		this.ragStatusArea.removeClass('local-llm-rag-status-recovery');
 		this.ragStatusArea.removeClass('local-llm-rag-status-paused');
 		this.ragStatusArea.removeClass('local-llm-rag-status-hidden');
 		this.ragStatusArea.addClass('local-llm-rag-status-visible');
 	}
 
+	/**
+	 * Show what happened to a damaged index at startup
+	 */
+	private showIndexRecovery(report: IndexRecoveryReport): void {
+		this.ragStatusContent.empty();
+		const recoveryEl = this.ragStatusContent.createEl('div', { cls: 'local-llm-rag-stats local-llm-rag-recovery' });
+		recoveryEl.createEl('span', { cls: 'local-llm-rag-stats-icon', text: report.outcome === 'restored' ? '🛟' : '⚠️' });
+		recoveryEl.createEl('span', { cls: 'local-llm-rag-stats-text', text: describeIndexRecovery(report) });
+		const dismissButton = recoveryEl.createEl('button', {
+			cls: 'local-llm-rag-retry-button',
+			text: 'Dismiss',
+			attr: { type: 'button' }
+		});
+		dismissButton.addEventListener('click', () => {
+			this.plugin.ragService.dismissIndexRecoveryReport();
+			this.updateRAGStatus();
+		});
+
+		this.ragStatusArea.addClass('local-llm-rag-status-recovery');
+		this.ragStatusArea.removeClass('local-llm-rag-status-hidden');
+		this.ragStatusArea.addClass('local-llm-rag-status-visible');
+	}
+
+	/**
+	 * Re-read the index state, e.g. after the RAG service finished loading
+	 */
+	onRAGStatusChanged(): void {
+		this.updateRAGStatus();
+	}
+
 	/**
 	 * Show RAG indexing progress
 	 */
@@ -1353,6 +2106,7 @@ Once your server is running, click the test connection button below.`;
 					? 'Paused (Connection)'
 					: 'Paused';
 
+		this.ragStatusArea.removeClass('local-llm-rag-status-recovery');
 		this.ragStatusContent.empty();
 		// Secure DOM manipulation used here (createEl instead of innerHTML) to prevent XSS
 		const progressContainer = this.ragStatusContent.createEl('div', { cls: 'local-llm-rag-progress' });
@@ -1409,6 +2163,7 @@ Once your server is running, click the test connection button below.`;
 	 * Hide RAG status area
 	 */
 	private hideRAGStatus(): void {
+		this.ragStatusArea.removeClass('local-llm-rag-status-recovery');
 		this.ragStatusArea.removeClass('local-llm-rag-status-paused');
 		this.ragStatusArea.removeClass('local-llm-rag-status-visible');
 		this.ragStatusArea.addClass('local-llm-rag-status-hidden');
@@ -0,0 +1,324 @@
+import { ItemView, WorkspaceLeaf, Notice, setIcon } from 'obsidian';
+import { IndexInspectorEntry } from '../services/RAGService';
+import { ChunkingUtility } from '../utils/ChunkingUtility';
+import { LoggingUtility } from '../utils/LoggingUtility';
+import type LocalLLMPlugin from '../main';
+
+export const INDEX_INSPECTOR_VIEW_TYPE = 'local-llm-index-inspector';
+
+export type IndexInspectorSortKey = 'path' | 'sourceType' | 'status' | 'chunkCount' | 'lastIndexed';
+
+export interface IndexInspectorQuery {
+	text: string;
+	sourceType: IndexInspectorEntry['sourceType'] | 'all';
+	status: IndexInspectorEntry['status'] | 'all';
+	sortKey: IndexInspectorSortKey;
+	ascending: boolean;
+}
+
+const STATUS_LABELS: Record<IndexInspectorEntry['status'], string> = {
+	'indexed': 'Indexed',
+	'not-indexed': 'Not indexed',
+	'failed': 'Failed',
+	'excluded': 'Excluded'
+};
+
+const SOURCE_TYPE_LABELS: Record<IndexInspectorEntry['sourceType'], string> = {
+	markdown: 'Note',
+	image: 'Image',
+	pdf: 'PDF'
+};
+
+const COLUMNS: { key: IndexInspectorSortKey; label: string }[] = [
+	{ key: 'path', label: 'File' },
+	{ key: 'sourceType', label: 'Type' },
+	{ key: 'status', label: 'Status' },
+	{ key: 'chunkCount', label: 'Chunks' },
+	{ key: 'lastIndexed', label: 'Last indexed' }
+];
+
+/**
+ * Entries matching the filters, sorted; ties are broken by path
+ */
+export function filterIndexInspectorEntries(entries: IndexInspectorEntry[], query: IndexInspectorQuery): IndexInspectorEntry[] {
+	const text = query.text.trim().toLowerCase();
+	const direction = query.ascending ? 1 : -1;
+	return entries
+		.filter(entry => (query.sourceType === 'all' || entry.sourceType === query.sourceType)
+			&& (query.status === 'all' || entry.status === query.status)
+			&& (!text || entry.path.toLowerCase().includes(text) || (entry.lastError?.error.toLowerCase().includes(text) ?? false)))
+		.sort((a, b) => {
+			const av = a[query.sortKey] ?? 0;
+			const bv = b[query.sortKey] ?? 0;
+			const order = typeof av === 'string' && typeof bv === 'string' ? av.localeCompare(bv) : Number(av) - Number(bv);
+			return order * direction || a.path.localeCompare(b.path);
+		});
+}
+
+/**
+ * Workspace view listing every indexed file with its status, so it is visible why a note is missing from answers
+ */
+export class IndexInspectorView extends ItemView {
+	private plugin: LocalLLMPlugin;
+	private entries: IndexInspectorEntry[] = [];
+	private query: IndexInspectorQuery = { text: '', sourceType: 'all', status: 'all', sortKey: 'path', ascending: true };
+	private expandedPath: string | null = null;
+	private summaryEl: HTMLElement;
+	private tableBodyEl: HTMLElement;
+	private headerCells = new Map<IndexInspectorSortKey, HTMLElement>();
+
+	constructor(leaf: WorkspaceLeaf, plugin: LocalLLMPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return INDEX_INSPECTOR_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Index inspector';
+	}
+
+	getIcon(): string {
+		return 'database';
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass('local-llm-index-inspector');
+
+		const toolbar = container.createEl('div', { cls: 'local-llm-index-toolbar' });
+		const searchInput = toolbar.createEl('input', {
+			cls: 'local-llm-index-search',
+			attr: { type: 'search', placeholder: 'Filter by path or error...' }
+		});
+		searchInput.addEventListener('input', () => {
+			this.query.text = searchInput.value;
+			this.renderEntries();
+		});
+
+		const sourceTypeSelect = this.createSelect(toolbar, 'Type', { all: 'All types', ...SOURCE_TYPE_LABELS });
+		sourceTypeSelect.addEventListener('change', () => {
+			this.query.sourceType = sourceTypeSelect.value as IndexInspectorQuery['sourceType'];
+			this.renderEntries();
+		});
+
+		const statusSelect = this.createSelect(toolbar, 'Status', { all: 'All statuses', ...STATUS_LABELS });
+		statusSelect.addEventListener('change', () => {
+			this.query.status = statusSelect.value as IndexInspectorQuery['status'];
+			this.renderEntries();
+		});
+
+		const refreshButton = toolbar.createEl('button', {
+			cls: 'local-llm-index-action',
+			attr: { 'aria-label': 'Refresh', 'type': 'button' }
+		});
+		setIcon(refreshButton, 'refresh-cw');
+		refreshButton.addEventListener('click', () => {
+			void this.refresh();
+		});
+
+		this.summaryEl = container.createEl('div', { cls: 'local-llm-index-summary' });
+
+		const table = container.createEl('table', { cls: 'local-llm-index-table' });
+		const headerRow = table.createEl('thead').createEl('tr');
+		for (const column of COLUMNS) {
+			const cell = headerRow.createEl('th', { cls: 'local-llm-index-sortable', text: column.label });
+			cell.addEventListener('click', () => {
+				this.query.ascending = this.query.sortKey === column.key ? !this.query.ascending : column.key === 'path';
+				this.query.sortKey = column.key;
+				this.renderEntries();
+			});
+			this.headerCells.set(column.key, cell);
+		}
+		headerRow.createEl('th', { text: 'Actions' });
+		this.tableBodyEl = table.createEl('tbody');
+
+		await this.refresh();
+	}
+
+	async onClose() {
+		this.headerCells.clear();
+	}
+
+	/**
+	 * Reload the entries from the index, e.g. after indexing finished
+	 */
+	async refresh(): Promise<void> {
+		if (!this.plugin.ragService) {
+			this.summaryEl.setText('The index is not loaded yet.');
+			return;
+		}
+
+		try {
+			this.entries = await this.plugin.ragService.getIndexInspectorEntries();
+		} catch (error) {
+			LoggingUtility.error('Failed to load index inspector entries:', error);
+			this.summaryEl.setText(`Could not read the index: ${error.message}`);
+			return;
+		}
+		this.renderEntries();
+	}
+
+	private createSelect(parent: HTMLElement, label: string, options: Record<string, string>): HTMLSelectElement {
+		const select = parent.createEl('select', { cls: 'dropdown local-llm-index-filter', attr: { 'aria-label': label } });
+		for (const value of Object.keys(options)) {
+			select.createEl('option', { text: options[value], attr: { value } });
+		}
+		return select;
+	}
+
+	private renderEntries(): void {
+		const visible = filterIndexInspectorEntries(this.entries, this.query);
+		const counts = { indexed: 0, 'not-indexed': 0, failed: 0, excluded: 0 };
+		this.entries.forEach(entry => counts[entry.status]++);
+		this.summaryEl.setText(`Showing ${visible.length} of ${this.entries.length} files · ${counts.indexed} indexed, ` +
+			`${counts['not-indexed']} not indexed, ${counts.failed} failed, ${counts.excluded} excluded`);
+
+		this.headerCells.forEach((cell, key) => {
+			cell.toggleClass('local-llm-index-sorted', key === this.query.sortKey);
+			cell.setAttribute('aria-sort', key !== this.query.sortKey ? 'none' : this.query.ascending ? 'ascending' : 'descending');
+		});
+
+		this.tableBodyEl.empty();
+		if (visible.length === 0) {
+			const cell = this.tableBodyEl.createEl('tr').createEl('td', {
+				cls: 'local-llm-index-empty',
+				text: this.entries.length === 0 ? 'Nothing is indexed yet' : 'No files match the filters'
+			});
+			cell.setAttribute('colspan', String(COLUMNS.length + 1));
+			return;
+		}
+
+		for (const entry of visible) {
+			this.renderEntry(entry);
+		}
+	}
+
+	private renderEntry(entry: IndexInspectorEntry): void {
+		const row = this.tableBodyEl.createEl('tr', {
+			cls: `local-llm-index-row local-llm-index-status-${entry.status}`,
+			attr: { 'data-path': entry.path }
+		});
+
+		const pathCell = row.createEl('td', { cls: 'local-llm-index-path' });
+		const link = pathCell.createEl('a', { text: entry.path, attr: { href: '#' } });
+		link.addEventListener('click', (event) => {
+			event.preventDefault();
+			void this.app.workspace.openLinkText(entry.path, '', false);
+		});
+		if (entry.checksum) {
+			pathCell.createEl('div', { cls: 'local-llm-index-meta', text: `Checksum ${entry.checksum}` });
+		}
+		if (entry.lastError) {
+			const { error, attempts, lastAttempt, nextRetry } = entry.lastError;
+			pathCell.createEl('div', {
+				cls: 'local-llm-index-error',
+				text: `${new Date(lastAttempt).toLocaleString()}: ${error} (${attempts} ${attempts === 1 ? 'attempt' : 'attempts'}, next retry ${new Date(nextRetry).toLocaleString()})`
+			});
+		}
+
+		row.createEl('td', { text: SOURCE_TYPE_LABELS[entry.sourceType] });
+		row.createEl('td', { text: STATUS_LABELS[entry.status] });
+		row.createEl('td', { cls: 'local-llm-index-number', text: String(entry.chunkCount) });
+		row.createEl('td', { text: entry.lastIndexed ? new Date(entry.lastIndexed).toLocaleString() : '—' });
+
+		const actionsCell = row.createEl('td', { cls: 'local-llm-index-actions' });
+		this.createAction(actionsCell, 'file-text', 'Open file', () => this.app.workspace.openLinkText(entry.path, '', false));
+		if (entry.chunkCount > 0) {
+			this.createAction(actionsCell, 'list', 'View chunks', () => this.toggleChunks(entry));
+		}
+		if (entry.status !== 'excluded') {
+			this.createAction(actionsCell, 'refresh-cw', 'Reindex now', () => this.reindex(entry));
+			this.createAction(actionsCell, 'eye-off', 'Exclude from index', () => this.exclude(entry));
+		}
+
+		if (this.expandedPath === entry.path) {
+			void this.renderChunks(entry, row);
+		}
+	}
+
+	private createAction(parent: HTMLElement, icon: string, label: string, action: () => unknown): void {
+		const button = parent.createEl('button', {
+			cls: 'local-llm-index-action',
+			attr: { 'aria-label': label, 'type': 'button' }
+		});
+		setIcon(button, icon);
+		button.addEventListener('click', () => {
+			void action();
+		});
+	}
+
+	private toggleChunks(entry: IndexInspectorEntry): void {
+		this.expandedPath = this.expandedPath === entry.path ? null : entry.path;
+		this.renderEntries();
+	}
+
+	private async renderChunks(entry: IndexInspectorEntry, row: HTMLElement): Promise<void> {
+		const detailRow = document.createElement('tr');
+		detailRow.className = 'local-llm-index-chunks-row';
+		row.after(detailRow);
+		const cell = detailRow.createEl('td', { cls: 'local-llm-index-chunks' });
+		cell.setAttribute('colspan', String(COLUMNS.length + 1));
+
+		try {
+			const chunks = await this.plugin.ragService.getFileChunks(entry.path);
+			if (chunks.length === 0) {
+				cell.createEl('div', { cls: 'local-llm-index-empty', text: 'No chunks stored for this file' });
+				return;
+			}
+			for (const chunk of chunks) {
+				const chunkEl = cell.createEl('div', { cls: 'local-llm-index-chunk' });
+				const details = [`#${chunk.index}`];
+				if (chunk.pageNumber) {
+					details.push(`page ${chunk.pageNumber}`);
+				}
+				if (chunk.headingPath.length > 0) {
+					details.push(ChunkingUtility.formatHeadingPath(chunk.headingPath));
+				}
+				if (chunk.originPath) {
+					details.push(`embedded from ${chunk.originPath}`);
+				}
+				chunkEl.createEl('div', { cls: 'local-llm-index-meta', text: details.join(' · ') });
+				chunkEl.createEl('pre', { cls: 'local-llm-index-chunk-text', text: chunk.text });
+			}
+		} catch (error) {
+			LoggingUtility.error(`Failed to load chunks for ${entry.path}:`, error);
+			cell.createEl('div', { cls: 'local-llm-index-error', text: `Could not load chunks: ${error.message}` });
+		}
+	}
+
+	private async reindex(entry: IndexInspectorEntry): Promise<void> {
+		try {
+			new Notice(`Reindexing ${entry.path}...`);
+			await this.plugin.ragService.reindexFile(entry.path);
+			new Notice(`Reindexed ${entry.path}`);
+		} catch (error) {
+			LoggingUtility.error(`Failed to reindex ${entry.path}:`, error);
+			new Notice(`Could not reindex ${entry.path}: ${error.message}`);
+		}
+		await this.refresh();
+	}
+
+	/**
+	 * Add the file to the excluded files and drop its chunks
+	 */
+	private async exclude(entry: IndexInspectorEntry): Promise<void> {
+		const excludedFiles = this.plugin.settings.excludedFiles || [];
+		if (excludedFiles.indexOf(entry.path) === -1) {
+			this.plugin.settings.excludedFiles = excludedFiles.concat(entry.path);
+			await this.plugin.saveSettings();
+		}
+
+		try {
+			await this.plugin.ragService.removeFileFromIndex(entry.path);
+			new Notice(`Excluded ${entry.path} from the index. Remove it from "Excluded files" to index it again.`);
+		} catch (error) {
+			LoggingUtility.error(`Failed to remove ${entry.path} from the index:`, error);
+			new Notice(`Could not remove ${entry.path} from the index: ${error.message}`);
+		}
+		await this.refresh();
+	}
+}
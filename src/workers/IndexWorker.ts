@@ -0,0 +1,81 @@
+import { IndexStorage, INDEX_STORAGE_OPERATIONS } from '../db/IndexStorage';
+import { LoggingUtility } from '../utils/LoggingUtility';
+import { IndexWorkerHost } from './IndexWorkerHost';
+import { MainToWorkerMessage, WorkerToMainMessage, getTransferables } from './IndexWorkerProtocol';
+
+// Entry point of the index worker; bundled separately and started by createIndexWorker()
+
+interface WorkerScope {
+	postMessage(message: WorkerToMainMessage, transfer?: Transferable[]): void;
+	onmessage: ((event: MessageEvent<MainToWorkerMessage>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+const pendingStorage = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+let nextStorageId = 1;
+let host: IndexWorkerHost | null = null;
+
+function reply(message: WorkerToMainMessage): void {
+	try {
+		scope.postMessage(message);
+	} catch (error) {
+		// A result that cannot be copied to the main thread still has to settle the request
+		if (message.type === 'result') {
+			scope.postMessage({ type: 'error', id: message.id, message: `Could not return the result: ${error instanceof Error ? error.message : String(error)}` });
+		}
+	}
+}
+
+/**
+ * IndexStorage that forwards every operation to the main thread
+ */
+function createRemoteStorage(): IndexStorage {
+	const storage = {} as Record<keyof IndexStorage, (...args: unknown[]) => Promise<unknown>>;
+	for (const operation of INDEX_STORAGE_OPERATIONS) {
+		storage[operation] = (...args: unknown[]) => new Promise((resolve, reject) => {
+			const id = nextStorageId++;
+			pendingStorage.set(id, { resolve, reject });
+			scope.postMessage({ type: 'storage', id, operation, args }, getTransferables(args));
+		});
+	}
+	return storage as unknown as IndexStorage;
+}
+
+scope.onmessage = (event) => {
+	const message = event.data;
+	switch (message.type) {
+		case 'init':
+			LoggingUtility.initialize();
+			LoggingUtility.setDeveloperLoggingEnabled(message.developerLogging);
+			host = new IndexWorkerHost(message.dbPath, createRemoteStorage());
+			scope.postMessage({ type: 'ready' });
+			return;
+		case 'logging':
+			LoggingUtility.setDeveloperLoggingEnabled(message.enabled);
+			return;
+		case 'storage-result':
+		case 'storage-error': {
+			const pending = pendingStorage.get(message.id);
+			pendingStorage.delete(message.id);
+			if (pending) {
+				if (message.type === 'storage-result') {
+					pending.resolve(message.value);
+				} else {
+					pending.reject(new Error(message.message));
+				}
+			}
+			return;
+		}
+		default: {
+			const request = message;
+			if (!host) {
+				reply({ type: 'error', id: request.id, message: 'Index worker received a request before init' });
+				return;
+			}
+			host.handle(request).then(
+				value => reply({ type: 'result', id: request.id, value }),
+				error => reply({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) })
+			);
+		}
+	}
+};
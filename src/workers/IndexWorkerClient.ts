@@ -0,0 +1,260 @@
+import { IndexStorage } from '../db/IndexStorage';
+import { MarkdownSegment, PreparedChunks } from '../utils/ChunkingUtility';
+import { LoggingUtility } from '../utils/LoggingUtility';
+import {
+	AsyncVectorDatabase,
+	IndexWorkerRequest,
+	VECTOR_DATABASE_METHODS,
+	VECTOR_DATABASE_MUTATIONS,
+	VectorDatabaseMethod,
+	WorkerToMainMessage,
+	getTransferables
+} from './IndexWorkerProtocol';
+
+/**
+ * Runs index requests directly, used when the worker cannot be started or fails
+ */
+export interface IndexRequestHandler {
+	handle(request: IndexWorkerRequest): Promise<unknown>;
+}
+
+export interface IndexWorkerClientOptions {
+	createWorker?: () => Worker;
+	createInProcessHost: () => IndexRequestHandler;
+}
+
+interface PendingRequest {
+	resolve: (value: any) => void;
+	reject: (error: Error) => void;
+}
+
+/**
+ * Main-thread side of the index worker. The database, chunking and checksums run in the worker so that
+ * indexing and search do not block typing; the worker's file operations are served here. Falls back to
+ * running everything in-process when no worker can be started, or when a running worker fails.
+ */
+export class IndexWorkerClient {
+	readonly db: AsyncVectorDatabase;
+	private dbPath: string;
+	private storage: IndexStorage;
+	private options: IndexWorkerClientOptions;
+	private worker: Worker | null = null;
+	private inProcessHost: IndexRequestHandler | null = null;
+	private starting: Promise<void> | null = null;
+	private terminated: boolean = false;
+	private databaseLoaded: boolean = false;
+	private pending: Map<number, PendingRequest> = new Map();
+	private nextId: number = 1;
+	private developerLogging: boolean = false;
+	private changeListeners: (() => void)[] = [];
+
+	constructor(dbPath: string, storage: IndexStorage, options: IndexWorkerClientOptions) {
+		this.dbPath = dbPath;
+		this.storage = storage;
+		this.options = options;
+
+		const db = {} as Record<VectorDatabaseMethod, (...args: unknown[]) => Promise<unknown>>;
+		for (const method of VECTOR_DATABASE_METHODS) {
+			db[method] = (...args: unknown[]) => this.callDatabase(method, args);
+		}
+		this.db = db as unknown as AsyncVectorDatabase;
+	}
+
+	/**
+	 * Called after every database call that may have changed the index
+	 */
+	onDidChange(listener: () => void): void {
+		this.changeListeners.push(listener);
+	}
+
+	prepareChunks(filePath: string, content: string | MarkdownSegment[]): Promise<PreparedChunks> {
+		return this.send({ id: this.nextId++, type: 'chunk', filePath, content });
+	}
+
+	/**
+	 * CRC32 as lowercase hex. An ArrayBuffer is moved to the worker and cannot be used afterwards.
+	 */
+	checksum(data: ArrayBuffer | string): Promise<string> {
+		return this.send({ id: this.nextId++, type: 'checksum', data }, getTransferables([data]));
+	}
+
+	isUsingWorker(): boolean {
+		return this.worker !== null;
+	}
+
+	/**
+	 * Stop the worker for good; requests still waiting, and later ones, are rejected.
+	 * Close the database first so its changes are written.
+	 */
+	terminate(): void {
+		this.terminated = true;
+		if (this.worker) {
+			this.worker.terminate();
+			this.worker = null;
+		}
+		this.rejectPending(new Error('Index worker stopped'));
+	}
+
+	private async callDatabase(method: VectorDatabaseMethod, args: unknown[]): Promise<unknown> {
+		const value = await this.send({ id: this.nextId++, type: 'db', method, args });
+		if (method === 'load' || method === 'close') {
+			this.databaseLoaded = method === 'load';
+		}
+		if (VECTOR_DATABASE_MUTATIONS.indexOf(method) !== -1) {
+			for (const listener of this.changeListeners) {
+				listener();
+			}
+		}
+		return value;
+	}
+
+	private async send<T>(request: IndexWorkerRequest, transfer: Transferable[] = []): Promise<T> {
+		await this.start();
+		if (this.terminated) {
+			throw new Error('Index worker stopped');
+		}
+		if (!this.worker) {
+			return this.getInProcessHost().handle(request) as Promise<T>;
+		}
+
+		const worker = this.worker;
+		const developerLogging = LoggingUtility.isDeveloperLoggingEnabled();
+		if (developerLogging !== this.developerLogging) {
+			this.developerLogging = developerLogging;
+			worker.postMessage({ type: 'logging', enabled: developerLogging });
+		}
+		return new Promise<T>((resolve, reject) => {
+			this.pending.set(request.id, { resolve, reject });
+			try {
+				worker.postMessage(request, transfer);
+			} catch (error) {
+				this.pending.delete(request.id);
+				reject(error);
+			}
+		});
+	}
+
+	private start(): Promise<void> {
+		if (!this.starting) {
+			this.starting = this.startWorker();
+		}
+		return this.starting;
+	}
+
+	private startWorker(): Promise<void> {
+		if (this.inProcessHost || !this.options.createWorker) {
+			return Promise.resolve();
+		}
+
+		let worker: Worker;
+		try {
+			worker = this.options.createWorker();
+		} catch (error) {
+			LoggingUtility.warn('Could not start the index worker, indexing on the main thread:', error);
+			return Promise.resolve();
+		}
+
+		return new Promise<void>(resolve => {
+			let ready = false;
+			worker.onmessage = (event: MessageEvent<WorkerToMainMessage>) => {
+				if (event.data.type === 'ready') {
+					ready = true;
+					this.worker = worker;
+					resolve();
+					return;
+				}
+				this.handleMessage(worker, event.data);
+			};
+			worker.onerror = (event: ErrorEvent) => {
+				event.preventDefault();
+				if (!ready) {
+					LoggingUtility.warn('Index worker failed to start, indexing on the main thread:', event.message);
+					worker.terminate();
+					resolve();
+					return;
+				}
+				this.handleWorkerFailure(worker, event.message || 'unknown error');
+			};
+			// A reply that cannot be read would leave its request waiting forever
+			worker.onmessageerror = () => {
+				if (ready) {
+					this.handleWorkerFailure(worker, 'a reply could not be read');
+				}
+			};
+
+			this.developerLogging = LoggingUtility.isDeveloperLoggingEnabled();
+			worker.postMessage({ type: 'init', dbPath: this.dbPath, developerLogging: this.developerLogging });
+		});
+	}
+
+	/**
+	 * Stop a worker that failed after starting and carry on in-process. Waiting requests are rejected, and the
+	 * index is reopened from disk; changes the worker had not written yet are redone by the next index update.
+	 */
+	private handleWorkerFailure(worker: Worker, reason: string): void {
+		if (this.worker !== worker) {
+			return;
+		}
+
+		LoggingUtility.error(`Index worker failed (${reason}), indexing on the main thread from now on`);
+		worker.terminate();
+		this.worker = null;
+		this.rejectPending(new Error(`Index worker failed: ${reason}`));
+
+		if (!this.databaseLoaded) {
+			return;
+		}
+		this.starting = this.getInProcessHost()
+			.handle({ id: this.nextId++, type: 'db', method: 'load', args: [] })
+			.then(
+				() => {
+					for (const listener of this.changeListeners) {
+						listener();
+					}
+				},
+				(error: unknown) => LoggingUtility.error('Could not reopen the index on the main thread:', error)
+			);
+	}
+
+	private handleMessage(worker: Worker, message: WorkerToMainMessage): void {
+		switch (message.type) {
+			case 'storage': {
+				const operation = this.storage[message.operation] as (...args: unknown[]) => Promise<unknown>;
+				operation.apply(this.storage, message.args).then(
+					(value: unknown) => worker.postMessage({ type: 'storage-result', id: message.id, value }),
+					(error: unknown) => worker.postMessage({ type: 'storage-error', id: message.id, message: error instanceof Error ? error.message : String(error) })
+				);
+				return;
+			}
+			case 'result':
+			case 'error': {
+				const pending = this.pending.get(message.id);
+				this.pending.delete(message.id);
+				if (!pending) {
+					return;
+				}
+				if (message.type === 'result') {
+					pending.resolve(message.value);
+				} else {
+					pending.reject(new Error(message.message));
+				}
+				return;
+			}
+		}
+	}
+
+	private getInProcessHost(): IndexRequestHandler {
+		if (!this.inProcessHost) {
+			this.inProcessHost = this.options.createInProcessHost();
+		}
+		return this.inProcessHost;
+	}
+
+	private rejectPending(error: Error): void {
+		const pending = Array.from(this.pending.values());
+		this.pending.clear();
+		for (const request of pending) {
+			request.reject(error);
+		}
+	}
+}
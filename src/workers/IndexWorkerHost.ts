@@ -0,0 +1,38 @@
+import * as CRC32 from 'crc-32';
+import { UnifiedVectorDatabase } from '../db/UnifiedVectorDatabase';
+import { IndexStorage } from '../db/IndexStorage';
+import { ChunkingUtility } from '../utils/ChunkingUtility';
+import { IndexWorkerRequest } from './IndexWorkerProtocol';
+
+/**
+ * CRC32 of a file's bytes or of a string, as lowercase hex
+ */
+export function calculateChecksum(data: ArrayBuffer | string): string {
+	const crc = typeof data === 'string' ? CRC32.str(data) : CRC32.buf(new Uint8Array(data));
+	return (crc >>> 0).toString(16);
+}
+
+/**
+ * Owns the database and runs index requests. Lives in the index worker, or on the main thread when
+ * workers are unavailable.
+ */
+export class IndexWorkerHost {
+	private db: UnifiedVectorDatabase;
+
+	constructor(dbPath: string, storage: IndexStorage) {
+		this.db = new UnifiedVectorDatabase(dbPath, storage);
+	}
+
+	async handle(request: IndexWorkerRequest): Promise<unknown> {
+		switch (request.type) {
+			case 'db': {
+				const method = this.db[request.method] as (...args: unknown[]) => unknown;
+				return method.apply(this.db, request.args);
+			}
+			case 'chunk':
+				return ChunkingUtility.prepareChunks(request.filePath, request.content);
+			case 'checksum':
+				return calculateChecksum(request.data);
+		}
+	}
+}
@@ -0,0 +1,111 @@
+import type { UnifiedVectorDatabase } from '../db/UnifiedVectorDatabase';
+import type { IndexStorage } from '../db/IndexStorage';
+import type { MarkdownSegment } from '../utils/ChunkingUtility';
+
+/**
+ * Database methods the main thread may call; each call is forwarded to the worker
+ */
+export const VECTOR_DATABASE_METHODS = [
+	'load',
+	'close',
+	'flush',
+	'save',
+	'clear',
+	'isLoaded',
+	'getRecoveryReport',
+	'getStats',
+	'getSourceTypeStats',
+	'getDimension',
+	'getIndexFingerprint',
+	'setIndexFingerprint',
+	'upsertFileDocuments',
+	'removeFileDocuments',
+	'removeSourceTypeDocuments',
+	'removeObsoleteDocuments',
+	'renameFileDocuments',
+	'renameFolderDocuments',
+	'getFileDocuments',
+	'getIndexedFiles',
+	'getStoredVectorsByContentHash',
+	'getEmbeddingFilePaths',
+	'getFilesNeedingUpdate',
+	'getFileFilterMetadata',
+	'updateFileFilterMetadata',
+	'search',
+	'hybridSearch',
+	'searchGroupedByFile',
+	'getCachedEmbeddings',
+	'putCachedEmbeddings',
+	'pruneEmbeddingCache',
+	'clearEmbeddingCache',
+	'getEmbeddingCacheStats',
+	'getCachedImageText',
+	'putCachedImageText',
+	'getIndexFailures',
+	'putIndexFailure',
+	'removeIndexFailure'
+] as const;
+
+export type VectorDatabaseMethod = typeof VECTOR_DATABASE_METHODS[number];
+
+// Calls after which the index statistics may have changed
+export const VECTOR_DATABASE_MUTATIONS: VectorDatabaseMethod[] = [
+	'load',
+	'flush',
+	'clear',
+	'upsertFileDocuments',
+	'removeFileDocuments',
+	'removeSourceTypeDocuments',
+	'removeObsoleteDocuments',
+	'renameFileDocuments',
+	'renameFolderDocuments',
+	'putCachedEmbeddings',
+	'pruneEmbeddingCache',
+	'clearEmbeddingCache',
+	'putIndexFailure',
+	'removeIndexFailure'
+];
+
+/**
+ * The database as seen from the main thread: the same methods, all returning promises
+ */
+export type AsyncVectorDatabase = {
+	[K in VectorDatabaseMethod]: (...args: Parameters<UnifiedVectorDatabase[K]>) => Promise<Awaited<ReturnType<UnifiedVectorDatabase[K]>>>;
+};
+
+/**
+ * Work the main thread hands to the worker
+ */
+export type IndexWorkerRequest =
+	| { id: number; type: 'db'; method: VectorDatabaseMethod; args: unknown[] }
+	| { id: number; type: 'chunk'; filePath: string; content: string | MarkdownSegment[] }
+	| { id: number; type: 'checksum'; data: ArrayBuffer | string };
+
+export type MainToWorkerMessage =
+	| IndexWorkerRequest
+	| { type: 'init'; dbPath: string; developerLogging: boolean }
+	| { type: 'logging'; enabled: boolean }
+	| { type: 'storage-result'; id: number; value: unknown }
+	| { type: 'storage-error'; id: number; message: string };
+
+export type WorkerToMainMessage =
+	| { type: 'ready' }
+	| { type: 'result'; id: number; value: unknown }
+	| { type: 'error'; id: number; message: string }
+	// The worker has no file system access and asks the main thread to do file operations
+	| { type: 'storage'; id: number; operation: keyof IndexStorage; args: unknown[] };
+
+/**
+ * Buffers that can be moved to the other thread instead of copied: only ones no other view shares
+ */
+export function getTransferables(values: unknown[]): Transferable[] {
+	const transferables: Transferable[] = [];
+	for (const value of values) {
+		if (value instanceof ArrayBuffer) {
+			transferables.push(value);
+		} else if (value instanceof Uint8Array && value.byteOffset === 0 && value.byteLength === value.buffer.byteLength) {
+			transferables.push(value.buffer as ArrayBuffer);
+		}
+	}
+	return transferables;
+}
@@ -0,0 +1,14 @@
+import indexWorkerCode from 'inline-worker:./IndexWorker';
+
+/**
+ * Start the index worker from its bundled source. The worker is inlined into main.js by the build,
+ * so no extra file has to be shipped with the plugin.
+ */
+export function createIndexWorker(): Worker {
+	const url = URL.createObjectURL(new Blob([indexWorkerCode], { type: 'text/javascript' }));
+	const worker = new Worker(url);
+	const revoke = () => URL.revokeObjectURL(url);
+	worker.addEventListener('message', revoke, { once: true });
+	worker.addEventListener('error', revoke, { once: true });
+	return worker;
+}
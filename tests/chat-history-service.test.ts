@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ChatHistoryService, StoredChatMessage } from '../src/services/ChatHistoryService';
+
+function createAppStub(initialFiles: Record<string, string> = {}) {
+  const files = new Map<string, string>(Object.entries(initialFiles));
+  return {
+    files,
+    app: {
+      vault: {
+        configDir: '.obsidian',
+        adapter: {
+          exists: vi.fn(async (path: string) => files.has(path)),
+          read: vi.fn(async (path: string) => files.get(path) ?? ''),
+          write: vi.fn(async (path: string, data: string) => {
+            files.set(path, data);
+          })
+        }
+      }
+    }
+  };
+}
+
+const manifest = { id: 'private-ai', dir: '.obsidian/plugins/private-ai' };
+const historyPath = '.obsidian/plugins/private-ai/chat-history.json';
+
+function message(role: 'user' | 'assistant', content: string): StoredChatMessage {
+  return { id: `${role}-${content}`, role, content, timestamp: 1 };
+}
+
+describe('ChatHistoryService', () => {
+  it('saves conversations to the plugin folder and titles them from the first question', async () => {
+    const { app, files } = createAppStub();
+    const service = new ChatHistoryService(app as any, manifest as any);
+
+    await service.saveConversation('c1', [message('user', 'What did we decide?'), message('assistant', 'Ship it')]);
+
+    const written = JSON.parse(files.get(historyPath) ?? '{}');
+    expect(written.conversations).toHaveLength(1);
+    expect(written.conversations[0].title).toBe('What did we decide?');
+
+    const reloaded = new ChatHistoryService(app as any, manifest as any);
+    const conversation = await reloaded.getConversation('c1');
+    expect(conversation?.messages[1].content).toBe('Ship it');
+  });
+
+  it('searches titles and message content, newest first', async () => {
+    const { app } = createAppStub();
+    const service = new ChatHistoryService(app as any, manifest as any);
+
+    await service.saveConversation('old', [message('user', 'Budget review'), message('assistant', 'Numbers look fine')]);
+    await new Promise(resolve => setTimeout(resolve, 2));
+    await service.saveConversation('new', [message('user', 'Trip planning')]);
+
+    expect((await service.listConversations()).map(c => c.id)).toEqual(['new', 'old']);
+    expect((await service.listConversations('numbers')).map(c => c.id)).toEqual(['old']);
+    expect((await service.listConversations('trip')).map(c => c.id)).toEqual(['new']);
+  });
+
+  it('renames and deletes conversations', async () => {
+    const { app } = createAppStub();
+    const service = new ChatHistoryService(app as any, manifest as any);
+
+    await service.saveConversation('c1', [message('user', 'First question')]);
+    await service.renameConversation('c1', '  Renamed chat  ');
+    await service.saveConversation('c1', [message('user', 'First question'), message('assistant', 'Answer')]);
+
+    expect((await service.getConversation('c1'))?.title).toBe('Renamed chat');
+
+    await service.deleteConversation('c1');
+    expect(await service.listConversations()).toEqual([]);
+  });
+});
@@ -2,7 +2,9 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 const llmMock = {
   testConnection: vi.fn(),
-  sendMessageStream: vi.fn()
+  sendMessageStream: vi.fn(),
+  countTokens: vi.fn(async () => null),
+  getContextWindow: vi.fn(async () => null)
 };
 
 vi.mock('../src/main', () => ({
@@ -19,7 +21,26 @@ vi.mock('../src/services/LLMService', () => ({
 }));
 
 import { ChatView } from '../src/views/ChatView';
-import { WorkspaceLeaf } from 'obsidian';
+import { ChatHistoryService } from '../src/services/ChatHistoryService';
+import { createLLMService } from '../src/services/LLMService';
+import { MarkdownView, TFile, WorkspaceLeaf } from 'obsidian';
+
+function createHistoryServiceStub() {
+  const files = new Map<string, string>();
+  const app = {
+    vault: {
+      configDir: '.obsidian',
+      adapter: {
+        exists: vi.fn(async (path: string) => files.has(path)),
+        read: vi.fn(async (path: string) => files.get(path) ?? ''),
+        write: vi.fn(async (path: string, data: string) => {
+          files.set(path, data);
+        })
+      }
+    }
+  };
+  return new ChatHistoryService(app as any, { id: 'private-ai', dir: '.obsidian/plugins/private-ai' } as any);
+}
 
 function createPluginStub() {
   return {
@@ -27,6 +48,7 @@ function createPluginStub() {
       apiEndpoint: 'http://localhost:1234/v1/chat/completions',
       apiKey: '',
       maxTokens: 2048,
+      contextWindow: 8192,
       temperature: 0.7,
       systemPrompt: 'Be concise',
       model: undefined,
@@ -38,8 +60,11 @@ function createPluginStub() {
     },
     ragService: {
       isCurrentlyIndexing: false,
-      getStats: () => ({ documentCount: 0, fileCount: 0 })
+      getStats: () => ({ documentCount: 0, fileCount: 0 }),
+      getIndexRecoveryReport: vi.fn(() => null),
+      dismissIndexRecoveryReport: vi.fn()
     },
+    chatHistoryService: createHistoryServiceStub(),
     saveSettings: vi.fn(async () => undefined)
   };
 }
@@ -91,6 +116,27 @@ describe('Obsidian chat smoke test', () => {
     expect(content).toContain("What's on your mind?");
   });
 
+  it('reports a restored index in the RAG status area until dismissed', async () => {
+    llmMock.testConnection.mockResolvedValue({ success: true });
+
+    const plugin = createPluginStub();
+    let report: any = { outcome: 'restored', reason: 'integrity check failed', backupTime: Date.now(), at: Date.now() };
+    plugin.ragService.getIndexRecoveryReport = vi.fn(() => report);
+    plugin.ragService.dismissIndexRecoveryReport = vi.fn(() => { report = null; });
+    const view = new ChatView(new WorkspaceLeaf(createAppStub()) as any, plugin as any);
+
+    await view.onOpen();
+
+    const statusArea = view.containerEl.querySelector('.local-llm-rag-status-area') as HTMLElement;
+    expect(statusArea.classList.contains('local-llm-rag-status-visible')).toBe(true);
+    expect(statusArea.textContent).toContain('Restored the backup');
+
+    (statusArea.querySelector('button') as HTMLButtonElement).click();
+
+    expect(plugin.ragService.dismissIndexRecoveryReport).toHaveBeenCalled();
+    expect(statusArea.classList.contains('local-llm-rag-status-hidden')).toBe(true);
+  });
+
   it('sends a prompt and streams assistant response', async () => {
     llmMock.testConnection.mockResolvedValue({ success: true });
     llmMock.sendMessageStream.mockImplementation(async (_message: string, _history: any[], callback: (chunk: string, done: boolean) => Promise<void>) => {
@@ -302,4 +348,208 @@ describe('Obsidian chat smoke test', () => {
     expect(rendered).not.toContain('<think>');
     expect(rendered).not.toContain('</think>');
   });
+
+  it('saves the conversation and reopens it from chat history', async () => {
+    llmMock.testConnection.mockResolvedValue({ success: true });
+    llmMock.sendMessageStream.mockImplementation(async (_message: string, _history: any[], callback: (chunk: string, done: boolean) => Promise<void>) => {
+      await callback('<think>Consider the question</think>Saved answer', false);
+      await callback('', true);
+    });
+
+    const app = createAppStub();
+    const leaf = new WorkspaceLeaf(app);
+    const plugin = createPluginStub();
+    const view = new ChatView(leaf as any, plugin as any);
+
+    await view.onOpen();
+
+    const input = view.containerEl.querySelector('textarea') as HTMLTextAreaElement;
+    const sendButton = view.containerEl.querySelector('.local-llm-send-button') as HTMLButtonElement;
+    input.value = 'remember me';
+    sendButton.click();
+    await flushRenderTicks(3);
+
+    const saved = await plugin.chatHistoryService.listConversations();
+    expect(saved.length).toBe(1);
+    expect(saved[0].title).toBe('remember me');
+    expect(saved[0].messages.map(m => m.role)).toEqual(['user', 'assistant']);
+    expect(saved[0].messages[1].thinkingBlocks).toEqual(['Consider the question']);
+
+    const newChatButton = view.containerEl.querySelector('.local-llm-new-chat-button') as HTMLButtonElement;
+    newChatButton.click();
+    await flushRenderTicks(3);
+    expect(view.containerEl.textContent ?? '').not.toContain('Saved answer');
+
+    const historyButton = view.containerEl.querySelector('.local-llm-history-button') as HTMLButtonElement;
+    historyButton.click();
+    await flushRenderTicks(2);
+
+    const historyItem = view.containerEl.querySelector('.local-llm-history-item') as HTMLElement;
+    expect(historyItem.textContent ?? '').toContain('remember me');
+    historyItem.click();
+    await flushRenderTicks(2);
+
+    const rendered = view.containerEl.querySelector('.local-llm-messages')?.textContent ?? '';
+    expect(rendered).toContain('remember me');
+    expect(rendered).toContain('Saved answer');
+    expect(rendered).toContain('Thought process');
+  });
+
+  it('links inline citations to the cited note and opens it at the chunk', async () => {
+    llmMock.testConnection.mockResolvedValue({ success: true });
+    llmMock.sendMessageStream.mockImplementation(async (_message: string, _history: any[], callback: (chunk: string, done: boolean) => Promise<void>) => {
+      await callback('Launch is in May [1]. Ignore [7].', false);
+      await callback('', true);
+    });
+
+    const noteContent = '# Roadmap\n\nLaunch is planned for May.\nMore text';
+    const noteFile = Object.assign(new TFile(), { path: 'Projects/Roadmap.md', basename: 'Roadmap', extension: 'md' });
+    const app = createAppStub();
+    app.workspace.getLeavesOfType = vi.fn(() => [{ view: new MarkdownView(noteFile) }]) as any;
+    (app.vault as any).getAbstractFileByPath = vi.fn(() => noteFile);
+    app.vault.cachedRead = vi.fn(async () => noteContent);
+
+    const plugin = createPluginStub();
+    plugin.settings.contextMode = 'open-notes';
+    const leaf = new WorkspaceLeaf(app);
+    const view = new ChatView(leaf as any, plugin as any);
+
+    await view.onOpen();
+
+    const input = view.containerEl.querySelector('textarea') as HTMLTextAreaElement;
+    const sendButton = view.containerEl.querySelector('.local-llm-send-button') as HTMLButtonElement;
+    input.value = 'when is launch?';
+    sendButton.click();
+    await flushRenderTicks(3);
+
+    expect(llmMock.sendMessageStream.mock.calls[0][0]).toContain('[1] **Roadmap** (Projects/Roadmap.md)');
+    expect(llmMock.sendMessageStream.mock.calls[0][1]).toEqual([]);
+    const breakdown = view.containerEl.querySelector('.local-llm-token-breakdown') as HTMLElement;
+    expect(breakdown.classList.contains('local-llm-token-breakdown-hidden')).toBe(false);
+    expect(breakdown.textContent).toMatch(/Notes ~\d+/);
+    const contextSegment = breakdown.querySelector('.local-llm-token-segment-context') as HTMLElement;
+    expect(contextSegment.style.getPropertyValue('--segment-width')).toMatch(/%$/);
+    expect(contextSegment.style.width).toBe('');
+
+    const citations = view.containerEl.querySelectorAll('.local-llm-citation');
+    expect(citations.length).toBe(1);
+    expect(citations[0].textContent).toBe('[1]');
+    expect(view.containerEl.textContent ?? '').toContain('Ignore [7].');
+
+    (citations[0] as HTMLElement).click();
+    await flushRenderTicks(2);
+
+    expect(app.workspace.openLinkText).toHaveBeenCalledWith('Projects/Roadmap.md', '', true, { eState: { line: 0 } });
+  });
+
+  it('leaves open notes marked private out of the prompt', async () => {
+    llmMock.testConnection.mockResolvedValue({ success: true });
+    llmMock.sendMessageStream.mockImplementation(async (_message: string, _history: any[], callback: (chunk: string, done: boolean) => Promise<void>) => {
+      await callback('', true);
+    });
+
+    const plan = Object.assign(new TFile(), { path: 'Plan.md', basename: 'Plan', extension: 'md' });
+    const diary = Object.assign(new TFile(), { path: 'Diary.md', basename: 'Diary', extension: 'md' });
+    const draft = Object.assign(new TFile(), { path: 'Draft.md', basename: 'Draft', extension: 'md' });
+    const app = createAppStub();
+    app.workspace.getLeavesOfType = vi.fn((type: string) => type === 'markdown'
+      ? [plan, diary, draft].map(file => ({ view: new MarkdownView(file) }))
+      : []) as any;
+    app.vault.cachedRead = vi.fn(async (file: any) => `Content of ${file.basename}`);
+    app.metadataCache.getFileCache = vi.fn((file: any) => ({
+      'Diary.md': { frontmatter: { 'private-ai': 'no-send' } },
+      'Draft.md': { tags: [{ tag: '#private-ai/open-only' }] }
+    } as Record<string, any>)[file.path] ?? null) as any;
+
+    const plugin = createPluginStub();
+    plugin.settings.contextMode = 'open-notes';
+    const view = new ChatView(new WorkspaceLeaf(app) as any, plugin as any);
+
+    await view.onOpen();
+
+    const input = view.containerEl.querySelector('textarea') as HTMLTextAreaElement;
+    input.value = 'summarize my tabs';
+    (view.containerEl.querySelector('.local-llm-send-button') as HTMLButtonElement).click();
+    await flushRenderTicks(3);
+
+    const prompt = llmMock.sendMessageStream.mock.calls[0][0];
+    expect(prompt).toContain('Content of Plan');
+    expect(prompt).toContain('Content of Draft');
+    expect(prompt).not.toContain('Content of Diary');
+  });
+
+  it('turns inline query operators into removable chips that scope the vault search', async () => {
+    llmMock.testConnection.mockResolvedValue({ success: true });
+    llmMock.sendMessageStream.mockImplementation(async (_message: string, _history: any[], callback: (chunk: string, done: boolean) => Promise<void>) => {
+      await callback('Done', false);
+      await callback('', true);
+    });
+
+    const plugin = createPluginStub();
+    const ragSearch = vi.fn(async () => []);
+    Object.assign(plugin.ragService, { isIndexEmpty: () => false, search: ragSearch });
+    const leaf = new WorkspaceLeaf(createAppStub());
+    const view = new ChatView(leaf as any, plugin as any);
+
+    await view.onOpen();
+
+    const input = view.containerEl.querySelector('textarea') as HTMLTextAreaElement;
+    const sendButton = view.containerEl.querySelector('.local-llm-send-button') as HTMLButtonElement;
+    input.value = 'tag:#project-x when is launch? path:Meetings/';
+    sendButton.click();
+    await flushRenderTicks(3);
+
+    expect(ragSearch).toHaveBeenCalledWith('when is launch?', 5, 0.3, { tags: ['project-x'], folders: ['Meetings'] });
+    expect(llmMock.sendMessageStream.mock.calls[0][0]).not.toContain('tag:');
+
+    const chips = view.containerEl.querySelectorAll('.local-llm-filter-chip');
+    expect(Array.from(chips).map(chip => chip.textContent)).toEqual(['tag:#project-x', 'path:Meetings/']);
+
+    (chips[0].querySelector('.local-llm-filter-chip-remove') as HTMLButtonElement).click();
+    expect(view.containerEl.querySelectorAll('.local-llm-filter-chip').length).toBe(1);
+  });
+
+  it('switches the model profile for the current chat without changing global settings', async () => {
+    llmMock.testConnection.mockResolvedValue({ success: true });
+    llmMock.sendMessageStream.mockImplementation(async (_message: string, _history: any[], callback: (chunk: string, done: boolean) => Promise<void>) => {
+      await callback('Fast answer', false);
+      await callback('', true);
+    });
+
+    const plugin = createPluginStub();
+    Object.assign(plugin.settings, {
+      model: 'global-model',
+      modelProfiles: [{
+        id: 'fast',
+        name: 'Fast',
+        provider: 'ollama',
+        apiEndpoint: 'http://localhost:11434',
+        model: 'fast-model',
+        maxTokens: 512,
+        temperature: 0.1,
+        systemPrompt: 'Be quick'
+      }]
+    });
+    const view = new ChatView(new WorkspaceLeaf(createAppStub()) as any, plugin as any);
+
+    await view.onOpen();
+
+    const picker = view.containerEl.querySelector('.local-llm-profile-container select') as HTMLSelectElement;
+    expect(Array.from(picker.options).map(option => option.textContent)).toEqual(['Default', 'Fast']);
+    picker.value = 'fast';
+    picker.dispatchEvent(new Event('change'));
+    await flushRenderTicks(1);
+
+    const input = view.containerEl.querySelector('textarea') as HTMLTextAreaElement;
+    input.value = 'quick question';
+    (view.containerEl.querySelector('.local-llm-send-button') as HTMLButtonElement).click();
+    await flushRenderTicks(3);
+
+    const lastConfig = vi.mocked(createLLMService).mock.calls.at(-1)![0];
+    expect(lastConfig).toMatchObject({ provider: 'ollama', model: 'fast-model', systemPrompt: 'Be quick' });
+    expect(plugin.settings.model).toBe('global-model');
+
+    const [saved] = await plugin.chatHistoryService.listConversations();
+    expect(saved.profileId).toBe('fast');
+  });
 });
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import { planContextBudget, createTokenCounter, estimateTokens } from '../src/services/ContextBudgeter';
+
+// One token per word keeps the arithmetic readable
+const wordCounter = {
+  count: async (texts: string[]) => texts.map(text => text.split(/\s+/).filter(Boolean).length),
+  isExact: () => true
+};
+
+function words(count: number, word = 'w'): string {
+  return new Array(count).fill(word).join(' ');
+}
+
+function baseRequest() {
+  return {
+    contextWindow: 200,
+    responseTokens: 50,
+    contextShare: 0.5,
+    systemPrompt: words(6),
+    history: [] as Array<{ role: 'user' | 'assistant'; content: string }>,
+    question: words(6),
+    results: [] as string[],
+    resultText: (result: string) => result,
+    buildPrompt: (results: string[]) => [...results, words(6)].join(' ')
+  };
+}
+
+describe('planContextBudget', () => {
+  it('drops the lowest ranked results that do not fit the notes share', async () => {
+    const plan = await planContextBudget({
+      ...baseRequest(),
+      results: [words(30, 'a'), words(30, 'b'), words(30, 'c')]
+    }, wordCounter);
+
+    // Budget is 150 prompt tokens, so notes may use 75
+    expect(plan.results).toEqual([words(30, 'a'), words(30, 'b')]);
+    expect(plan.droppedResults).toBe(1);
+    expect(plan.breakdown).toMatchObject({ system: 10, context: 60, question: 10, budget: 150, exact: true });
+  });
+
+  it('trims the oldest turns so history fits what is left and starts on a user turn', async () => {
+    const history = [
+      { role: 'user' as const, content: words(40) },
+      { role: 'assistant' as const, content: words(40) },
+      { role: 'user' as const, content: words(20) },
+      { role: 'assistant' as const, content: words(20) }
+    ];
+    const plan = await planContextBudget({ ...baseRequest(), history }, wordCounter);
+
+    expect(plan.history).toEqual(history.slice(2));
+    expect(plan.droppedTurns).toBe(2);
+    expect(plan.breakdown.history).toBe(48);
+    expect(plan.breakdown.total).toBeLessThanOrEqual(plan.breakdown.budget);
+  });
+
+  it('keeps at least half the window for the prompt when max tokens is larger than the window', async () => {
+    const plan = await planContextBudget({ ...baseRequest(), responseTokens: 10000 }, wordCounter);
+
+    expect(plan.breakdown.budget).toBe(100);
+    expect(plan.prompt).toBe(words(6));
+  });
+});
+
+describe('createTokenCounter', () => {
+  it('falls back to estimates when the server cannot count', async () => {
+    const countExact = vi.fn(async () => null);
+    const counter = createTokenCounter(countExact);
+
+    expect(await counter.count(['abcdefgh', 'abc'])).toEqual([2, 1]);
+    expect(counter.isExact()).toBe(false);
+    expect(estimateTokens('')).toBe(0);
+  });
+
+  it('uses exact counts from the server when available', async () => {
+    const counter = createTokenCounter(async texts => texts.map(() => 7));
+
+    expect(await counter.count(['anything'])).toEqual([7]);
+    expect(counter.isExact()).toBe(true);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ConversationNoteExporter, ConversationNoteDetails } from '../src/services/ConversationNoteExporter';
+
+function createDetails(): ConversationNoteDetails {
+  return {
+    title: 'Project: plans?',
+    model: 'llama3',
+    contextMode: 'search',
+    messages: [
+      { id: 'u1', role: 'user', content: 'What are the plans?', timestamp: 1_700_000_000_000 },
+      {
+        id: 'a1',
+        role: 'assistant',
+        content: 'Ship it.\n\nThen rest.',
+        timestamp: 1_700_000_060_000,
+        thinkingBlocks: ['Check the roadmap'],
+        usedNotes: [
+          { title: 'Roadmap', path: 'Projects/Roadmap.md', relevance: 0.9 },
+          { title: 'Notes', path: 'Projects/Plans.md', relevance: 0.7 }
+        ]
+      },
+      {
+        id: 'a2',
+        role: 'assistant',
+        content: 'Also this',
+        timestamp: 1_700_000_120_000,
+        usedNotes: [{ title: 'Roadmap', path: 'Projects/Roadmap.md', relevance: 0.8 }]
+      }
+    ]
+  };
+}
+
+describe('ConversationNoteExporter', () => {
+  it('renders frontmatter, callouts per turn and deduplicated wikilinks', () => {
+    const markdown = ConversationNoteExporter.buildMarkdown(createDetails());
+
+    expect(markdown).toContain('title: "Project: plans?"');
+    expect(markdown).toContain('model: "llama3"');
+    expect(markdown).toContain('context_mode: search');
+    expect(markdown).toContain(`created: ${new Date(1_700_000_000_000).toISOString()}`);
+    expect(markdown).toContain('> [!question] You');
+    expect(markdown).toContain('> [!note] Assistant');
+    expect(markdown).toContain('> Ship it.\n>\n> Then rest.');
+    expect(markdown).toContain('> > [!abstract]- Thought process\n> > Check the roadmap');
+    expect(markdown).toContain('## Notes used as context');
+    expect(markdown.match(/\[\[Projects\/Roadmap\]\]/g)).toHaveLength(1);
+    expect(markdown).toContain('[[Projects/Plans|Notes]]');
+  });
+
+  it('creates the folder and picks a free file name', async () => {
+    const existing = new Set(['Chats/Project plans.md']);
+    const vault = {
+      getAbstractFileByPath: vi.fn((path: string) => (existing.has(path) ? {} : null)),
+      createFolder: vi.fn(async () => undefined),
+      create: vi.fn(async (path: string) => ({ path }))
+    };
+    const exporter = new ConversationNoteExporter({ vault } as any);
+
+    const file = await exporter.saveToVault('Chats/', createDetails());
+
+    expect(vault.createFolder).toHaveBeenCalledWith('Chats');
+    expect(file.path).toBe('Chats/Project plans 1.md');
+    expect(vault.create.mock.calls[0][1]).toContain('> [!question] You');
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import initSqlJs from 'sql.js';
+
+vi.mock('@webreflection/sql.js', () => ({ default: initSqlJs }));
+vi.mock('sql.js/dist/sql-wasm.wasm', () => ({ default: undefined }));
+
+import { UnifiedVectorDatabase, VectorDocument } from '../../src/db/UnifiedVectorDatabase';
+import { NodeIndexStorage } from '../../src/db/NodeIndexStorage';
+
+function chunk(filePath: string, index: number, vector: number[], originPath?: string): VectorDocument {
+    return {
+        id: `${filePath}#p${index}`,
+        vector,
+        metadata: {
+            filePath,
+            fileName: path.basename(filePath, '.md'),
+            title: path.basename(filePath, '.md'),
+            paragraphIndex: index,
+            paragraphText: `paragraph ${index} of ${filePath}`,
+            fileChecksum: 'abc',
+            sourceType: 'markdown',
+            originPath
+        }
+    };
+}
+
+describe('moving documents', () => {
+    let dir: string;
+    let db: UnifiedVectorDatabase;
+
+    beforeEach(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'private-ai-moves-'));
+        db = new UnifiedVectorDatabase(path.join(dir, 'embeddings.db'), new NodeIndexStorage());
+        await db.load();
+    });
+
+    afterEach(async () => {
+        await db.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('renames a file without touching its vectors', async () => {
+        await db.upsertFileDocuments('Notes/Old.md', [chunk('Notes/Old.md', 0, [1, 0]), chunk('Notes/Old.md', 1, [0, 1])]);
+
+        expect(await db.renameFileDocuments('Notes/Old.md', 'Archive/New.md', { fileName: 'New', title: 'New title' })).toBe(2);
+
+        expect(db.getFileDocuments('Notes/Old.md')).toEqual([]);
+        const moved = db.getFileDocuments('Archive/New.md');
+        expect(moved.map(document => document.id)).toEqual(['Archive/New.md#p0', 'Archive/New.md#p1']);
+        expect(moved[0].metadata).toMatchObject({ fileName: 'New', title: 'New title', folder: 'Archive', fileChecksum: 'abc' });
+        expect(moved.map(document => Array.from(document.vector))).toEqual([[1, 0], [0, 1]]);
+        expect(db.search([1, 0], 1, 0.5)[0].document.metadata.filePath).toBe('Archive/New.md');
+    });
+
+    it('moves every file below a folder but not a sibling folder sharing its prefix', async () => {
+        await db.upsertFileDocuments('Foo/a.md', [chunk('Foo/a.md', 0, [1, 0])]);
+        await db.upsertFileDocuments('Foo/Sub/b.md', [chunk('Foo/Sub/b.md', 0, [0, 1])]);
+        await db.upsertFileDocuments('Foo2/c.md', [chunk('Foo2/c.md', 0, [1, 1])]);
+        await db.upsertFileDocuments('Other.md', [chunk('Other.md', 0, [1, 0]), chunk('Other.md', 1, [0, 1], 'Foo/a.md')]);
+
+        expect(await db.renameFolderDocuments('Foo', 'Bar/Foo')).toBe(2);
+
+        expect(db.getFileDocuments('Bar/Foo/a.md').map(document => document.id)).toEqual(['Bar/Foo/a.md#p0']);
+        expect(db.getFileDocuments('Bar/Foo/Sub/b.md')[0].metadata.folder).toBe('Bar/Foo/Sub');
+        expect(db.getFileDocuments('Foo2/c.md')).toHaveLength(1);
+        expect(db.getFileDocuments('Foo/a.md')).toEqual([]);
+        // Chunks embedded from a moved note point at its new path
+        expect(db.getEmbeddingFilePaths('Bar/Foo/a.md')).toEqual(['Other.md']);
+    });
+
+    it('replaces a leftover copy at the new path', async () => {
+        await db.upsertFileDocuments('New.md', [chunk('New.md', 0, [0, 1]), chunk('New.md', 1, [0, 1]), chunk('New.md', 2, [0, 1])]);
+        await db.upsertFileDocuments('Old.md', [chunk('Old.md', 0, [1, 0])]);
+
+        expect(await db.renameFileDocuments('Old.md', 'New.md')).toBe(1);
+
+        const documents = db.getFileDocuments('New.md');
+        expect(documents.map(document => document.id)).toEqual(['New.md#p0']);
+        expect(Array.from(documents[0].vector)).toEqual([1, 0]);
+        expect(db.search([0, 1], 5, 0.5)).toEqual([]);
+    });
+
+    it('does nothing when the old path has no documents', async () => {
+        await db.upsertFileDocuments('New.md', [chunk('New.md', 0, [0, 1])]);
+
+        expect(await db.renameFileDocuments('Missing.md', 'New.md')).toBe(0);
+        expect(db.getFileDocuments('New.md')).toHaveLength(1);
+    });
+});
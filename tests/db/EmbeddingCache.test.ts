@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import initSqlJs from 'sql.js';
+
+vi.mock('@webreflection/sql.js', () => ({ default: initSqlJs }));
+vi.mock('sql.js/dist/sql-wasm.wasm', () => ({ default: undefined }));
+
+import { UnifiedVectorDatabase } from '../../src/db/UnifiedVectorDatabase';
+import { NodeIndexStorage } from '../../src/db/NodeIndexStorage';
+
+describe('embedding cache', () => {
+    let dir: string;
+    let db: UnifiedVectorDatabase;
+
+    beforeEach(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'private-ai-cache-'));
+        db = new UnifiedVectorDatabase(path.join(dir, 'embeddings.db'), new NodeIndexStorage());
+        await db.load();
+    });
+
+    afterEach(async () => {
+        await db.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('keys entries by model and text hash', () => {
+        db.putCachedEmbeddings('model-a', [{ textHash: 'h1', vector: [1, 0] }]);
+
+        expect(db.getCachedEmbeddings('model-a', ['h1', 'h2'])).toEqual(new Map([['h1', [1, 0]]]));
+        expect(db.getCachedEmbeddings('model-b', ['h1']).size).toBe(0);
+    });
+
+    it('evicts the least recently used entries until the cache fits', () => {
+        const now = vi.spyOn(Date, 'now');
+        // Two floats per vector, so 8 bytes per entry
+        now.mockReturnValue(1000);
+        db.putCachedEmbeddings('model', [{ textHash: 'old', vector: [1, 0] }]);
+        now.mockReturnValue(2000);
+        db.putCachedEmbeddings('model', [{ textHash: 'middle', vector: [0, 1] }]);
+        now.mockReturnValue(3000);
+        db.putCachedEmbeddings('model', [{ textHash: 'new', vector: [1, 1] }]);
+        // Reading an entry makes it the most recently used
+        now.mockReturnValue(4000);
+        db.getCachedEmbeddings('model', ['old']);
+
+        expect(db.pruneEmbeddingCache(24)).toBe(0);
+        expect(db.pruneEmbeddingCache(16)).toBe(1);
+
+        expect(Array.from(db.getCachedEmbeddings('model', ['old', 'middle', 'new']).keys())).toEqual(['old', 'new']);
+        expect(db.getEmbeddingCacheStats()).toEqual({ entryCount: 2, sizeInBytes: 16 });
+    });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import initSqlJs from 'sql.js';
+
+vi.mock('@webreflection/sql.js', () => ({ default: initSqlJs }));
+vi.mock('sql.js/dist/sql-wasm.wasm', () => ({ default: undefined }));
+
+import { UnifiedVectorDatabase, VectorDocument } from '../../src/db/UnifiedVectorDatabase';
+import { NodeIndexStorage } from '../../src/db/NodeIndexStorage';
+
+function chunk(id: string, index: number, contentHash: string, vector: number[]): VectorDocument {
+    return {
+        id: `Notes/Plan.md#${id}`,
+        vector,
+        metadata: {
+            filePath: 'Notes/Plan.md',
+            fileName: 'Plan',
+            title: 'Plan',
+            paragraphIndex: index,
+            paragraphText: `text ${contentHash}`,
+            contentHash,
+            fileChecksum: 'abc',
+            sourceType: 'markdown'
+        }
+    };
+}
+
+describe('per-file document diffs', () => {
+    let dir: string;
+    let db: UnifiedVectorDatabase;
+
+    beforeEach(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'private-ai-diff-'));
+        db = new UnifiedVectorDatabase(path.join(dir, 'embeddings.db'), new NodeIndexStorage());
+        await db.load();
+    });
+
+    afterEach(async () => {
+        await db.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('keeps unchanged chunks, deletes removed ones and inserts new ones', async () => {
+        await db.upsertFileDocuments('Notes/Plan.md', [
+            chunk('intro', 0, 'hash-intro', [1, 0]),
+            chunk('goals', 1, 'hash-goals', [0, 1]),
+            chunk('risks', 2, 'hash-risks', [1, 1])
+        ]);
+
+        await db.upsertFileDocuments('Notes/Plan.md', [
+            // Same id and text, handed a different vector: the stored one is kept
+            chunk('intro', 0, 'hash-intro', [0, 1]),
+            chunk('goals', 1, 'hash-goals-edited', [1, 1]),
+            chunk('dates', 2, 'hash-dates', [1, 0])
+        ]);
+
+        const documents = db.getFileDocuments('Notes/Plan.md');
+        expect(documents.map(document => document.id).sort()).toEqual(['Notes/Plan.md#dates', 'Notes/Plan.md#goals', 'Notes/Plan.md#intro']);
+        expect(Array.from(db.getStoredVectorsByContentHash('Notes/Plan.md').keys()).sort()).toEqual(['hash-dates', 'hash-goals-edited', 'hash-intro']);
+        expect(db.getStoredVectorsByContentHash('Notes/Plan.md').get('hash-intro')).toEqual([1, 0]);
+        // The deleted chunk is gone from search as well
+        expect(db.search([1, 1], 5, 0.99).map(result => result.document.id)).toEqual(['Notes/Plan.md#goals']);
+    });
+
+    it('reports a failed save without trying to roll back the committed changes', async () => {
+        vi.spyOn(db, 'save').mockRejectedValue(new Error('disk full'));
+
+        await expect(db.upsertFileDocuments('Notes/Plan.md', [chunk('intro', 0, 'hash-intro', [1, 0])])).rejects.toThrow('disk full');
+
+        expect(db.getFileDocuments('Notes/Plan.md')).toHaveLength(1);
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { HnswIndex } from '../../src/db/HnswIndex';
+import { VectorCache } from '../../src/db/VectorCache';
+import { VectorCodec } from '../../src/db/VectorCodec';
+
+function seededRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return state / 4294967296;
+    };
+}
+
+function buildCache(count: number, dimension: number, random: () => number): VectorCache {
+    const cache = new VectorCache(dimension, count);
+    for (let i = 0; i < count; i++) {
+        const values = Array.from({ length: dimension }, () => random() * 2 - 1);
+        cache.add(`doc-${i}`, `file-${i % 100}.md`, VectorCodec.normalize(values));
+    }
+    return cache;
+}
+
+describe('HnswIndex', () => {
+    it('finds nearly the same neighbours as an exact scan while visiting a fraction of the vectors', () => {
+        const random = seededRandom(42);
+        const cache = buildCache(3000, 32, random);
+        const index = new HnswIndex(cache, { random });
+        for (let slot = 0; slot < cache.slotCount; slot++) {
+            index.insert(slot);
+        }
+
+        let evaluated = 0;
+        const countingCache = Object.create(cache) as VectorCache;
+        countingCache.similarity = (slot: number, query: Float32Array) => {
+            evaluated++;
+            return cache.similarity(slot, query);
+        };
+        (index as any).source = countingCache;
+
+        let hits = 0;
+        const queries = 20;
+        for (let q = 0; q < queries; q++) {
+            const query = VectorCodec.normalize(Array.from({ length: 32 }, () => random() * 2 - 1));
+            const exact = new Set(cache.searchExact(query, 10, -1).map(match => match.slot));
+            hits += index.search(query, 10).filter(match => exact.has(match.slot)).length;
+        }
+
+        expect(hits / (queries * 10)).toBeGreaterThanOrEqual(0.9);
+        expect(evaluated / queries).toBeLessThan(cache.size * 0.5);
+    });
+
+    it('never returns deleted slots', () => {
+        const random = seededRandom(7);
+        const cache = buildCache(200, 8, random);
+        const index = new HnswIndex(cache, { random });
+        for (let slot = 0; slot < cache.slotCount; slot++) {
+            index.insert(slot);
+        }
+
+        const query = cache.getVector(5);
+        expect(index.search(query, 1)[0].slot).toBe(5);
+
+        index.markDeleted(5);
+        const results = index.search(query, 10);
+        expect(results).toHaveLength(10);
+        expect(results.map(match => match.slot)).not.toContain(5);
+        expect(index.size).toBe(199);
+    });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { describeFingerprintMismatch, IndexFingerprint } from '../../src/db/IndexFingerprint';
+
+const stored: IndexFingerprint = {
+    embeddingModel: 'nomic-embed-text',
+    dimension: 768,
+    chunkerVersion: 2,
+    createdAt: 0
+};
+
+describe('describeFingerprintMismatch', () => {
+    it('accepts the setup the index was built with', () => {
+        expect(describeFingerprintMismatch(stored, { embeddingModel: 'nomic-embed-text', chunkerVersion: 2 })).toBeNull();
+        expect(describeFingerprintMismatch(stored, { embeddingModel: 'nomic-embed-text', chunkerVersion: 2, dimension: 768 })).toBeNull();
+    });
+
+    it('reports a different embedding model', () => {
+        expect(describeFingerprintMismatch(stored, { embeddingModel: 'bge-m3', chunkerVersion: 2 }))
+            .toContain('"nomic-embed-text", but "bge-m3" is selected');
+    });
+
+    it('reports a different dimension only when it is known', () => {
+        expect(describeFingerprintMismatch(stored, { embeddingModel: 'nomic-embed-text', chunkerVersion: 2, dimension: 1024 }))
+            .toContain('1024 dimensions');
+        expect(describeFingerprintMismatch(stored, { embeddingModel: 'nomic-embed-text', chunkerVersion: 2, dimension: 0 })).toBeNull();
+    });
+
+    it('reports an older chunker', () => {
+        expect(describeFingerprintMismatch(stored, { embeddingModel: 'nomic-embed-text', chunkerVersion: 3 })).toContain('older way of splitting');
+    });
+});
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexBackups, describeIndexRecovery } from '../../src/db/IndexRecovery';
+import { NodeIndexStorage } from '../../src/db/NodeIndexStorage';
+
+describe('IndexBackups', () => {
+    let dir: string;
+    let dbPath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'private-ai-backups-'));
+        dbPath = path.join(dir, 'embeddings.db');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('rotates copies of the index, newest first, and drops the oldest', async () => {
+        const day = 24 * 60 * 60 * 1000;
+        const backups = new IndexBackups(dbPath, new NodeIndexStorage(), 2);
+
+        fs.writeFileSync(dbPath, 'v1');
+        expect(await backups.rotate(1000 * day)).toBe(true);
+        fs.writeFileSync(dbPath, 'v2');
+        // Still recent, so no new backup
+        expect(await backups.rotate(1000 * day + 1000)).toBe(false);
+        expect(await backups.rotate(1001 * day)).toBe(true);
+        fs.writeFileSync(dbPath, 'v3');
+        expect(await backups.rotate(1002 * day)).toBe(true);
+
+        const list = await backups.list();
+        expect(list.map(backup => fs.readFileSync(backup.path, 'utf8'))).toEqual(['v3', 'v2']);
+        expect(list[0].createdAt).toBe(1002 * day);
+    });
+
+    it('moves a damaged file aside and keeps only the latest damaged copy', async () => {
+        const backups = new IndexBackups(dbPath, new NodeIndexStorage());
+
+        fs.writeFileSync(dbPath, 'broken 1');
+        const first = await backups.quarantine(1);
+        fs.writeFileSync(dbPath, 'broken 2');
+        const second = await backups.quarantine(2);
+
+        expect(fs.existsSync(dbPath)).toBe(false);
+        expect(fs.existsSync(first!)).toBe(false);
+        expect(fs.readFileSync(second!, 'utf8')).toBe('broken 2');
+        expect(await backups.quarantine(3)).toBeUndefined();
+    });
+});
+
+describe('describeIndexRecovery', () => {
+    it('names the quarantined file when the index is rebuilt', () => {
+        const text = describeIndexRecovery({
+            outcome: 'rebuilt',
+            reason: 'file is not a database',
+            quarantinePath: '/vault/.obsidian/plugins/private-ai/vector-index/embeddings.db.corrupt-1',
+            at: 1
+        });
+
+        expect(text).toBe('The index file was damaged (file is not a database) and no usable backup was found. ' +
+            'It was moved to embeddings.db.corrupt-1 and the index is being rebuilt.');
+    });
+});
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getBaseName, getParentPath, joinPath } from '../../src/db/IndexStorage';
+import { NodeIndexStorage } from '../../src/db/NodeIndexStorage';
+
+describe('NodeIndexStorage', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'private-ai-db-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('replaces the file without leaving the temporary file behind', async () => {
+        const filePath = path.join(dir, 'embeddings.db');
+        fs.writeFileSync(filePath, 'old');
+
+        await new NodeIndexStorage().writeAtomic(filePath, new TextEncoder().encode('new'));
+
+        expect(fs.readFileSync(filePath, 'utf8')).toBe('new');
+        expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+    });
+
+    it('creates missing directories once', async () => {
+        const storage = new NodeIndexStorage();
+        const nested = path.join(dir, 'vector-index', 'nested');
+
+        expect(await storage.ensureDirectory(nested)).toBe(true);
+        expect(await storage.ensureDirectory(nested)).toBe(false);
+        expect(await storage.list(path.join(dir, 'vector-index'))).toEqual(['nested']);
+    });
+});
+
+describe('index path helpers', () => {
+    it('split and join POSIX and Windows paths', () => {
+        expect(getParentPath('/vault/.obsidian/embeddings.db')).toBe('/vault/.obsidian');
+        expect(getParentPath('C:\\vault\\embeddings.db')).toBe('C:\\vault');
+        expect(getBaseName('C:\\vault\\embeddings.db')).toBe('embeddings.db');
+        expect(joinPath('C:\\vault', 'embeddings.db')).toBe('C:\\vault\\embeddings.db');
+        expect(joinPath('/vault/', 'embeddings.db')).toBe('/vault/embeddings.db');
+    });
+});
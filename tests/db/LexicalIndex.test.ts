@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { LexicalIndex } from '../../src/db/LexicalIndex';
+import { reciprocalRankFusion } from '../../src/db/RankFusion';
+
+describe('LexicalIndex', () => {
+    it('keeps project codes and acronyms as single terms', () => {
+        expect(LexicalIndex.tokenize('Ship PRJ-42 with the OKR v1.2 plan')).toEqual(['ship', 'prj-42', 'with', 'the', 'okr', 'v1.2', 'plan']);
+    });
+
+    it('ranks paragraphs containing rare query terms first', () => {
+        const index = new LexicalIndex();
+        index.add('a#p0', 'a.md', 'Weekly notes about the garden and the weather');
+        index.add('b#p0', 'b.md', 'Kickoff for PRJ-42 with the platform team');
+        index.add('c#p0', 'c.md', 'The team discussed the weather');
+
+        const results = index.search('status of PRJ-42', 5);
+
+        expect(results.map(result => result.id)).toEqual(['b#p0']);
+        expect(results[0].score).toBeGreaterThan(0);
+    });
+
+    it('drops every paragraph of a removed file', () => {
+        const index = new LexicalIndex();
+        index.add('a#p0', 'a.md', 'alpha beta');
+        index.add('a#p1', 'a.md', 'gamma alpha');
+        index.add('b#p0', 'b.md', 'alpha delta');
+
+        index.removeFile('a.md');
+
+        expect(index.size).toBe(1);
+        expect(index.search('alpha', 5).map(result => result.id)).toEqual(['b#p0']);
+    });
+});
+
+describe('reciprocalRankFusion', () => {
+    it('rewards documents ranked by both lists and honours weights', () => {
+        const fused = reciprocalRankFusion([
+            { ids: ['v1', 'shared', 'v3'], weight: 1 },
+            { ids: ['k1', 'shared'], weight: 1 }
+        ]);
+
+        expect(fused[0].id).toBe('shared');
+        expect(fused.map(result => result.id)).toContain('k1');
+
+        const keywordOnly = reciprocalRankFusion([
+            { ids: ['v1'], weight: 0 },
+            { ids: ['k1'], weight: 2 }
+        ]);
+        expect(keywordOnly).toEqual([{ id: 'k1', score: 2 / 61 }]);
+    });
+});
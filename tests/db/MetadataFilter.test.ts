@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+    buildMetadataFilterClause,
+    combineMetadataFilters,
+    decodeFrontmatter,
+    decodeTags,
+    encodeFrontmatter,
+    encodeTags,
+    fileMatchesMetadataFilter,
+    getFolderOfPath,
+    isMetadataFilterEmpty
+} from '../../src/db/MetadataFilter';
+import { QueryOperatorUtility } from '../../src/utils/QueryOperatorUtility';
+
+const note = {
+    folder: 'Projects/Apollo',
+    tags: ['#work/meetings', '#Apollo'],
+    frontmatter: { status: ['Draft'], type: ['meeting', 'review'] }
+};
+const notePath = 'Projects/Apollo/Kickoff.md';
+const modifiedAt = Date.UTC(2024, 5, 1);
+
+describe('MetadataFilter', () => {
+    it('round-trips tags and frontmatter through their stored form', () => {
+        expect(encodeTags(note.tags)).toBe('|work/meetings|apollo|');
+        expect(decodeTags(encodeTags(note.tags))).toEqual(['work/meetings', 'apollo']);
+        expect(encodeFrontmatter(note.frontmatter)).toBe('|status=draft|type=meeting|type=review|');
+        expect(decodeFrontmatter(encodeFrontmatter(note.frontmatter))).toEqual({ status: ['draft'], type: ['meeting', 'review'] });
+        expect(encodeTags([])).toBe('');
+    });
+
+    it('derives the folder of a path', () => {
+        expect(getFolderOfPath('Projects/Apollo/Kickoff.md')).toBe('Projects/Apollo');
+        expect(getFolderOfPath('Inbox.md')).toBe('');
+    });
+
+    it('treats a filter without conditions as empty', () => {
+        expect(isMetadataFilterEmpty(undefined)).toBe(true);
+        expect(isMetadataFilterEmpty({ tags: [], folders: [], frontmatter: {} })).toBe(true);
+        expect(isMetadataFilterEmpty({ modifiedAfter: 0 })).toBe(false);
+    });
+
+    it('matches parent tags and subfolders', () => {
+        expect(fileMatchesMetadataFilter({ tags: ['#work'] }, notePath, note, modifiedAt)).toBe(true);
+        expect(fileMatchesMetadataFilter({ tags: ['wor'] }, notePath, note, modifiedAt)).toBe(false);
+        expect(fileMatchesMetadataFilter({ folders: ['projects/'] }, notePath, note, modifiedAt)).toBe(true);
+        expect(fileMatchesMetadataFilter({ folders: ['Project'] }, notePath, note, modifiedAt)).toBe(false);
+    });
+
+    it('requires every condition to match', () => {
+        expect(fileMatchesMetadataFilter({ frontmatter: { status: 'draft', type: 'review' } }, notePath, note, modifiedAt)).toBe(true);
+        expect(fileMatchesMetadataFilter({ frontmatter: { status: 'done' } }, notePath, note, modifiedAt)).toBe(false);
+        expect(fileMatchesMetadataFilter({ tags: ['apollo'], modifiedAfter: modifiedAt + 1 }, notePath, note, modifiedAt)).toBe(false);
+        expect(fileMatchesMetadataFilter({ tags: ['apollo'], modifiedBefore: modifiedAt }, notePath, note, modifiedAt)).toBe(true);
+        expect(fileMatchesMetadataFilter({ filePaths: ['Other.md'] }, notePath, note, modifiedAt)).toBe(false);
+    });
+
+    it('requires every filter to match when combining them', () => {
+        expect(combineMetadataFilters([
+            { tags: ['a', 'b'], modifiedAfter: 5, modifiedBefore: 50 },
+            undefined,
+            { tags: ['b'], filePaths: ['x.md'], modifiedAfter: 10, modifiedBefore: 40 }
+        ])).toEqual({ tags: ['b'], filePaths: ['x.md'], modifiedAfter: 10, modifiedBefore: 40 });
+        expect(combineMetadataFilters([{ tags: ['a'] }, { tags: ['b'] }]).matchNone).toBe(true);
+        expect(combineMetadataFilters([{ frontmatter: { status: 'draft' } }, { frontmatter: { Status: 'done' } }]).matchNone).toBe(true);
+    });
+
+    it('narrows a UI filter with operator chips instead of widening it', () => {
+        const { operators } = QueryOperatorUtility.parse('tag:#work/meetings path:Projects/Apollo in:[[Plan]] question');
+        const chips = QueryOperatorUtility.toMetadataFilter(operators, () => notePath);
+        const combined = combineMetadataFilters([{ tags: ['work', 'personal'], folders: ['projects'] }, chips]);
+
+        expect(combined).toEqual({ tags: ['work/meetings'], folders: ['Projects/Apollo'], filePaths: [notePath] });
+        expect(fileMatchesMetadataFilter(combined, notePath, { ...note, tags: ['personal'] }, modifiedAt)).toBe(false);
+        expect(fileMatchesMetadataFilter(combined, notePath, { ...note, tags: ['work/meetings'] }, modifiedAt)).toBe(true);
+    });
+
+    it('matches nothing when an in: chip does not resolve', () => {
+        const { operators } = QueryOperatorUtility.parse('in:[[Missing]] question');
+        const combined = combineMetadataFilters([{ folders: ['Projects'] }, QueryOperatorUtility.toMetadataFilter(operators, () => null)]);
+
+        expect(isMetadataFilterEmpty(combined)).toBe(false);
+        expect(buildMetadataFilterClause(combined)).toEqual({ sql: '0 = 1', params: [] });
+        expect(fileMatchesMetadataFilter(combined, notePath, note, modifiedAt)).toBe(false);
+    });
+
+    it('builds a parameterized clause with escaped LIKE patterns', () => {
+        const clause = buildMetadataFilterClause({
+            tags: ['100%'],
+            folders: ['Projects'],
+            modifiedAfter: 10,
+            frontmatter: { Status: 'Draft' }
+        });
+
+        expect(clause.sql).toBe(
+            "(tags LIKE ? ESCAPE '\\' OR tags LIKE ? ESCAPE '\\') AND "
+            + "(folder = ? COLLATE NOCASE OR folder LIKE ? ESCAPE '\\') AND "
+            + "last_modified >= ? AND frontmatter LIKE ? ESCAPE '\\'"
+        );
+        expect(clause.params).toEqual(['%|100\\%|%', '%|100\\%/%', 'Projects', 'Projects/%', 10, '%|status=draft|%']);
+        expect(buildMetadataFilterClause({}).sql).toBe('1 = 1');
+    });
+});
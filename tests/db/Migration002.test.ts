@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import initSqlJs from 'sql.js';
+import { Migration001 } from '../../src/db/migrations/001_initial_schema';
+import { Migration002 } from '../../src/db/migrations/002_binary_vectors';
+import { VectorCodec } from '../../src/db/VectorCodec';
+
+function createMockDb(rows: Record<string, unknown>[]) {
+    let cursor = -1;
+    const inserted: unknown[][] = [];
+    const selectStmt = {
+        step: vi.fn(() => ++cursor < rows.length),
+        getAsObject: vi.fn(() => rows[cursor]),
+        free: vi.fn()
+    };
+    const insertStmt = {
+        run: vi.fn((params: unknown[]) => {
+            inserted.push(params);
+        }),
+        free: vi.fn()
+    };
+
+    return {
+        inserted,
+        db: {
+            run: vi.fn(),
+            prepare: vi.fn((sql: string) => (sql.startsWith('SELECT') ? selectStmt : insertStmt))
+        }
+    };
+}
+
+function row(id: string, vectorJson: string) {
+    return {
+        id,
+        file_path: 'note.md',
+        file_name: null,
+        title: 'Note',
+        paragraph_index: 0,
+        paragraph_text: 'text',
+        file_checksum: 'abc',
+        last_modified: null,
+        file_size: null,
+        source_type: 'markdown',
+        extracted_text: 0,
+        vector_json: vectorJson,
+        dimension: 2,
+        created_at: 1,
+        updated_at: 2
+    };
+}
+
+describe('Migration002', () => {
+    it('converts JSON vectors to normalized Float32 BLOBs and swaps the table', async () => {
+        const { db, inserted } = createMockDb([row('note.md#p0', '[3, 4]'), row('note.md#p1', 'not json')]);
+
+        await new Migration002().up(db);
+
+        expect(inserted).toHaveLength(1);
+        const [id, , , , , , , , , , , blob, dimension] = inserted[0] as [string, ...unknown[]];
+        expect(id).toBe('note.md#p0');
+        expect(dimension).toBe(2);
+        const vector = Array.from(VectorCodec.fromBlob(blob as Uint8Array));
+        expect(vector[0]).toBeCloseTo(0.6, 5);
+        expect(vector[1]).toBeCloseTo(0.8, 5);
+
+        expect(db.run).toHaveBeenCalledWith('DROP TABLE documents');
+        expect(db.run).toHaveBeenCalledWith('ALTER TABLE documents_v2 RENAME TO documents');
+    });
+
+    it('clears the checksum of files that lost paragraphs in a real database', async () => {
+        const SQL = await initSqlJs();
+        const db = new SQL.Database();
+        await new Migration001().up(db);
+
+        const insert = (id: string, filePath: string, vectorJson: string) => db.run(
+            `INSERT INTO documents (id, file_path, title, paragraph_index, paragraph_text, file_checksum, source_type, vector_json, dimension)
+             VALUES (?, ?, 'Title', 0, 'text', 'abc', 'markdown', ?, 2)`,
+            [id, filePath, vectorJson]
+        );
+        insert('broken.md#p0', 'broken.md', '[3, 4]');
+        insert('broken.md#p1', 'broken.md', 'not json');
+        insert('intact.md#p0', 'intact.md', '[1, 0]');
+
+        await new Migration002().up(db);
+
+        const result = db.exec('SELECT id, file_checksum, dimension FROM documents ORDER BY id');
+        expect(result[0].values).toEqual([
+            ['broken.md#p0', '', 2],
+            ['intact.md#p0', 'abc', 2]
+        ]);
+        db.close();
+    });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Migration009 } from '../../src/db/migrations/009_pdf_source_type';
+
+describe('Migration009', () => {
+    it('swaps in a documents table that accepts PDFs and keeps every column', async () => {
+        const statements: string[] = [];
+        const db = { run: vi.fn((sql: string) => statements.push(sql.replace(/\s+/g, ' ').trim())) };
+
+        await new Migration009().up(db);
+
+        expect(statements[0]).toContain("CHECK(source_type IN ('markdown', 'image', 'pdf'))");
+        expect(statements[0]).toContain('page_number INTEGER');
+        expect(statements[1]).toMatch(/^INSERT INTO documents_v9 \(.*content_hash \) SELECT .*content_hash FROM documents;$/);
+        expect(statements[2]).toBe('DROP TABLE documents');
+        expect(statements[3]).toBe('ALTER TABLE documents_v9 RENAME TO documents');
+        expect(statements.filter(sql => sql.startsWith('CREATE INDEX'))).toHaveLength(5);
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { VectorCache } from '../../src/db/VectorCache';
+import { VectorCodec } from '../../src/db/VectorCodec';
+
+describe('VectorCodec', () => {
+    it('normalizes vectors and round-trips them through a BLOB', () => {
+        const normalized = VectorCodec.normalize([3, 4]);
+        expect(Array.from(normalized)).toEqual([expect.closeTo(0.6, 5), expect.closeTo(0.8, 5)]);
+
+        const blob = VectorCodec.toBlob(normalized);
+        expect(blob.byteLength).toBe(8);
+
+        // Simulate an unaligned buffer as returned by sql.js
+        const unaligned = new Uint8Array(blob.byteLength + 1).subarray(1);
+        unaligned.set(blob);
+        expect(Array.from(VectorCodec.fromBlob(unaligned))).toEqual(Array.from(normalized));
+    });
+});
+
+describe('VectorCache', () => {
+    function vector(...values: number[]): Float32Array {
+        return VectorCodec.normalize(values);
+    }
+
+    it('grows past its initial capacity and finds the closest vectors', () => {
+        const cache = new VectorCache(2, 1);
+        cache.add('a#0', 'a.md', vector(1, 0));
+        cache.add('b#0', 'b.md', vector(0, 1));
+        cache.add('c#0', 'c.md', vector(1, 1));
+
+        const matches = cache.searchExact(vector(1, 0.1), 2, 0);
+
+        expect(cache.size).toBe(3);
+        expect(matches.map(match => cache.getId(match.slot))).toEqual(['a#0', 'c#0']);
+        expect(matches[0].similarity).toBeCloseTo(0.995, 3);
+    });
+
+    it('tombstones removed files and drops them on compaction', () => {
+        const cache = new VectorCache(2);
+        cache.add('a#0', 'a.md', vector(1, 0));
+        cache.add('a#1', 'a.md', vector(1, 1));
+        cache.add('b#0', 'b.md', vector(0, 1));
+
+        expect(cache.removeFile('a.md')).toEqual([0, 1]);
+        expect(cache.size).toBe(1);
+        expect(cache.tombstoneRatio).toBeCloseTo(2 / 3);
+        expect(cache.searchExact(vector(1, 0), 5, -1).map(match => cache.getId(match.slot))).toEqual(['b#0']);
+
+        const compacted = cache.compact();
+        expect(compacted.slotCount).toBe(1);
+        expect(compacted.getId(0)).toBe('b#0');
+        expect(Array.from(compacted.getVector(0))).toEqual(Array.from(vector(0, 1)));
+    });
+});
@@ -0,0 +1,49 @@
+import { bench, describe } from 'vitest';
+import { HnswIndex } from '../../src/db/HnswIndex';
+import { VectorCache } from '../../src/db/VectorCache';
+import { VectorCodec } from '../../src/db/VectorCodec';
+
+// Run with `npm run bench`. Compares the old JSON full scan, the typed array scan and the HNSW graph.
+const DOCUMENT_COUNT = 10000;
+const DIMENSION = 256;
+
+function randomVector(): number[] {
+    return Array.from({ length: DIMENSION }, () => Math.random() * 2 - 1);
+}
+
+const rawVectors = Array.from({ length: DOCUMENT_COUNT }, randomVector);
+const jsonRows = rawVectors.map(vector => JSON.stringify(vector));
+const cache = new VectorCache(DIMENSION, DOCUMENT_COUNT);
+rawVectors.forEach((vector, i) => cache.add(`doc-${i}`, `file-${i}.md`, VectorCodec.normalize(vector)));
+const index = new HnswIndex(cache);
+for (let slot = 0; slot < cache.slotCount; slot++) {
+    index.insert(slot);
+}
+const query = randomVector();
+const normalizedQuery = VectorCodec.normalize(query);
+
+describe(`top 10 of ${DOCUMENT_COUNT} vectors (${DIMENSION} dimensions)`, () => {
+    bench('JSON parse + cosine full scan', () => {
+        const scored = jsonRows.map((json, i) => {
+            const vector = JSON.parse(json) as number[];
+            let dot = 0;
+            let normA = 0;
+            let normB = 0;
+            for (let d = 0; d < DIMENSION; d++) {
+                dot += query[d] * vector[d];
+                normA += query[d] * query[d];
+                normB += vector[d] * vector[d];
+            }
+            return { i, similarity: dot / (Math.sqrt(normA) * Math.sqrt(normB)) };
+        });
+        scored.sort((a, b) => b.similarity - a.similarity).slice(0, 10);
+    });
+
+    bench('typed array exact scan', () => {
+        cache.searchExact(normalizedQuery, 10, -1);
+    });
+
+    bench('HNSW search', () => {
+        index.search(normalizedQuery, 10);
+    });
+});
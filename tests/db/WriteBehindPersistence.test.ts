@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WriteBehindPersistence } from '../../src/db/WriteBehindPersistence';
+
+describe('WriteBehindPersistence', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('coalesces changes into one scheduled write', async () => {
+        vi.useFakeTimers();
+        const write = vi.fn().mockResolvedValue(undefined);
+        const persistence = new WriteBehindPersistence(write, 1000);
+
+        persistence.markDirty();
+        vi.advanceTimersByTime(500);
+        persistence.markDirty();
+        persistence.markDirty();
+        expect(write).not.toHaveBeenCalled();
+
+        // The first change starts the clock; later ones do not push the write back
+        await vi.advanceTimersByTimeAsync(500);
+        expect(write).toHaveBeenCalledTimes(1);
+        expect(persistence.isDirty()).toBe(false);
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(write).toHaveBeenCalledTimes(1);
+    });
+
+    it('writes immediately on flush and only when there are changes', async () => {
+        vi.useFakeTimers();
+        const write = vi.fn().mockResolvedValue(undefined);
+        const persistence = new WriteBehindPersistence(write, 1000);
+
+        await persistence.flush();
+        expect(write).not.toHaveBeenCalled();
+
+        persistence.markDirty();
+        await persistence.flush();
+        expect(write).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(write).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps changes pending when a write fails', async () => {
+        vi.useFakeTimers();
+        const write = vi.fn()
+            .mockRejectedValueOnce(new Error('disk full'))
+            .mockResolvedValue(undefined);
+        const persistence = new WriteBehindPersistence(write, 1000);
+
+        persistence.markDirty();
+        await expect(persistence.flush()).rejects.toThrow('disk full');
+        expect(persistence.isDirty()).toBe(true);
+
+        await persistence.flush();
+        expect(write).toHaveBeenCalledTimes(2);
+        expect(persistence.isDirty()).toBe(false);
+    });
+
+    it('does not start a write while the previous one is running', async () => {
+        let finishFirst: () => void = () => undefined;
+        const write = vi.fn()
+            .mockImplementationOnce(() => new Promise<void>(resolve => { finishFirst = resolve; }))
+            .mockResolvedValue(undefined);
+        const persistence = new WriteBehindPersistence(write, 1000);
+
+        persistence.markDirty();
+        const first = persistence.flush();
+        persistence.markDirty();
+        const second = persistence.flush();
+        await Promise.resolve();
+        expect(write).toHaveBeenCalledTimes(1);
+
+        finishFirst();
+        await Promise.all([first, second]);
+        expect(write).toHaveBeenCalledTimes(2);
+        expect(persistence.isDirty()).toBe(false);
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { EmbedResolver } from '../src/services/EmbedResolver';
+
+/**
+ * Fake vault whose metadata cache is derived from the note text like Obsidian's:
+ * embeds, headings and block ids with their character offsets
+ */
+function createApp(notes: Record<string, string>) {
+  const files: Record<string, any> = {};
+  for (const path of Object.keys(notes)) {
+    files[path] = { path, basename: path.replace(/\.md$/, ''), extension: 'md' };
+  }
+
+  const offsetsOf = (content: string, pattern: RegExp) => {
+    const matches: Array<{ match: RegExpExecArray; start: number; end: number }> = [];
+    const regex = new RegExp(pattern.source, 'gm');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(content)) !== null) {
+      matches.push({ match, start: match.index, end: match.index + match[0].length });
+    }
+    return matches;
+  };
+
+  const getFileCache = (file: any) => {
+    const content = notes[file.path];
+    const blocks: Record<string, any> = {};
+    for (const { match, end } of offsetsOf(content, /\^([a-z0-9-]+)$/)) {
+      const start = content.lastIndexOf('\n', match.index) + 1;
+      blocks[match[1]] = { position: { start: { offset: start }, end: { offset: end } } };
+    }
+    return {
+      embeds: offsetsOf(content, /!\[\[([^\]]+)\]\]/).map(({ match, start, end }) => ({
+        link: match[1],
+        position: { start: { offset: start }, end: { offset: end } }
+      })),
+      headings: offsetsOf(content, /^(#+) (.+)$/).map(({ match, start, end }) => ({
+        heading: match[2],
+        level: match[1].length,
+        position: { start: { offset: start }, end: { offset: end } }
+      })),
+      blocks
+    };
+  };
+
+  return {
+    vault: { cachedRead: async (file: any) => notes[file.path] },
+    metadataCache: {
+      getFileCache,
+      getFirstLinkpathDest: (linkPath: string) => files[`${linkPath}.md`] || null
+    },
+    files
+  } as any;
+}
+
+describe('EmbedResolver', () => {
+  it('inlines an embedded section up to the next heading of the same level', async () => {
+    const app = createApp({
+      'Plan.md': 'Intro\n![[Goals#Launch]]\nOutro',
+      'Goals.md': '# Goals\n## Launch\nShip in May\n### Details\nBeta first\n## Later\nNot shown'
+    });
+
+    const segments = await new EmbedResolver(app).resolve(app.files['Plan.md'], 2, () => true);
+
+    expect(segments).toEqual([
+      { text: 'Intro\n', depth: 0, origin: undefined },
+      { text: '## Launch\nShip in May\n### Details\nBeta first\n', depth: 1, origin: 'Goals.md' },
+      { text: '\nOutro', depth: 0, origin: undefined }
+    ]);
+  });
+
+  it('inlines blocks without their id and stops at the depth limit', async () => {
+    const app = createApp({
+      'A.md': '![[B#^quote]]',
+      'B.md': 'Keep shipping ![[C]] ^quote',
+      'C.md': 'Deep text'
+    });
+
+    const segments = await new EmbedResolver(app).resolve(app.files['A.md'], 1, () => true);
+
+    expect(segments.map(segment => segment.text)).toEqual(['', 'Keep shipping ![[C]]', '']);
+    expect(segments[1].origin).toBe('B.md');
+  });
+
+  it('leaves cyclic and rejected embeds as written', async () => {
+    const app = createApp({
+      'A.md': 'See ![[B]] and ![[Private]]',
+      'B.md': 'Back to ![[A]]',
+      'Private.md': 'Secret'
+    });
+
+    const segments = await new EmbedResolver(app).resolve(app.files['A.md'], 5, target => target.path !== 'Private.md');
+
+    expect(segments).toEqual([
+      { text: 'See ', depth: 0, origin: undefined },
+      { text: 'Back to ![[A]]', depth: 1, origin: 'B.md' },
+      { text: ' and ![[Private]]', depth: 0, origin: undefined }
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { WorkspaceLeaf } from 'obsidian';
+import { IndexInspectorView, filterIndexInspectorEntries } from '../src/views/IndexInspectorView';
+import type { IndexInspectorEntry } from '../src/services/RAGService';
+
+function entry(path: string, overrides: Partial<IndexInspectorEntry> = {}): IndexInspectorEntry {
+  return {
+    path,
+    sourceType: 'markdown',
+    status: 'indexed',
+    chunkCount: 1,
+    lastIndexed: 1000,
+    checksum: null,
+    lastError: null,
+    ...overrides
+  };
+}
+
+const entries = [
+  entry('Notes/b.md', { chunkCount: 4 }),
+  entry('Notes/a.md', { chunkCount: 2 }),
+  entry('Scans/receipt.png', { sourceType: 'image', status: 'failed', chunkCount: 0, lastIndexed: null, lastError: { filePath: 'Scans/receipt.png', category: 'vision', error: 'OCR timed out', attempts: 1, lastAttempt: 2000, nextRetry: 62000 } }),
+  entry('Private/diary.md', { status: 'excluded', chunkCount: 0, lastIndexed: null })
+];
+
+function createPluginStub() {
+  return {
+    settings: { excludedFiles: [] as string[] },
+    saveSettings: vi.fn(async () => undefined),
+    ragService: {
+      getIndexInspectorEntries: vi.fn(async () => entries),
+      getFileChunks: vi.fn(async () => [{ index: 0, text: 'First chunk text', headingPath: ['Intro'] }]),
+      reindexFile: vi.fn(async () => undefined),
+      removeFileFromIndex: vi.fn(async () => undefined)
+    }
+  };
+}
+
+async function flushRenderTicks(iterations: number = 2): Promise<void> {
+  for (let index = 0; index < iterations; index++) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
+
+describe('filterIndexInspectorEntries', () => {
+  it('filters by type, status and text and sorts with ties broken by path', () => {
+    const query = { text: '', sourceType: 'all' as const, status: 'all' as const, sortKey: 'chunkCount' as const, ascending: false };
+
+    expect(filterIndexInspectorEntries(entries, query).map(e => e.path))
+      .toEqual(['Notes/b.md', 'Notes/a.md', 'Private/diary.md', 'Scans/receipt.png']);
+    expect(filterIndexInspectorEntries(entries, { ...query, sourceType: 'image' }).map(e => e.path)).toEqual(['Scans/receipt.png']);
+    expect(filterIndexInspectorEntries(entries, { ...query, status: 'excluded' }).map(e => e.path)).toEqual(['Private/diary.md']);
+    expect(filterIndexInspectorEntries(entries, { ...query, text: 'timed out' }).map(e => e.path)).toEqual(['Scans/receipt.png']);
+  });
+});
+
+describe('IndexInspectorView', () => {
+  it('lists files and runs per-file actions', async () => {
+    const app = { workspace: { openLinkText: vi.fn() } };
+    const plugin = createPluginStub();
+    const view = new IndexInspectorView(new WorkspaceLeaf(app) as any, plugin as any);
+
+    await view.onOpen();
+
+    const container = view.containerEl.children[1] as HTMLElement;
+    const rows = Array.from(container.querySelectorAll('.local-llm-index-row')) as HTMLElement[];
+    expect(rows.map(row => row.dataset.path)).toEqual(['Notes/a.md', 'Notes/b.md', 'Private/diary.md', 'Scans/receipt.png']);
+    expect(container.textContent).toContain('OCR timed out');
+    expect(rows[2].querySelector('[aria-label="Exclude from index"]')).toBeNull();
+
+    (rows[0].querySelector('[aria-label="View chunks"]') as HTMLButtonElement).click();
+    await flushRenderTicks();
+    expect(plugin.ragService.getFileChunks).toHaveBeenCalledWith('Notes/a.md');
+    expect(container.querySelector('.local-llm-index-chunks')?.textContent).toContain('First chunk text');
+
+    (container.querySelector('[data-path="Notes/b.md"] [aria-label="Reindex now"]') as HTMLButtonElement).click();
+    await flushRenderTicks();
+    expect(plugin.ragService.reindexFile).toHaveBeenCalledWith('Notes/b.md');
+
+    (container.querySelector('[data-path="Notes/b.md"] [aria-label="Exclude from index"]') as HTMLButtonElement).click();
+    await flushRenderTicks();
+    expect(plugin.settings.excludedFiles).toEqual(['Notes/b.md']);
+    expect(plugin.saveSettings).toHaveBeenCalled();
+    expect(plugin.ragService.removeFileFromIndex).toHaveBeenCalledWith('Notes/b.md');
+
+    (container.querySelector('[data-path="Scans/receipt.png"] [aria-label="Open file"]') as HTMLButtonElement).click();
+    expect(app.workspace.openLinkText).toHaveBeenCalledWith('Scans/receipt.png', '', false);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from 'vitest';
+import { IndexWorkerClient } from '../src/workers/IndexWorkerClient';
+import { IndexStorage } from '../src/db/IndexStorage';
+
+/**
+ * Stand-in for the index worker: answers init, asks the main thread whether the index file exists
+ * while "loading", and fails any other request (or crashes on the given database method)
+ */
+class FakeWorker {
+  onmessage: ((event: { data: any }) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+  onmessageerror: ((event: any) => void) | null = null;
+  received: any[] = [];
+  terminated = false;
+  private dbPath = '';
+  private pendingLoads = new Map<number, number>();
+
+  constructor(private failOnInit = false, private crash?: { method: string; event: 'error' | 'messageerror' }) {}
+
+  postMessage(message: any) {
+    this.received.push(message);
+    Promise.resolve().then(() => this.respond(message));
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  private respond(message: any) {
+    const emit = (data: any) => this.onmessage?.({ data });
+    if (message.type === 'init') {
+      this.dbPath = message.dbPath;
+      if (this.failOnInit) {
+        this.onerror?.({ message: 'blocked by policy', preventDefault: () => undefined });
+      } else {
+        emit({ type: 'ready' });
+      }
+    } else if (message.type === 'db' && message.method === this.crash?.method) {
+      if (this.crash.event === 'error') {
+        this.onerror?.({ message: 'out of memory', preventDefault: () => undefined });
+      } else {
+        this.onmessageerror?.({});
+      }
+    } else if (message.type === 'db' && message.method === 'load') {
+      const storageId = 100 + message.id;
+      this.pendingLoads.set(storageId, message.id);
+      emit({ type: 'storage', id: storageId, operation: 'exists', args: [this.dbPath] });
+    } else if (message.type === 'storage-result') {
+      emit({ type: 'result', id: this.pendingLoads.get(message.id), value: message.value ? 'loaded existing' : 'created' });
+    } else if (message.type === 'db' || message.type === 'chunk' || message.type === 'checksum') {
+      emit({ type: 'error', id: message.id, message: `no handler for ${message.method || message.type}` });
+    }
+  }
+}
+
+function createStorage(existing: boolean): IndexStorage {
+  return { exists: vi.fn().mockResolvedValue(existing) } as unknown as IndexStorage;
+}
+
+describe('IndexWorkerClient', () => {
+  it('runs database calls in the worker and serves its file operations', async () => {
+    const worker = new FakeWorker();
+    const storage = createStorage(true);
+    const createInProcessHost = vi.fn();
+    const client = new IndexWorkerClient('/index/embeddings.db', storage, {
+      createWorker: () => worker as unknown as Worker,
+      createInProcessHost
+    });
+    const onChange = vi.fn();
+    client.onDidChange(onChange);
+
+    await expect(client.db.load()).resolves.toBe('loaded existing');
+
+    expect(worker.received[0]).toMatchObject({ type: 'init', dbPath: '/index/embeddings.db' });
+    expect(storage.exists).toHaveBeenCalledWith('/index/embeddings.db');
+    expect(client.isUsingWorker()).toBe(true);
+    expect(createInProcessHost).not.toHaveBeenCalled();
+    // load() may change the index, so listeners hear about it
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects with the error the worker reports and leaves listeners alone for reads', async () => {
+    const client = new IndexWorkerClient('/index/embeddings.db', createStorage(false), {
+      createWorker: () => new FakeWorker() as unknown as Worker,
+      createInProcessHost: vi.fn()
+    });
+    const onChange = vi.fn();
+    client.onDidChange(onChange);
+
+    await expect(client.db.getStats()).rejects.toThrow('no handler for getStats');
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('runs requests in-process when the worker cannot start', async () => {
+    const worker = new FakeWorker(true);
+    const handle = vi.fn().mockResolvedValue('abc123');
+    const client = new IndexWorkerClient('/index/embeddings.db', createStorage(false), {
+      createWorker: () => worker as unknown as Worker,
+      createInProcessHost: () => ({ handle })
+    });
+
+    await expect(client.checksum('text')).resolves.toBe('abc123');
+
+    expect(worker.terminated).toBe(true);
+    expect(client.isUsingWorker()).toBe(false);
+    expect(handle).toHaveBeenCalledWith(expect.objectContaining({ type: 'checksum', data: 'text' }));
+  });
+
+  it('rejects waiting requests and reopens the index in-process when the worker crashes', async () => {
+    const worker = new FakeWorker(false, { method: 'search', event: 'error' });
+    const handle = vi.fn().mockResolvedValue({ documentCount: 3 });
+    const client = new IndexWorkerClient('/index/embeddings.db', createStorage(true), {
+      createWorker: () => worker as unknown as Worker,
+      createInProcessHost: () => ({ handle })
+    });
+    const onChange = vi.fn();
+    client.onDidChange(onChange);
+    await client.db.load();
+
+    await expect(client.db.search([1, 0])).rejects.toThrow('Index worker failed: out of memory');
+
+    expect(worker.terminated).toBe(true);
+    expect(client.isUsingWorker()).toBe(false);
+    await expect(client.db.getStats()).resolves.toEqual({ documentCount: 3 });
+    expect(handle.mock.calls.map(call => call[0].method)).toEqual(['load', 'getStats']);
+    // Once for the load in the worker, once for reopening the index
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('treats a reply that cannot be read as a worker failure', async () => {
+    const worker = new FakeWorker(false, { method: 'getStats', event: 'messageerror' });
+    const client = new IndexWorkerClient('/index/embeddings.db', createStorage(false), {
+      createWorker: () => worker as unknown as Worker,
+      createInProcessHost: () => ({ handle: vi.fn().mockResolvedValue('abc123') })
+    });
+
+    await expect(client.db.getStats()).rejects.toThrow('Index worker failed: a reply could not be read');
+
+    expect(worker.terminated).toBe(true);
+    await expect(client.checksum('text')).resolves.toBe('abc123');
+  });
+
+  it('rejects requests after it is terminated', async () => {
+    const client = new IndexWorkerClient('/index/embeddings.db', createStorage(false), {
+      createInProcessHost: () => ({ handle: vi.fn().mockResolvedValue(null) })
+    });
+
+    client.terminate();
+
+    await expect(client.db.flush()).rejects.toThrow('Index worker stopped');
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getServerBaseUrl } from '../src/services/providers/LLMProvider';
+import { OllamaProvider } from '../src/services/providers/OllamaProvider';
+import { createLLMProvider } from '../src/services/providers/ProviderFactory';
+import { LLMService } from '../src/services/LLMService';
+
+declare global {
+  var __requestUrlMock: ReturnType<typeof vi.fn>;
+}
+
+function streamOf(lines: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      // Split across chunk boundaries the way a real socket would
+      const text = lines.join('\n');
+      const middle = Math.floor(text.length / 2);
+      controller.enqueue(encoder.encode(text.slice(0, middle)));
+      controller.enqueue(encoder.encode(text.slice(middle)));
+      controller.close();
+    }
+  });
+}
+
+describe('LLM providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('derives the server base URL from any API path', () => {
+    expect(getServerBaseUrl('http://localhost:11434/api/chat')).toBe('http://localhost:11434');
+    expect(getServerBaseUrl('http://localhost:11434')).toBe('http://localhost:11434');
+    expect(getServerBaseUrl('https://host/proxy/v1/chat/completions')).toBe('https://host/proxy');
+  });
+
+  it('picks the provider for the configured server type', () => {
+    expect(createLLMProvider('ollama', { endpoint: 'http://localhost:11434' }).type).toBe('ollama');
+    expect(createLLMProvider('llamacpp', { endpoint: 'http://localhost:8080' }).type).toBe('llamacpp');
+    expect(createLLMProvider(undefined, { endpoint: 'http://localhost:1234' }).type).toBe('openai-compatible');
+  });
+
+  it('sends Ollama native chat requests with options and images', async () => {
+    global.__requestUrlMock.mockResolvedValue({
+      status: 200,
+      text: '',
+      json: { message: { role: 'assistant', content: 'hi' }, done: true }
+    });
+
+    const service = new LLMService({
+      provider: 'ollama',
+      apiEndpoint: 'http://localhost:11434/api/chat',
+      model: 'llama3.2',
+      maxTokens: 256,
+      temperature: 0.2
+    });
+
+    const response = await service.sendVisionMessage('describe', 'data:image/png;base64,AAAA');
+
+    expect(response).toBe('hi');
+    const requestArgs = global.__requestUrlMock.mock.calls[0][0];
+    expect(requestArgs.url).toBe('http://localhost:11434/api/chat');
+    expect(JSON.parse(requestArgs.body)).toEqual({
+      model: 'llama3.2',
+      messages: [{ role: 'user', content: 'describe', images: ['AAAA'] }],
+      stream: false,
+      options: { temperature: 0.2, num_predict: 256 }
+    });
+  });
+
+  it('streams Ollama NDJSON deltas and signals completion once', async () => {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      status: 200,
+      body: streamOf([
+        JSON.stringify({ message: { content: 'Hel' }, done: false }),
+        JSON.stringify({ message: { content: 'lo' }, done: false }),
+        JSON.stringify({ message: { content: '' }, done: true }),
+        ''
+      ])
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new OllamaProvider({ endpoint: 'http://localhost:11434' });
+    const chunks: Array<[string, boolean]> = [];
+    await provider.chatStream({ messages: [{ role: 'user', content: 'hi' }], model: 'llama3.2' }, (chunk, done) => {
+      chunks.push([chunk, done]);
+    });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/chat');
+    expect(chunks).toEqual([['Hel', false], ['lo', false], ['', true]]);
+  });
+
+  it('embeds through /api/embed and lists embedding models from /api/tags', async () => {
+    global.__requestUrlMock.mockImplementation(async ({ url }: { url: string }) => url.endsWith('/api/tags')
+      ? {
+        status: 200,
+        text: '',
+        json: {
+          models: [
+            { name: 'llama3.2:latest', details: { family: 'llama' } },
+            { name: 'nomic-embed-text:latest', details: { family: 'nomic-bert' } }
+          ]
+        }
+      }
+      : { status: 200, text: '', json: { embeddings: [[0.1, 0.2], [0.3, 0.4]] } });
+
+    const provider = new OllamaProvider({ endpoint: 'http://localhost:11434/api/embed' });
+
+    await expect(provider.embed(['a', 'b'])).resolves.toEqual([[0.1, 0.2], [0.3, 0.4]]);
+    const embedCall = global.__requestUrlMock.mock.calls[1][0];
+    expect(embedCall.url).toBe('http://localhost:11434/api/embed');
+    expect(JSON.parse(embedCall.body)).toEqual({ model: 'nomic-embed-text:latest', input: ['a', 'b'] });
+
+    const service = new LLMService({ provider: 'ollama', apiEndpoint: 'http://localhost:11434' });
+    await expect(service.getAvailableEmbeddingModels()).resolves.toEqual(['nomic-embed-text:latest']);
+  });
+
+  it('counts tokens and reads the context size from a llama.cpp server', async () => {
+    global.__requestUrlMock.mockImplementation(async ({ url, body }: { url: string; body?: string }) => url.endsWith('/props')
+      ? { status: 200, text: '', json: { default_generation_settings: { n_ctx: 4096 } } }
+      : { status: 200, text: '', json: { tokens: JSON.parse(body!).content.split(' ').map((_: string, index: number) => index) } });
+
+    const service = new LLMService({ provider: 'llamacpp', apiEndpoint: 'http://localhost:8080/v1/chat/completions' });
+
+    await expect(service.countTokens(['one two three', 'four'])).resolves.toEqual([3, 1]);
+    expect(global.__requestUrlMock.mock.calls[0][0].url).toBe('http://localhost:8080/tokenize');
+    await expect(service.getContextWindow()).resolves.toBe(4096);
+    await expect(new LLMService({ provider: 'ollama', apiEndpoint: 'http://localhost:11434' }).countTokens(['x'])).resolves.toBeNull();
+  });
+});
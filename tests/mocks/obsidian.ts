@@ -1,6 +1,7 @@
 import { vi } from 'vitest';
 
 export const requestUrlMock = vi.fn();
+export const loadPdfJsMock = vi.fn();
 
 export class App {}
 
@@ -143,6 +144,7 @@ export class Notice {
 }
 
 export class TFile {}
+export class TFolder {}
 export class Events {}
 export class ProgressBarComponent {}
 
@@ -157,10 +159,24 @@ export function requestUrl(...args: any[]) {
   return requestUrlMock(...args);
 }
 
+export function loadPdfJs() {
+  return loadPdfJsMock();
+}
+
+export function normalizePath(path: string) {
+  const normalized = path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+  return normalized === '' ? '/' : normalized;
+}
+
 export function setIcon(el: HTMLElement, icon: string) {
   el.setAttribute('data-icon', icon);
 }
 
-export function getAllTags() {
-  return [];
+export function getAllTags(cache: any): string[] {
+  const tags: string[] = (cache?.tags || []).map((tag: any) => tag.tag);
+  const frontmatterTags = cache?.frontmatter?.tags;
+  for (const tag of Array.isArray(frontmatterTags) ? frontmatterTags : frontmatterTags ? [frontmatterTags] : []) {
+    tags.push(String(tag).startsWith('#') ? String(tag) : `#${tag}`);
+  }
+  return tags;
 }
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createModelProfile, getLLMConfigForProfile, ModelProfileSettings } from '../src/services/ModelProfiles';
+
+function createSettings(): ModelProfileSettings {
+  return {
+    llmProvider: 'openai-compatible',
+    apiEndpoint: 'http://localhost:1234/v1/chat/completions',
+    model: 'qwen3-4b',
+    maxTokens: 2000,
+    temperature: 0.7,
+    systemPrompt: 'Be brief',
+    modelProfiles: []
+  };
+}
+
+describe('ModelProfiles', () => {
+  it('creates profiles from the global settings', () => {
+    const settings = createSettings();
+    const profile = createModelProfile(settings, 'Fast');
+
+    expect(profile).toMatchObject({ name: 'Fast', provider: 'openai-compatible', model: 'qwen3-4b', maxTokens: 2000, systemPrompt: 'Be brief' });
+    expect(profile.id).toMatch(/^profile-/);
+  });
+
+  it('uses the selected profile and falls back to global settings for unknown ids', () => {
+    const settings = createSettings();
+    settings.modelProfiles.push({
+      id: 'deep',
+      name: 'Deep',
+      provider: 'ollama',
+      apiEndpoint: 'http://localhost:11434',
+      model: 'llama3.3:70b',
+      maxTokens: 8000,
+      temperature: 0.2,
+      systemPrompt: 'Think carefully'
+    });
+
+    expect(getLLMConfigForProfile(settings, 'deep')).toEqual({
+      apiEndpoint: 'http://localhost:11434',
+      maxTokens: 8000,
+      temperature: 0.2,
+      systemPrompt: 'Think carefully',
+      model: 'llama3.3:70b',
+      apiKey: undefined,
+      provider: 'ollama'
+    });
+    expect(getLLMConfigForProfile(settings, 'deleted').model).toBe('qwen3-4b');
+    expect(getLLMConfigForProfile(settings, null).provider).toBe('openai-compatible');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PdfTextExtractor } from '../src/services/PdfTextExtractor';
+import { loadPdfJsMock } from './mocks/obsidian';
+
+function createPdf(pages: Array<Array<{ str: string; hasEOL?: boolean }>>) {
+  const destroy = vi.fn().mockResolvedValue(undefined);
+  loadPdfJsMock.mockResolvedValue({
+    getDocument: () => ({
+      promise: Promise.resolve({
+        numPages: pages.length,
+        getPage: async (pageNumber: number) => ({
+          getTextContent: async () => ({ items: pages[pageNumber - 1] })
+        }),
+        destroy
+      })
+    })
+  });
+  return { destroy };
+}
+
+const app = { vault: { readBinary: vi.fn().mockResolvedValue(new ArrayBuffer(4)) } } as any;
+const file = { path: 'Papers/report.pdf', extension: 'pdf' } as any;
+
+describe('PdfTextExtractor', () => {
+  it('joins text items into lines and collapses whitespace', () => {
+    const text = PdfTextExtractor.joinTextItems([
+      { str: 'Quarterly  report', hasEOL: true },
+      { str: '', hasEOL: true },
+      { str: '', hasEOL: true },
+      { str: 'Revenue grew ' },
+      { str: 'by 4%.' }
+    ]);
+
+    expect(text).toBe('Quarterly report\n\nRevenue grew by 4%.');
+  });
+
+  it('returns page-numbered text and closes the document', async () => {
+    const { destroy } = createPdf([
+      [{ str: 'The first page explains the project goals.' }],
+      [{ str: 'The second page lists the open questions.' }]
+    ]);
+
+    const pages = await new PdfTextExtractor(app).extractPages(file);
+
+    expect(pages).toEqual([
+      { pageNumber: 1, text: 'The first page explains the project goals.', ocr: false },
+      { pageNumber: 2, text: 'The second page lists the open questions.', ocr: false }
+    ]);
+    expect(destroy).toHaveBeenCalled();
+  });
+
+  it('passes pages without a text layer to the OCR fallback', async () => {
+    createPdf([
+      [{ str: 'A page with a proper text layer to read.' }],
+      []
+    ]);
+    const ocrPage = vi.fn().mockResolvedValue('Scanned invoice total 120 EUR');
+
+    const pages = await new PdfTextExtractor(app).extractPages(file, ocrPage);
+
+    expect(ocrPage).toHaveBeenCalledTimes(1);
+    expect(ocrPage.mock.calls[0][0]).toBe(2);
+    expect(pages[1]).toEqual({ pageNumber: 2, text: 'Scanned invoice total 120 EUR', ocr: true });
+  });
+});
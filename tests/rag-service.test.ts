@@ -0,0 +1,491 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import initSqlJs from 'sql.js';
+import { FileSystemAdapter, TFile } from 'obsidian';
+
+vi.mock('@webreflection/sql.js', () => ({ default: initSqlJs }));
+vi.mock('sql.js/dist/sql-wasm.wasm', () => ({ default: undefined }));
+// The bundled worker only exists in the build; requests run in-process instead
+vi.mock('../src/workers/createIndexWorker', () => ({
+  createIndexWorker: () => {
+    throw new Error('No workers in tests');
+  }
+}));
+
+import { RAGService } from '../src/services/RAGService';
+import { SearchService } from '../src/services/SearchService';
+import { DEFAULT_SETTINGS, LocalLLMSettings } from '../src/services/SettingsManager';
+
+/**
+ * In-memory vault with just the parts of the Obsidian API the indexer uses
+ */
+function createVault(dir: string) {
+  const files = new Map<string, { file: TFile; content: string }>();
+  const metadata = new Map<string, unknown>();
+
+  const write = (filePath: string, content: string, mtime: number = Date.now(), file: TFile = files.get(filePath)?.file ?? new TFile()) => {
+    const name = filePath.substring(filePath.lastIndexOf('/') + 1);
+    Object.assign(file, {
+      path: filePath,
+      name,
+      basename: name.replace(/\.[^.]+$/, ''),
+      extension: name.substring(name.lastIndexOf('.') + 1),
+      stat: { ctime: mtime, mtime, size: content.length }
+    });
+    files.set(filePath, { file, content });
+    return file;
+  };
+
+  const rename = (oldPath: string, newPath: string) => {
+    const entry = files.get(oldPath)!;
+    files.delete(oldPath);
+    return write(newPath, entry.content, entry.file.stat.mtime, entry.file);
+  };
+
+  const remove = (filePath: string) => {
+    files.delete(filePath);
+  };
+
+  // Metadata cache entry of a file, as Obsidian would parse it
+  const setMetadata = (filePath: string, cache: unknown) => {
+    metadata.set(filePath, cache);
+  };
+
+  const app = {
+    vault: {
+      configDir: '.obsidian',
+      adapter: Object.assign(new FileSystemAdapter(), { getBasePath: () => dir }),
+      getFiles: () => Array.from(files.values()).map(entry => entry.file),
+      getMarkdownFiles: () => Array.from(files.values()).map(entry => entry.file).filter(file => file.extension === 'md'),
+      getAbstractFileByPath: (filePath: string) => files.get(filePath)?.file ?? null,
+      read: async (file: TFile) => files.get(file.path)!.content,
+      cachedRead: async (file: TFile) => files.get(file.path)!.content,
+      readBinary: async (file: TFile) => new TextEncoder().encode(files.get(file.path)!.content).buffer,
+      on: vi.fn(() => ({})),
+      offref: vi.fn()
+    },
+    metadataCache: {
+      getFileCache: vi.fn((file: TFile) => metadata.get(file.path) ?? null),
+      getFirstLinkpathDest: vi.fn(() => null),
+      on: vi.fn(() => ({})),
+      offref: vi.fn()
+    },
+    workspace: {
+      activeLeaf: null,
+      getLeavesOfType: () => [],
+      getActiveFile: () => null,
+      getActiveViewOfType: () => null,
+      on: vi.fn(() => ({})),
+      offref: vi.fn()
+    }
+  };
+
+  // Handler the service registered for a vault or metadata cache event
+  const handler = (name: string) => ([...app.vault.on.mock.calls, ...app.metadataCache.on.mock.calls] as unknown as [string, (...args: unknown[]) => unknown][])
+    .find(call => call[0] === name)![1];
+
+  return { app, write, rename, remove, setMetadata, handler };
+}
+
+/**
+ * Fake embedding model: one dimension per letter, so equal texts get equal vectors
+ */
+function embed(text: string): number[] {
+  const vector = new Array(26).fill(0);
+  for (const char of text.toLowerCase()) {
+    const code = char.charCodeAt(0) - 97;
+    if (code >= 0 && code < 26) {
+      vector[code]++;
+    }
+  }
+  return vector;
+}
+
+describe('RAGService', () => {
+  let dir: string;
+  let vault: ReturnType<typeof createVault>;
+  let service: RAGService;
+  let settings: LocalLLMSettings;
+  let generateEmbeddings: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'private-ai-rag-'));
+    vault = createVault(dir);
+    settings = { ...DEFAULT_SETTINGS, excludedFolders: [], excludedFilePatterns: [] };
+    service = new RAGService(vault.app as any, { id: 'private-ai' } as any, {
+      endpoint: 'http://localhost:1234/v1/embeddings',
+      model: 'test-embedder'
+    } as any, { autoMaintenance: false });
+    generateEmbeddings = vi.fn(async (texts: string[]) => texts.map(embed));
+    (service as any).embeddingService = {
+      generateEmbeddings,
+      generateEmbedding: async (text: string) => embed(text),
+      testConnection: async () => ({ success: true, dimensions: 26 }),
+      updateConfig: vi.fn()
+    };
+    await service.initialize(settings);
+  });
+
+  afterEach(async () => {
+    service.stopFileWatcher();
+    await service.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('embedding cache', () => {
+    const intro = '# Plan\n\nShip the public beta to the first customers in March, after the final review.';
+    const risks = '\n\n## Risks\n\nThe migration of the old accounts could take longer than the two weeks we planned.';
+
+    it('sends only texts missing from the cache to the embedding model', async () => {
+      vault.write('Notes/Plan.md', intro);
+      await service.reindexFile('Notes/Plan.md');
+      // Without stored vectors to reuse, only the cache can spare the first section
+      await service.removeFileFromIndex('Notes/Plan.md');
+      vault.write('Notes/Plan.md', intro + risks);
+      await service.reindexFile('Notes/Plan.md');
+
+      expect(generateEmbeddings).toHaveBeenCalledTimes(2);
+      expect(generateEmbeddings.mock.calls[1][0]).toHaveLength(1);
+      expect(generateEmbeddings.mock.calls[1][0][0]).toContain('migration of the old accounts');
+      expect(await service.getFileChunks('Notes/Plan.md')).toHaveLength(2);
+    });
+
+    it('does not reuse embeddings made with another model', async () => {
+      vault.write('Notes/Plan.md', intro);
+      await service.reindexFile('Notes/Plan.md');
+      await service.removeFileFromIndex('Notes/Plan.md');
+
+      service.updateEmbeddingConfig({ endpoint: 'http://localhost:1234/v1/embeddings', model: 'other-embedder' } as any);
+      await service.reindexFile('Notes/Plan.md');
+
+      expect(generateEmbeddings).toHaveBeenCalledTimes(2);
+    });
+
+    it('skips the cache when its size is set to off', async () => {
+      settings.embeddingCacheSizeMB = 0;
+      vault.write('Notes/Plan.md', intro);
+      await service.reindexFile('Notes/Plan.md');
+      await service.removeFileFromIndex('Notes/Plan.md');
+      await service.reindexFile('Notes/Plan.md');
+
+      expect(generateEmbeddings).toHaveBeenCalledTimes(2);
+      expect(service.getEmbeddingCacheStats()).toEqual({ entryCount: 0, sizeInBytes: 0 });
+    });
+  });
+
+  describe('renames', () => {
+    const note = '# Plan\n\nShip the public beta to the first customers in March, after the final review.';
+
+    beforeEach(() => {
+      service.startFileWatcher();
+    });
+
+    it('keeps the vectors of a renamed note whose content did not change', async () => {
+      vault.write('Notes/Plan.md', note);
+      await service.reindexFile('Notes/Plan.md');
+      expect(generateEmbeddings).toHaveBeenCalledTimes(1);
+
+      const file = vault.rename('Notes/Plan.md', 'Archive/Plan 2024.md');
+      vault.handler('rename')(file, 'Notes/Plan.md');
+      await vi.waitFor(async () => expect(await service.getFileChunks('Archive/Plan 2024.md')).not.toEqual([]));
+
+      expect(generateEmbeddings).toHaveBeenCalledTimes(1);
+      expect(await service.getFileChunks('Notes/Plan.md')).toEqual([]);
+      const results = await service.search('public beta', 5, 0, { folders: ['Archive'] });
+      expect(results.map(result => [result.path, result.title])).toEqual([['Archive/Plan 2024.md', 'Plan 2024']]);
+    });
+
+    it('re-embeds a renamed note whose content changed as well', async () => {
+      vault.write('Notes/Plan.md', note);
+      await service.reindexFile('Notes/Plan.md');
+
+      const file = vault.rename('Notes/Plan.md', 'Notes/Roadmap.md');
+      vault.write('Notes/Roadmap.md', note.replace('March', 'April'));
+      vault.handler('rename')(file, 'Notes/Plan.md');
+      await vi.waitFor(async () => expect((await service.getFileChunks('Notes/Roadmap.md')).map(chunk => chunk.text).join('\n')).toContain('April'));
+
+      expect(generateEmbeddings).toHaveBeenCalledTimes(2);
+      expect(await service.getFileChunks('Notes/Plan.md')).toEqual([]);
+    });
+  });
+
+  describe('images', () => {
+    const receiptText = 'Receipt from the hardware store for ten boxes of screws and two new hammers';
+    let extractTextFromImage: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      extractTextFromImage = vi.fn(async () => ({ success: true, extractedText: receiptText }));
+      (service as any).imageTextExtractor = { extractTextFromImage };
+    });
+
+    it('skips an image whose checksum has not changed', async () => {
+      vault.write('Scans/receipt.png', 'png bytes');
+
+      await service.processImagesInVault();
+      await service.processImagesInVault();
+
+      expect(extractTextFromImage).toHaveBeenCalledTimes(1);
+      expect(generateEmbeddings).toHaveBeenCalledTimes(1);
+      expect(await service.getFileChunks('Scans/receipt.png')).toHaveLength(1);
+    });
+
+    it('reuses cached text for an image with the same content instead of asking the vision model', async () => {
+      vault.write('Scans/receipt.png', 'png bytes');
+      await service.processImagesInVault();
+      vault.write('Archive/receipt copy.png', 'png bytes');
+
+      await service.processImagesInVault();
+
+      expect(extractTextFromImage).toHaveBeenCalledTimes(1);
+      expect((await service.getFileChunks('Archive/receipt copy.png')).map(chunk => chunk.text)).toEqual([receiptText]);
+      const results = await service.search('hardware store', 5, 0, { folders: ['Archive'] });
+      expect(results.map(result => result.title)).toEqual(['Image: receipt copy']);
+    });
+
+    it('indexes created images, re-extracts modified ones and moves renamed ones', async () => {
+      service.startFileWatcher();
+      const image = vault.write('Scans/receipt.png', 'png bytes');
+
+      vault.handler('create')(image);
+      await vi.waitFor(async () => expect(await service.getFileChunks('Scans/receipt.png')).toHaveLength(1));
+      expect(extractTextFromImage).toHaveBeenCalledTimes(1);
+
+      vault.write('Scans/receipt.png', 'edited png bytes');
+      vault.handler('modify')(image);
+      await vi.waitFor(() => expect(extractTextFromImage).toHaveBeenCalledTimes(2));
+
+      vault.rename('Scans/receipt.png', 'Archive/receipt.png');
+      vault.handler('rename')(image, 'Scans/receipt.png');
+      await vi.waitFor(async () => expect(await service.getFileChunks('Archive/receipt.png')).toHaveLength(1));
+
+      expect(await service.getFileChunks('Scans/receipt.png')).toEqual([]);
+      expect(extractTextFromImage).toHaveBeenCalledTimes(2);
+    });
+
+    it('leaves images alone when image text extraction is off', async () => {
+      settings.enableImageTextExtraction = false;
+      service.startFileWatcher();
+
+      vault.handler('create')(vault.write('Scans/receipt.png', 'png bytes'));
+      await new Promise(resolve => setTimeout(resolve, 600));
+
+      expect(extractTextFromImage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PDFs', () => {
+    const textPage = 'The first page explains how the quarterly budget was split between the three teams';
+    const scannedPage = 'The scanned second page lists every signature collected for the budget approval';
+
+    it('retries a PDF whose scanned page the vision model could not read', async () => {
+      settings.pdfOcrFallback = true;
+      const extractTextFromImageData = vi.fn()
+        .mockResolvedValueOnce({ success: false, extractedText: '', error: 'Vision model timed out' })
+        .mockResolvedValueOnce({ success: true, extractedText: scannedPage });
+      (service as any).imageTextExtractor = { extractTextFromImageData };
+      (service as any).pdfTextExtractor = {
+        extractPages: vi.fn(async (_file: TFile, ocrPage: (pageNumber: number, renderPage: () => Promise<string>) => Promise<string | null>) => {
+          const pages = [{ pageNumber: 1, text: textPage, ocr: false }];
+          const text = await ocrPage(2, async () => 'data:image/png;base64,');
+          return text ? pages.concat({ pageNumber: 2, text, ocr: true }) : pages;
+        })
+      };
+      service.startFileWatcher();
+      const pdf = vault.write('Finance/budget.pdf', 'pdf bytes');
+
+      vault.handler('create')(pdf);
+      await vi.waitFor(() => expect(service.getIndexFailures()).toMatchObject([{ filePath: 'Finance/budget.pdf', category: 'vision', attempts: 1 }]));
+      expect((await service.getFileChunks('Finance/budget.pdf')).map(chunk => chunk.pageNumber)).toEqual([1]);
+
+      // The retry reads the PDF again instead of treating it as unchanged
+      expect(service.retryAllIndexFailures()).toBe(1);
+      await vi.waitFor(async () => expect((await service.getFileChunks('Finance/budget.pdf')).map(chunk => chunk.pageNumber)).toEqual([1, 2]));
+      expect(service.getIndexFailures()).toEqual([]);
+
+      // Once complete, an unchanged PDF is skipped
+      vault.handler('modify')(pdf);
+      await new Promise(resolve => setTimeout(resolve, 600));
+      expect(extractTextFromImageData).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('failed files', () => {
+    const note = '# Plan\n\nShip the public beta to the first customers in March, after the final review.';
+    const draft = '# Draft\n\nCollect feedback from the beta customers and sort it by how often it comes up.';
+
+    it('waits longer after each failed attempt, up to half a day', async () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      vault.write('Notes/Plan.md', note);
+      generateEmbeddings.mockRejectedValue(new Error('fetch failed'));
+
+      const delays: number[] = [];
+      for (let attempt = 0; attempt < 6; attempt++) {
+        await expect(service.reindexFile('Notes/Plan.md')).rejects.toThrow('fetch failed');
+        delays.push(service.getIndexFailures()[0].nextRetry - 1_000_000);
+      }
+
+      const minute = 60 * 1000;
+      expect(delays).toEqual([minute, 5 * minute, 30 * minute, 120 * minute, 720 * minute, 720 * minute]);
+      expect(service.getIndexFailures()).toMatchObject([{ filePath: 'Notes/Plan.md', attempts: 6, error: 'fetch failed' }]);
+    });
+
+    it('forgets a failure once the file is indexed', async () => {
+      vault.write('Notes/Plan.md', note);
+      generateEmbeddings.mockRejectedValueOnce(new Error('fetch failed'));
+
+      await expect(service.reindexFile('Notes/Plan.md')).rejects.toThrow('fetch failed');
+      expect(service.getIndexFailures()).toMatchObject([{ filePath: 'Notes/Plan.md', attempts: 1 }]);
+
+      await service.reindexFile('Notes/Plan.md');
+      expect(service.getIndexFailures()).toEqual([]);
+      const [entry] = await service.getIndexInspectorEntries();
+      expect(entry).toMatchObject({ path: 'Notes/Plan.md', status: 'indexed', lastError: null });
+    });
+
+    it('drops failures of files that are gone or now excluded instead of retrying them', async () => {
+      generateEmbeddings.mockRejectedValue(new Error('fetch failed'));
+      for (const filePath of ['Notes/Plan.md', 'Private/Diary.md', 'Notes/Deleted.md']) {
+        vault.write(filePath, note);
+        await expect(service.reindexFile(filePath)).rejects.toThrow('fetch failed');
+      }
+      vault.remove('Notes/Deleted.md');
+      settings.excludedFolders = ['Private'];
+      generateEmbeddings.mockImplementation(async (texts: string[]) => texts.map(embed));
+
+      expect(service.retryAllIndexFailures()).toBe(1);
+
+      await vi.waitFor(async () => expect(await service.getFileChunks('Notes/Plan.md')).not.toEqual([]), { timeout: 3000 });
+      expect(service.getIndexFailures()).toEqual([]);
+      expect(await service.getFileChunks('Private/Diary.md')).toEqual([]);
+      expect((await service.getIndexInspectorEntries()).filter(entry => entry.lastError)).toEqual([]);
+    });
+
+    it('waits for a running index pass before retrying all failed files', async () => {
+      vault.write('Notes/Plan.md', note);
+      generateEmbeddings.mockRejectedValueOnce(new Error('fetch failed'));
+      await expect(service.reindexFile('Notes/Plan.md')).rejects.toThrow('fetch failed');
+
+      // Hold the pass on embedding another note
+      let finishDraft!: () => void;
+      generateEmbeddings.mockImplementationOnce((texts: string[]) => new Promise(resolve => {
+        finishDraft = () => resolve(texts.map(embed));
+      }));
+      vault.write('Notes/Draft.md', draft);
+      const pass = service.buildIndex();
+      await vi.waitFor(() => expect(finishDraft).toBeDefined());
+      expect(service.isCurrentlyIndexing).toBe(true);
+
+      expect(service.retryAllIndexFailures()).toBe(0);
+      await new Promise(resolve => setTimeout(resolve, 600));
+      expect(await service.getFileChunks('Notes/Plan.md')).toEqual([]);
+
+      finishDraft();
+      await pass;
+      await vi.waitFor(async () => expect(await service.getFileChunks('Notes/Plan.md')).not.toEqual([]), { timeout: 3000 });
+      expect(service.getIndexFailures()).toEqual([]);
+    });
+  });
+
+  describe('note privacy', () => {
+    const note = '# Plan\n\nShip the public beta to the first customers in March, after the final review.';
+    const setPrivacy = (filePath: string, privacy: string | null) => {
+      vault.setMetadata(filePath, privacy ? { frontmatter: { 'private-ai': privacy } } : null);
+    };
+
+    it('removes a note from the index once it is marked exclude', async () => {
+      const file = vault.write('Notes/Plan.md', note);
+      await service.reindexFile('Notes/Plan.md');
+      service.startFileWatcher();
+
+      setPrivacy('Notes/Plan.md', 'exclude');
+      vault.handler('changed')(file);
+
+      await vi.waitFor(async () => expect(await service.getFileChunks('Notes/Plan.md')).toEqual([]));
+    });
+
+    it.each([['default', null], ['no-send', 'no-send']])('indexes a note that was excluded at startup once it is %s', async (_name, privacy) => {
+      const file = vault.write('Notes/Plan.md', note);
+      setPrivacy('Notes/Plan.md', 'exclude');
+      service.startFileWatcher();
+
+      setPrivacy('Notes/Plan.md', privacy);
+      vault.handler('changed')(file);
+
+      await vi.waitFor(async () => expect(await service.getFileChunks('Notes/Plan.md')).not.toEqual([]), { timeout: 3000 });
+    });
+
+    it('applies a privacy change made during an index pass once the pass is done', async () => {
+      const file = vault.write('Notes/Plan.md', note);
+      await service.reindexFile('Notes/Plan.md');
+      service.startFileWatcher();
+
+      // Hold the pass on embedding another note
+      let finishDraft!: () => void;
+      generateEmbeddings.mockImplementationOnce((texts: string[]) => new Promise(resolve => {
+        finishDraft = () => resolve(texts.map(embed));
+      }));
+      vault.write('Notes/Draft.md', '# Draft\n\nCollect feedback from the beta customers and sort it by how often it comes up.');
+      const pass = service.buildIndex();
+      await vi.waitFor(() => expect(finishDraft).toBeDefined());
+
+      setPrivacy('Notes/Plan.md', 'exclude');
+      vault.handler('changed')(file);
+      finishDraft();
+      await pass;
+
+      await vi.waitFor(async () => expect(await service.getFileChunks('Notes/Plan.md')).toEqual([]));
+    });
+
+    it('leaves out search results embedded from a note that may not be sent', async () => {
+      settings.resolveEmbeds = true;
+      const secret = vault.write('Private/Salaries.md', 'Everyone on the platform team gets a raise of eight percent from the first of May.');
+      const content = '# Plan\n\nShip the public beta to the first customers in March, after the final review.\n\n![[Salaries]]';
+      vault.write('Notes/Plan.md', content);
+      const embedStart = content.indexOf('![[');
+      vault.setMetadata('Notes/Plan.md', { embeds: [{ link: 'Salaries', position: { start: { offset: embedStart }, end: { offset: content.length } } }] });
+      vault.app.metadataCache.getFirstLinkpathDest.mockImplementation(((linkPath: string) => linkPath === 'Salaries' ? secret : null) as any);
+      await service.reindexFile('Notes/Plan.md');
+      await vi.waitFor(() => expect(service.isIndexEmpty()).toBe(false));
+      const searchService = new SearchService(vault.app as any, service);
+
+      expect((await service.getFileChunks('Notes/Plan.md')).map(chunk => chunk.originPath)).toEqual([undefined, 'Private/Salaries.md']);
+      setPrivacy('Private/Salaries.md', 'no-send');
+      const results = await searchService.searchVault('raise for the platform team and the public beta', { maxResults: 5, threshold: 0.01 });
+
+      expect(results.map(result => result.content)).toEqual([expect.stringContaining('public beta')]);
+    });
+  });
+
+  describe('index inspector actions', () => {
+    it('excludes single files by their exact path only', async () => {
+      settings.excludedFiles = ['Notes/a.md', 'Drafts/[*]?.md'];
+      for (const filePath of ['Notes/a.md', 'Archive/Notes/a.md', 'Other/a.md', 'Drafts/[*]?.md', 'Drafts/[x]y.md']) {
+        vault.write(filePath, 'text');
+      }
+
+      const entries = await service.getIndexInspectorEntries();
+
+      expect(Object.fromEntries(entries.map(entry => [entry.path, entry.status]))).toEqual({
+        'Notes/a.md': 'excluded',
+        'Archive/Notes/a.md': 'not-indexed',
+        'Other/a.md': 'not-indexed',
+        'Drafts/[*]?.md': 'excluded',
+        'Drafts/[x]y.md': 'not-indexed'
+      });
+    });
+
+    it('refuses to reindex a file while the index needs a rebuild', async () => {
+      vault.write('Notes/Plan.md', '# Plan\n\nShip the public beta to the first customers in March, after the final review.');
+      await service.buildIndex();
+      generateEmbeddings.mockClear();
+
+      service.updateEmbeddingConfig({ endpoint: 'http://localhost:1234/v1/embeddings', model: 'other-embedder' } as any);
+      await vi.waitFor(() => expect(service.getIndexMismatchReason()).not.toBeNull());
+
+      await expect(service.reindexFile('Notes/Plan.md')).rejects.toThrow(`Index needs a rebuild: ${service.getIndexMismatchReason()}`);
+      expect(generateEmbeddings).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -43,6 +43,22 @@ Object.defineProperty(HTMLElement.prototype, 'removeClass', {
   configurable: true
 });
 
+Object.defineProperty(HTMLElement.prototype, 'toggleClass', {
+  value(this: HTMLElement, cls: string, value: boolean) {
+    this.classList.toggle(cls, value);
+  },
+  configurable: true
+});
+
+Object.defineProperty(HTMLElement.prototype, 'setCssProps', {
+  value(this: HTMLElement, props: Record<string, string>) {
+    for (const [k, v] of Object.entries(props)) {
+      this.style.setProperty(k, v);
+    }
+  },
+  configurable: true
+});
+
 Object.defineProperty(HTMLElement.prototype, 'setText', {
   value(this: HTMLElement, text: string) {
     this.textContent = text;
@@ -56,3 +72,11 @@ Object.defineProperty(HTMLElement.prototype, 'createDiv', {
   },
   configurable: true
 });
+
+// Notices built from a fragment use the same helpers
+for (const method of ['createEl', 'createDiv']) {
+  Object.defineProperty(DocumentFragment.prototype, method, {
+    value: (HTMLElement.prototype as any)[method],
+    configurable: true
+  });
+}
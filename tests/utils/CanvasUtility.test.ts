@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { CanvasUtility } from '../../src/utils/CanvasUtility';
+
+const canvas = JSON.stringify({
+	nodes: [
+		{ id: 'group', type: 'group', label: 'Launch plan', x: 0, y: 0, width: 800, height: 600 },
+		{ id: 'goal', type: 'text', text: '## Goal\nShip the beta in May', x: 20, y: 40, width: 300, height: 100 },
+		{ id: 'spec', type: 'file', file: 'Projects/Spec.md', subpath: '#Scope', x: 20, y: 200, width: 300, height: 200 },
+		{ id: 'intro', type: 'text', text: 'Planning board for Q2', x: 0, y: -200, width: 300, height: 100 },
+		{ id: 'site', type: 'link', url: 'https://example.com', x: 900, y: 0, width: 300, height: 100 }
+	],
+	edges: [
+		{ id: 'e1', fromNode: 'goal', toNode: 'spec', label: 'described in' },
+		{ id: 'e2', fromNode: 'spec', toNode: 'site' },
+		{ id: 'e3', fromNode: 'spec', toNode: 'missing' }
+	]
+});
+
+describe('CanvasUtility', () => {
+	describe('toMarkdown', () => {
+		it('should render groups as headings over the cards inside them', () => {
+			const markdown = CanvasUtility.toMarkdown(canvas);
+			expect(markdown).toContain('Planning board for Q2\n\n# Launch plan\n\n**Goal**\nShip the beta in May\n\n[[Projects/Spec.md#Scope]]');
+			expect(markdown.indexOf('https://example.com')).toBeLessThan(markdown.indexOf('# Connections'));
+		});
+
+		it('should list edges with their labels and skip dangling ones', () => {
+			const markdown = CanvasUtility.toMarkdown(canvas);
+			expect(markdown).toContain('# Connections\n\n- Goal → described in → [[Projects/Spec.md#Scope]]\n- [[Projects/Spec.md#Scope]] → https://example.com');
+			expect(markdown).not.toContain('missing');
+		});
+
+		it('should nest groups inside groups', () => {
+			const nested = JSON.stringify({
+				nodes: [
+					{ id: 'outer', type: 'group', label: 'Roadmap', x: 0, y: 0, width: 1000, height: 1000 },
+					{ id: 'inner', type: 'group', x: 100, y: 100, width: 400, height: 400 },
+					{ id: 'card', type: 'text', text: 'Hire a designer', x: 150, y: 150, width: 200, height: 100 }
+				],
+				edges: []
+			});
+			expect(CanvasUtility.toMarkdown(nested)).toBe('# Roadmap\n\n## Untitled group\n\nHire a designer');
+		});
+
+		it('should return nothing for malformed canvas files', () => {
+			expect(CanvasUtility.toMarkdown('{not json')).toBe('');
+			expect(CanvasUtility.toMarkdown('{"nodes": 3}')).toBe('');
+		});
+	});
+
+	describe('getReferencedFiles', () => {
+		it('should list each file card once in reading order', () => {
+			const data = CanvasUtility.parse(JSON.stringify({
+				nodes: [
+					{ id: 'b', type: 'file', file: 'B.md', x: 0, y: 100, width: 10, height: 10 },
+					{ id: 'a', type: 'file', file: 'A.md', x: 0, y: 0, width: 10, height: 10 },
+					{ id: 'a2', type: 'file', file: 'A.md', x: 50, y: 100, width: 10, height: 10 }
+				]
+			}));
+			expect(CanvasUtility.getReferencedFiles(data)).toEqual(['A.md', 'B.md']);
+		});
+	});
+});
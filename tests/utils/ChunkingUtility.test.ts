@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { ChunkingUtility } from '../../src/utils/ChunkingUtility';
+
+function sentence(words: number, word: string = 'word'): string {
+	return new Array(words).fill(word).join(' ') + '.';
+}
+
+describe('ChunkingUtility', () => {
+	describe('splitMarkdown', () => {
+		it('should start a new chunk at every heading and record the heading path', () => {
+			const content = [
+				'---',
+				'status: draft',
+				'---',
+				'# Project X',
+				sentence(12, 'intro'),
+				'## Decisions',
+				'### 2024',
+				sentence(12, 'decided'),
+				'## Risks',
+				sentence(12, 'risk')
+			].join('\n');
+
+			const chunks = ChunkingUtility.splitMarkdown(content);
+
+			expect(chunks.map(chunk => chunk.headingPath)).toEqual([
+				['Project X'],
+				['Project X', 'Decisions', '2024'],
+				['Project X', 'Risks']
+			]);
+			expect(chunks.map(chunk => chunk.index)).toEqual([0, 1, 2]);
+			expect(chunks[1].text).toBe(sentence(12, 'decided'));
+		});
+
+		it('should keep code blocks, tables and list formatting intact', () => {
+			const code = '```ts\nconst a = 1;\n\nconst b = 2;\n```';
+			const table = '| Name | Value |\n| --- | --- |\n| alpha | 1 |';
+			const list = '- first item here\n- second item here\n  - nested item';
+			const content = `# Notes\n${sentence(5)}\n\n${list}\n\n${code}\n\n${table}`;
+
+			const [chunk] = ChunkingUtility.splitMarkdown(content);
+
+			expect(chunk.text).toBe(`${sentence(5)}\n\n${list}\n\n${code}\n\n${table}`);
+		});
+
+		it('should split long sections near 200 words without breaking a code block', () => {
+			const code = '```\n' + new Array(40).fill('line of code here').join('\n') + '\n```';
+			const content = `# Long\n${sentence(150, 'a')}\n\n${code}\n\n${sentence(150, 'b')}`;
+
+			const chunks = ChunkingUtility.splitMarkdown(content);
+
+			expect(chunks.map(chunk => chunk.text)).toEqual([sentence(150, 'a'), code, sentence(150, 'b')]);
+			expect(chunks.every(chunk => chunk.headingPath[0] === 'Long')).toBe(true);
+		});
+
+		it('should split an oversized paragraph at sentence boundaries and skip tiny chunks', () => {
+			const content = `Too short.\n\n# Big\n${sentence(200)} ${sentence(200)}`;
+
+			const chunks = ChunkingUtility.splitMarkdown(content);
+
+			expect(chunks.map(chunk => chunk.text)).toEqual([sentence(200), sentence(200)]);
+		});
+
+		it('should keep embedded text in its own chunks under the headings around the embed', () => {
+			const chunks = ChunkingUtility.splitMarkdown([
+				{ text: `# Plan\n${sentence(12, 'host')}`, depth: 0 },
+				{ text: `## Goals\n${sentence(12, 'goal')}`, depth: 1, origin: 'Goals.md' },
+				{ text: sentence(12, 'after'), depth: 0 }
+			]);
+
+			expect(chunks.map(chunk => [chunk.headingPath, chunk.origin])).toEqual([
+				[['Plan'], undefined],
+				[['Plan', 'Goals'], 'Goals.md'],
+				[['Plan'], undefined]
+			]);
+			expect(chunks[1].text).toBe(sentence(12, 'goal'));
+		});
+	});
+
+	describe('createChunkIds', () => {
+		it('should keep the id of an unchanged chunk when chunks before it change', () => {
+			const before = ['intro v1', 'details', 'details'].map(ChunkingUtility.getContentHash);
+			const after = ['new section', 'intro v2', 'details', 'details'].map(ChunkingUtility.getContentHash);
+
+			const beforeIds = ChunkingUtility.createChunkIds('note.md', before);
+			const afterIds = ChunkingUtility.createChunkIds('note.md', after);
+
+			expect(beforeIds[1]).toBe(`note.md#${ChunkingUtility.getContentHash('details')}`);
+			expect(beforeIds[2]).toBe(`${beforeIds[1]}~2`);
+			expect(afterIds.slice(2)).toEqual(beforeIds.slice(1));
+			expect(afterIds[1]).not.toBe(beforeIds[0]);
+		});
+	});
+
+	describe('getEmbeddingText', () => {
+		it('should prepend the breadcrumb to the chunk text', () => {
+			expect(ChunkingUtility.getEmbeddingText({ text: 'Body', headingPath: ['Project X', 'Decisions', '2024'] }))
+				.toBe('Project X > Decisions > 2024\n\nBody');
+			expect(ChunkingUtility.getEmbeddingText({ text: 'Body', headingPath: [] })).toBe('Body');
+		});
+	});
+});
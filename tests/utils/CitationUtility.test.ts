@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { CitationUtility } from '../../src/utils/CitationUtility';
+
+describe('CitationUtility', () => {
+	describe('splitCitations', () => {
+		it('should split single and grouped markers into citation segments', () => {
+			expect(CitationUtility.splitCitations('Launch in May [1], beta in June [2, 3].', 3)).toEqual([
+				{ type: 'text', text: 'Launch in May ' },
+				{ type: 'citation', index: 1 },
+				{ type: 'text', text: ', beta in June ' },
+				{ type: 'citation', index: 2 },
+				{ type: 'citation', index: 3 },
+				{ type: 'text', text: '.' }
+			]);
+		});
+
+		it('should leave markers without a matching source as text', () => {
+			expect(CitationUtility.splitCitations('See [0] and [4]', 3)).toEqual([
+				{ type: 'text', text: 'See [0] and [4]' }
+			]);
+		});
+	});
+
+	describe('createExcerpt', () => {
+		it('should use the first non-empty line of the chunk', () => {
+			expect(CitationUtility.createExcerpt('\n\n  Launch is planned for May.  \nMore')).toBe('Launch is planned for May.');
+		});
+	});
+
+	describe('findExcerptLine', () => {
+		it('should return the zero-based line where the excerpt starts', () => {
+			expect(CitationUtility.findExcerptLine('# Title\n\nLaunch is planned.', 'Launch is planned.')).toBe(2);
+		});
+
+		it('should return null when the excerpt is missing', () => {
+			expect(CitationUtility.findExcerptLine('# Title', 'Launch')).toBeNull();
+		});
+	});
+});
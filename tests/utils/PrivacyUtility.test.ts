@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { PrivacyUtility } from '../../src/utils/PrivacyUtility';
+
+describe('PrivacyUtility', () => {
+	describe('getNotePrivacy', () => {
+		it('should read the private-ai property', () => {
+			expect(PrivacyUtility.getNotePrivacy({ frontmatter: { 'private-ai': 'exclude' } } as any)).toBe('exclude');
+			expect(PrivacyUtility.getNotePrivacy({ frontmatter: { 'private-ai': ' No-Send ' } } as any)).toBe('no-send');
+			expect(PrivacyUtility.getNotePrivacy({ frontmatter: { 'private-ai': ['open-only'] } } as any)).toBe('open-only');
+			expect(PrivacyUtility.getNotePrivacy({ frontmatter: { 'private-ai': 'sometimes' } } as any)).toBe('default');
+			expect(PrivacyUtility.getNotePrivacy(null)).toBe('default');
+		});
+
+		it('should read inline and frontmatter tags', () => {
+			expect(PrivacyUtility.getNotePrivacy({ tags: [{ tag: '#no-ai' }] } as any)).toBe('exclude');
+			expect(PrivacyUtility.getNotePrivacy({ frontmatter: { tags: ['private-ai/open-only'] } } as any)).toBe('open-only');
+			expect(PrivacyUtility.getNotePrivacy({ tags: [{ tag: '#ai' }] } as any)).toBe('default');
+		});
+
+		it('should pick the most restrictive marker', () => {
+			const metadata = { frontmatter: { 'private-ai': 'open-only' }, tags: [{ tag: '#private-ai/no-send' }] };
+			expect(PrivacyUtility.getNotePrivacy(metadata as any)).toBe('no-send');
+		});
+	});
+
+	describe('canSend', () => {
+		it('should only send open-only notes while they are open', () => {
+			expect(PrivacyUtility.canSend('default', false)).toBe(true);
+			expect(PrivacyUtility.canSend('open-only', false)).toBe(false);
+			expect(PrivacyUtility.canSend('open-only', true)).toBe(true);
+			expect(PrivacyUtility.canSend('no-send', true)).toBe(false);
+			expect(PrivacyUtility.canSend('exclude', true)).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { QueryOperatorUtility } from '../../src/utils/QueryOperatorUtility';
+
+describe('QueryOperatorUtility', () => {
+	describe('parse', () => {
+		it('should strip operators from the message and keep the question', () => {
+			const parsed = QueryOperatorUtility.parse('tag:#project-x what did we decide path:Meetings/ after:2024-01-01 in:[[Some Note|alias]]?');
+
+			expect(parsed.query).toBe('what did we decide ?');
+			expect(parsed.operators).toEqual([
+				{ type: 'tag', value: 'project-x', raw: 'tag:#project-x' },
+				{ type: 'path', value: 'Meetings', raw: 'path:Meetings/' },
+				{ type: 'after', value: '2024-01-01', raw: 'after:2024-01-01' },
+				{ type: 'in', value: 'Some Note', raw: 'in:[[Some Note|alias]]' }
+			]);
+		});
+
+		it('should accept quoted values with spaces', () => {
+			const parsed = QueryOperatorUtility.parse('path:"Team notes/2024" summary');
+
+			expect(parsed.query).toBe('summary');
+			expect(parsed.operators[0].value).toBe('Team notes/2024');
+		});
+
+		it('should leave invalid dates and words that merely contain a colon in the text', () => {
+			const parsed = QueryOperatorUtility.parse('after:2024-02-30 and the ratio 3:1 built-in:true');
+
+			expect(parsed.operators).toEqual([]);
+			expect(parsed.query).toBe('after:2024-02-30 and the ratio 3:1 built-in:true');
+		});
+	});
+
+	describe('toMetadataFilter', () => {
+		it('should pool operators of the same kind and resolve note links', () => {
+			const { operators } = QueryOperatorUtility.parse('tag:a tag:b in:[[Plan]] in:[[Missing]] before:2024-03-01');
+			const filter = QueryOperatorUtility.toMetadataFilter(operators, link => link === 'Plan' ? 'Projects/Plan.md' : null);
+
+			expect(filter).toEqual({
+				tags: ['a', 'b'],
+				filePaths: ['Projects/Plan.md'],
+				modifiedBefore: new Date(2024, 2, 1).getTime() - 1
+			});
+		});
+
+		it('should match nothing when no in: link resolves', () => {
+			const { operators } = QueryOperatorUtility.parse('tag:a in:[[Missing]]');
+
+			expect(QueryOperatorUtility.toMetadataFilter(operators, () => null)).toEqual({
+				tags: ['a'],
+				matchNone: true
+			});
+		});
+
+		it('should use the start of the local day for after:', () => {
+			const { operators } = QueryOperatorUtility.parse('after:2024-01-15');
+
+			expect(QueryOperatorUtility.toMetadataFilter(operators, () => null)).toEqual({
+				modifiedAfter: new Date(2024, 0, 15).getTime()
+			});
+		});
+	});
+});